@@ -11,21 +11,25 @@ import {
   Wallet,
   X,
 } from 'lucide-react'
-import { palette } from './theme/colors'
+import { color, palette } from './theme/colors'
 import Dashboard from './pages/Dashboard'
 import Assets from './pages/Assets'
 import Transactions, { type FlowsInit } from './pages/Transactions'
 import Strategies, { type StrategiesInit } from './pages/Strategies'
 import SettingsPage from './pages/Settings'
+import PriceData from './pages/PriceData'
 import VisitStats from './pages/VisitStats'
 import AssistantFab from './components/AssistantFab'
 import AssistantPanel from './components/AssistantPanel'
 import AssistantConfirmModals from './components/AssistantConfirmModals'
 import ShortcutHelpModal from './components/ShortcutHelpModal'
+import WorkspaceSwitcher from './components/WorkspaceSwitcher'
 import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts'
+import { useAutoRefresh } from './hooks/useAutoRefresh'
 import { useAssetStaleCount } from './hooks/useSummary'
 import { useStrategyStaleCount } from './hooks/useStrategySummary'
 import { useAssistantStore } from './assistantStore'
+import { useStore } from './store'
 import type { AppPageId } from './types/assistant'
 
 const NAV = [
@@ -36,7 +40,7 @@ const NAV = [
 ] as const
 
 type NavId = (typeof NAV)[number]['id']
-type PageId = NavId | 'flows'
+type PageId = NavId | 'flows' | 'prices'
 
 const SIDEBAR_EXPANDED = 'w-56'
 const SIDEBAR_COLLAPSED = 'w-[4.5rem]'
@@ -79,6 +83,7 @@ export default function App() {
   const [page, setPage] = useState<PageId>('dashboard')
   const [strategiesInit, setStrategiesInit] = useState<StrategiesInit | undefined>()
   const [flowsInit, setFlowsInit] = useState<FlowsInit | undefined>()
+  const [priceSymbol, setPriceSymbol] = useState<string | undefined>()
   const [collapsed, setCollapsed] = useState(false)
   const [mobileOpen, setMobileOpen] = useState(false)
   const [helpOpen, setHelpOpen] = useState(false)
@@ -86,11 +91,26 @@ export default function App() {
   const toggleAssistant = useAssistantStore((s) => s.toggle)
   const assetStaleCount = useAssetStaleCount()
   const strategyStaleCount = useStrategyStaleCount()
+  const workspaceId = useStore((s) => s.workspaceId)
+  const readOnly = useStore((s) => s.readOnly)
+  const storageError = useStore((s) => s.storageError)
+  const dismissStorageError = useStore((s) => s.dismissStorageError)
+  const backfillNotice = useStore((s) => s.backfillNotice)
+  const dismissBackfillNotice = useStore((s) => s.dismissBackfillNotice)
 
   useEffect(() => {
     initAnalytics('dashboard')
   }, [])
 
+  useEffect(() => {
+    const { assets, readOnly, recordDueLoanTxs, materializeRecurring } = useStore.getState()
+    if (readOnly) return
+    recordDueLoanTxs(assets.filter((a) => a.loan?.autoRecord).map((a) => a.id))
+    materializeRecurring()
+  }, [])
+
+  useAutoRefresh()
+
   const goTo = useCallback((id: NavId) => {
     setPage(id)
     reportPageView(id)
@@ -104,6 +124,13 @@ export default function App() {
     setMobileOpen(false)
   }, [])
 
+  const goToPriceData = useCallback((symbol?: string) => {
+    setPriceSymbol(symbol)
+    setPage('prices')
+    reportPageView('prices')
+    setMobileOpen(false)
+  }, [])
+
   const onAssistantNavigate = useCallback(
     (id: AppPageId) => {
       if (id === 'flows') goToFlows()
@@ -199,6 +226,8 @@ export default function App() {
           </button>
         </div>
 
+        <WorkspaceSwitcher collapsed={collapsed} />
+
         <nav className="flex-1 space-y-1 px-3">
           {NAV.map((item) => {
             const Icon = item.icon
@@ -286,12 +315,36 @@ export default function App() {
 
       {/* 主内容 */}
       <main className={`px-4 pb-10 pt-20 transition-all duration-200 md:pt-8 md:px-6 lg:px-10 ${mainMargin}`}>
-        <div key={page} className="animate-fade-in mx-auto max-w-6xl space-y-6">
-          {page === 'dashboard' && <Dashboard goTo={(p) => goTo(p as NavId)} />}
+        <div key={`${page}-${workspaceId}`} className="animate-fade-in mx-auto max-w-6xl space-y-6">
+          {storageError && (
+            <div className={`${color.alertWarn} flex items-start justify-between gap-3`} role="alert">
+              <span>{storageError}</span>
+              <button type="button" className="shrink-0 hover:underline" onClick={dismissStorageError}>
+                知道了
+              </button>
+            </div>
+          )}
+          {backfillNotice && (
+            <div className={`${color.alertInfo} flex items-start justify-between gap-3`}>
+              <span>回填历史行情:{backfillNotice}</span>
+              <button type="button" className="shrink-0 hover:underline" onClick={dismissBackfillNotice}>
+                知道了
+              </button>
+            </div>
+          )}
+          {readOnly && (
+            <p className={color.alertInfo}>
+              家庭合并视图:各账本的资产按持有比例汇总,仅供查看;记账与修改请切换到具体账本。
+            </p>
+          )}
+          {page === 'dashboard' && (
+            <Dashboard goTo={(p) => (p === 'flows' ? goToFlows() : goTo(p as NavId))} />
+          )}
           {page === 'assets' && (
             <Assets
               onViewClosedStrategies={goToClosedStrategies}
               onViewAllFlows={(assetId) => goToFlows({ tab: 'asset', filterAssetId: assetId })}
+              onViewPriceData={goToPriceData}
             />
           )}
           {page === 'strategies' && (
@@ -307,7 +360,8 @@ export default function App() {
               initial={flowsInit}
             />
           )}
-          {page === 'settings' && <SettingsPage />}
+          {page === 'prices' && <PriceData key={priceSymbol ?? ''} initialSymbol={priceSymbol} />}
+          {page === 'settings' && <SettingsPage onOpenPriceData={() => goToPriceData()} />}
         </div>
       </main>
 
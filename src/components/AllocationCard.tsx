@@ -0,0 +1,117 @@
+import { useState } from 'react'
+import { useStore } from '../store'
+import { allocationDrift } from '../engine/allocation'
+import type { AssetSnapshot } from '../types'
+import { fmtCompact, fmtPct } from '../utils/format'
+import { palette } from '../theme/colors'
+import EChart from './EChart'
+import { lightAxis, lightTooltip } from './chartTheme'
+import { Card, CardBody, CardHeader } from './ui/Card'
+import Modal from './Modal'
+import AllocationForm from './AllocationForm'
+import RebalanceCalculator from './RebalanceCalculator'
+
+/** 总览页目标配置卡:各组实际与目标占比的偏离,超出容忍带高亮 */
+export default function AllocationCard({ snapshots }: { snapshots: AssetSnapshot[] }) {
+  const assets = useStore((s) => s.assets)
+  const settings = useStore((s) => s.settings)
+  const saveSettings = useStore((s) => s.saveSettings)
+  const [modal, setModal] = useState<'edit' | 'rebalance' | null>(null)
+
+  const buckets = settings.allocationBuckets ?? []
+  const drift = allocationDrift(buckets, snapshots, settings.allocationTolerance)
+  const outCount = drift.filter((d) => d.bucket && d.outOfBand).length
+  const names = drift.map((d) => d.bucket?.name ?? '未分组')
+
+  const option = {
+    tooltip: {
+      trigger: 'axis' as const,
+      ...lightTooltip,
+      formatter: (params: unknown) => {
+        const i = (params as { dataIndex: number }[])[0].dataIndex
+        const d = drift[i]
+        return [
+          names[i],
+          `实际 ${fmtPct(d.actual, 1, false)}(${fmtCompact(d.valueCNY)})`,
+          `目标 ${fmtPct(d.target, 1, false)} ± ${fmtPct(d.tolerance, 1, false)}`,
+          `偏离 ${fmtPct(d.drift)}`,
+        ].join('<br/>')
+      },
+    },
+    grid: { left: 12, right: 24, top: 8, bottom: 8, containLabel: true },
+    xAxis: {
+      type: 'value' as const,
+      ...lightAxis,
+      axisLabel: { color: palette.textMuted, formatter: (v: number) => fmtPct(v, 0) },
+    },
+    yAxis: { type: 'category' as const, data: names, ...lightAxis, inverse: true },
+    series: [
+      {
+        name: '偏离',
+        type: 'bar' as const,
+        barMaxWidth: 18,
+        data: drift.map((d) => ({
+          value: d.drift,
+          itemStyle: { color: d.outOfBand ? palette.amber500 : palette.blue500 },
+        })),
+      },
+    ],
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-medium text-slate-700">
+            目标配置
+            {outCount > 0 && <span className="ml-2 text-xs font-normal text-amber-600">{outCount} 组超出容忍带</span>}
+          </h3>
+          <div className="flex gap-3">
+            {buckets.length > 0 && (
+              <button
+                className="text-xs text-blue-600 transition-colors hover:text-blue-700"
+                onClick={() => setModal('rebalance')}
+              >
+                再平衡
+              </button>
+            )}
+            <button
+              className="text-xs text-slate-500 transition-colors hover:text-slate-700"
+              onClick={() => setModal('edit')}
+            >
+              {buckets.length > 0 ? '设置' : '+ 设置目标配置'}
+            </button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardBody className="pt-2">
+        {buckets.length === 0 ? (
+          <p className="text-sm text-slate-400">按类别或自定义分组设定目标占比与容忍带,查看偏离并生成再平衡建议。</p>
+        ) : (
+          <EChart option={option} height={Math.max(120, drift.length * 36 + 16)} />
+        )}
+      </CardBody>
+
+      {modal === 'edit' && (
+        <Modal title="目标配置" onClose={() => setModal(null)} size="lg">
+          <AllocationForm
+            assets={assets}
+            snapshots={snapshots}
+            initial={buckets}
+            initialTolerance={settings.allocationTolerance}
+            onSubmit={(allocationBuckets, allocationTolerance) => {
+              saveSettings({ allocationBuckets, allocationTolerance })
+              setModal(null)
+            }}
+            onCancel={() => setModal(null)}
+          />
+        </Modal>
+      )}
+      {modal === 'rebalance' && (
+        <Modal title="再平衡" onClose={() => setModal(null)} size="lg">
+          <RebalanceCalculator buckets={buckets} snapshots={snapshots} onDone={() => setModal(null)} />
+        </Modal>
+      )}
+    </Card>
+  )
+}
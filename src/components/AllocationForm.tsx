@@ -0,0 +1,217 @@
+import { useState } from 'react'
+import type { AllocationBucket, Asset, AssetSnapshot, AssetType } from '../types'
+import { ASSET_TYPE_LABEL, DEFAULT_ALLOCATION_TOLERANCE } from '../types'
+import { uid } from '../services/storage'
+import { btnGhost, btnPrimary, inputCls, labelCls } from './Modal'
+import { FilterChip } from './ui/FilterChip'
+
+interface Props {
+  assets: Asset[]
+  snapshots: AssetSnapshot[]
+  initial: AllocationBucket[]
+  initialTolerance?: number
+  onSubmit: (buckets: AllocationBucket[], tolerance: number) => void
+  onCancel: () => void
+}
+
+/** 表单内以百分数字符串编辑 */
+interface Row {
+  id: string
+  name: string
+  assetTypes: AssetType[]
+  assetIds: string[]
+  target: string
+  tolerance: string
+}
+
+const pctStr = (n: number | undefined) => (n != null ? String(+(n * 100).toFixed(2)) : '')
+
+function toggle<T>(list: T[], item: T): T[] {
+  return list.includes(item) ? list.filter((x) => x !== item) : [...list, item]
+}
+
+export default function AllocationForm({ assets, snapshots, initial, initialTolerance, onSubmit, onCancel }: Props) {
+  const [rows, setRows] = useState<Row[]>(() =>
+    initial.map((b) => ({
+      id: b.id,
+      name: b.name,
+      assetTypes: b.assetTypes,
+      assetIds: b.assetIds ?? [],
+      target: pctStr(b.target),
+      tolerance: pctStr(b.tolerance),
+    })),
+  )
+  const [tolerance, setTolerance] = useState(pctStr(initialTolerance ?? DEFAULT_ALLOCATION_TOLERANCE))
+  const [expanded, setExpanded] = useState<string | null>(null)
+
+  const types = (Object.keys(ASSET_TYPE_LABEL) as AssetType[]).filter((t) => t !== 'debt')
+  const activeAssets = assets.filter((a) => !a.archived && a.type !== 'debt')
+  const patch = (id: string, p: Partial<Row>) => setRows(rows.map((r) => (r.id === id ? { ...r, ...p } : r)))
+
+  /** 以当前持仓的类别分布为起点 */
+  const fromCurrent = () => {
+    const held = snapshots.filter((s) => s.asset.type !== 'debt' && s.valueCNY > 0)
+    const total = held.reduce((sum, s) => sum + s.valueCNY, 0)
+    const byType = new Map<AssetType, number>()
+    for (const s of held) byType.set(s.asset.type, (byType.get(s.asset.type) ?? 0) + s.valueCNY)
+    setRows(
+      [...byType.entries()].map(([type, v]) => ({
+        id: uid(),
+        name: ASSET_TYPE_LABEL[type],
+        assetTypes: [type],
+        assetIds: [],
+        target: pctStr(total > 0 ? v / total : 0),
+        tolerance: '',
+      })),
+    )
+  }
+
+  const sum = rows.reduce((s, r) => s + (Number(r.target) || 0), 0)
+  const valid =
+    rows.every(
+      (r) =>
+        !!r.name.trim() &&
+        (r.assetTypes.length > 0 || r.assetIds.length > 0) &&
+        r.target !== '' &&
+        Number(r.target) >= 0 &&
+        (r.tolerance === '' || Number(r.tolerance) >= 0),
+    ) &&
+    sum <= 100.001 &&
+    tolerance !== '' &&
+    Number(tolerance) >= 0
+
+  const submit = () => {
+    if (!valid) return
+    onSubmit(
+      rows.map((r) => ({
+        id: r.id,
+        name: r.name.trim(),
+        assetTypes: r.assetTypes,
+        assetIds: r.assetIds.length > 0 ? r.assetIds : undefined,
+        target: Number(r.target) / 100,
+        tolerance: r.tolerance === '' ? undefined : Number(r.tolerance) / 100,
+      })),
+      Number(tolerance) / 100,
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-end justify-between gap-3">
+        <div className="w-40">
+          <label className={labelCls}>默认容忍带(± %)</label>
+          <input
+            type="number"
+            className={inputCls}
+            value={tolerance}
+            onChange={(e) => setTolerance(e.target.value)}
+            min="0"
+            step="any"
+          />
+        </div>
+        <button type="button" className="text-xs text-blue-600 hover:underline" onClick={fromCurrent}>
+          按当前分布生成
+        </button>
+      </div>
+
+      {rows.length === 0 && (
+        <p className="py-4 text-center text-sm text-slate-400">还没有分组,可按类别逐组添加或按当前分布生成</p>
+      )}
+      {rows.map((r) => (
+        <div key={r.id} className="space-y-2 rounded-xl border border-slate-100 bg-slate-50 p-3">
+          <div className="grid grid-cols-[1fr_6rem_6rem_auto] items-end gap-2">
+            <div>
+              <label className={labelCls}>组名 *</label>
+              <input className={inputCls} value={r.name} onChange={(e) => patch(r.id, { name: e.target.value })} />
+            </div>
+            <div>
+              <label className={labelCls}>目标 % *</label>
+              <input
+                type="number"
+                className={inputCls}
+                value={r.target}
+                onChange={(e) => patch(r.id, { target: e.target.value })}
+                min="0"
+                max="100"
+                step="any"
+              />
+            </div>
+            <div>
+              <label className={labelCls}>容忍带 ±%</label>
+              <input
+                type="number"
+                className={inputCls}
+                value={r.tolerance}
+                onChange={(e) => patch(r.id, { tolerance: e.target.value })}
+                placeholder={tolerance}
+                min="0"
+                step="any"
+              />
+            </div>
+            <button
+              type="button"
+              className="pb-2 text-xs text-slate-500 hover:text-red-600"
+              onClick={() => setRows(rows.filter((x) => x.id !== r.id))}
+            >
+              删除
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {types.map((t) => (
+              <FilterChip
+                key={t}
+                label={ASSET_TYPE_LABEL[t]}
+                active={r.assetTypes.includes(t)}
+                onClick={() => patch(r.id, { assetTypes: toggle(r.assetTypes, t) })}
+              />
+            ))}
+          </div>
+          <button
+            type="button"
+            className="text-xs text-slate-500 hover:underline"
+            onClick={() => setExpanded(expanded === r.id ? null : r.id)}
+          >
+            指定资产{r.assetIds.length > 0 ? `(${r.assetIds.length})` : ''} {expanded === r.id ? '▴' : '▾'}
+          </button>
+          {expanded === r.id && (
+            <div className="flex max-h-32 flex-wrap gap-2 overflow-y-auto">
+              {activeAssets.map((a) => (
+                <FilterChip
+                  key={a.id}
+                  label={a.name}
+                  active={r.assetIds.includes(a.id)}
+                  onClick={() => patch(r.id, { assetIds: toggle(r.assetIds, a.id) })}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between gap-3">
+        <button
+          type="button"
+          className="text-xs text-blue-600 hover:underline"
+          onClick={() =>
+            setRows([...rows, { id: uid(), name: '', assetTypes: [], assetIds: [], target: '', tolerance: '' }])
+          }
+        >
+          + 添加分组
+        </button>
+        <span className={`text-xs tabular-nums ${sum > 100.001 ? 'text-red-600' : 'text-slate-500'}`}>
+          目标合计 {+sum.toFixed(2)}%{sum < 99.999 ? `,其余 ${+(100 - sum).toFixed(2)}% 留给未分组资产` : ''}
+        </span>
+      </div>
+      <p className="text-xs text-slate-500">占比按正资产合计计算,负债不参与;指定资产优先于类别归组。</p>
+
+      <div className="flex justify-end gap-2 pt-2">
+        <button className={btnGhost} onClick={onCancel}>
+          取消
+        </button>
+        <button className={btnPrimary} onClick={submit} disabled={!valid}>
+          保存
+        </button>
+      </div>
+    </div>
+  )
+}
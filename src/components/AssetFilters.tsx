@@ -1,7 +1,8 @@
 import { FilterBar, FilterClearButton } from './ui/FilterBar'
 import { FilterRow } from './ui/FilterRow'
 import { FilterChip } from './ui/FilterChip'
-import { ASSET_TYPE_LABEL, type AssetType } from '../types'
+import LabelFilterRows from './LabelFilterRows'
+import { ASSET_TYPE_LABEL, type Asset, type AssetType } from '../types'
 
 interface TypeOption {
   type: AssetType
@@ -16,23 +17,30 @@ interface AssetOption {
 interface Props {
   filterType: string
   filterAsset: string
+  filterLabel: string
   typeOptions: TypeOption[]
   assetOptions: AssetOption[]
+  /** 提供标签与自定义维度选项 */
+  labelAssets: Asset[]
   onTypeChange: (type: string) => void
   onAssetChange: (id: string) => void
+  onLabelChange: (value: string) => void
   onClear: () => void
 }
 
 export default function AssetFilters({
   filterType,
   filterAsset,
+  filterLabel,
   typeOptions,
   assetOptions,
+  labelAssets,
   onTypeChange,
   onAssetChange,
+  onLabelChange,
   onClear,
 }: Props) {
-  const hasFilter = !!filterType || !!filterAsset
+  const hasFilter = !!filterType || !!filterAsset || !!filterLabel
 
   return (
     <FilterBar actions={hasFilter ? <FilterClearButton onClick={onClear} /> : undefined}>
@@ -49,6 +57,8 @@ export default function AssetFilters({
         ))}
       </FilterRow>
 
+      <LabelFilterRows assets={labelAssets} value={filterLabel} onChange={onLabelChange} />
+
       <FilterRow label="名称" scroll>
         <FilterChip label="全部" active={!filterAsset} onClick={() => onAssetChange('')} />
         {assetOptions.map(({ id, name }) => (
@@ -1,36 +1,144 @@
 import { useState } from 'react'
-import type { Asset, AssetType, PriceSource } from '../types'
-import { ASSET_TYPE_LABEL } from '../types'
+import type { Asset, AssetType, CostBasisMethod, LoanTerms, PriceSource, RepaymentMethod } from '../types'
+import {
+  ASSET_TYPE_LABEL,
+  COST_BASIS_METHOD_LABEL,
+  DEFAULT_COST_BASIS_METHOD,
+  REPAYMENT_METHOD_LABEL,
+  isQuantityBased,
+} from '../types'
+import { formatDateKey } from '../utils/time'
+import { dimensionOptions, tagOptions } from '../engine/grouping'
+import { useStore } from '../store'
+import { listPriceProviders, missingProviderSettings } from '../services/priceProviders'
 import { btnGhost, btnPrimary, formGroupCls, inputCls, labelCls } from './Modal'
 
 interface Props {
   initial?: Asset
+  /** 用于选择结算账户 */
+  assets?: Asset[]
   onSubmit: (a: Omit<Asset, 'id' | 'createdAt'>) => void
   onCancel: () => void
 }
 
-const CURRENCIES = ['CNY', 'USD', 'HKD', 'EUR']
+/** 计价货币候选;也可直接输入其他币种代码 */
+const CURRENCIES = ['CNY', 'USD', 'HKD', 'EUR', 'JPY', 'GBP', 'SGD', 'AUD', 'CAD', 'CHF', 'USDT']
 
-export default function AssetForm({ initial, onSubmit, onCancel }: Props) {
+/** 标签输入:逗号、顿号或空格分隔,去重 */
+function parseTags(text: string): string[] {
+  return [...new Set(text.split(/[,，、\s]+/).filter(Boolean))]
+}
+
+export default function AssetForm({ initial, assets = [], onSubmit, onCancel }: Props) {
   const [name, setName] = useState(initial?.name ?? '')
   const [type, setType] = useState<AssetType>(initial?.type ?? 'cash')
-  const [currency, setCurrency] = useState(initial?.currency ?? 'CNY')
+  const baseCurrency = useStore((s) => s.settings.baseCurrency)
+  const fxRates = useStore((s) => s.settings.fxRates)
+  const settings = useStore((s) => s.settings)
+  const [currency, setCurrency] = useState(initial?.currency ?? baseCurrency)
   const [platform, setPlatform] = useState(initial?.platform ?? '')
+  const hasHousehold = useStore((s) => s.workspaces.length > 1)
+  const [ownership, setOwnership] = useState(initial?.ownership != null ? String(+(initial.ownership * 100).toFixed(2)) : '')
+  const currencyValid = /^[A-Z]{3,5}$/.test(currency)
+  const ownershipValid = ownership === '' || (Number(ownership) > 0 && Number(ownership) <= 100)
   const [symbol, setSymbol] = useState(initial?.symbol ?? '')
   const [priceSource, setPriceSource] = useState<PriceSource>(initial?.priceSource ?? 'manual')
+  const [costBasisMethod, setCostBasisMethod] = useState<CostBasisMethod>(
+    initial?.costBasisMethod ?? DEFAULT_COST_BASIS_METHOD,
+  )
+  const [settlementAssetId, setSettlementAssetId] = useState(initial?.settlementAssetId ?? '')
   const [note, setNote] = useState(initial?.note ?? '')
+  const [tagsText, setTagsText] = useState(initial?.tags?.join(', ') ?? '')
+  const knownTags = tagOptions(assets).map((t) => t.tag)
+  const knownDims = dimensionOptions(assets)
+  // 已有的维度默认列出,留空即不设置
+  const [dims, setDims] = useState(() => {
+    const own = Object.entries(initial?.dimensions ?? {}).map(([key, value]) => ({ key, value }))
+    const rest = knownDims.filter((d) => !own.some((o) => o.key === d.key)).map((d) => ({ key: d.key, value: '' }))
+    return [...own, ...rest]
+  })
+  const loan = initial?.loan
+  const [loanEnabled, setLoanEnabled] = useState(!!loan)
+  const [loanPrincipal, setLoanPrincipal] = useState(loan ? String(loan.principal) : '')
+  const [loanRatePct, setLoanRatePct] = useState(loan ? String(+(loan.annualRate * 100).toFixed(4)) : '')
+  const [loanTermMonths, setLoanTermMonths] = useState(loan ? String(loan.termMonths) : '')
+  const [loanMethod, setLoanMethod] = useState<RepaymentMethod>(loan?.method ?? 'annuity')
+  const [loanStartDate, setLoanStartDate] = useState(() => loan?.startDate ?? formatDateKey(Date.now()))
+  const [loanRepaymentDay, setLoanRepaymentDay] = useState(loan ? String(loan.repaymentDay) : '')
+  const [loanPaymentAssetId, setLoanPaymentAssetId] = useState(loan?.paymentAssetId ?? '')
+  const [loanAutoRecord, setLoanAutoRecord] = useState(loan?.autoRecord ?? false)
 
   const canAutoPrice = type === 'crypto' || type === 'stock' || type === 'fund'
+  const providers = listPriceProviders(type)
+  const provider = canAutoPrice ? providers.find((p) => p.id === priceSource) : undefined
+  const providerMissing = provider ? missingProviderSettings(provider, settings) : []
+  const trimmedSymbol = symbol.trim()
+  const symbolError = provider && trimmedSymbol ? provider.validateSymbol?.(trimmedSymbol) : undefined
+  const quoteCurrency = provider && trimmedSymbol && !symbolError ? provider.quoteCurrency?.(trimmedSymbol) : undefined
+  const settlementOptions = assets.filter(
+    (a) =>
+      a.id !== initial?.id &&
+      !isQuantityBased(a.type) &&
+      a.type !== 'debt' &&
+      (!a.archived || a.id === settlementAssetId),
+  )
+
+  const paymentOptions = assets.filter(
+    (a) =>
+      !isQuantityBased(a.type) &&
+      a.type !== 'debt' &&
+      a.currency === currency &&
+      (!a.archived || a.id === loanPaymentAssetId),
+  )
+  const repaymentDay = Number(loanRepaymentDay || Number(loanStartDate.slice(8, 10)))
+  const loanTerms: LoanTerms | undefined =
+    type === 'debt' && loanEnabled
+      ? {
+          principal: Number(loanPrincipal),
+          annualRate: Number(loanRatePct) / 100,
+          termMonths: Number(loanTermMonths),
+          method: loanMethod,
+          startDate: loanStartDate,
+          repaymentDay,
+          paymentAssetId: paymentOptions.some((a) => a.id === loanPaymentAssetId)
+            ? loanPaymentAssetId
+            : undefined,
+          autoRecord: loanAutoRecord || undefined,
+        }
+      : undefined
+  const loanValid =
+    !loanTerms ||
+    (loanTerms.principal > 0 &&
+      loanTerms.annualRate >= 0 &&
+      Number.isInteger(loanTerms.termMonths) &&
+      loanTerms.termMonths > 0 &&
+      /^\d{4}-\d{2}-\d{2}$/.test(loanTerms.startDate) &&
+      Number.isInteger(repaymentDay) &&
+      repaymentDay >= 1 &&
+      repaymentDay <= 31)
+
+  const tags = parseTags(tagsText)
+  const dimensions = Object.fromEntries(
+    dims.filter((d) => d.key.trim() && d.value.trim()).map((d) => [d.key.trim(), d.value.trim()]),
+  )
+  const patchDim = (i: number, p: Partial<{ key: string; value: string }>) =>
+    setDims(dims.map((d, j) => (j === i ? { ...d, ...p } : d)))
 
   const submit = () => {
-    if (!name.trim()) return
+    if (!name.trim() || !loanValid || !ownershipValid || !currencyValid || symbolError) return
     onSubmit({
       name: name.trim(),
       type,
       currency,
       platform: platform.trim() || undefined,
-      symbol: symbol.trim() || undefined,
-      priceSource: canAutoPrice ? priceSource : 'manual',
+      tags: tags.length > 0 ? tags : undefined,
+      dimensions: Object.keys(dimensions).length > 0 ? dimensions : undefined,
+      ownership: ownership === '' || Number(ownership) === 100 ? undefined : Number(ownership) / 100,
+      symbol: (provider?.normalizeSymbol ? provider.normalizeSymbol(trimmedSymbol) : trimmedSymbol) || undefined,
+      priceSource: provider?.id ?? 'manual',
+      costBasisMethod: canAutoPrice ? costBasisMethod : undefined,
+      settlementAssetId: canAutoPrice ? settlementAssetId || undefined : undefined,
+      loan: loanTerms,
       note: note.trim() || undefined,
       archived: initial?.archived,
     })
@@ -65,17 +173,20 @@ export default function AssetForm({ initial, onSubmit, onCancel }: Props) {
         </div>
         <div>
           <label className={labelCls}>计价货币</label>
-          <select
+          <input
             className={inputCls}
             value={currency}
-            onChange={(e) => setCurrency(e.target.value)}
-          >
-            {CURRENCIES.map((c) => (
-              <option key={c} value={c}>
-                {c}
-              </option>
+            onChange={(e) => setCurrency(e.target.value.toUpperCase())}
+            list="asset-currency-options"
+          />
+          <datalist id="asset-currency-options">
+            {[...new Set([...CURRENCIES, ...Object.keys(fxRates)])].map((c) => (
+              <option key={c} value={c} />
             ))}
-          </select>
+          </datalist>
+          {currencyValid && currency !== baseCurrency && !(fxRates[currency] > 0) && (
+            <p className="mt-1 text-xs text-amber-600">尚无 {currency} 汇率,保存后请在设置页获取或填写</p>
+          )}
         </div>
       </div>
       <div>
@@ -87,40 +198,296 @@ export default function AssetForm({ initial, onSubmit, onCancel }: Props) {
           placeholder="如:支付宝、招商银行、币安"
         />
       </div>
+      {(hasHousehold || initial?.ownership != null) && (
+        <div>
+          <label className={labelCls}>家庭持有比例 %</label>
+          <input
+            type="number"
+            className={inputCls}
+            value={ownership}
+            onChange={(e) => setOwnership(e.target.value)}
+            placeholder="100"
+            min="0"
+            max="100"
+            step="any"
+          />
+          <p className={`mt-1 text-xs ${ownershipValid ? 'text-slate-500' : 'text-red-600'}`}>
+            家庭合并视图按此比例计入,如父母账户中属于本家庭的部分;本账本内仍按全额显示。
+          </p>
+        </div>
+      )}
+      <div>
+        <label className={labelCls}>标签</label>
+        <input
+          className={inputCls}
+          value={tagsText}
+          onChange={(e) => setTagsText(e.target.value)}
+          placeholder="多个用逗号分隔,如:退休, 教育"
+        />
+        {knownTags.some((t) => !tags.includes(t)) && (
+          <div className="mt-1.5 flex flex-wrap gap-1.5">
+            {knownTags
+              .filter((t) => !tags.includes(t))
+              .map((t) => (
+                <button
+                  key={t}
+                  type="button"
+                  className="rounded-full bg-slate-100 px-2 py-0.5 text-xs text-slate-500 hover:bg-slate-200"
+                  onClick={() => setTagsText([...tags, t].join(', '))}
+                >
+                  + {t}
+                </button>
+              ))}
+          </div>
+        )}
+      </div>
+      <div>
+        <label className={labelCls}>自定义维度</label>
+        <div className="space-y-2">
+          {dims.map((d, i) => (
+            <div key={i} className="grid grid-cols-[1fr_1fr_auto] items-center gap-2">
+              <input
+                className={inputCls}
+                value={d.key}
+                onChange={(e) => patchDim(i, { key: e.target.value })}
+                placeholder="维度,如:归属"
+                list="asset-dim-keys"
+              />
+              <input
+                className={inputCls}
+                value={d.value}
+                onChange={(e) => patchDim(i, { value: e.target.value })}
+                placeholder="取值,如:配偶"
+                list={`asset-dim-values-${i}`}
+              />
+              <button
+                type="button"
+                className="text-xs text-slate-500 hover:text-red-600"
+                onClick={() => setDims(dims.filter((_, j) => j !== i))}
+              >
+                删除
+              </button>
+              <datalist id={`asset-dim-values-${i}`}>
+                {knownDims
+                  .find((k) => k.key === d.key.trim())
+                  ?.values.map((v) => <option key={v} value={v} />)}
+              </datalist>
+            </div>
+          ))}
+        </div>
+        <datalist id="asset-dim-keys">
+          {knownDims.map((k) => (
+            <option key={k.key} value={k.key} />
+          ))}
+        </datalist>
+        <button
+          type="button"
+          className="mt-1.5 text-xs text-blue-600 hover:underline"
+          onClick={() => setDims([...dims, { key: '', value: '' }])}
+        >
+          + 添加维度
+        </button>
+        <p className="mt-1 text-xs text-slate-500">如归属(我/配偶/孩子)、用途(养老/教育)、地区;可在筛选和总览分布中按维度分组。</p>
+      </div>
 
       {canAutoPrice && (
         <div className={`${formGroupCls} space-y-3`}>
+          <div>
+            <label className={labelCls}>持仓成本计算</label>
+            <select
+              className={inputCls}
+              value={costBasisMethod}
+              onChange={(e) => setCostBasisMethod(e.target.value as CostBasisMethod)}
+            >
+              {(Object.keys(COST_BASIS_METHOD_LABEL) as CostBasisMethod[]).map((m) => (
+                <option key={m} value={m}>
+                  {COST_BASIS_METHOD_LABEL[m]}
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-slate-500">
+              决定卖出时按哪部分成本计算已实现盈亏,不影响累计盈亏与年化。
+            </p>
+          </div>
+          <div>
+            <label className={labelCls}>结算账户</label>
+            <select
+              className={inputCls}
+              value={settlementAssetId}
+              onChange={(e) => setSettlementAssetId(e.target.value)}
+            >
+              <option value="">不关联</option>
+              {settlementOptions.map((a) => (
+                <option key={a.id} value={a.id}>
+                  {a.name}
+                  {a.platform ? `(${a.platform})` : ''} · {a.currency}
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-slate-500">
+              关联后,买入自动从该账户扣款,卖出与现金分红自动入账;跨币种按当日汇率换算。
+            </p>
+          </div>
           <div>
             <label className={labelCls}>行情来源</label>
             <select
               className={inputCls}
-              value={priceSource}
-              onChange={(e) => setPriceSource(e.target.value as PriceSource)}
+              value={provider?.id ?? 'manual'}
+              onChange={(e) => setPriceSource(e.target.value)}
             >
               <option value="manual">手动更新估值</option>
-              {type === 'crypto' && <option value="coingecko">CoinGecko 自动(免 key)</option>}
-              {type !== 'crypto' && <option value="finnhub">Finnhub 自动(美股,需 key)</option>}
+              {providers.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.label} 自动{p.settings.some((f) => !f.optional) ? '(需配置)' : '(免 key)'}
+                </option>
+              ))}
             </select>
+            {providerMissing.length > 0 && (
+              <p className="mt-1 text-xs text-amber-600">
+                需先在设置页填写 {providerMissing.map((f) => f.label).join('、')},否则仍需手动估值。
+              </p>
+            )}
           </div>
-          {priceSource !== 'manual' && (
+          {provider && (
             <div>
-              <label className={labelCls}>
-                行情代码 *{' '}
-                {priceSource === 'coingecko'
-                  ? '(CoinGecko id,如 bitcoin / tether / ethereum)'
-                  : '(ticker,如 AAPL / MSFT)'}
-              </label>
+              <label className={labelCls}>行情代码 *({provider.symbolHint})</label>
               <input
                 className={inputCls}
                 value={symbol}
                 onChange={(e) => setSymbol(e.target.value)}
-                placeholder={priceSource === 'coingecko' ? 'bitcoin' : 'AAPL'}
+                placeholder={provider.symbolPlaceholder}
               />
+              {symbolError && <p className="mt-1 text-xs text-red-600">{symbolError}</p>}
+              {quoteCurrency && quoteCurrency !== currency && (
+                <p className="mt-1 text-xs text-slate-500">
+                  该代码以 {quoteCurrency} 报价,将按汇率折算;资产币种为 {currency}(如港股通)时无需修改。
+                </p>
+              )}
             </div>
           )}
         </div>
       )}
 
+      {type === 'debt' && (
+        <div className={`${formGroupCls} space-y-3`}>
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={loanEnabled}
+              onChange={(e) => setLoanEnabled(e.target.checked)}
+            />
+            按贷款条款生成还款计划
+          </label>
+          {loanEnabled && (
+            <>
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label className={labelCls}>贷款本金 *</label>
+                  <input
+                    type="number"
+                    className={inputCls}
+                    value={loanPrincipal}
+                    onChange={(e) => setLoanPrincipal(e.target.value)}
+                    min="0"
+                    step="any"
+                  />
+                </div>
+                <div>
+                  <label className={labelCls}>年利率(%)*</label>
+                  <input
+                    type="number"
+                    className={inputCls}
+                    value={loanRatePct}
+                    onChange={(e) => setLoanRatePct(e.target.value)}
+                    placeholder="3.9"
+                    min="0"
+                    step="any"
+                  />
+                </div>
+                <div>
+                  <label className={labelCls}>期限(月)*</label>
+                  <input
+                    type="number"
+                    className={inputCls}
+                    value={loanTermMonths}
+                    onChange={(e) => setLoanTermMonths(e.target.value)}
+                    placeholder="360"
+                    min="1"
+                    step="1"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label className={labelCls}>还款方式</label>
+                  <select
+                    className={inputCls}
+                    value={loanMethod}
+                    onChange={(e) => setLoanMethod(e.target.value as RepaymentMethod)}
+                  >
+                    {(Object.keys(REPAYMENT_METHOD_LABEL) as RepaymentMethod[]).map((m) => (
+                      <option key={m} value={m}>
+                        {REPAYMENT_METHOD_LABEL[m]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className={labelCls}>放款日 *</label>
+                  <input
+                    type="date"
+                    className={inputCls}
+                    value={loanStartDate}
+                    onChange={(e) => setLoanStartDate(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className={labelCls}>每月还款日</label>
+                  <input
+                    type="number"
+                    className={inputCls}
+                    value={loanRepaymentDay}
+                    onChange={(e) => setLoanRepaymentDay(e.target.value)}
+                    placeholder={String(Number(loanStartDate.slice(8, 10)) || '')}
+                    min="1"
+                    max="31"
+                    step="1"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className={labelCls}>月供扣款账户</label>
+                <select
+                  className={inputCls}
+                  value={loanPaymentAssetId}
+                  onChange={(e) => setLoanPaymentAssetId(e.target.value)}
+                >
+                  <option value="">不记扣款</option>
+                  {paymentOptions.map((a) => (
+                    <option key={a.id} value={a.id}>
+                      {a.name}
+                      {a.platform ? `(${a.platform})` : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={loanAutoRecord}
+                  onChange={(e) => setLoanAutoRecord(e.target.checked)}
+                />
+                打开应用时自动记入到期还款
+              </label>
+              <p className="text-xs text-slate-500">
+                每期记一笔「还款」(仅本金),设置扣款账户时同时记一笔整笔月供的「取出」。
+                已有手动流水时,只补记最后一笔手动流水之后到期的期数。
+              </p>
+            </>
+          )}
+        </div>
+      )}
+
       <div>
         <label className={labelCls}>备注</label>
         <input className={inputCls} value={note} onChange={(e) => setNote(e.target.value)} />
@@ -130,7 +497,11 @@ export default function AssetForm({ initial, onSubmit, onCancel }: Props) {
         <button className={btnGhost} onClick={onCancel}>
           取消
         </button>
-        <button className={btnPrimary} onClick={submit} disabled={!name.trim()}>
+        <button
+          className={btnPrimary}
+          onClick={submit}
+          disabled={!name.trim() || !loanValid || !ownershipValid || !currencyValid || !!symbolError}
+        >
           {initial ? '保存修改' : '添加资产'}
         </button>
       </div>
@@ -5,6 +5,8 @@ import { useAssistantStore } from '../assistantStore'
 import Modal, { btnPrimary } from './Modal'
 import AssetForm from './AssetForm'
 import TxForm from './TxForm'
+import TransferForm from './TransferForm'
+import { transferDraftFromLegs } from '../engine/transfer'
 import { color } from '../theme/colors'
 
 function draftToAssetInitial(draft?: Partial<Omit<Asset, 'id' | 'createdAt'>>): Asset | undefined {
@@ -58,6 +60,8 @@ export default function AssistantConfirmModals({ onSuccess }: Props) {
   const updateAsset = useStore((s) => s.updateAsset)
   const addTransaction = useStore((s) => s.addTransaction)
   const updateTransaction = useStore((s) => s.updateTransaction)
+  const updateTransfer = useStore((s) => s.updateTransfer)
+  const settings = useStore((s) => s.settings)
 
   if (!pendingAction) return null
 
@@ -78,6 +82,7 @@ export default function AssistantConfirmModals({ onSuccess }: Props) {
     return (
       <Modal title={modalTitle(pendingAction, assets)} onClose={() => close(true)}>
         <AssetForm
+          assets={assets}
           initial={draftToAssetInitial(pendingAction.initial)}
           onSubmit={(a) => {
             addAsset(a)
@@ -95,6 +100,7 @@ export default function AssistantConfirmModals({ onSuccess }: Props) {
     return (
       <Modal title={modalTitle(pendingAction, assets)} onClose={() => close(true)}>
         <AssetForm
+          assets={assets}
           initial={asset}
           onSubmit={(a) => {
             updateAsset(asset.id, a)
@@ -135,6 +141,26 @@ export default function AssistantConfirmModals({ onSuccess }: Props) {
   if (pendingAction.kind === 'editTx') {
     const tx = transactions.find((t) => t.id === pendingAction.txId)
     if (!tx) return null
+    const transferId = tx.transferId
+    const transfer = transferId
+      ? transferDraftFromLegs(transactions.filter((t) => t.transferId === transferId))
+      : null
+    if (transferId && transfer) {
+      return (
+        <Modal title="编辑划转" onClose={() => close(true)}>
+          <TransferForm
+            assets={assets}
+            settings={settings}
+            initial={transfer}
+            onSubmit={(t) => {
+              updateTransfer(transferId, t)
+              notify('已更新划转')
+            }}
+            onCancel={() => close(true)}
+          />
+        </Modal>
+      )
+    }
     return (
       <Modal title={modalTitle(pendingAction, assets)} onClose={() => close(true)}>
         <TxForm
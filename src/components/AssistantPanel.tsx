@@ -4,6 +4,7 @@ import { ClipboardList, Send, Trash2, X } from 'lucide-react'
 import { findQueueIdByAction, useAssistantStore } from '../assistantStore'
 import { useStore } from '../store'
 import { useSummary } from '../hooks/useSummary'
+import { useGoalProgress } from '../hooks/useGoals'
 import LightMarkdown from './LightMarkdown'
 import {
   DeleteConfirmCard,
@@ -41,9 +42,11 @@ export default function AssistantPanel({ currentPage, onNavigate }: Props) {
 
   const assets = useStore((s) => s.assets)
   const transactions = useStore((s) => s.transactions)
+  const strategies = useStore((s) => s.strategies)
   const settings = useStore((s) => s.settings)
   const refreshPrices = useStore((s) => s.refreshPrices)
   const summary = useSummary()
+  const goals = useGoalProgress()
 
   const [input, setInput] = useState('')
   const [auditOpen, setAuditOpen] = useState(false)
@@ -91,6 +94,8 @@ export default function AssistantPanel({ currentPage, onNavigate }: Props) {
     transactions,
     settings,
     summary,
+    strategies,
+    goals,
     navigate: onNavigate,
     refreshPrices,
   })
@@ -139,7 +144,7 @@ export default function AssistantPanel({ currentPage, onNavigate }: Props) {
       if (llmReady) {
         const advisorPrompt = resolveAdvisorPrompt(trimmed)
         if (advisorPrompt !== null) {
-          await streamLlmAdvice(summary, settings, advisorPrompt, (acc) => {
+          await streamLlmAdvice(buildContext(), advisorPrompt, (acc) => {
             updateMessage(assistantId, { content: acc })
           }, ac.signal)
         } else {
@@ -187,7 +192,7 @@ export default function AssistantPanel({ currentPage, onNavigate }: Props) {
     const assistantId = addMessage({ role: 'assistant', content: '' })
 
     try {
-      await streamLlmAdvice(summary, settings, q, (acc) => {
+      await streamLlmAdvice(buildContext(), q, (acc) => {
         updateMessage(assistantId, { content: acc })
       }, ac.signal)
     } catch (e) {
@@ -0,0 +1,114 @@
+import { useState } from 'react'
+import { useStore } from '../store'
+import { DEFAULT_AUTO_REFRESH, REFRESH_TRIGGER_LABEL, type RefreshSourceResult } from '../types'
+import { fmtDateTime } from '../utils/format'
+import { btnGhost, btnPrimary, inputCls, labelCls } from './Modal'
+
+const HISTORY_SHOWN = 20
+
+function describeResult(r: RefreshSourceResult): string {
+  if (r.skipped) return `${r.label} 退避中`
+  if (r.error) return `${r.label} 失败:${r.error}`
+  const parts = [`${r.label} ${r.updated} 项`]
+  if (r.failed.length) parts.push(`失败 ${r.failed.join(', ')}`)
+  return parts.join(',')
+}
+
+/** 设置页自动刷新:开关、过期阈值与定时间隔,以及最近的刷新记录 */
+export default function AutoRefreshPanel({ onMessage }: { onMessage: (m: string) => void }) {
+  const autoRefresh = useStore((s) => s.settings.autoRefresh ?? DEFAULT_AUTO_REFRESH)
+  const saveSettings = useStore((s) => s.saveSettings)
+  const refreshLog = useStore((s) => s.refreshLog)
+  const clearRefreshLog = useStore((s) => s.clearRefreshLog)
+  const [enabled, setEnabled] = useState(autoRefresh.enabled)
+  const [staleHours, setStaleHours] = useState(String(autoRefresh.staleMinutes / 60))
+  const [intervalMin, setIntervalMin] = useState(String(autoRefresh.intervalMinutes))
+
+  const valid = Number(staleHours) > 0 && Number(intervalMin) >= 5
+
+  const save = () => {
+    saveSettings({
+      autoRefresh: {
+        enabled,
+        staleMinutes: Math.round(Number(staleHours) * 60),
+        intervalMinutes: Math.round(Number(intervalMin)),
+      },
+    })
+    onMessage('自动刷新设置已保存')
+  }
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center gap-2 text-sm text-slate-700">
+        <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+        自动刷新行情与汇率
+      </label>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelCls} title="打开应用时行情早于此即刷新;资产表中超过此时长的报价标黄">
+            过期阈值(小时)
+          </label>
+          <input
+            type="number"
+            className={inputCls}
+            value={staleHours}
+            onChange={(e) => setStaleHours(e.target.value)}
+            min="0.5"
+            step="0.5"
+            disabled={!enabled}
+          />
+        </div>
+        <div>
+          <label className={labelCls}>页面打开时每隔(分钟)</label>
+          <input
+            type="number"
+            className={inputCls}
+            value={intervalMin}
+            onChange={(e) => setIntervalMin(e.target.value)}
+            min="5"
+            step="5"
+            disabled={!enabled}
+          />
+        </div>
+      </div>
+      <button className={btnPrimary} onClick={save} disabled={!valid}>
+        保存
+      </button>
+
+      <div>
+        <div className="mb-2 flex items-center justify-between">
+          <h4 className="text-sm font-medium text-slate-700">刷新记录</h4>
+          {refreshLog.length > 0 && (
+            <button className={btnGhost} onClick={clearRefreshLog}>
+              清空
+            </button>
+          )}
+        </div>
+        {refreshLog.length === 0 ? (
+          <p className="text-xs text-slate-400">暂无刷新记录</p>
+        ) : (
+          <div className="max-h-72 overflow-y-auto rounded-xl border border-slate-100">
+            <table className="w-full text-xs">
+              <tbody>
+                {refreshLog.slice(0, HISTORY_SHOWN).map((entry) => {
+                  const failed = entry.results.some((r) => r.error || r.failed.length > 0)
+                  return (
+                    <tr key={entry.id} className="border-t border-slate-100 first:border-t-0">
+                      <td className="whitespace-nowrap px-3 py-2 text-slate-500">{fmtDateTime(entry.at)}</td>
+                      <td className="whitespace-nowrap px-3 py-2 text-slate-500">
+                        {REFRESH_TRIGGER_LABEL[entry.trigger]}
+                      </td>
+                      <td className={`px-3 py-2 ${failed ? 'text-amber-600' : 'text-slate-600'}`}>
+                        {entry.results.map(describeResult).join(';') || '没有需要刷新的来源'}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+import { useState } from 'react'
+import { decryptBackup } from '../services/storage'
+import { btnGhost, btnPrimary, inputCls, labelCls } from './Modal'
+
+interface Props {
+  /** 加密备份文件的文本 */
+  encrypted: string
+  onDecrypted: (json: string) => void
+  onCancel: () => void
+}
+
+/** 导入加密备份时输入密码;密码错误可重试 */
+export default function DecryptBackupForm({ encrypted, onDecrypted, onCancel }: Props) {
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState('')
+  const [busy, setBusy] = useState(false)
+
+  const submit = async () => {
+    setBusy(true)
+    setError('')
+    try {
+      onDecrypted(await decryptBackup(encrypted, password))
+    } catch (e) {
+      setError((e as Error).message)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault()
+        submit()
+      }}
+    >
+      <p className="text-sm text-slate-600">这是一份加密备份,请输入导出时设置的密码。</p>
+      <div>
+        <label className={labelCls}>密码</label>
+        <input
+          type="password"
+          className={inputCls}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete="current-password"
+          autoFocus
+        />
+        {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+      </div>
+      <div className="flex justify-end gap-2 pt-2">
+        <button type="button" className={btnGhost} onClick={onCancel}>
+          取消
+        </button>
+        <button type="submit" className={btnPrimary} disabled={busy || !password}>
+          {busy ? '解密中…' : '解密'}
+        </button>
+      </div>
+    </form>
+  )
+}
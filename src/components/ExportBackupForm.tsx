@@ -0,0 +1,101 @@
+import { useState } from 'react'
+import { useStore } from '../store'
+import { MIN_BACKUP_PASSWORD_LENGTH, StorageService, encryptBackup } from '../services/storage'
+import { btnGhost, btnPrimary, inputCls, labelCls } from './Modal'
+
+/** 导出备份:可去掉密钥,可用密码加密(PBKDF2 + AES-GCM) */
+export default function ExportBackupForm({ onDone }: { onDone: (message?: string) => void }) {
+  const workspaces = useStore((s) => s.workspaces)
+  const workspaceId = useStore((s) => s.workspaceId)
+  const workspaceName = workspaces.find((w) => w.id === workspaceId)?.name ?? ''
+  const [stripSecrets, setStripSecrets] = useState(true)
+  const [encrypt, setEncrypt] = useState(false)
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [busy, setBusy] = useState(false)
+
+  const passwordError = !encrypt
+    ? ''
+    : password.length < MIN_BACKUP_PASSWORD_LENGTH
+      ? `密码至少 ${MIN_BACKUP_PASSWORD_LENGTH} 位`
+      : password !== confirmPassword
+        ? '两次输入的密码不一致'
+        : ''
+
+  const exportData = async () => {
+    setBusy(true)
+    try {
+      const json = StorageService.exportAll({ stripSecrets })
+      const content = encrypt ? await encryptBackup(json, password) : json
+      const blob = new Blob([content], { type: 'application/json' })
+      const a = document.createElement('a')
+      a.href = URL.createObjectURL(blob)
+      const suffix = workspaces.length > 1 ? `-${workspaceName}` : ''
+      const kind = encrypt ? '-encrypted' : ''
+      a.download = `panassetlite-backup${suffix}${kind}-${new Date().toISOString().slice(0, 10)}.json`
+      a.click()
+      URL.revokeObjectURL(a.href)
+      onDone(encrypt ? '已导出加密备份,请妥善保管密码,遗失后无法恢复' : '已导出备份')
+    } catch (e) {
+      onDone(`导出失败:${(e as Error).message}`)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-start gap-2 text-sm text-slate-700">
+        <input type="checkbox" className="mt-1" checked={stripSecrets} onChange={(e) => setStripSecrets(e.target.checked)} />
+        <span>
+          不导出 API Key 等密钥
+          <span className="mt-0.5 block text-xs text-slate-500">LLM 与行情源的密钥留空,导入时保留目标设备上已有的密钥。</span>
+        </span>
+      </label>
+      <label className="flex items-start gap-2 text-sm text-slate-700">
+        <input type="checkbox" className="mt-1" checked={encrypt} onChange={(e) => setEncrypt(e.target.checked)} />
+        <span>
+          用密码加密
+          <span className="mt-0.5 block text-xs text-slate-500">
+            在浏览器内用 WebCrypto 加密,导入时需输入同一密码。密码不会保存,遗失后无法恢复。
+          </span>
+        </span>
+      </label>
+      {encrypt && (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className={labelCls}>密码</label>
+            <input
+              type="password"
+              className={inputCls}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="new-password"
+            />
+          </div>
+          <div>
+            <label className={labelCls}>确认密码</label>
+            <input
+              type="password"
+              className={inputCls}
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              autoComplete="new-password"
+            />
+          </div>
+          {passwordError && (password || confirmPassword) && (
+            <p className="col-span-2 text-xs text-amber-600">{passwordError}</p>
+          )}
+        </div>
+      )}
+      <div className="flex justify-end gap-2 pt-2">
+        <button className={btnGhost} onClick={() => onDone()}>
+          取消
+        </button>
+        <button className={btnPrimary} onClick={exportData} disabled={busy || !!passwordError}>
+          {busy ? '加密中…' : '导出'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,8 @@
 import { FilterBar, FilterClearButton } from './ui/FilterBar'
 import { FilterRow } from './ui/FilterRow'
 import { FilterChip } from './ui/FilterChip'
+import LabelFilterRows from './LabelFilterRows'
+import type { Asset } from '../types'
 
 type FlowTab = 'asset' | 'strategy'
 
@@ -23,11 +25,15 @@ interface Props {
   filterAsset: string
   filterStrategyAsset: string
   filterStrategy: string
+  filterLabel: string
   assetOptions: AssetOption[]
   strategyOptions: StrategyOption[]
+  /** 提供标签与自定义维度选项 */
+  labelAssets: Asset[]
   onAssetChange: (id: string) => void
   onStrategyAssetChange: (id: string) => void
   onStrategyChange: (id: string) => void
+  onLabelChange: (value: string) => void
   onClear: () => void
 }
 
@@ -77,17 +83,21 @@ export default function FlowFilters({
   filterAsset,
   filterStrategyAsset,
   filterStrategy,
+  filterLabel,
   assetOptions,
   strategyOptions,
+  labelAssets,
   onAssetChange,
   onStrategyAssetChange,
   onStrategyChange,
+  onLabelChange,
   onClear,
 }: Props) {
   const hasFilter =
-    tab === 'asset'
+    !!filterLabel ||
+    (tab === 'asset'
       ? !!filterAsset
-      : !!filterStrategyAsset || !!filterStrategy
+      : !!filterStrategyAsset || !!filterStrategy)
 
   return (
     <FilterBar actions={hasFilter ? <FilterClearButton onClick={onClear} /> : undefined}>
@@ -95,6 +105,8 @@ export default function FlowFilters({
         <FlowTabBar tab={tab} onChange={onTabChange} />
       </FilterRow>
 
+      <LabelFilterRows assets={labelAssets} value={filterLabel} onChange={onLabelChange} />
+
       {tab === 'asset' ? (
         <FilterRow label="资产" scroll>
           <FilterChip label="全部" active={!filterAsset} onClick={() => onAssetChange('')} />
@@ -0,0 +1,105 @@
+import { useState } from 'react'
+import type { Settings } from '../types'
+import { FX_SOURCE_LABEL } from '../types'
+import { fmtDateTime, staleUpdateCls } from '../utils/format'
+import { inputCls } from './Modal'
+
+interface Props {
+  settings: Settings
+  /** 编辑中的汇率(字符串),保存时再解析 */
+  value: Record<string, string>
+  onChange: (value: Record<string, string>) => void
+  /** 币种 -> 使用它的资产/策略数量 */
+  usage: Record<string, number>
+  staleDays: number
+}
+
+/** 汇率管理表:每个币种的汇率、来源、更新时间与使用情况;用到却缺汇率的币种高亮 */
+export default function FxRateTable({ settings, value, onChange, usage, staleDays }: Props) {
+  const [newCode, setNewCode] = useState('')
+  const base = settings.baseCurrency
+  const codes = [...new Set([...Object.keys(value), ...Object.keys(usage)])].filter((c) => c !== base).sort()
+  const code = newCode.trim().toUpperCase()
+  const codeValid = /^[A-Z]{3,5}$/.test(code) && code !== base && !codes.includes(code)
+
+  const remove = (c: string) => {
+    const next = { ...value }
+    delete next[c]
+    onChange(next)
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-xl border border-slate-100">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-slate-100 text-left text-xs text-slate-500">
+            <th className="px-3 py-2 font-medium">币种</th>
+            <th className="px-3 py-2 font-medium">1 单位 = ? {base}</th>
+            <th className="px-3 py-2 font-medium">来源</th>
+            <th className="px-3 py-2 font-medium">更新时间</th>
+            <th className="px-3 py-2 text-right font-medium">使用</th>
+            <th className="px-3 py-2" />
+          </tr>
+        </thead>
+        <tbody>
+          {codes.map((c) => {
+            const meta = settings.fxMeta?.[c]
+            const missing = (usage[c] ?? 0) > 0 && !(Number(value[c]) > 0)
+            return (
+              <tr key={c} className={`border-t border-slate-100 ${missing ? 'bg-amber-50' : ''}`}>
+                <td className="px-3 py-2 font-medium text-slate-700">{c}</td>
+                <td className="px-3 py-2">
+                  <input
+                    className={`${inputCls} w-32`}
+                    type="number"
+                    step="0.0001"
+                    value={value[c] ?? ''}
+                    onChange={(e) => onChange({ ...value, [c]: e.target.value })}
+                    placeholder="缺少汇率"
+                  />
+                </td>
+                <td className="px-3 py-2 text-xs text-slate-500">{meta ? FX_SOURCE_LABEL[meta.source] : '—'}</td>
+                <td className={`px-3 py-2 text-xs ${meta ? staleUpdateCls(meta.updatedAt, staleDays) : 'text-slate-400'}`}>
+                  {meta ? fmtDateTime(meta.updatedAt) : '—'}
+                </td>
+                <td className="px-3 py-2 text-right text-xs tabular-nums text-slate-500">
+                  {missing ? <span className="text-amber-600">{usage[c]} 项按 1 折算</span> : (usage[c] ?? 0) || '—'}
+                </td>
+                <td className="px-3 py-2 text-right">
+                  {!usage[c] && (
+                    <button type="button" className="text-xs text-slate-500 hover:text-red-600" onClick={() => remove(c)}>
+                      移除
+                    </button>
+                  )}
+                </td>
+              </tr>
+            )
+          })}
+          <tr className="border-t border-slate-100">
+            <td className="px-3 py-2" colSpan={6}>
+              <div className="flex items-center gap-2">
+                <input
+                  className={`${inputCls} w-32`}
+                  value={newCode}
+                  onChange={(e) => setNewCode(e.target.value)}
+                  placeholder="币种代码,如 JPY"
+                />
+                <button
+                  type="button"
+                  className="text-xs text-blue-600 hover:underline disabled:text-slate-400 disabled:no-underline"
+                  disabled={!codeValid}
+                  onClick={() => {
+                    onChange({ ...value, [code]: '' })
+                    setNewCode('')
+                  }}
+                >
+                  + 添加币种
+                </button>
+              </div>
+            </td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  )
+}
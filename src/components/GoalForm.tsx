@@ -0,0 +1,151 @@
+import { useState } from 'react'
+import { useStore } from '../store'
+import type { Asset, AssetType, Goal, GoalScope } from '../types'
+import { ASSET_TYPE_LABEL, GOAL_SCOPE_LABEL } from '../types'
+import { btnGhost, btnPrimary, inputCls, labelCls } from './Modal'
+import { FilterChip } from './ui/FilterChip'
+
+type GoalInput = Omit<Goal, 'id' | 'createdAt'>
+
+interface Props {
+  assets: Asset[]
+  initial?: Goal
+  onSubmit: (g: GoalInput) => void
+  onCancel: () => void
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/
+
+function toggle<T>(list: T[], item: T): T[] {
+  return list.includes(item) ? list.filter((x) => x !== item) : [...list, item]
+}
+
+export default function GoalForm({ assets, initial, onSubmit, onCancel }: Props) {
+  const baseCurrency = useStore((s) => s.settings.baseCurrency)
+  const activeAssets = assets.filter((a) => !a.archived || initial?.assetIds?.includes(a.id))
+  const [name, setName] = useState(initial?.name ?? '')
+  const [target, setTarget] = useState(initial ? String(initial.targetCNY) : '')
+  const [deadline, setDeadline] = useState(initial?.deadline ?? '')
+  const [scope, setScope] = useState<GoalScope>(initial?.scope ?? 'netWorth')
+  const [assetTypes, setAssetTypes] = useState<AssetType[]>(initial?.assetTypes ?? [])
+  const [assetIds, setAssetIds] = useState<string[]>(initial?.assetIds ?? [])
+  const [contribution, setContribution] = useState(
+    initial?.monthlyContribution != null ? String(initial.monthlyContribution) : '',
+  )
+
+  const usedTypes = (Object.keys(ASSET_TYPE_LABEL) as AssetType[]).filter((t) =>
+    activeAssets.some((a) => a.type === t),
+  )
+
+  const valid =
+    !!name.trim() &&
+    Number(target) > 0 &&
+    (!deadline || DATE_RE.test(deadline)) &&
+    (scope !== 'types' || assetTypes.length > 0) &&
+    (scope !== 'assets' || assetIds.length > 0) &&
+    (contribution === '' || Number(contribution) >= 0)
+
+  const submit = () => {
+    if (!valid) return
+    onSubmit({
+      name: name.trim(),
+      targetCNY: Number(target),
+      deadline: deadline || undefined,
+      scope,
+      assetTypes: scope === 'types' ? assetTypes : undefined,
+      assetIds: scope === 'assets' ? assetIds : undefined,
+      monthlyContribution: contribution === '' ? undefined : Number(contribution),
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className={labelCls}>名称 *</label>
+        <input
+          className={inputCls}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="如:应急金 / 2035 年净资产 500 万"
+          autoFocus
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelCls}>目标金额({baseCurrency})*</label>
+          <input
+            type="number"
+            className={inputCls}
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            placeholder="0.00"
+            min="0"
+            step="any"
+          />
+        </div>
+        <div>
+          <label className={labelCls}>期望达成日</label>
+          <input type="date" className={inputCls} value={deadline} onChange={(e) => setDeadline(e.target.value)} />
+        </div>
+      </div>
+
+      <div>
+        <label className={labelCls}>统计范围</label>
+        <select className={inputCls} value={scope} onChange={(e) => setScope(e.target.value as GoalScope)}>
+          {(Object.keys(GOAL_SCOPE_LABEL) as GoalScope[]).map((s) => (
+            <option key={s} value={s}>
+              {GOAL_SCOPE_LABEL[s]}
+            </option>
+          ))}
+        </select>
+      </div>
+      {scope === 'types' && (
+        <div className="flex flex-wrap gap-2">
+          {usedTypes.map((t) => (
+            <FilterChip
+              key={t}
+              label={ASSET_TYPE_LABEL[t]}
+              active={assetTypes.includes(t)}
+              onClick={() => setAssetTypes(toggle(assetTypes, t))}
+            />
+          ))}
+        </div>
+      )}
+      {scope === 'assets' && (
+        <div className="flex max-h-40 flex-wrap gap-2 overflow-y-auto">
+          {activeAssets.map((a) => (
+            <FilterChip
+              key={a.id}
+              label={a.name}
+              active={assetIds.includes(a.id)}
+              onClick={() => setAssetIds(toggle(assetIds, a.id))}
+            />
+          ))}
+        </div>
+      )}
+      {scope !== 'netWorth' && <p className="text-xs text-slate-500">范围内的负债按负值计入。</p>}
+
+      <div>
+        <label className={labelCls}>计划每月投入({baseCurrency})</label>
+        <input
+          type="number"
+          className={inputCls}
+          value={contribution}
+          onChange={(e) => setContribution(e.target.value)}
+          placeholder="留空则按近一年的实际净投入预测"
+          min="0"
+          step="any"
+        />
+      </div>
+
+      <div className="flex justify-end gap-2 pt-2">
+        <button className={btnGhost} onClick={onCancel}>
+          取消
+        </button>
+        <button className={btnPrimary} onClick={submit} disabled={!valid}>
+          {initial ? '保存' : '添加目标'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,134 @@
+import { useState } from 'react'
+import { useStore } from '../store'
+import { useGoalProgress } from '../hooks/useGoals'
+import type { Goal, GoalProgress, GoalStatus } from '../types'
+import { GOAL_STATUS_LABEL } from '../types'
+import { fmtCompact, fmtMoney, fmtPct } from '../utils/format'
+import { formatDateKey } from '../utils/time'
+import { Card, CardBody, CardHeader } from './ui/Card'
+import Modal from './Modal'
+import GoalForm from './GoalForm'
+
+type FormState = { kind: 'add' } | { kind: 'edit'; goal: Goal } | null
+
+const STATUS_CLS: Record<GoalStatus, { text: string; bar: string }> = {
+  achieved: { text: 'text-green-600', bar: 'bg-green-500' },
+  onTrack: { text: 'text-blue-600', bar: 'bg-blue-500' },
+  offTrack: { text: 'text-amber-600', bar: 'bg-amber-500' },
+  unknown: { text: 'text-slate-400', bar: 'bg-slate-400' },
+}
+
+function forecastText(p: GoalProgress): string {
+  if (p.status === 'achieved') return `已达成 ${fmtMoney(p.goal.targetCNY)}`
+  if (p.status === 'unknown') return '流水不足一个月,填写计划每月投入后可预测'
+  const eta = p.projectedAt != null ? `预计 ${formatDateKey(p.projectedAt)} 达成` : '按当前增长难以达成'
+  const need =
+    p.status === 'offTrack' && p.requiredMonthlyCNY != null
+      ? `;按期需每月投入 ${fmtMoney(p.requiredMonthlyCNY)}`
+      : ''
+  return `${eta}(每月 ${fmtMoney(p.monthlyContributionCNY)})${need}`
+}
+
+/** 总览页目标进度卡:进度条 + 达成预测,可新建/编辑/删除目标 */
+export default function GoalsCard() {
+  const assets = useStore((s) => s.assets)
+  const addGoal = useStore((s) => s.addGoal)
+  const updateGoal = useStore((s) => s.updateGoal)
+  const deleteGoal = useStore((s) => s.deleteGoal)
+  const readOnly = useStore((s) => s.readOnly)
+  const progress = useGoalProgress()
+  const [form, setForm] = useState<FormState>(null)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-medium text-slate-700">目标</h3>
+          {!readOnly && (
+            <button
+              className="text-xs text-blue-600 transition-colors hover:text-blue-700"
+              onClick={() => setForm({ kind: 'add' })}
+            >
+              + 新建目标
+            </button>
+          )}
+        </div>
+      </CardHeader>
+      <CardBody>
+        {progress.length === 0 ? (
+          <p className="text-sm text-slate-400">
+            {readOnly
+              ? '目标按账本设定,请切换到具体账本查看。'
+              : '设定净资产或某类资产的目标金额,按历史增长与计划投入预测达成日期。'}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {progress.map((p) => {
+              const cls = STATUS_CLS[p.status]
+              return (
+                <div key={p.goal.id}>
+                  <div className="flex items-baseline justify-between gap-3">
+                    <span className="truncate text-sm text-slate-700">
+                      {p.goal.name}
+                      {p.goal.deadline && (
+                        <span className="ml-2 text-xs text-slate-400">期限 {p.goal.deadline}</span>
+                      )}
+                    </span>
+                    <span className="shrink-0 text-xs tabular-nums text-slate-600">
+                      {fmtCompact(p.currentCNY)} / {fmtCompact(p.goal.targetCNY)}
+                      <span className={`ml-2 ${cls.text}`}>{GOAL_STATUS_LABEL[p.status]}</span>
+                    </span>
+                  </div>
+                  <div className="mt-1.5 h-2 w-full overflow-hidden rounded-full bg-slate-100">
+                    <div
+                      className={`h-full rounded-full transition-all duration-200 ${cls.bar}`}
+                      style={{ width: `${Math.max(2, p.ratio * 100)}%` }}
+                    />
+                  </div>
+                  <div className="mt-1 flex items-center justify-between gap-3 text-xs text-slate-500">
+                    <span>
+                      {fmtPct(p.ratio, 1, false)} · {forecastText(p)}
+                    </span>
+                    {!readOnly && (
+                      <span className="shrink-0">
+                        <button
+                          className="mr-3 text-blue-600 hover:underline"
+                          onClick={() => setForm({ kind: 'edit', goal: p.goal })}
+                        >
+                          编辑
+                        </button>
+                        <button
+                          className="hover:text-red-600"
+                          onClick={() => {
+                            if (confirm(`删除目标「${p.goal.name}」?`)) deleteGoal(p.goal.id)
+                          }}
+                        >
+                          删除
+                        </button>
+                      </span>
+                    )}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardBody>
+
+      {form && (
+        <Modal title={form.kind === 'edit' ? '编辑目标' : '新建目标'} onClose={() => setForm(null)}>
+          <GoalForm
+            assets={assets}
+            initial={form.kind === 'edit' ? form.goal : undefined}
+            onSubmit={(g) => {
+              if (form.kind === 'edit') updateGoal(form.goal.id, g)
+              else addGoal(g)
+              setForm(null)
+            }}
+            onCancel={() => setForm(null)}
+          />
+        </Modal>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,36 @@
+import { useState } from 'react'
+import { parseHolidays } from '../engine/recurring'
+import { useStore } from '../store'
+import { btnPrimary, inputCls, labelCls } from './Modal'
+
+/** 设置页节假日:周期规则开启顺延时,遇这些日期与周末一样顺延到下一个工作日 */
+export default function HolidayPanel({ onMessage }: { onMessage: (m: string) => void }) {
+  const holidays = useStore((s) => s.settings.holidays)
+  const saveSettings = useStore((s) => s.saveSettings)
+  const [text, setText] = useState(() => (holidays ?? []).join('\n'))
+  const { dates, invalid } = parseHolidays(text)
+
+  const save = () => {
+    saveSettings({ holidays: dates.length > 0 ? dates : undefined })
+    setText(dates.join('\n'))
+    onMessage(`节假日已保存(${dates.length} 天)`)
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className={labelCls}>节假日(每行一个日期,如 2025-10-01)</label>
+        <textarea
+          className={`${inputCls} h-32 font-mono`}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={'2025-10-01\n2025-10-02'}
+        />
+      </div>
+      {invalid.length > 0 && <p className="text-xs text-red-600">无法识别:{invalid.join('、')}</p>}
+      <button className={btnPrimary} onClick={save} disabled={invalid.length > 0}>
+        保存
+      </button>
+    </div>
+  )
+}
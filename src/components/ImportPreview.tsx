@@ -0,0 +1,165 @@
+import { useMemo, useState } from 'react'
+import { useStore } from '../store'
+import {
+  BOOK_SECTIONS,
+  BOOK_SECTION_LABEL,
+  IMPORT_MODE_DESC,
+  IMPORT_MODE_LABEL,
+  IMPORT_SECTION_LABEL,
+  StorageService,
+  planImport,
+  rebaseImport,
+  uid,
+  type ImportMode,
+  type ParsedImport,
+} from '../services/storage'
+import { color } from '../theme/colors'
+import { btnGhost, btnPrimary } from './Modal'
+
+const ISSUES_SHOWN = 20
+
+interface Props {
+  parsed: ParsedImport
+  /** 导入完成(附结果摘要)或取消(无参数) */
+  onDone: (message?: string) => void
+}
+
+/** 导入预览:校验问题、导入方式、是否带设置/密钥,以及按所选方式算出的新增/变更/删除数 */
+export default function ImportPreview({ parsed, onDone }: Props) {
+  const importData = useStore((s) => s.importData)
+  const settings = useStore((s) => s.settings)
+  const baseCurrency = settings.baseCurrency
+  const [current] = useState(() => StorageService.loadBookData())
+  const hasData = current.assets.length > 0 || current.transactions.length > 0
+  const [mode, setMode] = useState<ImportMode>(hasData ? 'merge' : 'replace')
+  const [includeSettings, setIncludeSettings] = useState(!hasData)
+  const [includeSecrets, setIncludeSecrets] = useState(false)
+
+  const rebaseError = useMemo(() => {
+    try {
+      rebaseImport(parsed, settings)
+      return null
+    } catch (e) {
+      return (e as Error).message
+    }
+  }, [parsed, settings])
+  const { diff } = useMemo(() => planImport(current, parsed.book, mode, uid), [current, parsed, mode])
+  const sections = BOOK_SECTIONS.filter((s) => parsed.book[s].length > 0 || diff[s].removed > 0)
+  const otherCurrency = parsed.baseCurrency && parsed.baseCurrency !== baseCurrency
+
+  const confirmImport = () => {
+    if (mode === 'replace' && hasData && !confirm('替换会清空当前账本的全部资产、流水与策略。继续?')) return
+    try {
+      const result = importData(parsed, { mode, includeSettings, includeSecrets })
+      onDone(`导入成功:新增 ${result.assets.added} 项资产、${result.transactions.added} 条流水,更新 ${result.transactions.changed} 条流水`)
+    } catch (e) {
+      onDone(`导入失败:${(e as Error).message}`)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-slate-500">
+        {parsed.workspaceName && `账本「${parsed.workspaceName}」· `}
+        {parsed.exportedAt && `导出于 ${new Date(parsed.exportedAt).toLocaleString('zh-CN')} · `}
+        数据版本 v{parsed.version}
+        {parsed.baseCurrency && ` · 基准货币 ${parsed.baseCurrency}`}
+      </p>
+
+      {parsed.issues.length > 0 && (
+        <div className={color.alertWarn}>
+          <p className="mb-1 font-medium">{parsed.issues.length} 处数据有误,导入时将跳过:</p>
+          <ul className="space-y-0.5">
+            {parsed.issues.slice(0, ISSUES_SHOWN).map((issue, i) => (
+              <li key={i}>
+                {IMPORT_SECTION_LABEL[issue.section]}
+                {issue.index >= 0 && ` 第 ${issue.index + 1} 行`}
+                {issue.id && `(${issue.id})`}:{issue.message}
+              </li>
+            ))}
+          </ul>
+          {parsed.issues.length > ISSUES_SHOWN && <p className="mt-1">另有 {parsed.issues.length - ISSUES_SHOWN} 处未列出</p>}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {(Object.keys(IMPORT_MODE_LABEL) as ImportMode[]).map((m) => (
+          <label key={m} className="flex cursor-pointer items-start gap-2 text-sm text-slate-700">
+            <input type="radio" className="mt-1" checked={mode === m} onChange={() => setMode(m)} />
+            <span>
+              {IMPORT_MODE_LABEL[m]}
+              <span className="mt-0.5 block text-xs text-slate-500">{IMPORT_MODE_DESC[m]}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      {parsed.settings && (
+        <div className="space-y-1.5 text-sm text-slate-700">
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={includeSettings} onChange={(e) => setIncludeSettings(e.target.checked)} />
+            导入设置(配置目标、行情源等;汇率只补入当前没有的币种)
+          </label>
+          {parsed.secretsStripped ? (
+            <p className="text-xs text-slate-500">该备份导出时已去掉 API Key 等密钥,将保留当前的密钥。</p>
+          ) : (
+            <label className={`flex items-center gap-2 ${includeSettings ? '' : 'text-slate-400'}`}>
+              <input
+                type="checkbox"
+                checked={includeSecrets}
+                disabled={!includeSettings}
+                onChange={(e) => setIncludeSecrets(e.target.checked)}
+              />
+              同时导入 API Key 等密钥(不勾选则保留当前的密钥)
+            </label>
+          )}
+        </div>
+      )}
+
+      {otherCurrency && (
+        <p className="text-xs text-amber-600">
+          {rebaseError ?? (
+            <>
+              文件的基准货币为 {parsed.baseCurrency},与当前的 {baseCurrency} 不同:行情、历史汇率与目标金额将换算为{' '}
+              {baseCurrency} 后导入,基准货币与汇率保持当前设置。
+            </>
+          )}
+        </p>
+      )}
+
+      <div className="overflow-x-auto rounded-xl border border-slate-100">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-slate-100 text-left text-xs text-slate-500">
+              <th className="px-3 py-2 font-medium">数据</th>
+              <th className="px-3 py-2 text-right font-medium">新增</th>
+              <th className="px-3 py-2 text-right font-medium">变更</th>
+              <th className="px-3 py-2 text-right font-medium">删除</th>
+              <th className="px-3 py-2 text-right font-medium">不变</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sections.map((s) => (
+              <tr key={s} className="border-t border-slate-100 tabular-nums text-slate-700">
+                <td className="px-3 py-2">{BOOK_SECTION_LABEL[s]}</td>
+                <td className="px-3 py-2 text-right text-emerald-600">{diff[s].added || '—'}</td>
+                <td className="px-3 py-2 text-right text-blue-600">{diff[s].changed || '—'}</td>
+                <td className="px-3 py-2 text-right text-red-600">{diff[s].removed || '—'}</td>
+                <td className="px-3 py-2 text-right text-slate-400">{diff[s].unchanged || '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-end gap-2 pt-2">
+        <button className={btnGhost} onClick={() => onDone()}>
+          取消
+        </button>
+        <button className={btnPrimary} onClick={confirmImport} disabled={sections.length === 0 || rebaseError != null}>
+          确认导入
+        </button>
+      </div>
+    </div>
+  )
+}
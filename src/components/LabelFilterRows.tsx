@@ -0,0 +1,48 @@
+import { FilterRow } from './ui/FilterRow'
+import { FilterChip } from './ui/FilterChip'
+import { dimensionOptions, tagOptions } from '../engine/grouping'
+import type { Asset } from '../types'
+
+interface Props {
+  assets: Asset[]
+  /** '' 或 `tag:标签` / `dim:维度名=取值`,见 matchesLabelFilter */
+  value: string
+  onChange: (value: string) => void
+}
+
+/** 标签与自定义维度筛选行(单选,再次点击取消);没有标签与维度时不渲染 */
+export default function LabelFilterRows({ assets, value, onChange }: Props) {
+  const tags = tagOptions(assets)
+  const dims = dimensionOptions(assets)
+  const pick = (v: string) => onChange(value === v ? '' : v)
+
+  return (
+    <>
+      {tags.length > 0 && (
+        <FilterRow label="标签" scroll>
+          {tags.map(({ tag, count }) => (
+            <FilterChip
+              key={tag}
+              label={tag}
+              count={count}
+              active={value === `tag:${tag}`}
+              onClick={() => pick(`tag:${tag}`)}
+            />
+          ))}
+        </FilterRow>
+      )}
+      {dims.map(({ key, values }) => (
+        <FilterRow key={key} label={key} scroll>
+          {values.map((v) => (
+            <FilterChip
+              key={v}
+              label={v}
+              active={value === `dim:${key}=${v}`}
+              onClick={() => pick(`dim:${key}=${v}`)}
+            />
+          ))}
+        </FilterRow>
+      ))}
+    </>
+  )
+}
@@ -0,0 +1,60 @@
+import type { Transaction } from '../types'
+import type { LoanInstallment } from '../engine/loan'
+import { fmtNum } from '../utils/format'
+import { formatDateKey } from '../utils/time'
+
+interface Props {
+  schedule: LoanInstallment[]
+  currency: string
+  /** 该负债资产的流水,用于标记已记账的期数 */
+  transactions: Transaction[]
+  now: number
+}
+
+/** 还款计划表:逐期月供、本金、利息与剩余本金 */
+export default function LoanSchedule({ schedule, currency, transactions, now }: Props) {
+  const recorded = new Set(transactions.filter((t) => t.loanPeriod != null).map((t) => t.loanPeriod))
+  const totalInterest = schedule.reduce((s, i) => s + i.interest, 0)
+
+  return (
+    <div>
+      <p className="mb-3 text-xs text-slate-500">
+        共 {schedule.length} 期,利息合计 {fmtNum(totalInterest, 2)} {currency}
+      </p>
+      <div className="max-h-[min(60vh,32rem)] overflow-y-auto rounded-xl border border-slate-100">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-white">
+            <tr className="border-b border-slate-100 text-left text-xs text-slate-500">
+              <th className="px-3 py-2 font-medium">期数</th>
+              <th className="px-3 py-2 font-medium">还款日</th>
+              <th className="px-3 py-2 font-medium text-right">月供</th>
+              <th className="px-3 py-2 font-medium text-right">本金</th>
+              <th className="px-3 py-2 font-medium text-right">利息</th>
+              <th className="px-3 py-2 font-medium text-right">剩余本金</th>
+              <th className="px-3 py-2 font-medium text-right">状态</th>
+            </tr>
+          </thead>
+          <tbody>
+            {schedule.map((i) => {
+              const status = recorded.has(i.period) ? '已记账' : i.dueAt <= now ? '已到期' : '未到期'
+              return (
+                <tr
+                  key={i.period}
+                  className={`border-t border-slate-100 ${i.dueAt <= now ? 'text-slate-500' : 'text-slate-700'}`}
+                >
+                  <td className="px-3 py-1.5 tabular-nums">{i.period}</td>
+                  <td className="px-3 py-1.5 tabular-nums">{formatDateKey(i.dueAt)}</td>
+                  <td className="px-3 py-1.5 text-right tabular-nums">{fmtNum(i.payment, 2)}</td>
+                  <td className="px-3 py-1.5 text-right tabular-nums">{fmtNum(i.principal, 2)}</td>
+                  <td className="px-3 py-1.5 text-right tabular-nums">{fmtNum(i.interest, 2)}</td>
+                  <td className="px-3 py-1.5 text-right tabular-nums">{fmtNum(i.remainingPrincipal, 2)}</td>
+                  <td className="px-3 py-1.5 text-right text-xs">{status}</td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,209 @@
+import { useMemo, useState } from 'react'
+import { useStore } from '../store'
+import { needsInput, occurrenceDraft } from '../engine/recurring'
+import type { PendingTx, RecurringRule } from '../types'
+import { TX_TYPE_LABEL } from '../types'
+import { fmtNum } from '../utils/format'
+import { formatDateKey } from '../utils/time'
+import { Card, CardHeader } from './ui/Card'
+import Modal from './Modal'
+import TxForm from './TxForm'
+import StrategyTxForm from './StrategyTxForm'
+
+interface Occurrence {
+  rule: RecurringRule
+  at: number
+}
+
+/** 「待确认」队列:周期规则生成的各期与再平衡等一次性建议;逐条确认、修改后确认或跳过 */
+export default function PendingOccurrences() {
+  const rules = useStore((s) => s.recurringRules)
+  const assets = useStore((s) => s.assets)
+  const strategies = useStore((s) => s.strategies)
+  const confirmOccurrence = useStore((s) => s.confirmOccurrence)
+  const skipOccurrence = useStore((s) => s.skipOccurrence)
+  const pendingTxs = useStore((s) => s.pendingTxs)
+  const confirmPendingTx = useStore((s) => s.confirmPendingTx)
+  const discardPendingTx = useStore((s) => s.discardPendingTx)
+  const [editing, setEditing] = useState<Occurrence | null>(null)
+  const [editingTx, setEditingTx] = useState<PendingTx | null>(null)
+
+  const queue = useMemo(
+    () =>
+      rules
+        .flatMap((rule) => (rule.pending ?? []).map((at) => ({ rule, at })))
+        .sort((a, b) => a.at - b.at),
+    [rules],
+  )
+  const count = queue.length + pendingTxs.length
+  if (count === 0) return null
+
+  const assetName = (id?: string) => assets.find((a) => a.id === id)?.name ?? '(已删除资产)'
+  const targetName = (rule: RecurringRule) =>
+    rule.strategyId
+      ? strategies.find((s) => s.id === rule.strategyId)?.name ?? '(已删除策略)'
+      : assetName(rule.assetId)
+
+  const detail = ({ type, amount, quantity, price }: RecurringRule['template']) => {
+    if (quantity != null && price != null) return `${fmtNum(quantity)} × ${fmtNum(price)}`
+    if (quantity != null) return `${fmtNum(quantity)} 份`
+    return amount != null ? fmtNum(amount, 2) : TX_TYPE_LABEL[type]
+  }
+
+  const ready = queue.filter((o) => !needsInput(o.rule))
+  const readyCount = ready.length + pendingTxs.length
+  const confirmAll = () => {
+    if (!confirm(`按草稿确认 ${readyCount} 笔流水?`)) return
+    for (const o of ready) confirmOccurrence(o.rule.id, o.at)
+    for (const p of pendingTxs) confirmPendingTx(p.id)
+  }
+
+  const editDraft = editing ? occurrenceDraft(editing.rule, editing.at) : null
+
+  return (
+    <Card>
+      <CardHeader className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-slate-700">待确认 · {count}</h2>
+        {readyCount > 0 && (
+          <button type="button" className="text-xs text-blue-600 hover:underline" onClick={confirmAll}>
+            全部确认
+          </button>
+        )}
+      </CardHeader>
+      <div className="max-h-72 overflow-y-auto">
+        <table className="w-full text-sm">
+          <tbody>
+            {queue.map(({ rule, at }) => (
+              <tr key={`${rule.id}:${at}`} className="border-t border-slate-100 first:border-t-0">
+                <td className="px-4 py-2 text-xs tabular-nums text-slate-500">{formatDateKey(at)}</td>
+                <td className="px-3 py-2 text-slate-700">
+                  {rule.name}
+                  <span className="ml-1 text-xs text-slate-400">{targetName(rule)}</span>
+                </td>
+                <td className="px-3 py-2 text-slate-600">{TX_TYPE_LABEL[rule.template.type]}</td>
+                <td className="px-3 py-2 text-right tabular-nums text-slate-700">{detail(rule.template)}</td>
+                <td className="whitespace-nowrap px-4 py-2 text-right">
+                  {needsInput(rule) ? (
+                    <button
+                      type="button"
+                      className="mr-3 text-xs text-blue-600 hover:underline"
+                      onClick={() => setEditing({ rule, at })}
+                    >
+                      补填确认
+                    </button>
+                  ) : (
+                    <>
+                      <button
+                        type="button"
+                        className="mr-3 text-xs text-blue-600 hover:underline"
+                        onClick={() => confirmOccurrence(rule.id, at)}
+                      >
+                        确认
+                      </button>
+                      <button
+                        type="button"
+                        className="mr-3 text-xs text-slate-500 hover:underline"
+                        onClick={() => setEditing({ rule, at })}
+                      >
+                        修改
+                      </button>
+                    </>
+                  )}
+                  <button
+                    type="button"
+                    className="text-xs text-slate-500 hover:text-red-600"
+                    onClick={() => skipOccurrence(rule.id, at)}
+                  >
+                    跳过
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {pendingTxs.map((p) => (
+              <tr key={p.id} className="border-t border-slate-100 first:border-t-0">
+                <td className="px-4 py-2 text-xs tabular-nums text-slate-500">{formatDateKey(p.tx.occurredAt)}</td>
+                <td className="px-3 py-2 text-slate-700">
+                  {p.source}
+                  <span className="ml-1 text-xs text-slate-400">{assetName(p.tx.assetId)}</span>
+                </td>
+                <td className="px-3 py-2 text-slate-600">{TX_TYPE_LABEL[p.tx.type]}</td>
+                <td className="px-3 py-2 text-right tabular-nums text-slate-700">{detail(p.tx)}</td>
+                <td className="whitespace-nowrap px-4 py-2 text-right">
+                  <button
+                    type="button"
+                    className="mr-3 text-xs text-blue-600 hover:underline"
+                    onClick={() => confirmPendingTx(p.id)}
+                  >
+                    确认
+                  </button>
+                  <button
+                    type="button"
+                    className="mr-3 text-xs text-slate-500 hover:underline"
+                    onClick={() => setEditingTx(p)}
+                  >
+                    修改
+                  </button>
+                  <button
+                    type="button"
+                    className="text-xs text-slate-500 hover:text-red-600"
+                    onClick={() => discardPendingTx(p.id)}
+                  >
+                    跳过
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {editing && editDraft?.kind === 'asset' && (
+        <Modal title={`${editing.rule.name} · 确认流水`} onClose={() => setEditing(null)}>
+          {editing.rule.template.type === 'BUY' && editing.rule.template.amount != null && (
+            <p className="mb-3 text-xs text-slate-500">
+              定投金额 {fmtNum(editing.rule.template.amount, 2)},请填写实际成交数量与单价。
+            </p>
+          )}
+          <TxForm
+            assets={assets}
+            fixedAssetId={editDraft.tx.assetId}
+            initial={{ ...editDraft.tx, id: '', createdAt: 0, updatedAt: 0 }}
+            onSubmit={(t) => {
+              confirmOccurrence(editing.rule.id, editing.at, { kind: 'asset', tx: t })
+              setEditing(null)
+            }}
+            onCancel={() => setEditing(null)}
+          />
+        </Modal>
+      )}
+      {editing && editDraft?.kind === 'strategy' && (
+        <Modal title={`${editing.rule.name} · 确认流水`} onClose={() => setEditing(null)}>
+          <StrategyTxForm
+            strategyId={editDraft.tx.strategyId}
+            currency={strategies.find((s) => s.id === editDraft.tx.strategyId)?.currency ?? 'CNY'}
+            initial={{ ...editDraft.tx, id: '', createdAt: 0 }}
+            onSubmit={(t) => {
+              confirmOccurrence(editing.rule.id, editing.at, { kind: 'strategy', tx: t })
+              setEditing(null)
+            }}
+            onCancel={() => setEditing(null)}
+          />
+        </Modal>
+      )}
+      {editingTx && (
+        <Modal title={`${editingTx.source} · 确认流水`} onClose={() => setEditingTx(null)}>
+          <TxForm
+            assets={assets}
+            fixedAssetId={editingTx.tx.assetId}
+            initial={{ ...editingTx.tx, id: '', createdAt: 0, updatedAt: 0 }}
+            onSubmit={(t) => {
+              confirmPendingTx(editingTx.id, t)
+              setEditingTx(null)
+            }}
+            onCancel={() => setEditingTx(null)}
+          />
+        </Modal>
+      )}
+    </Card>
+  )
+}
@@ -116,7 +116,11 @@ export default function PeriodReturnsCard({
       </CardHeader>
       <CardBody>
         {primary && primary.length > 0 && (
-          <div className="mb-4 grid grid-cols-2 gap-4 border-b border-slate-100 pb-4 sm:grid-cols-3">
+          <div
+            className={`mb-4 grid grid-cols-2 gap-4 border-b border-slate-100 pb-4 ${
+              primary.length > 3 ? 'sm:grid-cols-4' : 'sm:grid-cols-3'
+            }`}
+          >
             {primary.map((item) => (
               <MetricCell key={item.label} {...item} />
             ))}
@@ -0,0 +1,241 @@
+import { useState } from 'react'
+import type { Asset, LoanTerms, PrepaymentMode, RepaymentMethod, TxLedgerRow } from '../types'
+import { PREPAYMENT_MODE_LABEL, REPAYMENT_METHOD_LABEL } from '../types'
+import { remainingLoanTerms, simulatePrepayment } from '../engine/loan'
+import { fmtCompact, fmtNum, pnlColor } from '../utils/format'
+import { formatDateKey, migrateDateToOccurredAt } from '../utils/time'
+import { palette } from '../theme/colors'
+import EChart from './EChart'
+import LoanSchedule from './LoanSchedule'
+import { inputCls, labelCls } from './Modal'
+import { lightAxis, lightTooltip } from './chartTheme'
+
+interface Props {
+  asset: Asset
+  /** 该负债的流水台账(倒序),用于取提前还款日的剩余本金 */
+  ledger: TxLedgerRow[]
+}
+
+/** 提前还款模拟:对比提前还款与把这笔钱拿去投资的利息与净资产差异 */
+export default function PrepaymentSimulator({ asset, ledger }: Props) {
+  const loan = asset.loan
+  const [today] = useState(() => formatDateKey(Date.now()))
+  const [date, setDate] = useState(today)
+  const [amount, setAmount] = useState('')
+  const [mode, setMode] = useState<PrepaymentMode>('shorten')
+  const [principalInput, setPrincipalInput] = useState('')
+  const [ratePct, setRatePct] = useState(loan ? String(+(loan.annualRate * 100).toFixed(4)) : '')
+  const [monthsInput, setMonthsInput] = useState('')
+  const [method, setMethod] = useState<RepaymentMethod>(loan?.method ?? 'annuity')
+  const [investPct, setInvestPct] = useState('0')
+
+  const dateValid = /^\d{4}-\d{2}-\d{2}$/.test(date)
+  const atMs = migrateDateToOccurredAt(dateValid ? date : today)
+  const ledgerBalance = ledger.find((row) => row.tx.occurredAt <= atMs)?.balanceAfter
+  const planned = loan ? remainingLoanTerms(loan, atMs) : null
+  const defaultPrincipal = ledgerBalance ?? planned?.principal ?? 0
+  const defaultMonths = planned?.termMonths ?? 0
+  const principal = principalInput ? Number(principalInput) : defaultPrincipal
+  const months = monthsInput ? Number(monthsInput) : defaultMonths
+
+  const remainingLoan: LoanTerms | null =
+    dateValid && principal > 0 && Number.isInteger(months) && months > 0 && ratePct !== '' && Number(ratePct) >= 0
+      ? {
+          principal,
+          annualRate: Number(ratePct) / 100,
+          termMonths: months,
+          method,
+          startDate: planned?.startDate ?? date,
+          repaymentDay: loan?.repaymentDay ?? Number(date.slice(8, 10)),
+        }
+      : null
+  const prepay = Number(amount)
+  const result =
+    remainingLoan && prepay > 0
+      ? simulatePrepayment(remainingLoan, atMs, prepay, mode, Number(investPct || 0) / 100)
+      : null
+
+  const cur = asset.currency
+  const money = (n: number) => `${fmtNum(n, 2)} ${cur}`
+  const finalDelta = result?.netWorthDelta[result.netWorthDelta.length - 1]?.delta ?? 0
+
+  const deltaOption = result && {
+    tooltip: {
+      trigger: 'axis' as const,
+      ...lightTooltip,
+      valueFormatter: (v: unknown) => fmtNum(Number(v), 2),
+    },
+    grid: { left: 12, right: 16, top: 16, bottom: 8, containLabel: true },
+    xAxis: {
+      type: 'category' as const,
+      data: result.netWorthDelta.map((p) => formatDateKey(p.at)),
+      ...lightAxis,
+      boundaryGap: false,
+    },
+    yAxis: {
+      type: 'value' as const,
+      ...lightAxis,
+      axisLabel: { color: palette.textMuted, formatter: (v: number) => fmtCompact(v) },
+    },
+    series: [
+      {
+        name: '净资产差异',
+        type: 'line' as const,
+        data: result.netWorthDelta.map((p) => p.delta),
+        showSymbol: false,
+        lineStyle: { width: 2, color: palette.blue600 },
+      },
+    ],
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+        <div>
+          <label className={labelCls}>提前还款日 *</label>
+          <input type="date" className={inputCls} value={date} onChange={(e) => setDate(e.target.value)} />
+        </div>
+        <div>
+          <label className={labelCls}>还款金额({cur})*</label>
+          <input
+            type="number"
+            className={inputCls}
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder="0.00"
+            min="0"
+            step="any"
+          />
+        </div>
+        <div className="col-span-2">
+          <label className={labelCls}>还款后</label>
+          <select className={inputCls} value={mode} onChange={(e) => setMode(e.target.value as PrepaymentMode)}>
+            {(Object.keys(PREPAYMENT_MODE_LABEL) as PrepaymentMode[]).map((m) => (
+              <option key={m} value={m}>
+                {PREPAYMENT_MODE_LABEL[m]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-5">
+        <div>
+          <label className={labelCls}>剩余本金</label>
+          <input
+            type="number"
+            className={inputCls}
+            value={principalInput}
+            onChange={(e) => setPrincipalInput(e.target.value)}
+            placeholder={defaultPrincipal > 0 ? String(defaultPrincipal) : '0.00'}
+            min="0"
+            step="any"
+          />
+        </div>
+        <div>
+          <label className={labelCls}>剩余期数(月)</label>
+          <input
+            type="number"
+            className={inputCls}
+            value={monthsInput}
+            onChange={(e) => setMonthsInput(e.target.value)}
+            placeholder={defaultMonths > 0 ? String(defaultMonths) : ''}
+            min="1"
+            step="1"
+          />
+        </div>
+        <div>
+          <label className={labelCls}>年利率(%)</label>
+          <input
+            type="number"
+            className={inputCls}
+            value={ratePct}
+            onChange={(e) => setRatePct(e.target.value)}
+            min="0"
+            step="any"
+          />
+        </div>
+        <div>
+          <label className={labelCls}>还款方式</label>
+          <select className={inputCls} value={method} onChange={(e) => setMethod(e.target.value as RepaymentMethod)}>
+            {(Object.keys(REPAYMENT_METHOD_LABEL) as RepaymentMethod[]).map((m) => (
+              <option key={m} value={m}>
+                {REPAYMENT_METHOD_LABEL[m]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelCls} title="不提前还款时这笔钱的预期年化收益">
+            对比投资年化(%)
+          </label>
+          <input
+            type="number"
+            className={inputCls}
+            value={investPct}
+            onChange={(e) => setInvestPct(e.target.value)}
+            step="any"
+          />
+        </div>
+      </div>
+      <p className="text-xs text-slate-500">
+        剩余本金默认取该日流水余额{loan ? ',剩余期数默认按贷款计划' : ''};留空即用默认值。
+      </p>
+
+      {result && (
+        <>
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+            <Mini label="节省利息" value={money(result.interestSaved)} />
+            {mode === 'shorten' ? (
+              <Mini label="缩短期限" value={`${result.monthsSaved} 期`} />
+            ) : (
+              <Mini
+                label="新月供"
+                title={`原月供 ${money(result.baseline[0]?.payment ?? 0)}`}
+                value={money(result.schedule[0]?.payment ?? 0)}
+              />
+            )}
+            <Mini
+              label="结清日期"
+              title={`原结清日期 ${formatDateKey(result.baseline[result.baseline.length - 1].dueAt)}`}
+              value={result.schedule.length ? formatDateKey(result.schedule[result.schedule.length - 1].dueAt) : '一次还清'}
+            />
+            <Mini
+              label="净资产影响"
+              title="至原结清日:提前还款方案 − 不提前还款(闲钱按对比年化投资)"
+              value={money(finalDelta)}
+              cls={pnlColor(finalDelta)}
+            />
+          </div>
+
+          {deltaOption && (
+            <div className="rounded-xl border border-slate-100 bg-slate-50 p-3">
+              <p className="mb-1 text-xs text-slate-400">净资产差异(提前还款 − 不提前还款,{cur})</p>
+              <EChart option={deltaOption} height={200} />
+            </div>
+          )}
+
+          {result.schedule.length > 0 && (
+            <LoanSchedule schedule={result.schedule} currency={cur} transactions={[]} now={atMs} />
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+interface MiniProps {
+  label: string
+  value: string
+  cls?: string
+  title?: string
+}
+
+function Mini({ label, value, cls = 'text-slate-800', title }: MiniProps) {
+  return (
+    <div className="rounded-xl border border-slate-100 bg-slate-50 p-3" title={title}>
+      <p className="text-xs text-slate-500">{label}</p>
+      <p className={`mt-0.5 text-sm font-semibold tabular-nums ${cls}`}>{value}</p>
+    </div>
+  )
+}
@@ -0,0 +1,86 @@
+import { useState } from 'react'
+import { useStore } from '../store'
+import { listPriceProviders, missingProviderSettings } from '../services/priceProviders'
+import { btnGhost, btnPrimary, inputCls, labelCls } from './Modal'
+
+/** 设置页行情源列表:按各行情源声明的配置项渲染表单,并可单独获取该来源的行情 */
+export default function PriceProviderPanel({ onMessage }: { onMessage: (m: string) => void }) {
+  const assets = useStore((s) => s.assets)
+  const settings = useStore((s) => s.settings)
+  const saveSettings = useStore((s) => s.saveSettings)
+  const refreshProviderPrices = useStore((s) => s.refreshProviderPrices)
+  const refreshing = useStore((s) => s.refreshing)
+  const [config, setConfig] = useState(settings.priceProviders ?? {})
+
+  const providers = listPriceProviders()
+  const symbolsOf = (id: string) => [
+    ...new Set(assets.filter((a) => !a.archived && a.priceSource === id && a.symbol).map((a) => a.symbol!)),
+  ]
+
+  const saveConfig = (id: string) => {
+    const values = Object.fromEntries(
+      Object.entries(config[id] ?? {})
+        .map(([k, v]) => [k, v.trim()])
+        .filter(([, v]) => v),
+    )
+    const next = { ...settings.priceProviders }
+    if (Object.keys(values).length > 0) next[id] = values
+    else delete next[id]
+    saveSettings({ priceProviders: Object.keys(next).length > 0 ? next : undefined })
+    onMessage('已保存')
+  }
+
+  const refresh = async (id: string, label: string) => {
+    try {
+      onMessage(await refreshProviderPrices(id))
+    } catch (e) {
+      onMessage(`${label} 行情更新失败:${(e as Error).message}`)
+    }
+  }
+
+  return (
+    <div className="divide-y divide-slate-100">
+      {providers.map((p) => {
+        const symbols = symbolsOf(p.id)
+        const missing = missingProviderSettings(p, settings)
+        return (
+          <div key={p.id} className="py-4 first:pt-0 last:pb-0">
+            <div className="flex flex-wrap items-baseline justify-between gap-2">
+              <h4 className="text-sm font-medium text-slate-700">{p.label}</h4>
+              <span className="text-xs text-slate-500">
+                {symbols.length > 0 ? `将更新:${symbols.join('、')}` : '暂无使用此来源的资产'}
+              </span>
+            </div>
+            <p className="mt-1 text-xs text-slate-500">{p.description}</p>
+            {p.settings.map((f) => (
+              <div key={f.key} className="mt-3">
+                <label className={labelCls}>{f.label}</label>
+                <input
+                  className={inputCls}
+                  type={f.secret ? 'password' : 'text'}
+                  value={config[p.id]?.[f.key] ?? ''}
+                  onChange={(e) => setConfig({ ...config, [p.id]: { ...config[p.id], [f.key]: e.target.value } })}
+                  placeholder={f.placeholder}
+                />
+              </div>
+            ))}
+            <div className="mt-3 flex flex-wrap items-center gap-2">
+              {p.settings.length > 0 && (
+                <button className={btnGhost} onClick={() => saveConfig(p.id)}>
+                  保存
+                </button>
+              )}
+              <button
+                className={btnPrimary}
+                onClick={() => refresh(p.id, p.label)}
+                disabled={refreshing || symbols.length === 0 || missing.length > 0}
+              >
+                {refreshing ? '获取中…' : `获取 ${p.label} 行情`}
+              </button>
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
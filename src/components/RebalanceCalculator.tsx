@@ -0,0 +1,117 @@
+import { useState } from 'react'
+import { useStore } from '../store'
+import { usePortfolioEngine } from '../hooks/useSummary'
+import { rebalancePlan } from '../engine/allocation'
+import type { AllocationBucket, AssetSnapshot } from '../types'
+import { TX_TYPE_LABEL } from '../types'
+import { fmtMoney, fmtNum, pnlColor } from '../utils/format'
+import { formatDateKey, migrateDateToOccurredAt } from '../utils/time'
+import { btnGhost, btnPrimary, inputCls, labelCls } from './Modal'
+
+interface Props {
+  buckets: AllocationBucket[]
+  snapshots: AssetSnapshot[]
+  onDone: () => void
+}
+
+/** 再平衡计算器:按目标配置给出逐项买卖/转入转出建议,可加入待确认队列 */
+export default function RebalanceCalculator({ buckets, snapshots, onDone }: Props) {
+  const queuePendingTxs = useStore((s) => s.queuePendingTxs)
+  const readOnly = useStore((s) => s.readOnly)
+  const baseCurrency = useStore((s) => s.settings.baseCurrency)
+  const engine = usePortfolioEngine()
+  const [date, setDate] = useState(() => formatDateKey(Date.now()))
+  const [extra, setExtra] = useState('')
+
+  const dateValid = /^\d{4}-\d{2}-\d{2}$/.test(date)
+  const { proposals, unplaced } = rebalancePlan(buckets, snapshots, (c) => engine.fx(c), {
+    extraCashCNY: Number(extra) || 0,
+    occurredAt: dateValid ? migrateDateToOccurredAt(date) : undefined,
+  })
+  const bucketName = (id: string) => buckets.find((b) => b.id === id)?.name ?? ''
+
+  const queue = () => {
+    queuePendingTxs(
+      proposals.map((p) => p.tx),
+      '再平衡',
+    )
+    onDone()
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelCls}>日期</label>
+          <input type="date" className={inputCls} value={date} onChange={(e) => setDate(e.target.value)} />
+        </div>
+        <div>
+          <label className={labelCls} title="正数为新增资金,负数为本次要取出的资金">
+            新增/取出资金({baseCurrency})
+          </label>
+          <input
+            type="number"
+            className={inputCls}
+            value={extra}
+            onChange={(e) => setExtra(e.target.value)}
+            placeholder="0"
+            step="any"
+          />
+        </div>
+      </div>
+
+      {proposals.length === 0 ? (
+        <p className="py-6 text-center text-sm text-slate-400">各组已在目标占比上,无需调整</p>
+      ) : (
+        <div className="overflow-x-auto rounded-xl border border-slate-100">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-slate-100 text-left text-xs text-slate-500">
+                <th className="px-3 py-2 font-medium">资产</th>
+                <th className="px-3 py-2 font-medium">分组</th>
+                <th className="px-3 py-2 font-medium">流水</th>
+                <th className="px-3 py-2 text-right font-medium">数量/金额</th>
+                <th className="px-3 py-2 text-right font-medium">折合 {baseCurrency}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {proposals.map((p) => (
+                <tr key={p.asset.id} className="border-t border-slate-100 text-slate-700">
+                  <td className="px-3 py-2">{p.asset.name}</td>
+                  <td className="px-3 py-2 text-xs text-slate-500">{bucketName(p.bucketId)}</td>
+                  <td className="px-3 py-2">{TX_TYPE_LABEL[p.tx.type]}</td>
+                  <td className="px-3 py-2 text-right tabular-nums">
+                    {p.tx.quantity != null
+                      ? `${fmtNum(p.tx.quantity)} × ${fmtNum(p.tx.price ?? 0)} ${p.asset.currency}`
+                      : `${fmtNum(p.tx.amount ?? 0, 2)} ${p.asset.currency}`}
+                  </td>
+                  <td className={`px-3 py-2 text-right tabular-nums ${pnlColor(p.amountCNY)}`}>
+                    {p.amountCNY > 0 ? '+' : ''}
+                    {fmtMoney(p.amountCNY)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {unplaced.length > 0 && (
+        <p className="text-xs text-amber-600">
+          {unplaced.map((b) => `「${b.name}」`).join('、')}组内没有可交易的资产(或缺少行情),请先添加资产再调整。
+        </p>
+      )}
+      <p className="text-xs text-slate-500">
+        组内按当前市值比例分摊;份额型资产按当前单价折算数量,不含手续费。加入待确认后可逐笔修改成交价再确认。
+      </p>
+
+      <div className="flex justify-end gap-2 pt-2">
+        <button className={btnGhost} onClick={onDone}>
+          关闭
+        </button>
+        <button className={btnPrimary} onClick={queue} disabled={readOnly || proposals.length === 0 || !dateValid}>
+          加入待确认({proposals.length} 笔)
+        </button>
+      </div>
+    </div>
+  )
+}
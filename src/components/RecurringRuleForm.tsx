@@ -0,0 +1,276 @@
+import { useState } from 'react'
+import type { Asset, RecurrenceCadence, RecurringRule, Strategy, TxType } from '../types'
+import { RECURRENCE_CADENCE_LABEL, TX_TYPE_LABEL, isQuantityBased } from '../types'
+import { formatDateKey } from '../utils/time'
+import { btnGhost, btnPrimary, inputCls, labelCls } from './Modal'
+
+type RuleInput = Omit<RecurringRule, 'id' | 'createdAt'>
+
+interface Props {
+  assets: Asset[]
+  strategies: Strategy[]
+  initial?: RecurringRule
+  onSubmit: (r: RuleInput) => void
+  onCancel: () => void
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/
+
+function ruleTypes(asset: Asset | undefined, isStrategy: boolean): TxType[] {
+  if (isStrategy) return ['DEPOSIT', 'WITHDRAW', 'INCOME']
+  if (!asset) return []
+  if (asset.type === 'debt') return ['REPAY', 'BORROW']
+  if (isQuantityBased(asset.type)) return ['BUY', 'SELL']
+  return ['DEPOSIT', 'WITHDRAW', 'INCOME']
+}
+
+export default function RecurringRuleForm({ assets, strategies, initial, onSubmit, onCancel }: Props) {
+  const activeAssets = assets.filter((a) => !a.archived || a.id === initial?.assetId)
+  const activeStrategies = strategies.filter((s) => !s.archived || s.id === initial?.strategyId)
+  const [name, setName] = useState(initial?.name ?? '')
+  const [target, setTarget] = useState(
+    initial?.strategyId
+      ? `strategy:${initial.strategyId}`
+      : initial?.assetId
+        ? `asset:${initial.assetId}`
+        : activeAssets[0]
+          ? `asset:${activeAssets[0].id}`
+          : '',
+  )
+  const [type, setType] = useState<TxType>(initial?.template.type ?? 'DEPOSIT')
+  const [amount, setAmount] = useState(initial?.template.amount != null ? String(initial.template.amount) : '')
+  const [quantity, setQuantity] = useState(
+    initial?.template.quantity != null ? String(initial.template.quantity) : '',
+  )
+  const [price, setPrice] = useState(initial?.template.price != null ? String(initial.template.price) : '')
+  const [cadence, setCadence] = useState<RecurrenceCadence>(initial?.cadence ?? 'monthly')
+  const [intervalDays, setIntervalDays] = useState(initial?.intervalDays != null ? String(initial.intervalDays) : '')
+  const [startDate, setStartDate] = useState(() => initial?.startDate ?? formatDateKey(Date.now()))
+  const [endDate, setEndDate] = useState(initial?.endDate ?? '')
+  const [skipHolidays, setSkipHolidays] = useState(initial?.skipHolidays ?? false)
+  const [note, setNote] = useState(initial?.template.note ?? '')
+
+  const [targetKind, targetId] = target.split(':') as ['asset' | 'strategy', string]
+  const isStrategy = targetKind === 'strategy'
+  const asset = isStrategy ? undefined : activeAssets.find((a) => a.id === targetId)
+  const strategy = isStrategy ? activeStrategies.find((s) => s.id === targetId) : undefined
+  const types = ruleTypes(asset, isStrategy)
+  const effType = types.includes(type) ? type : types[0]
+  const trade = effType === 'BUY' || effType === 'SELL'
+  const currency = asset?.currency ?? strategy?.currency ?? 'CNY'
+
+  const valid =
+    !!name.trim() &&
+    (!!asset || !!strategy) &&
+    !!effType &&
+    (trade
+      ? effType === 'BUY'
+        ? Number(amount) > 0 || Number(quantity) > 0
+        : Number(quantity) > 0
+      : Number(amount) > 0) &&
+    (quantity === '' || Number(quantity) > 0) &&
+    (price === '' || Number(price) > 0) &&
+    (cadence !== 'custom' || (Number.isInteger(Number(intervalDays)) && Number(intervalDays) >= 1)) &&
+    DATE_RE.test(startDate) &&
+    (!endDate || (DATE_RE.test(endDate) && endDate >= startDate))
+
+  const submit = () => {
+    if (!valid) return
+    const startChanged = initial && initial.startDate !== startDate
+    onSubmit({
+      name: name.trim(),
+      assetId: isStrategy ? undefined : targetId,
+      strategyId: isStrategy ? targetId : undefined,
+      template: {
+        type: effType,
+        amount: !trade || effType === 'BUY' ? (amount ? Number(amount) : undefined) : undefined,
+        quantity: trade && quantity ? Number(quantity) : undefined,
+        price: trade && price ? Number(price) : undefined,
+        note: note.trim() || undefined,
+      },
+      cadence,
+      intervalDays: cadence === 'custom' ? Number(intervalDays) : undefined,
+      startDate,
+      endDate: endDate || undefined,
+      skipHolidays: skipHolidays || undefined,
+      paused: initial?.paused,
+      // 改了起始日则从头计算,已确认的流水不受影响
+      generatedUntil: startChanged ? undefined : initial?.generatedUntil,
+      pending: initial?.pending,
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className={labelCls}>名称 *</label>
+        <input
+          className={inputCls}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="如:工资入账 / 沪深300 定投 / 房租"
+          autoFocus
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelCls}>目标 *</label>
+          <select className={inputCls} value={target} onChange={(e) => setTarget(e.target.value)}>
+            <optgroup label="资产">
+              {activeAssets.map((a) => (
+                <option key={a.id} value={`asset:${a.id}`}>
+                  {a.name}
+                  {a.platform ? ` · ${a.platform}` : ''}
+                </option>
+              ))}
+            </optgroup>
+            {activeStrategies.length > 0 && (
+              <optgroup label="策略">
+                {activeStrategies.map((s) => (
+                  <option key={s.id} value={`strategy:${s.id}`}>
+                    {s.name}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+        </div>
+        <div>
+          <label className={labelCls}>类型 *</label>
+          <select className={inputCls} value={effType} onChange={(e) => setType(e.target.value as TxType)}>
+            {types.map((t) => (
+              <option key={t} value={t}>
+                {TX_TYPE_LABEL[t]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {trade ? (
+        <div className={effType === 'BUY' ? 'grid grid-cols-3 gap-3' : 'grid grid-cols-2 gap-3'}>
+          {effType === 'BUY' && (
+            <div>
+              <label className={labelCls}>定投金额({currency})</label>
+              <input
+                type="number"
+                className={inputCls}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                min="0"
+                step="any"
+              />
+            </div>
+          )}
+          <div>
+            <label className={labelCls}>数量{effType === 'SELL' ? ' *' : ''}</label>
+            <input
+              type="number"
+              className={inputCls}
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              min="0"
+              step="any"
+            />
+          </div>
+          <div>
+            <label className={labelCls}>单价({currency})</label>
+            <input
+              type="number"
+              className={inputCls}
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
+              min="0"
+              step="any"
+            />
+          </div>
+        </div>
+      ) : (
+        <div>
+          <label className={labelCls}>金额({currency})*</label>
+          <input
+            type="number"
+            className={inputCls}
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder="0.00"
+            min="0"
+            step="any"
+          />
+        </div>
+      )}
+      {trade && (
+        <p className="text-xs text-slate-500">
+          数量与单价都填写时可直接确认;否则(如按金额定投)在待确认队列里补填实际成交。
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelCls}>频率</label>
+          <select
+            className={inputCls}
+            value={cadence}
+            onChange={(e) => setCadence(e.target.value as RecurrenceCadence)}
+          >
+            {(Object.keys(RECURRENCE_CADENCE_LABEL) as RecurrenceCadence[]).map((c) => (
+              <option key={c} value={c}>
+                {RECURRENCE_CADENCE_LABEL[c]}
+              </option>
+            ))}
+          </select>
+        </div>
+        {cadence === 'custom' && (
+          <div>
+            <label className={labelCls}>间隔天数 *</label>
+            <input
+              type="number"
+              className={inputCls}
+              value={intervalDays}
+              onChange={(e) => setIntervalDays(e.target.value)}
+              min="1"
+              step="1"
+            />
+          </div>
+        )}
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelCls}>开始日期 *</label>
+          <input type="date" className={inputCls} value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+        </div>
+        <div>
+          <label className={labelCls}>结束日期</label>
+          <input type="date" className={inputCls} value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+        </div>
+      </div>
+      <label className="flex items-center gap-2 text-sm text-slate-600">
+        <input type="checkbox" checked={skipHolidays} onChange={(e) => setSkipHolidays(e.target.checked)} />
+        遇周末或节假日顺延到下一个工作日(节假日在「设置 → 节假日」中维护)
+      </label>
+
+      <div>
+        <label className={labelCls}>备注</label>
+        <input
+          className={inputCls}
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="生成的流水备注,留空用规则名称"
+        />
+      </div>
+
+      <p className="text-xs text-slate-500">
+        到期的流水会先进入「待确认」,确认后才记入;开始日期早于今天时会补生成此前到期的各期。
+      </p>
+
+      <div className="flex justify-end gap-2 pt-2">
+        <button className={btnGhost} onClick={onCancel}>
+          取消
+        </button>
+        <button className={btnPrimary} onClick={submit} disabled={!valid}>
+          {initial ? '保存' : '添加规则'}
+        </button>
+      </div>
+    </div>
+  )
+}
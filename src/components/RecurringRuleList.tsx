@@ -0,0 +1,142 @@
+import { useState } from 'react'
+import { useStore } from '../store'
+import { nextOccurrence } from '../engine/recurring'
+import type { RecurringRule } from '../types'
+import { RECURRENCE_CADENCE_LABEL, TX_TYPE_LABEL } from '../types'
+import { fmtNum } from '../utils/format'
+import { formatDateKey, migrateDateToOccurredAt } from '../utils/time'
+import { btnPrimary } from './Modal'
+import RecurringRuleForm from './RecurringRuleForm'
+
+type FormState = { kind: 'add' } | { kind: 'edit'; rule: RecurringRule } | null
+
+function cadenceText(rule: RecurringRule): string {
+  if (rule.cadence === 'custom') return `每 ${rule.intervalDays ?? 1} 天`
+  if (rule.cadence === 'monthly') return `每月 ${Number(rule.startDate.slice(8, 10))} 日`
+  if (rule.cadence === 'weekly') {
+    return `每周${'日一二三四五六'[new Date(migrateDateToOccurredAt(rule.startDate)).getDay()]}`
+  }
+  return RECURRENCE_CADENCE_LABEL[rule.cadence]
+}
+
+/** 周期规则管理:列表 + 新建/编辑 */
+export default function RecurringRuleList() {
+  const rules = useStore((s) => s.recurringRules)
+  const assets = useStore((s) => s.assets)
+  const strategies = useStore((s) => s.strategies)
+  const addRecurringRule = useStore((s) => s.addRecurringRule)
+  const updateRecurringRule = useStore((s) => s.updateRecurringRule)
+  const deleteRecurringRule = useStore((s) => s.deleteRecurringRule)
+  const readOnly = useStore((s) => s.readOnly)
+  const holidays = useStore((s) => s.settings.holidays)
+  const [form, setForm] = useState<FormState>(null)
+
+  if (form) {
+    return (
+      <RecurringRuleForm
+        assets={assets}
+        strategies={strategies}
+        initial={form.kind === 'edit' ? form.rule : undefined}
+        onSubmit={(r) => {
+          if (form.kind === 'edit') updateRecurringRule(form.rule.id, r)
+          else addRecurringRule(r)
+          setForm(null)
+        }}
+        onCancel={() => setForm(null)}
+      />
+    )
+  }
+
+  const targetName = (rule: RecurringRule) =>
+    rule.strategyId
+      ? strategies.find((s) => s.id === rule.strategyId)?.name ?? '(已删除策略)'
+      : assets.find((a) => a.id === rule.assetId)?.name ?? '(已删除资产)'
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-xs text-slate-500">工资、定投、房租等固定流水按频率进入「待确认」,确认后记入。</p>
+        <button
+          className={`${btnPrimary} shrink-0`}
+          onClick={() => setForm({ kind: 'add' })}
+          disabled={readOnly || assets.length === 0}
+        >
+          + 新建规则
+        </button>
+      </div>
+      {rules.length === 0 ? (
+        <p className="py-8 text-center text-sm text-slate-400">还没有周期规则</p>
+      ) : (
+        <div className="overflow-x-auto rounded-xl border border-slate-100">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-slate-100 text-left text-xs text-slate-500">
+                <th className="px-3 py-2 font-medium">名称</th>
+                <th className="px-3 py-2 font-medium">目标</th>
+                <th className="px-3 py-2 font-medium">流水</th>
+                <th className="px-3 py-2 font-medium">频率</th>
+                <th className="px-3 py-2 font-medium">下次</th>
+                <th className="px-3 py-2 font-medium text-right"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {rules.map((rule) => {
+                const next = nextOccurrence(rule, holidays)
+                const { type, amount, quantity } = rule.template
+                return (
+                  <tr key={rule.id} className={`border-t border-slate-100 ${rule.paused ? 'text-slate-400' : 'text-slate-700'}`}>
+                    <td className="px-3 py-2">{rule.name}</td>
+                    <td className="px-3 py-2 text-xs">{targetName(rule)}</td>
+                    <td className="px-3 py-2 tabular-nums">
+                      {TX_TYPE_LABEL[type]}{' '}
+                      {amount != null ? fmtNum(amount, 2) : quantity != null ? `${fmtNum(quantity)} 份` : ''}
+                    </td>
+                    <td className="px-3 py-2 text-xs">
+                      {cadenceText(rule)}
+                      {rule.skipHolidays ? '(遇节假日顺延)' : ''}
+                    </td>
+                    <td className="px-3 py-2 text-xs tabular-nums">
+                      {rule.paused ? '已暂停' : next != null ? formatDateKey(next) : '已结束'}
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-2 text-right">
+                      <button
+                        className="mr-3 text-xs text-slate-500 hover:underline"
+                        onClick={() =>
+                          updateRecurringRule(
+                            rule.id,
+                            // 恢复时不补生成暂停期间到期的各期
+                            rule.paused
+                              ? { paused: false, generatedUntil: formatDateKey(Date.now() - 86400_000) }
+                              : { paused: true },
+                          )
+                        }
+                      >
+                        {rule.paused ? '恢复' : '暂停'}
+                      </button>
+                      <button
+                        className="mr-3 text-xs text-blue-600 hover:underline"
+                        onClick={() => setForm({ kind: 'edit', rule })}
+                      >
+                        编辑
+                      </button>
+                      <button
+                        className="text-xs text-slate-500 hover:text-red-600"
+                        onClick={() => {
+                          if (confirm(`删除规则「${rule.name}」?已记入的流水不受影响,待确认的会一并移除。`)) {
+                            deleteRecurringRule(rule.id)
+                          }
+                        }}
+                      >
+                        删除
+                      </button>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
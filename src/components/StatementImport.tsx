@@ -0,0 +1,459 @@
+import { useMemo, useRef, useState } from 'react'
+import { useStore } from '../store'
+import type { Asset, StatementField, StatementMapping, StatementTypeRule, TxType } from '../types'
+import {
+  STATEMENT_DATE_FORMAT_LABEL,
+  STATEMENT_FIELD_LABEL,
+  STATEMENT_TYPE_RULE_LABEL,
+  TX_TYPE_LABEL,
+  txTypesFor,
+} from '../types'
+import { columnCount, guessColumns, mapStatement, parseCsv, statementHeader } from '../engine/statement'
+import { uid } from '../services/storage'
+import { fmtDateTime, fmtNum } from '../utils/format'
+import { btnGhost, btnPrimary, inputCls, labelCls } from './Modal'
+
+const PREVIEW_ROWS = 200
+
+const ENCODING_LABEL: Record<string, string> = {
+  'utf-8': 'UTF-8',
+  gbk: 'GBK(国内银行常用)',
+}
+
+function emptyMapping(): StatementMapping {
+  return {
+    id: '',
+    name: '',
+    hasHeader: true,
+    skipRows: 0,
+    columns: {},
+    dateFormat: 'ymd',
+    typeRule: { kind: 'sign', positive: 'DEPOSIT', negative: 'WITHDRAW' },
+    createdAt: 0,
+  }
+}
+
+/** 切换规则方式时按资产可记的类型给出默认值 */
+function defaultRule(kind: StatementTypeRule['kind'], types: TxType[]): StatementTypeRule {
+  const [first = 'DEPOSIT', second = first] = types
+  if (kind === 'sign') return { kind, positive: first, negative: second }
+  if (kind === 'keyword') return { kind, keywords: [{ keyword: '', type: first }] }
+  return { kind, type: first }
+}
+
+interface Props {
+  assets: Asset[]
+  defaultAssetId?: string
+  /** 导入完成(附结果摘要)或取消(无参数) */
+  onDone: (message?: string) => void
+}
+
+/**
+ * 对账单导入:上传银行/券商导出的 CSV,把列映射到流水字段、设定类型判断规则,
+ * 预览并排除与已有流水疑似重复的行后写入目标资产。映射可按银行/券商保存复用。
+ */
+export default function StatementImport({ assets, defaultAssetId, onDone }: Props) {
+  const transactions = useStore((s) => s.transactions)
+  const savedMappings = useStore((s) => s.settings.statementMappings)
+  const saveSettings = useStore((s) => s.saveSettings)
+  const importTransactions = useStore((s) => s.importTransactions)
+  const fileRef = useRef<HTMLInputElement>(null)
+
+  const active = useMemo(() => assets.filter((a) => !a.archived), [assets])
+  const [assetId, setAssetId] = useState(defaultAssetId ?? active[0]?.id ?? '')
+  const asset = useMemo(() => active.find((a) => a.id === assetId), [active, assetId])
+  const types = asset ? txTypesFor(asset.type) : []
+
+  const [fileName, setFileName] = useState('')
+  const [bytes, setBytes] = useState<ArrayBuffer | null>(null)
+  const [fileError, setFileError] = useState('')
+  const [encoding, setEncoding] = useState('utf-8')
+  const [mapping, setMapping] = useState<StatementMapping>(() => savedMappings?.[0] ?? emptyMapping())
+  /** 用户手动勾选/取消的行;未改动的行默认导入,疑似重复与出错的行默认不导入 */
+  const [picked, setPicked] = useState<Record<number, boolean>>({})
+
+  const table = useMemo(() => (bytes ? parseCsv(new TextDecoder(encoding).decode(bytes)) : []), [bytes, encoding])
+  const header = statementHeader(table, mapping)
+  const columns = columnCount(table)
+  const lines = useMemo(
+    () => (asset ? mapStatement(table, mapping, asset, transactions) : []),
+    [table, mapping, asset, transactions],
+  )
+  const included = (l: (typeof lines)[number]) => !!l.tx && (picked[l.line] ?? !l.duplicateOf)
+  const toImport = lines.filter(included)
+  const errors = lines.filter((l) => l.error).length
+  const duplicates = lines.filter((l) => l.duplicateOf).length
+
+  const patch = (p: Partial<StatementMapping>) => {
+    setMapping((m) => ({ ...m, ...p }))
+    setPicked({})
+  }
+  const setColumn = (field: StatementField, value: string) =>
+    patch({ columns: { ...mapping.columns, [field]: value === '' ? undefined : Number(value) } })
+
+  const onFile = async (file: File | undefined) => {
+    if (!file) return
+    if (fileRef.current) fileRef.current.value = ''
+    let buffer: ArrayBuffer
+    try {
+      buffer = await file.arrayBuffer()
+    } catch (e) {
+      setFileError(`读取文件失败:${(e as Error).message}`)
+      return
+    }
+    setFileError('')
+    setFileName(file.name)
+    setBytes(buffer)
+    setPicked({})
+    if (!mapping.id && Object.keys(mapping.columns).length === 0) {
+      const guessed = guessColumns(statementHeader(parseCsv(new TextDecoder(encoding).decode(buffer)), mapping))
+      setMapping((m) => ({ ...m, columns: guessed }))
+    }
+  }
+
+  const selectMapping = (id: string) => {
+    setMapping(savedMappings?.find((m) => m.id === id) ?? emptyMapping())
+    setPicked({})
+  }
+
+  const saveMapping = () => {
+    const name = mapping.name.trim()
+    if (!name) return
+    const list = savedMappings ?? []
+    if (mapping.id && list.some((m) => m.id === mapping.id)) {
+      const next = { ...mapping, name }
+      saveSettings({ statementMappings: list.map((m) => (m.id === mapping.id ? next : m)) })
+      setMapping(next)
+    } else {
+      const next = { ...mapping, name, id: uid(), createdAt: Date.now() }
+      saveSettings({ statementMappings: [...list, next] })
+      setMapping(next)
+    }
+  }
+
+  const deleteMapping = () => {
+    if (!mapping.id || !confirm(`删除映射「${mapping.name}」?`)) return
+    saveSettings({ statementMappings: (savedMappings ?? []).filter((m) => m.id !== mapping.id) })
+    setMapping(emptyMapping())
+  }
+
+  const confirmImport = () => {
+    const count = importTransactions(toImport.map((l) => l.tx!))
+    onDone(`已导入 ${count} 条流水到「${asset?.name ?? ''}」`)
+  }
+
+  const columnLabel = (i: number) => (header[i] ? `${header[i]}(第 ${i + 1} 列)` : `第 ${i + 1} 列`)
+  const rule = mapping.typeRule
+  const typeOptions = (value: TxType, onChange: (t: TxType) => void) => (
+    <select className={inputCls} value={value} onChange={(e) => onChange(e.target.value as TxType)}>
+      {(types.includes(value) ? types : [value, ...types]).map((t) => (
+        <option key={t} value={t}>
+          {TX_TYPE_LABEL[t]}
+        </option>
+      ))}
+    </select>
+  )
+
+  return (
+    <div className="space-y-5">
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+        <div>
+          <label className={labelCls}>对账单文件</label>
+          <button type="button" className={`${btnGhost} w-full truncate`} onClick={() => fileRef.current?.click()}>
+            {fileName || '选择 CSV 文件'}
+          </button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".csv,.txt,text/csv,text/plain"
+            className="hidden"
+            onChange={(e) => onFile(e.target.files?.[0])}
+          />
+          {fileError && <p className="mt-1 text-xs text-red-600">{fileError}</p>}
+        </div>
+        <div>
+          <label className={labelCls}>文件编码</label>
+          <select className={inputCls} value={encoding} onChange={(e) => setEncoding(e.target.value)}>
+            {Object.entries(ENCODING_LABEL).map(([v, label]) => (
+              <option key={v} value={v}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelCls}>导入到资产 *</label>
+          <select
+            className={inputCls}
+            value={assetId}
+            onChange={(e) => {
+              setAssetId(e.target.value)
+              setPicked({})
+            }}
+          >
+            {active.map((a) => (
+              <option key={a.id} value={a.id}>
+                {a.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <p className="text-xs text-slate-500 sm:col-span-3">
+          Excel(XLSX)对账单请先在 Excel 中「另存为 CSV」。中文乱码时把编码改为 GBK。
+        </p>
+      </div>
+
+      <div className="space-y-3 rounded-xl border border-slate-100 p-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="min-w-48 flex-1">
+            <label className={labelCls}>列映射</label>
+            <select className={inputCls} value={mapping.id} onChange={(e) => selectMapping(e.target.value)}>
+              <option value="">新建映射</option>
+              {(savedMappings ?? []).map((m) => (
+                <option key={m.id} value={m.id}>
+                  {m.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="min-w-48 flex-1">
+            <label className={labelCls}>映射名称(银行/券商)</label>
+            <input
+              className={inputCls}
+              value={mapping.name}
+              onChange={(e) => setMapping((m) => ({ ...m, name: e.target.value }))}
+              placeholder="如:招商银行储蓄卡"
+            />
+          </div>
+          <button type="button" className={btnGhost} onClick={saveMapping} disabled={!mapping.name.trim()}>
+            {mapping.id ? '保存修改' : '保存映射'}
+          </button>
+          {mapping.id && (
+            <button type="button" className={`${btnGhost} text-red-600`} onClick={deleteMapping}>
+              删除
+            </button>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 text-sm text-slate-700">
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={mapping.hasHeader} onChange={(e) => patch({ hasHeader: e.target.checked })} />
+            首行为表头
+          </label>
+          <label className="flex items-center gap-2">
+            跳过前
+            <input
+              type="number"
+              min={0}
+              className={`${inputCls} w-16`}
+              value={mapping.skipRows}
+              onChange={(e) => patch({ skipRows: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+            />
+            行
+          </label>
+          <label className="flex items-center gap-2">
+            日期写法
+            <select
+              className={`${inputCls} w-32`}
+              value={mapping.dateFormat}
+              onChange={(e) => patch({ dateFormat: e.target.value as StatementMapping['dateFormat'] })}
+            >
+              {Object.entries(STATEMENT_DATE_FORMAT_LABEL).map(([v, label]) => (
+                <option key={v} value={v}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={!!mapping.negateAmount}
+              onChange={(e) => patch({ negateAmount: e.target.checked || undefined })}
+            />
+            金额取反(支出记为正数的账单)
+          </label>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+          {(Object.keys(STATEMENT_FIELD_LABEL) as StatementField[]).map((field) => (
+            <div key={field}>
+              <label className={labelCls}>
+                {STATEMENT_FIELD_LABEL[field]}
+                {field === 'date' && ' *'}
+              </label>
+              <select
+                className={inputCls}
+                value={mapping.columns[field] ?? ''}
+                onChange={(e) => setColumn(field, e.target.value)}
+              >
+                <option value="">不导入</option>
+                {Array.from({ length: Math.max(columns, (mapping.columns[field] ?? -1) + 1) }, (_, i) => (
+                  <option key={i} value={i}>
+                    {columnLabel(i)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-3">
+            <label className={`${labelCls} mb-0`}>类型判断</label>
+            <select
+              className={`${inputCls} w-40`}
+              value={rule.kind}
+              onChange={(e) => patch({ typeRule: defaultRule(e.target.value as StatementTypeRule['kind'], types) })}
+            >
+              {Object.entries(STATEMENT_TYPE_RULE_LABEL).map(([v, label]) => (
+                <option key={v} value={v}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          {rule.kind === 'sign' && (
+            <div className="grid grid-cols-2 gap-3 sm:w-2/3">
+              <div>
+                <label className={labelCls}>金额为正</label>
+                {typeOptions(rule.positive, (t) => patch({ typeRule: { ...rule, positive: t } }))}
+              </div>
+              <div>
+                <label className={labelCls}>金额为负</label>
+                {typeOptions(rule.negative, (t) => patch({ typeRule: { ...rule, negative: t } }))}
+              </div>
+            </div>
+          )}
+          {rule.kind === 'fixed' && <div className="sm:w-1/3">{typeOptions(rule.type, (t) => patch({ typeRule: { ...rule, type: t } }))}</div>}
+          {rule.kind === 'keyword' && (
+            <div className="space-y-2">
+              {mapping.columns.type == null && <p className="text-xs text-amber-600">请先为「类型」指定一列。</p>}
+              {rule.keywords.map((k, i) => {
+                const setKeyword = (next: Partial<typeof k>) =>
+                  patch({ typeRule: { ...rule, keywords: rule.keywords.map((x, j) => (j === i ? { ...x, ...next } : x)) } })
+                return (
+                  <div key={i} className="flex items-center gap-2">
+                    <input
+                      className={`${inputCls} flex-1`}
+                      value={k.keyword}
+                      onChange={(e) => setKeyword({ keyword: e.target.value })}
+                      placeholder="包含文字,如:买入"
+                    />
+                    <span className="text-xs text-slate-500">→</span>
+                    <div className="w-36">{typeOptions(k.type, (t) => setKeyword({ type: t }))}</div>
+                    <button
+                      type="button"
+                      className="text-xs text-slate-400 hover:text-red-600"
+                      onClick={() => patch({ typeRule: { ...rule, keywords: rule.keywords.filter((_, j) => j !== i) } })}
+                    >
+                      移除
+                    </button>
+                  </div>
+                )
+              })}
+              <div className="flex flex-wrap items-center gap-3">
+                <button
+                  type="button"
+                  className="text-xs text-blue-600 hover:underline"
+                  onClick={() =>
+                    patch({ typeRule: { ...rule, keywords: [...rule.keywords, { keyword: '', type: types[0] ?? 'DEPOSIT' }] } })
+                  }
+                >
+                  + 添加关键词
+                </button>
+                <label className="flex items-center gap-2 text-xs text-slate-600">
+                  均不匹配时
+                  <select
+                    className={`${inputCls} w-36`}
+                    value={rule.fallback ?? ''}
+                    onChange={(e) =>
+                      patch({ typeRule: { ...rule, fallback: (e.target.value || undefined) as TxType | undefined } })
+                    }
+                  >
+                    <option value="">视为出错</option>
+                    {types.map((t) => (
+                      <option key={t} value={t}>
+                        {TX_TYPE_LABEL[t]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {bytes && (
+        <div className="space-y-2">
+          <p className="text-xs text-slate-500">
+            共 {lines.length} 行,将导入 {toImport.length} 条
+            {duplicates > 0 && `;${duplicates} 行与已有流水疑似重复,默认不导入`}
+            {errors > 0 && `;${errors} 行无法识别`}
+          </p>
+          <div className="max-h-96 overflow-auto rounded-xl border border-slate-100">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-white">
+                <tr className="border-b border-slate-100 text-left text-xs text-slate-500">
+                  <th className="px-3 py-2 font-medium">导入</th>
+                  <th className="px-3 py-2 font-medium">行</th>
+                  <th className="px-3 py-2 font-medium">时间</th>
+                  <th className="px-3 py-2 font-medium">类型</th>
+                  <th className="px-3 py-2 text-right font-medium">数量 × 单价 / 金额</th>
+                  <th className="px-3 py-2 font-medium">备注</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lines.slice(0, PREVIEW_ROWS).map((l) => (
+                  <tr key={l.line} className={`border-t border-slate-100 ${included(l) ? 'text-slate-700' : 'text-slate-400'}`}>
+                    <td className="px-3 py-1.5">
+                      <input
+                        type="checkbox"
+                        checked={included(l)}
+                        disabled={!l.tx}
+                        onChange={(e) => setPicked((p) => ({ ...p, [l.line]: e.target.checked }))}
+                      />
+                    </td>
+                    <td className="px-3 py-1.5 tabular-nums">{l.line}</td>
+                    {l.tx ? (
+                      <>
+                        <td className="whitespace-nowrap px-3 py-1.5 tabular-nums">{fmtDateTime(l.tx.occurredAt)}</td>
+                        <td className="px-3 py-1.5">{TX_TYPE_LABEL[l.tx.type]}</td>
+                        <td className="whitespace-nowrap px-3 py-1.5 text-right tabular-nums">
+                          {l.tx.quantity != null
+                            ? `${fmtNum(l.tx.quantity)} × ${fmtNum(l.tx.price ?? 0)}`
+                            : fmtNum(l.tx.amount ?? l.tx.value ?? 0, 2)}
+                        </td>
+                        <td className="px-3 py-1.5">
+                          {l.duplicateOf && <span className="mr-2 text-xs text-amber-600">疑似重复</span>}
+                          {l.tx.note}
+                        </td>
+                      </>
+                    ) : (
+                      <td colSpan={4} className="px-3 py-1.5 text-xs text-red-600">
+                        {l.error}:{l.cells.join(' | ')}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {lines.length > PREVIEW_ROWS && (
+            <p className="text-xs text-slate-500">仅显示前 {PREVIEW_ROWS} 行,其余行按默认规则导入</p>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2 pt-2">
+        <button className={btnGhost} onClick={() => onDone()}>
+          取消
+        </button>
+        <button className={btnPrimary} onClick={confirmImport} disabled={!asset || toImport.length === 0}>
+          导入{toImport.length > 0 ? ` ${toImport.length} 条流水` : ''}
+        </button>
+      </div>
+    </div>
+  )
+}
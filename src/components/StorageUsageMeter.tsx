@@ -0,0 +1,66 @@
+import { useEffect, useState } from 'react'
+import { useStore } from '../store'
+import {
+  STORAGE_BACKEND_LABEL,
+  STORAGE_CATEGORY_LABEL,
+  StorageService,
+  type StorageCategory,
+  type StorageUsage,
+} from '../services/storage'
+import { fmtBytes } from '../utils/format'
+
+const WARN_RATIO = 0.8
+const FULL_RATIO = 0.95
+
+/** 设置页存储占用:当前后端、已用/可用空间与各类数据的大致大小 */
+export default function StorageUsageMeter() {
+  // 数据变化后重新估算
+  const prices = useStore((s) => s.prices)
+  const transactions = useStore((s) => s.transactions)
+  const [usage, setUsage] = useState<StorageUsage | null>(null)
+
+  useEffect(() => {
+    let alive = true
+    StorageService.usage().then((u) => alive && setUsage(u))
+    return () => {
+      alive = false
+    }
+  }, [prices, transactions])
+
+  if (!usage) return <p className="text-xs text-slate-400">正在统计存储占用…</p>
+
+  const ratio = usage.quotaBytes ? usage.usedBytes / usage.quotaBytes : 0
+  const barCls = ratio >= FULL_RATIO ? 'bg-red-500' : ratio >= WARN_RATIO ? 'bg-amber-500' : 'bg-blue-500'
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-baseline justify-between gap-2 text-xs text-slate-500">
+        <span>
+          存储方式:<span className="font-medium text-slate-700">{STORAGE_BACKEND_LABEL[usage.backend]}</span>
+        </span>
+        <span className="tabular-nums">
+          已用 {fmtBytes(usage.usedBytes)}
+          {usage.quotaBytes ? ` / 可用 ${fmtBytes(usage.quotaBytes)}(${(ratio * 100).toFixed(1)}%)` : ''}
+        </span>
+      </div>
+      {usage.quotaBytes != null && (
+        <div className="h-2 overflow-hidden rounded-full bg-slate-100">
+          <div className={`h-full ${barCls}`} style={{ width: `${Math.min(100, Math.max(1, ratio * 100))}%` }} />
+        </div>
+      )}
+      <p className="text-xs text-slate-500">
+        {(Object.keys(usage.sizes) as StorageCategory[])
+          .map((c) => `${STORAGE_CATEGORY_LABEL[c]} ${fmtBytes(usage.sizes[c])}`)
+          .join(' · ')}
+      </p>
+      {usage.backend === 'localStorage' && (
+        <p className="text-xs text-amber-600">
+          当前浏览器无法使用 IndexedDB,数据存于容量较小的 LocalStorage;空间将满时请导出备份并清理旧行情。
+        </p>
+      )}
+      {ratio >= WARN_RATIO && usage.backend === 'indexeddb' && (
+        <p className="text-xs text-amber-600">存储空间即将用尽,请导出备份并删除不需要的历史行情或账本。</p>
+      )}
+    </div>
+  )
+}
@@ -81,6 +81,7 @@ export default function StrategyDetail({
   const addStrategyTransaction = useStore((s) => s.addStrategyTransaction)
   const updateStrategyTransaction = useStore((s) => s.updateStrategyTransaction)
   const deleteStrategyTransaction = useStore((s) => s.deleteStrategyTransaction)
+  const readOnly = useStore((s) => s.readOnly)
   const [modal, setModal] = useState<ModalState>(null)
 
   const ledger: StrategyLedgerRow[] = engine.txLedger(strategy)
@@ -171,13 +172,15 @@ export default function StrategyDetail({
           <p className="text-sm text-slate-600">
             此策略已关闭，不再跟踪新流水。可查看历史数据，或编辑已有流水纠错。
           </p>
-          <button
-            type="button"
-            className={btnGhost + ' shrink-0 text-xs'}
-            onClick={() => onReopen(snap)}
-          >
-            重新开启
-          </button>
+          {!readOnly && (
+            <button
+              type="button"
+              className={btnGhost + ' shrink-0 text-xs'}
+              onClick={() => onReopen(snap)}
+            >
+              重新开启
+            </button>
+          )}
         </div>
       )}
 
@@ -220,46 +223,48 @@ export default function StrategyDetail({
         <p className="text-xs text-slate-400">
           资产流水不含此策略 · 计价货币 {cur}
         </p>
-        <div className="flex flex-wrap justify-end gap-2">
-          {!archived && (
+        {!readOnly && (
+          <div className="flex flex-wrap justify-end gap-2">
+            {!archived && (
+              <button
+                type="button"
+                className={btnGhost + ' text-xs'}
+                onClick={() => {
+                  if (confirmCloseStrategy(snap)) onArchive(snap)
+                }}
+              >
+                关闭策略
+              </button>
+            )}
             <button
               type="button"
               className={btnGhost + ' text-xs'}
-              onClick={() => {
-                if (confirmCloseStrategy(snap)) onArchive(snap)
-              }}
-            >
-              关闭策略
-            </button>
-          )}
-          <button
-            type="button"
-            className={btnGhost + ' text-xs'}
-            onClick={() => onEdit(snap)}
-          >
-            编辑策略
-          </button>
-          {archived && (
-            <button
-              type="button"
-              className="rounded-xl border border-slate-200 bg-white px-3 py-1.5 text-xs text-red-500 transition-all hover:bg-red-50"
-              onClick={() => {
-                if (confirmPermanentDelete(strategy.name)) onDelete(snap)
-              }}
-            >
-              永久删除
-            </button>
-          )}
-          {!archived && (
-            <button
-              type="button"
-              className={btnPrimary + ' text-xs'}
-              onClick={() => setModal({ kind: 'addTx' })}
+              onClick={() => onEdit(snap)}
             >
-              + 记一笔
+              编辑策略
             </button>
-          )}
-        </div>
+            {archived && (
+              <button
+                type="button"
+                className="rounded-xl border border-slate-200 bg-white px-3 py-1.5 text-xs text-red-500 transition-all hover:bg-red-50"
+                onClick={() => {
+                  if (confirmPermanentDelete(strategy.name)) onDelete(snap)
+                }}
+              >
+                永久删除
+              </button>
+            )}
+            {!archived && (
+              <button
+                type="button"
+                className={btnPrimary + ' text-xs'}
+                onClick={() => setModal({ kind: 'addTx' })}
+              >
+                + 记一笔
+              </button>
+            )}
+          </div>
+        )}
       </div>
 
       {/* 流水表 */}
@@ -314,22 +319,26 @@ export default function StrategyDetail({
                 </td>
                 <td className="max-w-32 truncate px-3 py-2 text-xs text-slate-500">{tx.note}</td>
                 <td className="px-3 py-2 text-right">
-                  <button
-                    type="button"
-                    className="mr-3 text-xs text-blue-600 hover:underline"
-                    onClick={() => setModal({ kind: 'editTx', tx })}
-                  >
-                    编辑
-                  </button>
-                  <button
-                    type="button"
-                    className="text-xs text-slate-400 hover:text-red-600"
-                    onClick={() => {
-                      if (confirm('删除这条流水？')) deleteStrategyTransaction(tx.id)
-                    }}
-                  >
-                    删除
-                  </button>
+                  {!readOnly && (
+                    <>
+                      <button
+                        type="button"
+                        className="mr-3 text-xs text-blue-600 hover:underline"
+                        onClick={() => setModal({ kind: 'editTx', tx })}
+                      >
+                        编辑
+                      </button>
+                      <button
+                        type="button"
+                        className="text-xs text-slate-400 hover:text-red-600"
+                        onClick={() => {
+                          if (confirm('删除这条流水？')) deleteStrategyTransaction(tx.id)
+                        }}
+                      >
+                        删除
+                      </button>
+                    </>
+                  )}
                 </td>
               </tr>
             ))}
@@ -1,7 +1,8 @@
 import { FilterBar, FilterClearButton } from './ui/FilterBar'
 import { FilterRow } from './ui/FilterRow'
 import { FilterChip } from './ui/FilterChip'
-import { STRATEGY_KIND_LABEL, type StrategyKind } from '../types'
+import LabelFilterRows from './LabelFilterRows'
+import { STRATEGY_KIND_LABEL, type Asset, type StrategyKind } from '../types'
 
 const KIND_OPTIONS: { value: '' | StrategyKind; label: string }[] = [
   { value: '', label: '全部' },
@@ -20,9 +21,13 @@ interface AssetOption {
 interface Props {
   filterAsset: string
   filterKind: string
+  filterLabel: string
   onAssetChange: (id: string) => void
   onKindChange: (kind: string) => void
+  onLabelChange: (value: string) => void
   assetOptions: AssetOption[]
+  /** 提供标签与自定义维度选项(按策略所属资产筛选) */
+  labelAssets: Asset[]
   onClear: () => void
   showClosed?: boolean
   archivedCount?: number
@@ -32,15 +37,18 @@ interface Props {
 export default function StrategyFilters({
   filterAsset,
   filterKind,
+  filterLabel,
   onAssetChange,
   onKindChange,
+  onLabelChange,
   assetOptions,
+  labelAssets,
   onClear,
   showClosed = false,
   archivedCount = 0,
   onToggleClosed,
 }: Props) {
-  const hasFilter = !!filterAsset || !!filterKind
+  const hasFilter = !!filterAsset || !!filterKind || !!filterLabel
   const showActions = (archivedCount > 0 && onToggleClosed) || hasFilter
 
   return (
@@ -78,6 +86,8 @@ export default function StrategyFilters({
         ))}
       </FilterRow>
 
+      <LabelFilterRows assets={labelAssets} value={filterLabel} onChange={onLabelChange} />
+
       <FilterRow label="资产" scroll>
         <FilterChip label="全部" active={!filterAsset} onClick={() => onAssetChange('')} />
         {assetOptions.map(({ id, name, count }) => (
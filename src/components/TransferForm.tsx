@@ -0,0 +1,161 @@
+import { useState } from 'react'
+import type { Asset, Settings, TransferDraft } from '../types'
+import { isQuantityBased } from '../types'
+import { parseDatetimeLocal, toDatetimeLocalValue } from '../utils/time'
+import { btnGhost, btnPrimary, inputCls, labelCls } from './Modal'
+
+interface Props {
+  assets: Asset[]
+  settings: Settings
+  defaultFromAssetId?: string
+  initial?: TransferDraft
+  onSubmit: (t: TransferDraft) => void
+  onCancel: () => void
+}
+
+function assetLabel(a: Asset): string {
+  return `${a.name}${a.platform ? `(${a.platform})` : ''} · ${a.currency}`
+}
+
+export default function TransferForm({
+  assets,
+  settings,
+  defaultFromAssetId,
+  initial,
+  onSubmit,
+  onCancel,
+}: Props) {
+  const valueAssets = assets.filter((a) => !a.archived && !isQuantityBased(a.type))
+  const fromOptions = valueAssets.filter((a) => a.type !== 'debt')
+  const [fromAssetId, setFromAssetId] = useState(
+    initial?.fromAssetId ?? defaultFromAssetId ?? fromOptions[0]?.id ?? '',
+  )
+  const toOptions = valueAssets.filter((a) => a.id !== fromAssetId)
+  const [toAssetId, setToAssetId] = useState(initial?.toAssetId ?? '')
+  const [openedAt] = useState(() => Date.now())
+  const [occurredAtInput, setOccurredAtInput] = useState(() =>
+    toDatetimeLocalValue(initial?.occurredAt ?? Date.now()),
+  )
+  const [amount, setAmount] = useState(initial ? String(initial.amount) : '')
+  const [toAmount, setToAmount] = useState(initial ? String(initial.toAmount) : '')
+  const [note, setNote] = useState(initial?.note ?? '')
+
+  const from = fromOptions.find((a) => a.id === fromAssetId)
+  const to = toOptions.find((a) => a.id === toAssetId)
+  const crossCurrency = !!from && !!to && from.currency !== to.currency
+  const rateToBase = (c: string) => (c === settings.baseCurrency ? 1 : settings.fxRates[c] ?? 1)
+  const suggestedToAmount =
+    from && to ? (Number(amount) * rateToBase(from.currency)) / rateToBase(to.currency) : 0
+  const effToAmount = crossCurrency ? Number(toAmount || suggestedToAmount.toFixed(2)) : Number(amount)
+
+  const occurredAt = parseDatetimeLocal(occurredAtInput)
+  const valid =
+    !!from && !!to && occurredAt != null && occurredAt <= openedAt && Number(amount) > 0 && effToAmount > 0
+
+  const submit = () => {
+    if (!valid || !from || !to || occurredAt == null) return
+    onSubmit({
+      fromAssetId: from.id,
+      toAssetId: to.id,
+      occurredAt,
+      amount: Number(amount),
+      toAmount: effToAmount,
+      note: note.trim() || undefined,
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelCls}>转出资产 *</label>
+          <select className={inputCls} value={fromAssetId} onChange={(e) => setFromAssetId(e.target.value)}>
+            {fromOptions.map((a) => (
+              <option key={a.id} value={a.id}>
+                {assetLabel(a)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelCls}>转入资产 *</label>
+          <select className={inputCls} value={to ? toAssetId : ''} onChange={(e) => setToAssetId(e.target.value)}>
+            <option value="">请选择</option>
+            {toOptions.map((a) => (
+              <option key={a.id} value={a.id}>
+                {assetLabel(a)}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className={labelCls}>发生时间 *</label>
+        <input
+          type="datetime-local"
+          step={1}
+          className={inputCls}
+          value={occurredAtInput}
+          max={toDatetimeLocalValue(openedAt)}
+          onChange={(e) => setOccurredAtInput(e.target.value)}
+        />
+      </div>
+
+      <div className={crossCurrency ? 'grid grid-cols-2 gap-3' : ''}>
+        <div>
+          <label className={labelCls}>转出金额({from?.currency ?? 'CNY'})*</label>
+          <input
+            type="number"
+            className={inputCls}
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder="0.00"
+            min="0"
+            step="any"
+          />
+        </div>
+        {crossCurrency && (
+          <div>
+            <label className={labelCls}>转入金额({to?.currency})*</label>
+            <input
+              type="number"
+              className={inputCls}
+              value={toAmount}
+              onChange={(e) => setToAmount(e.target.value)}
+              placeholder={suggestedToAmount > 0 ? suggestedToAmount.toFixed(2) : '0.00'}
+              min="0"
+              step="any"
+            />
+          </div>
+        )}
+      </div>
+      {crossCurrency && (
+        <p className="text-xs text-slate-500">
+          跨币种划转:转入金额留空时按当前汇率换算,可填入实际到账金额。
+        </p>
+      )}
+      {to?.type === 'debt' && (
+        <p className="text-xs text-slate-500">转入负债记为还款,减少欠款余额。</p>
+      )}
+
+      <div>
+        <label className={labelCls}>备注</label>
+        <input className={inputCls} value={note} onChange={(e) => setNote(e.target.value)} />
+      </div>
+
+      <p className="text-xs text-slate-500">
+        划转会同时记一笔转出和一笔转入,组合层面视为内部资金移动,不计入新增投入。
+      </p>
+
+      <div className="flex justify-end gap-2 pt-2">
+        <button className={btnGhost} onClick={onCancel}>
+          取消
+        </button>
+        <button className={btnPrimary} onClick={submit} disabled={!valid}>
+          {initial ? '保存' : '确认划转'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 import { useState } from 'react'
 import type { Asset, Transaction, TxType } from '../types'
-import { TX_TYPE_LABEL, isQuantityBased } from '../types'
+import { TX_TYPE_LABEL, txTypesFor } from '../types'
 import { parseDatetimeLocal, toDatetimeLocalValue } from '../utils/time'
 import { btnGhost, btnPrimary, inputCls, labelCls } from './Modal'
 
@@ -13,18 +13,11 @@ interface Props {
   onCancel: () => void
 }
 
-function allowedTypes(asset: Asset | undefined): TxType[] {
-  if (!asset) return []
-  if (asset.type === 'debt') return ['BORROW', 'REPAY', 'VALUATION']
-  if (isQuantityBased(asset.type)) return ['BUY', 'SELL', 'VALUATION']
-  return ['DEPOSIT', 'WITHDRAW', 'INCOME', 'VALUATION']
-}
-
 export default function TxForm({ assets, fixedAssetId, defaultType, initial, onSubmit, onCancel }: Props) {
   const active = assets.filter((a) => !a.archived)
   const [assetId, setAssetId] = useState(fixedAssetId ?? initial?.assetId ?? active[0]?.id ?? '')
   const asset = active.find((a) => a.id === assetId)
-  const types = allowedTypes(asset)
+  const types = asset ? txTypesFor(asset.type) : []
   const [type, setType] = useState<TxType>(
     initial?.type ??
       (defaultType && types.includes(defaultType) ? defaultType : types[0] ?? 'DEPOSIT'),
@@ -37,22 +30,30 @@ export default function TxForm({ assets, fixedAssetId, defaultType, initial, onS
   const [price, setPrice] = useState(initial?.price != null ? String(initial.price) : '')
   const [amount, setAmount] = useState(initial?.amount != null ? String(initial.amount) : '')
   const [value, setValue] = useState(initial?.value != null ? String(initial.value) : '')
+  const [fee, setFee] = useState(initial?.fee != null ? String(initial.fee) : '')
+  const [tax, setTax] = useState(initial?.tax != null ? String(initial.tax) : '')
+  const [ratio, setRatio] = useState(initial?.ratio != null ? String(initial.ratio) : '')
+  const [reinvest, setReinvest] = useState(initial?.type === 'DIVIDEND' && initial.quantity != null)
   const [note, setNote] = useState(initial?.note ?? '')
 
   const effType = types.includes(type) ? type : types[0]
   const needsQty = effType === 'BUY' || effType === 'SELL'
   const needsAmount =
     effType === 'DEPOSIT' || effType === 'WITHDRAW' || effType === 'INCOME' ||
-    effType === 'BORROW' || effType === 'REPAY'
+    effType === 'BORROW' || effType === 'REPAY' || effType === 'DIVIDEND'
   const needsValue = effType === 'VALUATION'
+  const needsRatio = effType === 'SPLIT'
+  const needsShares = effType === 'BONUS_SHARES' || (effType === 'DIVIDEND' && reinvest)
 
   const occurredAt = parseDatetimeLocal(occurredAtInput)
   const valid =
     !!asset &&
     occurredAt != null &&
     occurredAt <= openedAt &&
-    (!needsQty || (Number(quantity) > 0 && Number(price) > 0)) &&
+    (!needsQty || (Number(quantity) > 0 && Number(price) > 0 && Number(fee) >= 0 && Number(tax) >= 0)) &&
     (!needsAmount || Number(amount) > 0) &&
+    (!needsRatio || Number(ratio) > 0) &&
+    (!needsShares || Number(quantity) > 0) &&
     (!needsValue || Number(value) >= 0)
 
   const submit = () => {
@@ -61,15 +62,20 @@ export default function TxForm({ assets, fixedAssetId, defaultType, initial, onS
       assetId: asset.id,
       type: effType,
       occurredAt,
-      quantity: needsQty ? Number(quantity) : undefined,
+      quantity: needsQty || needsShares ? Number(quantity) : undefined,
       price: needsQty ? Number(price) : undefined,
       amount: needsAmount ? Number(amount) : undefined,
       value: needsValue ? Number(value) : undefined,
+      ratio: needsRatio ? Number(ratio) : undefined,
+      fee: needsQty && Number(fee) > 0 ? Number(fee) : undefined,
+      tax: needsQty && Number(tax) > 0 ? Number(tax) : undefined,
       note: note.trim() || undefined,
     })
   }
 
   const cur = asset?.currency ?? 'CNY'
+  const gross = Number(quantity) * Number(price)
+  const charges = (Number(fee) || 0) + (Number(tax) || 0)
   const maxDatetime = toDatetimeLocalValue(openedAt)
 
   return (
@@ -143,15 +149,50 @@ export default function TxForm({ assets, fixedAssetId, defaultType, initial, onS
           </div>
         </div>
       )}
+      {needsQty && (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className={labelCls}>手续费({cur})</label>
+            <input
+              type="number"
+              className={inputCls}
+              value={fee}
+              onChange={(e) => setFee(e.target.value)}
+              placeholder="佣金、过户费等"
+              min="0"
+              step="any"
+            />
+          </div>
+          <div>
+            <label className={labelCls}>税费({cur})</label>
+            <input
+              type="number"
+              className={inputCls}
+              value={tax}
+              onChange={(e) => setTax(e.target.value)}
+              placeholder="印花税等"
+              min="0"
+              step="any"
+            />
+          </div>
+        </div>
+      )}
       {needsQty && Number(quantity) > 0 && Number(price) > 0 && (
         <p className="text-xs text-slate-500">
-          成交金额:{(Number(quantity) * Number(price)).toLocaleString('zh-CN')} {cur}
+          成交金额:{gross.toLocaleString('zh-CN')} {cur}
+          {charges > 0 && (
+            <>
+              {' · '}
+              {effType === 'BUY' ? '实付' : '实收'}:
+              {(effType === 'BUY' ? gross + charges : gross - charges).toLocaleString('zh-CN')} {cur}
+            </>
+          )}
         </p>
       )}
 
       {needsAmount && (
         <div>
-          <label className={labelCls}>金额({cur})*</label>
+          <label className={labelCls}>{effType === 'DIVIDEND' ? '分红金额' : '金额'}({cur})*</label>
           <input
             type="number"
             className={inputCls}
@@ -164,6 +205,53 @@ export default function TxForm({ assets, fixedAssetId, defaultType, initial, onS
         </div>
       )}
 
+      {effType === 'DIVIDEND' && (
+        <label className="flex items-center gap-2 text-sm text-slate-600">
+          <input type="checkbox" checked={reinvest} onChange={(e) => setReinvest(e.target.checked)} />
+          红利再投资(分红转为份额,不取出现金)
+        </label>
+      )}
+
+      {needsShares && (
+        <div>
+          <label className={labelCls}>
+            {effType === 'BONUS_SHARES' ? '送转获得份额 *' : '再投资获得份额 *'}
+          </label>
+          <input
+            type="number"
+            className={inputCls}
+            value={quantity}
+            onChange={(e) => setQuantity(e.target.value)}
+            placeholder="100"
+            min="0"
+            step="any"
+          />
+          {effType === 'BONUS_SHARES' && (
+            <p className="mt-1 text-xs text-slate-500">
+              送股/转增不产生现金流,原持仓成本按比例摊薄到全部份额。
+            </p>
+          )}
+        </div>
+      )}
+
+      {needsRatio && (
+        <div>
+          <label className={labelCls}>拆分比例 *</label>
+          <input
+            type="number"
+            className={inputCls}
+            value={ratio}
+            onChange={(e) => setRatio(e.target.value)}
+            placeholder="10"
+            min="0"
+            step="any"
+          />
+          <p className="mt-1 text-xs text-slate-500">
+            拆分后份额 / 拆分前份额:1 拆 10 填 10,10 合 1 填 0.1。之前的价格会按比例复权。
+          </p>
+        </div>
+      )}
+
       {needsValue && (
         <div>
           <label className={labelCls}>当日总市值({cur})*</label>
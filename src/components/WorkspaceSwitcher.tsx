@@ -0,0 +1,158 @@
+import { useState } from 'react'
+import { Users } from 'lucide-react'
+import { useStore } from '../store'
+import { DEFAULT_WORKSPACE_ID, HOUSEHOLD_VIEW_ID } from '../types'
+import Modal, { btnGhost, btnPrimary, inputCls } from './Modal'
+
+/** 侧栏账本切换:各账本与家庭合并视图,另可新建、重命名、删除账本 */
+export default function WorkspaceSwitcher({ collapsed }: { collapsed: boolean }) {
+  const workspaces = useStore((s) => s.workspaces)
+  const workspaceId = useStore((s) => s.workspaceId)
+  const switchWorkspace = useStore((s) => s.switchWorkspace)
+  const [managing, setManaging] = useState(false)
+
+  const current =
+    workspaceId === HOUSEHOLD_VIEW_ID ? '家庭合并' : workspaces.find((w) => w.id === workspaceId)?.name ?? ''
+
+  if (collapsed) {
+    return (
+      <>
+        <button
+          type="button"
+          onClick={() => setManaging(true)}
+          title={`账本:${current}`}
+          aria-label={`账本:${current}`}
+          className="mx-3 mb-2 flex items-center justify-center rounded-xl py-2.5 text-slate-500 transition-all duration-200 hover:bg-slate-50"
+        >
+          <Users className="h-[18px] w-[18px]" />
+        </button>
+        {managing && <WorkspaceManager onClose={() => setManaging(false)} />}
+      </>
+    )
+  }
+
+  return (
+    <div className="px-3 pb-3">
+      <div className="flex items-center gap-1.5">
+        <select
+          className="min-w-0 flex-1 rounded-xl border border-slate-200 bg-white px-2.5 py-1.5 text-xs text-slate-700"
+          value={workspaceId}
+          onChange={(e) => switchWorkspace(e.target.value)}
+          aria-label="切换账本"
+        >
+          {workspaces.map((w) => (
+            <option key={w.id} value={w.id}>
+              {w.name}
+            </option>
+          ))}
+          {workspaces.length > 1 && <option value={HOUSEHOLD_VIEW_ID}>家庭合并(只读)</option>}
+        </select>
+        <button
+          type="button"
+          onClick={() => setManaging(true)}
+          className="shrink-0 rounded-xl px-2 py-1.5 text-xs text-slate-500 transition-colors hover:bg-slate-50 hover:text-slate-700"
+        >
+          管理
+        </button>
+      </div>
+      {managing && <WorkspaceManager onClose={() => setManaging(false)} />}
+    </div>
+  )
+}
+
+function WorkspaceManager({ onClose }: { onClose: () => void }) {
+  const workspaces = useStore((s) => s.workspaces)
+  const workspaceId = useStore((s) => s.workspaceId)
+  const switchWorkspace = useStore((s) => s.switchWorkspace)
+  const addWorkspace = useStore((s) => s.addWorkspace)
+  const renameWorkspace = useStore((s) => s.renameWorkspace)
+  const deleteWorkspace = useStore((s) => s.deleteWorkspace)
+  const [names, setNames] = useState<Record<string, string>>({})
+  const [newName, setNewName] = useState('')
+
+  const add = () => {
+    if (!newName.trim()) return
+    const w = addWorkspace(newName.trim())
+    setNewName('')
+    switchWorkspace(w.id)
+  }
+
+  const remove = (id: string, name: string) => {
+    if (!confirm(`删除账本「${name}」及其全部资产、流水与策略?此操作不可恢复,建议先导出备份。`)) return
+    deleteWorkspace(id)
+  }
+
+  return (
+    <Modal title="账本" onClose={onClose}>
+      <div className="space-y-4">
+        <div className="space-y-2">
+          {workspaces.map((w) => {
+            const name = names[w.id] ?? w.name
+            return (
+              <div key={w.id} className="flex items-center gap-2">
+                <input
+                  className={inputCls}
+                  value={name}
+                  onChange={(e) => setNames({ ...names, [w.id]: e.target.value })}
+                  onBlur={() => name.trim() && name.trim() !== w.name && renameWorkspace(w.id, name.trim())}
+                />
+                {w.id === workspaceId ? (
+                  <span className="w-12 shrink-0 text-center text-xs text-blue-600">当前</span>
+                ) : (
+                  <button
+                    type="button"
+                    className="w-12 shrink-0 text-xs text-slate-500 hover:text-slate-700"
+                    onClick={() => switchWorkspace(w.id)}
+                  >
+                    切换
+                  </button>
+                )}
+                <button
+                  type="button"
+                  className="w-10 shrink-0 text-xs text-slate-500 hover:text-red-600 disabled:invisible"
+                  disabled={w.id === DEFAULT_WORKSPACE_ID}
+                  onClick={() => remove(w.id, w.name)}
+                >
+                  删除
+                </button>
+              </div>
+            )
+          })}
+        </div>
+        <div className="flex gap-2">
+          <input
+            className={inputCls}
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && add()}
+            placeholder="新账本名称,如:配偶、共同账户、父母"
+          />
+          <button className={btnPrimary + ' shrink-0'} onClick={add} disabled={!newName.trim()}>
+            新建
+          </button>
+        </div>
+        <p className="text-xs text-slate-500">
+          每个账本的资产、流水、策略、目标分开保存,行情、汇率与设置共用。账本多于一个时可切换到「家庭合并」,
+          按各资产的持有比例汇总查看;导入导出针对当前账本。
+        </p>
+        {workspaces.length > 1 && workspaceId !== HOUSEHOLD_VIEW_ID && (
+          <button
+            type="button"
+            className="text-xs text-blue-600 hover:underline"
+            onClick={() => {
+              switchWorkspace(HOUSEHOLD_VIEW_ID)
+              onClose()
+            }}
+          >
+            查看家庭合并 →
+          </button>
+        )}
+        <div className="flex justify-end pt-2">
+          <button className={btnGhost} onClick={onClose}>
+            完成
+          </button>
+        </div>
+      </div>
+    </Modal>
+  )
+}
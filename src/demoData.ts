@@ -41,8 +41,9 @@ export function buildDemoData(settings: Settings = DEFAULT_SETTINGS): {
 
   const assets = [bank, yuebao, wealth2, moutai, catl, aapl, btc, usdt, mortgage]
 
-  const usdCny = settings.fxRates.USD
-  const usdtCny = settings.fxRates.USDT ?? usdCny
+  // 演示资产以人民币计价;汇率表以基准货币计价,换成对人民币的汇率
+  const rate = (c: string) => (c === settings.baseCurrency ? 1 : settings.fxRates[c] ?? 1)
+  const usdtCny = (settings.fxRates.USDT ?? rate('USD')) / rate('CNY')
 
   const txs: Array<Omit<Transaction, 'id' | 'createdAt' | 'updatedAt'>> = [
     { assetId: bank.id, type: 'DEPOSIT', occurredAt: at(8), amount: 60000, note: '初始结余' },
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import type { AllocationBucket } from '../../types'
+import { allocationDrift, bucketOf, rebalancePlan } from '../allocation'
+import { asset, snap } from './helpers'
+
+const bank = asset({ id: 'bank', type: 'cash' })
+const wealth = asset({ id: 'wealth', type: 'wealth' })
+const stock = asset({ id: 'stock', type: 'stock', currency: 'USD' })
+const gold = asset({ id: 'gold', type: 'other' })
+const loan = asset({ id: 'loan', type: 'debt' })
+
+const buckets: AllocationBucket[] = [
+  { id: 'safe', name: '稳健', assetTypes: ['cash', 'wealth'], target: 0.4 },
+  { id: 'equity', name: '权益', assetTypes: ['stock', 'fund'], target: 0.6, tolerance: 0.1 },
+]
+
+const snapshots = [
+  snap(bank, 30_000),
+  snap(wealth, 30_000),
+  snap(stock, 40_000, { quantity: 100, valueNative: 5_000, unitPrice: 50 }),
+  snap(loan, 50_000),
+]
+
+describe('bucketOf', () => {
+  it('指定资产优先于类别,负债不归组', () => {
+    const custom: AllocationBucket[] = [
+      ...buckets,
+      { id: 'x', name: '指定', assetTypes: [], assetIds: ['bank'], target: 0 },
+    ]
+    expect(bucketOf(bank, custom)?.id).toBe('x')
+    expect(bucketOf(wealth, custom)?.id).toBe('safe')
+    expect(bucketOf(gold, custom)).toBeNull()
+    expect(bucketOf(loan, custom)).toBeNull()
+  })
+})
+
+describe('allocationDrift', () => {
+  it('按正资产合计计算占比与容忍带', () => {
+    const [safe, equity] = allocationDrift(buckets, snapshots, 0.05)
+    expect(safe.actual).toBeCloseTo(0.6)
+    expect(safe.drift).toBeCloseTo(0.2)
+    expect(safe.outOfBand).toBe(true)
+    expect(equity.drift).toBeCloseTo(-0.2)
+    expect(equity.tolerance).toBe(0.1)
+  })
+
+  it('未归组资产单列,目标为剩余部分', () => {
+    const rows = allocationDrift([{ ...buckets[0], target: 0.5 }], [...snapshots, snap(gold, 0)], 0.05)
+    expect(rows).toHaveLength(2)
+    expect(rows[1].bucket).toBeNull()
+    expect(rows[1].valueCNY).toBe(40_000)
+    expect(rows[1].target).toBeCloseTo(0.5)
+    expect(rows[1].outOfBand).toBe(true)
+  })
+})
+
+describe('rebalancePlan', () => {
+  const fx = (c: string) => (c === 'USD' ? 8 : 1)
+
+  it('组内按市值分摊,份额型资产折成买卖份额', () => {
+    const { proposals, unplaced } = rebalancePlan(buckets, snapshots, fx, { occurredAt: 0 })
+    expect(unplaced).toEqual([])
+    const byId = Object.fromEntries(proposals.map((p) => [p.asset.id, p]))
+    expect(byId.bank.tx).toMatchObject({ type: 'WITHDRAW', amount: 10_000 })
+    expect(byId.wealth.tx).toMatchObject({ type: 'WITHDRAW', amount: 10_000 })
+    // 20000 CNY / 8 = 2500 USD / 50 = 50 份
+    expect(byId.stock.tx).toMatchObject({ type: 'BUY', quantity: 50, price: 50 })
+    expect(byId.stock.amountCNY).toBeCloseTo(20_000)
+  })
+
+  it('新增资金按目标占比分配;组内无可交易资产时提示', () => {
+    const { proposals, unplaced } = rebalancePlan(buckets, [snap(bank, 40_000)], fx, {
+      extraCashCNY: 10_000,
+      occurredAt: 0,
+    })
+    expect(proposals.map((p) => [p.asset.id, p.amountCNY])).toEqual([['bank', -20_000]])
+    expect(unplaced.map((b) => b.id)).toEqual(['equity'])
+  })
+
+  it('目标为 0 时清仓全部份额', () => {
+    const { proposals } = rebalancePlan(
+      [{ id: 'equity', name: '权益', assetTypes: ['stock'], target: 0 }],
+      [snap(stock, 48_000, { quantity: 100, valueNative: 6_000, unitPrice: 60 })],
+      fx,
+      { occurredAt: 0 },
+    )
+    expect(proposals[0].tx).toMatchObject({ type: 'SELL', quantity: 100 })
+  })
+})
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { backfillStart, mergePriceHistory, needsEarlierBackfill } from '../backfill'
+import { PortfolioEngine } from '../portfolio'
+import type { PriceHistory } from '../../types'
+import { asset, NOW, settings, T0, T1, tx } from './helpers'
+import { endOfDayFromDateKey, formatDateKey } from '../../utils/time'
+
+describe('backfillStart', () => {
+  const btc = asset({ id: 'btc', type: 'crypto', symbol: 'bitcoin', priceSource: 'coingecko' })
+
+  it('取该资产最早一笔流水的日期', () => {
+    const txs = [
+      tx({ id: '1', assetId: 'btc', type: 'BUY', occurredAt: T1, quantity: 1, price: 1, amount: 1 }),
+      tx({ id: '2', assetId: 'btc', type: 'BUY', occurredAt: T0, quantity: 1, price: 1, amount: 1 }),
+      tx({ id: '3', assetId: 'other', type: 'BUY', occurredAt: T0 - 86400_000, quantity: 1, price: 1, amount: 1 }),
+    ]
+    expect(backfillStart(btc, txs, NOW)).toBe('2024-01-01')
+  })
+
+  it('没有流水时回看默认天数', () => {
+    expect(backfillStart(btc, [], NOW, 30)).toBe(formatDateKey(NOW - 30 * 86400_000))
+  })
+})
+
+describe('needsEarlierBackfill', () => {
+  const btc = asset({ id: 'btc', type: 'crypto', symbol: 'bitcoin', priceSource: 'coingecko' })
+  const prices: PriceHistory = { bitcoin: { [formatDateKey(T1)]: 100 } }
+  const buy = tx({ id: '1', assetId: 'btc', type: 'BUY', occurredAt: T1, quantity: 1, price: 1, amount: 1 })
+
+  it('早于已有流水与最早价格点时需要往前补', () => {
+    expect(needsEarlierBackfill(btc, [], prices, T0)).toBe(true)
+    expect(needsEarlierBackfill(btc, [buy], prices, T0)).toBe(true)
+    expect(needsEarlierBackfill(btc, [], {}, T0)).toBe(true)
+  })
+
+  it('已有更早的流水或价格点已覆盖时不补', () => {
+    expect(needsEarlierBackfill(btc, [buy], {}, T1 + 86400_000)).toBe(false)
+    expect(needsEarlierBackfill(btc, [], prices, T1)).toBe(false)
+    expect(needsEarlierBackfill({ ...btc, symbol: undefined }, [], {}, T0)).toBe(false)
+  })
+})
+
+describe('mergePriceHistory', () => {
+  it('只补缺失日期,不覆盖已有价格点', () => {
+    const prices: PriceHistory = { bitcoin: { '2024-01-02': 300 } }
+    const added = mergePriceHistory(prices, 'bitcoin', { '2024-01-01': 100, '2024-01-02': 200, '2024-01-03': 0 })
+    expect(added).toBe(1)
+    expect(prices.bitcoin).toEqual({ '2024-01-01': 100, '2024-01-02': 300 })
+  })
+
+  it('回填后的日线进入估值曲线,不再在买入价之间线性插值', () => {
+    const btc = asset({ id: 'btc', type: 'crypto', symbol: 'bitcoin', priceSource: 'coingecko' })
+    const txs = [
+      tx({ id: '1', assetId: 'btc', type: 'BUY', occurredAt: T0, quantity: 1, price: 100, amount: 100 }),
+      tx({ id: '2', assetId: 'btc', type: 'BUY', occurredAt: T1, quantity: 1, price: 200, amount: 200 }),
+    ]
+    const mid = endOfDayFromDateKey(formatDateKey(T0 + 90 * 86400_000))
+    const before = new PortfolioEngine([btc], txs, {}, settings())
+    expect(before.valueAt(btc, mid)).toBeCloseTo(150, 0)
+
+    const prices: PriceHistory = {}
+    mergePriceHistory(prices, 'bitcoin', { [formatDateKey(mid)]: 80 })
+    const after = new PortfolioEngine([btc], txs, prices, settings())
+    expect(after.valueAt(btc, mid)).toBe(80)
+  })
+})
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import { createFxLookup, missingFxCurrencies, rebaseFx, usedCurrencies } from '../fx'
+import { asset, settings, strategy, T0, T1, T2, tx } from './helpers'
+import { PortfolioEngine } from '../portfolio'
+
+describe('createFxLookup', () => {
+  const history = { USD: { '2024-01-01': 7.1, '2024-06-29': 7.3 } }
+
+  it('本币=1', () => {
+    const fx = createFxLookup(settings(), history)
+    expect(fx('CNY', T0)).toBe(1)
+  })
+
+  it('取当日或之前最近的历史点', () => {
+    const fx = createFxLookup(settings({ fxRates: { USD: 7.5 } }), history)
+    expect(fx('USD', T0)).toBe(7.1)
+    expect(fx('USD', T1)).toBe(7.3)
+    expect(fx('USD', T2)).toBe(7.3)
+  })
+
+  it('早于全部历史点时取最早一点', () => {
+    const fx = createFxLookup(settings(), history)
+    expect(fx('USD', T0 - 30 * 86400_000)).toBe(7.1)
+  })
+
+  it('无时刻或无历史时回落到当前汇率', () => {
+    const fx = createFxLookup(settings({ fxRates: { USD: 7.5, HKD: 0.9 } }), history)
+    expect(fx('USD')).toBe(7.5)
+    expect(fx('HKD', T1)).toBe(0.9)
+    expect(fx('JPY', T1)).toBe(1)
+  })
+})
+
+describe('rebaseFx', () => {
+  const base = settings({ fxRates: { USD: 7.2, HKD: 0.9 } })
+  const history = { USD: { '2024-01-01': 7.0, '2024-06-29': 7.2 }, HKD: { '2024-06-29': 0.92 } }
+  const prices = { bitcoin: { '2024-01-01': 280_000, '2024-06-29': 360_000 } }
+
+  it('当前汇率改为以新基准计价,旧基准加入汇率表', () => {
+    const r = rebaseFx(base, history, prices, 'USD')
+    expect(r.fxRates.CNY).toBeCloseTo(1 / 7.2)
+    expect(r.fxRates.HKD).toBeCloseTo(0.9 / 7.2)
+    expect(r.fxRates.USD).toBeUndefined()
+    expect(r.factor).toBeCloseTo(1 / 7.2)
+  })
+
+  it('历史汇率与行情按各日汇率换算', () => {
+    const r = rebaseFx(base, history, prices, 'USD')
+    expect(r.fxHistory.CNY['2024-01-01']).toBeCloseTo(1 / 7.0)
+    expect(r.fxHistory.HKD['2024-06-29']).toBeCloseTo(0.92 / 7.2)
+    expect(r.fxHistory.USD).toBeUndefined()
+    expect(r.prices.bitcoin['2024-01-01']).toBeCloseTo(40_000)
+    expect(r.prices.bitcoin['2024-06-29']).toBeCloseTo(50_000)
+  })
+
+  it('换算后组合净值按新汇率等比变化', () => {
+    const assets = [asset({ id: 'a', type: 'cash' }), asset({ id: 'b', type: 'cash', currency: 'USD' })]
+    const txs = [
+      tx({ id: 't1', assetId: 'a', type: 'DEPOSIT', occurredAt: T0, amount: 7200 }),
+      tx({ id: 't2', assetId: 'b', type: 'DEPOSIT', occurredAt: T0, amount: 100 }),
+    ]
+    const before = new PortfolioEngine(assets, txs, {}, base, history).summary().netWorthCNY
+    const r = rebaseFx(base, history, {}, 'USD')
+    const rebased = { ...base, baseCurrency: 'USD', fxRates: r.fxRates }
+    const after = new PortfolioEngine(assets, txs, r.prices, rebased, r.fxHistory).summary().netWorthCNY
+    expect(after).toBeCloseTo(before / 7.2)
+  })
+
+  it('缺少新基准的汇率时报错', () => {
+    expect(() => rebaseFx(base, history, prices, 'EUR')).toThrow('缺少 EUR 的汇率')
+  })
+})
+
+describe('usedCurrencies / missingFxCurrencies', () => {
+  const assets = [
+    asset({ id: 'a', type: 'cash', currency: 'JPY' }),
+    asset({ id: 'b', type: 'cash', currency: 'CNY' }),
+    asset({ id: 'c', type: 'cash', currency: 'USD' }),
+  ]
+  const strategies = [strategy({ id: 's', assetId: 'c', currency: 'GBP' })]
+
+  it('收集资产与策略用到的外币,排除基准货币并排序', () => {
+    expect(usedCurrencies(assets, strategies, 'CNY')).toEqual(['GBP', 'JPY', 'USD'])
+    expect(usedCurrencies(assets, [], 'USD')).toEqual(['CNY', 'JPY'])
+  })
+
+  it('没有正汇率的币种视为缺失', () => {
+    const s = settings({ fxRates: { USD: 7.2, JPY: 0 } })
+    expect(missingFxCurrencies(['GBP', 'JPY', 'USD'], s)).toEqual(['GBP', 'JPY'])
+  })
+})
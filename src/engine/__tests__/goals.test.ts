@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { AssetSnapshot, Goal } from '../../types'
+import { goalAssets, goalValue, projectGoal } from '../goals'
+import { PortfolioEngine } from '../portfolio'
+import { asset, emptyPrices, NOW, settings, T0, tx } from './helpers'
+
+const DAY_MS = 86400_000
+
+function goal(overrides: Partial<Goal>): Goal {
+  return { id: 'g1', name: '目标', targetCNY: 100_000, scope: 'netWorth', createdAt: 0, ...overrides }
+}
+
+const cash = asset({ id: 'cash', type: 'cash' })
+const stock = asset({ id: 'stock', type: 'stock' })
+const loan = asset({ id: 'loan', type: 'debt' })
+const archived = asset({ id: 'old', type: 'cash', archived: true })
+
+describe('goalAssets / goalValue', () => {
+  it('按范围筛选资产,忽略已归档', () => {
+    const all = [cash, stock, loan, archived]
+    expect(goalAssets(goal({}), all).map((a) => a.id)).toEqual(['cash', 'stock', 'loan'])
+    expect(goalAssets(goal({ scope: 'types', assetTypes: ['cash'] }), all).map((a) => a.id)).toEqual(['cash'])
+    expect(goalAssets(goal({ scope: 'assets', assetIds: ['stock', 'old'] }), all).map((a) => a.id)).toEqual([
+      'stock',
+    ])
+  })
+
+  it('负债按负值计入', () => {
+    const snapshots = [
+      { asset: cash, valueCNY: 50_000 },
+      { asset: stock, valueCNY: 30_000 },
+      { asset: loan, valueCNY: 20_000 },
+    ] as AssetSnapshot[]
+    expect(goalValue(goal({}), snapshots)).toBe(60_000)
+    expect(goalValue(goal({ scope: 'types', assetTypes: ['cash', 'stock'] }), snapshots)).toBe(80_000)
+  })
+})
+
+describe('projectGoal', () => {
+  it('已达成', () => {
+    const p = projectGoal(goal({}), 120_000, null, NOW)
+    expect(p.status).toBe('achieved')
+    expect(p.ratio).toBe(1)
+    expect(p.projectedAt).toBe(NOW)
+  })
+
+  it('无收益时按每月投入线性预测', () => {
+    const p = projectGoal(goal({ monthlyContribution: 10_000 }), 40_000, null, NOW)
+    expect(p.status).toBe('onTrack')
+    expect(p.ratio).toBe(0.4)
+    expect(new Date(p.projectedAt!).getMonth()).toBe(11) // 2025-06 + 6 个月
+  })
+
+  it('超过期限为落后,并给出按期所需的每月投入', () => {
+    const p = projectGoal(
+      goal({ deadline: '2025-12-31' }),
+      40_000,
+      { monthlyRate: 0, monthlyInflowCNY: 5_000 },
+      NOW,
+    )
+    expect(p.status).toBe('offTrack')
+    expect(p.monthlyContributionCNY).toBe(5_000)
+    expect(p.requiredMonthlyCNY).toBe(10_000)
+  })
+
+  it('计划投入优先于历史净投入;复利缩短达成时间', () => {
+    const g = goal({ monthlyContribution: 1_000 })
+    const flat = projectGoal(g, 50_000, { monthlyRate: 0, monthlyInflowCNY: 9_000 }, NOW)
+    const grow = projectGoal(g, 50_000, { monthlyRate: 0.01, monthlyInflowCNY: 9_000 }, NOW)
+    expect(flat.monthlyContributionCNY).toBe(1_000)
+    expect(grow.projectedAt!).toBeLessThan(flat.projectedAt!)
+  })
+
+  it('无增长数据且未设计划投入时数据不足', () => {
+    const p = projectGoal(goal({}), 10_000, null, NOW)
+    expect(p.status).toBe('unknown')
+    expect(p.projectedAt).toBeNull()
+  })
+})
+
+describe('PortfolioEngine.goalGrowth', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(NOW)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('月均净投入剔除收益,月化收益剔除存取', () => {
+    const wealth = asset({ id: 'w', type: 'wealth' })
+    const bank = asset({ id: 'b', type: 'cash' })
+    const engine = new PortfolioEngine(
+      [wealth, bank],
+      [
+        tx({ id: 't1', assetId: 'w', type: 'DEPOSIT', occurredAt: T0, amount: 10_000 }),
+        tx({ id: 't2', assetId: 'w', type: 'VALUATION', occurredAt: NOW - DAY_MS, value: 11_000 }),
+        tx({ id: 't3', assetId: 'b', type: 'DEPOSIT', occurredAt: NOW - 100 * DAY_MS, amount: 6_000 }),
+      ],
+      emptyPrices,
+      settings(),
+    )
+    const w = engine.goalGrowth([wealth])!
+    expect(w.monthlyRate).toBeCloseTo(1.1 ** (1 / 12) - 1, 6)
+    expect(w.monthlyInflowCNY).toBeCloseTo(0, 6)
+    expect(engine.goalGrowth([wealth, bank])!.monthlyInflowCNY).toBeCloseTo(500, 6)
+  })
+
+  it('流水不足一个月时为 null', () => {
+    const bank = asset({ id: 'b', type: 'cash' })
+    const engine = new PortfolioEngine(
+      [bank],
+      [tx({ id: 't1', assetId: 'b', type: 'DEPOSIT', occurredAt: NOW - 10 * DAY_MS, amount: 1_000 })],
+      emptyPrices,
+      settings(),
+    )
+    expect(engine.goalGrowth([bank])).toBeNull()
+  })
+})
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import {
+  UNSET_LABEL,
+  breakdownBy,
+  dimensionOptions,
+  groupValues,
+  matchesLabelFilter,
+  tagOptions,
+} from '../grouping'
+import { asset, snap } from './helpers'
+
+const pension = asset({
+  id: 'pension',
+  type: 'fund',
+  platform: '支付宝',
+  tags: ['退休', '长期'],
+  dimensions: { 归属: '我' },
+})
+const tuition = asset({ id: 'tuition', type: 'cash', tags: ['教育'], dimensions: { 归属: '配偶' } })
+const usd = asset({ id: 'usd', type: 'cash', currency: 'USD' })
+const loan = asset({ id: 'loan', type: 'debt', tags: ['退休'] })
+
+const snapshots = [snap(pension, 60_000), snap(tuition, 30_000), snap(usd, 10_000), snap(loan, -20_000)]
+
+describe('groupValues', () => {
+  it('按维度取值,缺省为未设置', () => {
+    expect(groupValues(pension, 'type')).toEqual(['基金'])
+    expect(groupValues(pension, 'platform')).toEqual(['支付宝'])
+    expect(groupValues(usd, 'platform')).toEqual([UNSET_LABEL])
+    expect(groupValues(usd, 'currency')).toEqual(['USD'])
+    expect(groupValues(pension, 'tag')).toEqual(['退休', '长期'])
+    expect(groupValues(usd, 'tag')).toEqual([UNSET_LABEL])
+    expect(groupValues(tuition, 'dim:归属')).toEqual(['配偶'])
+    expect(groupValues(usd, 'dim:归属')).toEqual([UNSET_LABEL])
+  })
+})
+
+describe('breakdownBy', () => {
+  it('按组汇总正资产,不含负债,市值降序', () => {
+    expect(breakdownBy(snapshots, 'dim:归属')).toEqual([
+      { label: '我', valueCNY: 60_000 },
+      { label: '配偶', valueCNY: 30_000 },
+      { label: UNSET_LABEL, valueCNY: 10_000 },
+    ])
+  })
+
+  it('多个标签分别计入', () => {
+    const rows = breakdownBy(snapshots, 'tag')
+    expect(rows).toEqual([
+      { label: '退休', valueCNY: 60_000 },
+      { label: '长期', valueCNY: 60_000 },
+      { label: '教育', valueCNY: 30_000 },
+      { label: UNSET_LABEL, valueCNY: 10_000 },
+    ])
+  })
+})
+
+describe('tag and dimension options', () => {
+  it('标签按使用次数排序,维度收集取值', () => {
+    expect(tagOptions([pension, tuition, loan])).toEqual([
+      { tag: '退休', count: 2 },
+      { tag: '长期', count: 1 },
+      { tag: '教育', count: 1 },
+    ])
+    expect(dimensionOptions([pension, tuition, usd])).toEqual([{ key: '归属', values: ['我', '配偶'] }])
+  })
+})
+
+describe('matchesLabelFilter', () => {
+  it('按标签/维度筛选', () => {
+    expect(matchesLabelFilter(pension, '')).toBe(true)
+    expect(matchesLabelFilter(pension, 'tag:退休')).toBe(true)
+    expect(matchesLabelFilter(tuition, 'tag:退休')).toBe(false)
+    expect(matchesLabelFilter(tuition, 'dim:归属=配偶')).toBe(true)
+    expect(matchesLabelFilter(usd, 'dim:归属=配偶')).toBe(false)
+    expect(matchesLabelFilter(undefined, 'tag:退休')).toBe(false)
+  })
+})
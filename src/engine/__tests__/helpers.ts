@@ -1,4 +1,12 @@
-import type { Asset, PriceHistory, Settings, Strategy, StrategyTransaction, Transaction } from '../../types'
+import type {
+  Asset,
+  AssetSnapshot,
+  PriceHistory,
+  Settings,
+  Strategy,
+  StrategyTransaction,
+  Transaction,
+} from '../../types'
 import { DEFAULT_SETTINGS } from '../../types'
 
 const DAY_MS = 86400_000
@@ -22,6 +30,19 @@ export function asset(overrides: Partial<Asset> & Pick<Asset, 'id' | 'type'>): A
   }
 }
 
+export function snap(a: AssetSnapshot['asset'], valueCNY: number, extra: Partial<AssetSnapshot> = {}): AssetSnapshot {
+  return {
+    asset: a,
+    quantity: 0,
+    valueCNY,
+    valueNative: valueCNY,
+    netInvestedCNY: 0,
+    totalPnlCNY: 0,
+    xirr: null,
+    ...extra,
+  }
+}
+
 export function tx(overrides: Partial<Transaction> & Pick<Transaction, 'id' | 'assetId' | 'type' | 'occurredAt'>): Transaction {
   const now = overrides.occurredAt
   return {
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest'
+import type { Workspace } from '../../types'
+import { mergeBooks, ownershipOf, weightTransaction, WORKSPACE_DIMENSION } from '../household'
+import { PortfolioEngine } from '../portfolio'
+import { asset, emptyPrices, settings, strategy, strategyTx, T0, T1, tx } from './helpers'
+
+const mine: Workspace = { id: 'me', name: '我', createdAt: T0 }
+const parents: Workspace = { id: 'parents', name: '父母', createdAt: T0 }
+
+const bank = asset({ id: 'bank', type: 'cash', ownership: 1 })
+const stock = asset({ id: 'stock', type: 'stock', settlementAssetId: 'bank' })
+const flat = asset({ id: 'flat', type: 'property', ownership: 0.5 })
+
+describe('ownershipOf', () => {
+  it('缺省为 100%,超出范围取边界', () => {
+    expect(ownershipOf(asset({ id: 'a', type: 'cash' }))).toBe(1)
+    expect(ownershipOf(asset({ id: 'a', type: 'cash', ownership: 0.3 }))).toBe(0.3)
+    expect(ownershipOf(asset({ id: 'a', type: 'cash', ownership: 1.5 }))).toBe(1)
+    expect(ownershipOf(asset({ id: 'a', type: 'cash', ownership: -1 }))).toBe(0)
+  })
+})
+
+describe('weightTransaction', () => {
+  it('份额、金额与费用缩放,单价不变', () => {
+    const t = tx({ id: 't', assetId: 'stock', type: 'BUY', occurredAt: T0, quantity: 10, price: 50, fee: 2 })
+    expect(weightTransaction(t, 0.5)).toEqual({ ...t, quantity: 5, price: 50, fee: 1 })
+    expect(weightTransaction(t, 1)).toBe(t)
+  })
+})
+
+describe('mergeBooks', () => {
+  const merged = mergeBooks([
+    {
+      workspace: mine,
+      assets: [bank, stock],
+      transactions: [
+        tx({ id: 't1', assetId: 'bank', type: 'DEPOSIT', occurredAt: T0, amount: 1000, transferId: 'x' }),
+      ],
+      strategies: [strategy({ id: 's1', assetId: 'bank' })],
+      strategyTransactions: [strategyTx({ id: 'st1', strategyId: 's1', type: 'DEPOSIT', occurredAt: T0, amount: 100 })],
+    },
+    {
+      workspace: parents,
+      assets: [bank, flat],
+      transactions: [
+        tx({ id: 't1', assetId: 'bank', type: 'DEPOSIT', occurredAt: T0, amount: 500 }),
+        tx({ id: 't2', assetId: 'flat', type: 'VALUATION', occurredAt: T1, value: 2_000_000 }),
+      ],
+      strategies: [],
+      strategyTransactions: [],
+    },
+  ])
+
+  it('id 加账本前缀,关联字段同步改写', () => {
+    expect(merged.assets.map((a) => a.id)).toEqual(['me/bank', 'me/stock', 'parents/bank', 'parents/flat'])
+    expect(merged.assets[1].settlementAssetId).toBe('me/bank')
+    expect(merged.transactions[0]).toMatchObject({ id: 'me/t1', assetId: 'me/bank', transferId: 'me/x' })
+    expect(merged.strategies[0]).toMatchObject({ id: 'me/s1', assetId: 'me/bank' })
+    expect(merged.strategyTransactions[0]).toMatchObject({ id: 'me/st1', strategyId: 'me/s1' })
+  })
+
+  it('资产带上账本维度', () => {
+    expect(merged.assets[3].dimensions).toEqual({ [WORKSPACE_DIMENSION]: '父母' })
+  })
+
+  it('合并后按持有比例计入净资产', () => {
+    const engine = new PortfolioEngine(merged.assets, merged.transactions, emptyPrices, settings())
+    expect(engine.summary().netWorthCNY).toBeCloseTo(1000 + 500 + 1_000_000)
+  })
+})
+
+describe('mergeBooks 持有比例不同的两端', () => {
+  const joint = asset({ id: 'joint', type: 'cash', ownership: 0.5 })
+  const halfStock = asset({ id: 'half', type: 'stock', ownership: 0.5, settlementAssetId: 'bank' })
+  const netWorth = (transactions: ReturnType<typeof tx>[]) => {
+    const merged = mergeBooks([
+      { workspace: mine, assets: [bank, joint, halfStock], transactions, strategies: [], strategyTransactions: [] },
+    ])
+    return new PortfolioEngine(merged.assets, merged.transactions, emptyPrices, settings()).summary().netWorthCNY
+  }
+  const deposit = tx({ id: 'd', assetId: 'bank', type: 'DEPOSIT', occurredAt: T0, amount: 1000 })
+
+  it('划转两笔按同一比例缩放,净资产不变', () => {
+    const legs = [
+      tx({ id: 'o', assetId: 'bank', type: 'WITHDRAW', occurredAt: T1, amount: 400, transferId: 'x' }),
+      tx({ id: 'i', assetId: 'joint', type: 'DEPOSIT', occurredAt: T1, amount: 400, transferId: 'x' }),
+    ]
+    const merged = mergeBooks([
+      { workspace: mine, assets: [bank, joint], transactions: legs, strategies: [], strategyTransactions: [] },
+    ])
+    expect(merged.transactions.map((t) => t.amount)).toEqual([400, 400])
+    expect(netWorth([deposit, ...legs])).toBeCloseTo(1000)
+  })
+
+  it('结算账户的资金腿跟随证券的比例', () => {
+    const buy = tx({ id: 'b', assetId: 'half', type: 'BUY', occurredAt: T1, quantity: 10, price: 100 })
+    expect(netWorth([deposit, buy])).toBeCloseTo(1000)
+  })
+})
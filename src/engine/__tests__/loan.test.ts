@@ -0,0 +1,197 @@
+import { describe, expect, it } from 'vitest'
+import type { LoanTerms } from '../../types'
+import {
+  buildAmortizationSchedule,
+  dueLoanTxs,
+  loanDueAt,
+  loanStatus,
+  remainingLoanTerms,
+  simulatePrepayment,
+} from '../loan'
+import { asset, tx } from './helpers'
+
+const terms: LoanTerms = {
+  principal: 120_000,
+  annualRate: 0.06,
+  termMonths: 12,
+  method: 'annuity',
+  startDate: '2024-01-15',
+  repaymentDay: 20,
+}
+
+describe('buildAmortizationSchedule', () => {
+  it('等额本息:月供固定,本金合计等于贷款本金', () => {
+    const schedule = buildAmortizationSchedule(terms)
+    expect(schedule).toHaveLength(12)
+    expect(schedule[0].interest).toBe(600)
+    expect(schedule[0].payment).toBeCloseTo(10_327.97, 2)
+    expect(schedule[5].payment).toBeCloseTo(10_327.97, 2)
+    expect(schedule.reduce((s, i) => s + i.principal, 0)).toBeCloseTo(120_000, 2)
+    expect(schedule[11].remainingPrincipal).toBe(0)
+  })
+
+  it('等额本金:本金固定,利息逐期递减', () => {
+    const schedule = buildAmortizationSchedule({ ...terms, method: 'linear' })
+    expect(schedule[0].principal).toBe(10_000)
+    expect(schedule[0].interest).toBe(600)
+    expect(schedule[1].interest).toBe(550)
+    expect(schedule[11].payment).toBe(10_050)
+  })
+
+  it('零利率按期平摊本金', () => {
+    const schedule = buildAmortizationSchedule({ ...terms, annualRate: 0 })
+    expect(schedule.every((i) => i.interest === 0 && i.payment === 10_000)).toBe(true)
+  })
+})
+
+describe('loanDueAt', () => {
+  it('首期在次月还款日,月末不足时取最后一天', () => {
+    expect(loanDueAt(terms, 1)).toBe(new Date(2024, 1, 20, 12).getTime())
+    const endOfMonth = { startDate: '2024-01-31', repaymentDay: 31 }
+    expect(loanDueAt(endOfMonth, 1)).toBe(new Date(2024, 1, 29, 12).getTime())
+    expect(loanDueAt(endOfMonth, 2)).toBe(new Date(2024, 2, 31, 12).getTime())
+  })
+})
+
+describe('loanStatus', () => {
+  it('按已到期期数汇总剩余本金与利息', () => {
+    const status = loanStatus(terms, new Date(2024, 3, 25).getTime())
+    const schedule = buildAmortizationSchedule(terms)
+    expect(status.duePeriods).toBe(3)
+    expect(status.remainingPrincipal).toBe(schedule[2].remainingPrincipal)
+    expect(status.nextInstallment?.period).toBe(4)
+    expect(status.interestPaid + status.interestRemaining).toBeCloseTo(
+      schedule.reduce((s, i) => s + i.interest, 0),
+      2,
+    )
+    expect(status.payoffAt).toBe(new Date(2025, 0, 20, 12).getTime())
+  })
+})
+
+describe('dueLoanTxs', () => {
+  const bank = asset({ id: 'bank', type: 'cash' })
+  const loan = asset({ id: 'loan', type: 'debt', name: '房贷', loan: { ...terms, paymentAssetId: 'bank' } })
+  const at = new Date(2024, 2, 25).getTime()
+  const paid = (period: number, loanAssetId?: string) =>
+    tx({
+      id: `w${period}`,
+      assetId: 'bank',
+      type: 'WITHDRAW',
+      occurredAt: loanDueAt(terms, period),
+      amount: 1,
+      loanPeriod: period,
+      loanAssetId,
+    })
+
+  it('无流水时补记放款,并按期记本金还款与月供取出', () => {
+    const drafts = dueLoanTxs(loan, [bank, loan], [], at)
+    expect(drafts.map((d) => [d.assetId, d.type, d.loanPeriod])).toEqual([
+      ['loan', 'BORROW', 0],
+      ['loan', 'REPAY', 1],
+      ['bank', 'WITHDRAW', 1],
+      ['loan', 'REPAY', 2],
+      ['bank', 'WITHDRAW', 2],
+    ])
+    expect(drafts[2].amount).toBe(drafts[1].amount! + 600)
+  })
+
+  it('已记账的期数不重复生成', () => {
+    const recorded = [
+      tx({ id: 'b', assetId: 'loan', type: 'BORROW', occurredAt: loanDueAt(terms, 0), amount: 120_000, loanPeriod: 0 }),
+      tx({ id: 'r1', assetId: 'loan', type: 'REPAY', occurredAt: loanDueAt(terms, 1), amount: 1, loanPeriod: 1 }),
+      paid(1, 'loan'),
+    ]
+    const drafts = dueLoanTxs(loan, [bank, loan], recorded, at)
+    expect(drafts.map((d) => d.loanPeriod)).toEqual([2, 2])
+  })
+
+  it('两笔各自去重:本金缺失时不重复取出月供', () => {
+    const recorded = [
+      tx({ id: 'b', assetId: 'loan', type: 'BORROW', occurredAt: loanDueAt(terms, 0), amount: 120_000, loanPeriod: 0 }),
+      paid(1, 'loan'),
+      // 早期生成、没有 loanAssetId 的月供按还款日认领
+      tx({ id: 'w2', assetId: 'bank', type: 'WITHDRAW', occurredAt: loanDueAt(terms, 2), amount: 1, loanPeriod: 2 }),
+    ]
+    const drafts = dueLoanTxs(loan, [bank, loan], recorded, at)
+    expect(drafts.map((d) => [d.assetId, d.type, d.loanPeriod])).toEqual([
+      ['loan', 'REPAY', 1],
+      ['loan', 'REPAY', 2],
+    ])
+  })
+
+  it('其他贷款的月供不算本贷款已记账', () => {
+    const drafts = dueLoanTxs(loan, [bank, loan], [paid(1, 'car')], at)
+    expect(drafts.filter((d) => d.type === 'WITHDRAW').map((d) => [d.loanPeriod, d.loanAssetId])).toEqual([
+      [1, 'loan'],
+      [2, 'loan'],
+    ])
+  })
+
+  it('只补记最后一笔手动流水之后到期的期数', () => {
+    const manual = [tx({ id: 'm', assetId: 'loan', type: 'BORROW', occurredAt: new Date(2024, 1, 25).getTime(), amount: 110_000 })]
+    const drafts = dueLoanTxs(loan, [bank, loan], manual, at)
+    expect(drafts.map((d) => [d.type, d.loanPeriod])).toEqual([
+      ['REPAY', 2],
+      ['WITHDRAW', 2],
+    ])
+  })
+
+  it('扣款账户币种不同时不记取出', () => {
+    const usd = asset({ id: 'bank', type: 'cash', currency: 'USD' })
+    const drafts = dueLoanTxs(loan, [usd, loan], [], at)
+    expect(drafts.every((d) => d.assetId === 'loan')).toBe(true)
+  })
+})
+
+describe('remainingLoanTerms', () => {
+  it('剩余计划的首期即原计划的下一期,与补记流水的到期日一致', () => {
+    const at = new Date(2024, 2, 10, 12).getTime()
+    const rest = remainingLoanTerms(terms, at)
+    expect(rest.termMonths).toBe(11)
+    expect(rest.principal).toBe(loanStatus(terms, at).remainingPrincipal)
+    expect(buildAmortizationSchedule(rest)[0].dueAt).toBe(loanDueAt(terms, 2))
+
+    const bank = asset({ id: 'bank', type: 'cash' })
+    const loan = asset({ id: 'loan', type: 'debt', loan: { ...terms, paymentAssetId: 'bank' } })
+    const next = dueLoanTxs(loan, [bank, loan], [], loanDueAt(terms, 2)).at(-1)!
+    expect(simulatePrepayment(rest, at, 10_000, 'lower').baseline[0].dueAt).toBe(next.occurredAt)
+  })
+})
+
+describe('simulatePrepayment', () => {
+  const remaining: LoanTerms = { ...terms, principal: 100_000, termMonths: 10 }
+  const prepaidAt = new Date(2024, 0, 15, 12).getTime()
+
+  it('缩短期限:月供基本不变,期数减少', () => {
+    const r = simulatePrepayment(remaining, prepaidAt, 30_000, 'shorten')
+    expect(r.baseline).toHaveLength(10)
+    expect(r.schedule.length).toBe(7)
+    expect(r.monthsSaved).toBe(3)
+    expect(r.schedule[0].payment).toBeLessThanOrEqual(r.baseline[0].payment)
+    expect(r.interestSaved).toBeGreaterThan(0)
+  })
+
+  it('减少月供:期数不变,月供按剩余本金重算', () => {
+    const r = simulatePrepayment(remaining, prepaidAt, 30_000, 'lower')
+    expect(r.schedule).toHaveLength(10)
+    expect(r.monthsSaved).toBe(0)
+    expect(r.schedule[0].payment).toBeCloseTo(r.baseline[0].payment * 0.7, 0)
+  })
+
+  it('不计投资收益时,期末净资产差异等于节省的利息', () => {
+    const r = simulatePrepayment(remaining, prepaidAt, 30_000, 'shorten')
+    expect(r.netWorthDelta[0].delta).toBe(0)
+    expect(r.netWorthDelta.at(-1)!.delta).toBeCloseTo(r.interestSaved, 2)
+  })
+
+  it('投资收益高于贷款利率时提前还款不划算', () => {
+    const r = simulatePrepayment(remaining, prepaidAt, 30_000, 'lower', 0.2)
+    expect(r.netWorthDelta.at(-1)!.delta).toBeLessThan(0)
+  })
+
+  it('一次还清', () => {
+    const r = simulatePrepayment(remaining, prepaidAt, 200_000, 'shorten')
+    expect(r.schedule).toEqual([])
+    expect(r.monthsSaved).toBe(10)
+  })
+})
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest'
+import { replayLots } from '../lots'
+import { T0, T1, T2, tx } from './helpers'
+
+const DAY_MS = 86400_000
+
+const trades = [
+  tx({ id: 'b1', assetId: 's1', type: 'BUY', occurredAt: T0, quantity: 10, price: 100 }),
+  tx({ id: 'b2', assetId: 's1', type: 'BUY', occurredAt: T1, quantity: 10, price: 200 }),
+  tx({ id: 's1', assetId: 's1', type: 'SELL', occurredAt: T2, quantity: 15, price: 250 }),
+]
+
+describe('replayLots', () => {
+  it('FIFO:先消耗最早批次', () => {
+    const r = replayLots(trades, 'fifo', () => 1)
+    // 出库成本 10×100 + 5×200 = 2000;所得 15×250 = 3750
+    expect(r.realizedPnlCNY).toBe(1750)
+    expect(r.quantity).toBe(5)
+    expect(r.avgCost).toBe(200)
+    expect(r.costBasisCNY).toBe(1000)
+    expect(r.lots).toHaveLength(1)
+  })
+
+  it('加权平均:卖出不改变均价', () => {
+    const r = replayLots(trades, 'average', () => 1)
+    // 均价 150,出库成本 15×150 = 2250
+    expect(r.realizedPnlCNY).toBe(1500)
+    expect(r.quantity).toBe(5)
+    expect(r.avgCost).toBe(150)
+    expect(r.costBasisCNY).toBe(750)
+  })
+
+  it('两种方法已实现 + 剩余成本之和一致', () => {
+    const fifo = replayLots(trades, 'fifo', () => 1)
+    const avg = replayLots(trades, 'average', () => 1)
+    expect(fifo.realizedPnlCNY - fifo.costBasisCNY).toBe(avg.realizedPnlCNY - avg.costBasisCNY)
+  })
+
+  it('逐笔步骤:SELL 记已实现,其余为 null', () => {
+    const r = replayLots(trades, 'fifo', () => 1)
+    expect(r.steps.map((s) => s.realizedPnlCNY)).toEqual([null, null, 1750])
+    expect(r.steps.map((s) => s.avgCostAfter)).toEqual([100, 150, 200])
+  })
+
+  it('清仓后均价为 null', () => {
+    const r = replayLots(
+      [
+        tx({ id: 'b1', assetId: 's1', type: 'BUY', occurredAt: T0, quantity: 2, price: 10 }),
+        tx({ id: 's1', assetId: 's1', type: 'SELL', occurredAt: T1, quantity: 2, price: 12 }),
+      ],
+      'average',
+      () => 1,
+    )
+    expect(r.avgCost).toBeNull()
+    expect(r.costBasisCNY).toBe(0)
+    expect(r.realizedPnlCNY).toBe(4)
+  })
+
+  it('超卖部分按零成本', () => {
+    const r = replayLots(
+      [
+        tx({ id: 'b1', assetId: 's1', type: 'BUY', occurredAt: T0, quantity: 1, price: 10 }),
+        tx({ id: 's1', assetId: 's1', type: 'SELL', occurredAt: T1, quantity: 3, price: 10 }),
+      ],
+      'fifo',
+      () => 1,
+    )
+    expect(r.realizedPnlCNY).toBe(20)
+    expect(r.quantity).toBe(0)
+  })
+
+  it('成本按买入日汇率、所得按卖出日汇率折算', () => {
+    const fxAt = (atMs: number) => (atMs < T0 + 10 * DAY_MS ? 7 : 8)
+    const r = replayLots(
+      [
+        tx({ id: 'b1', assetId: 's1', type: 'BUY', occurredAt: T0, quantity: 10, price: 100 }),
+        tx({ id: 's1', assetId: 's1', type: 'SELL', occurredAt: T1, quantity: 10, price: 100 }),
+      ],
+      'fifo',
+      fxAt,
+    )
+    // 原币不赚不亏,汇率 7 → 8 产生 1000 CNY 汇兑收益
+    expect(r.realizedPnlCNY).toBe(1000)
+  })
+})
+
+describe('手续费与税费', () => {
+  it('买入费用计入成本,卖出费用从所得扣除', () => {
+    const r = replayLots(
+      [
+        tx({ id: 'b1', assetId: 's1', type: 'BUY', occurredAt: T0, quantity: 100, price: 10, fee: 5 }),
+        tx({ id: 's1', assetId: 's1', type: 'SELL', occurredAt: T1, quantity: 50, price: 12, fee: 3, tax: 0.6 }),
+      ],
+      'fifo',
+      () => 1,
+    )
+    // 单位成本 (1000 + 5) / 100 = 10.05;所得 600 - 3.6 = 596.4;出库成本 502.5
+    expect(r.steps[0].avgCostAfter).toBeCloseTo(10.05)
+    expect(r.realizedPnlCNY).toBeCloseTo(93.9)
+    expect(r.costBasisCNY).toBeCloseTo(502.5)
+  })
+})
+
+describe('拆股 / 送转 / 分红', () => {
+  it('拆股放大份额、总成本不变', () => {
+    const r = replayLots(
+      [
+        tx({ id: 'b1', assetId: 's1', type: 'BUY', occurredAt: T0, quantity: 10, price: 100 }),
+        tx({ id: 'p1', assetId: 's1', type: 'SPLIT', occurredAt: T1, ratio: 10 }),
+      ],
+      'fifo',
+      () => 1,
+    )
+    expect(r.quantity).toBe(100)
+    expect(r.avgCost).toBe(10)
+    expect(r.costBasisCNY).toBe(1000)
+  })
+
+  it('送转股按持仓比例摊薄成本', () => {
+    const r = replayLots(
+      [
+        tx({ id: 'b1', assetId: 's1', type: 'BUY', occurredAt: T0, quantity: 10, price: 12 }),
+        tx({ id: 'g1', assetId: 's1', type: 'BONUS_SHARES', occurredAt: T1, quantity: 2 }),
+      ],
+      'fifo',
+      () => 1,
+    )
+    expect(r.quantity).toBe(12)
+    expect(r.avgCost).toBe(10)
+    expect(r.costBasisCNY).toBe(120)
+  })
+
+  it('分红计入已实现;再投资份额以分红金额为成本', () => {
+    const r = replayLots(
+      [
+        tx({ id: 'b1', assetId: 's1', type: 'BUY', occurredAt: T0, quantity: 100, price: 1 }),
+        tx({ id: 'd1', assetId: 's1', type: 'DIVIDEND', occurredAt: T1, amount: 5 }),
+        tx({ id: 'd2', assetId: 's1', type: 'DIVIDEND', occurredAt: T2, amount: 6, quantity: 5 }),
+      ],
+      'average',
+      () => 1,
+    )
+    expect(r.steps.map((s) => s.realizedPnlCNY)).toEqual([null, 5, 6])
+    expect(r.quantity).toBe(105)
+    expect(r.costBasisCNY).toBe(106)
+  })
+})
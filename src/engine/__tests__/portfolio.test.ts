@@ -46,6 +46,53 @@ describe('PortfolioEngine', () => {
       const engine = new PortfolioEngine([], [], emptyPrices, settings())
       expect(engine.fx('JPY')).toBe(1)
     })
+
+    it('按时刻取历史汇率', () => {
+      const engine = new PortfolioEngine([], [], emptyPrices, settings({ fxRates: { USD: 7.5 } }), {
+        USD: { '2024-01-01': 7, '2024-06-29': 7.2 },
+      })
+      expect(engine.fx('USD', T0)).toBe(7)
+      expect(engine.fx('USD', T1)).toBe(7.2)
+      expect(engine.fx('USD')).toBe(7.5)
+    })
+  })
+
+  describe('历史汇率', () => {
+    const stock = asset({ id: 's1', type: 'stock', currency: 'USD' })
+    const fxHistory = { USD: { '2024-01-01': 7, '2025-06-01': 8 } }
+
+    it('成本按买入当日汇率,市值按估值时刻汇率', () => {
+      const engine = new PortfolioEngine(
+        [stock],
+        [tx({ id: 'b1', assetId: 's1', type: 'BUY', occurredAt: T0, quantity: 10, price: 100 })],
+        emptyPrices,
+        settings({ fxRates: { USD: 8 } }),
+        fxHistory,
+      )
+      const snap = engine.snapshot(stock)
+      expect(snap.netInvestedCNY).toBeCloseTo(7000, 4)
+      expect(snap.valueCNY).toBeCloseTo(8000, 4)
+      expect(snap.valueNative).toBeCloseTo(1000, 4)
+      expect(snap.unitPrice).toBeCloseTo(100, 4)
+      expect(snap.totalPnlCNY).toBeCloseTo(1000, 4)
+      expect(engine.valueAt(stock, T0)).toBeCloseTo(7000, 4)
+    })
+
+    it('金额型按各时点汇率折算,刷新汇率不改写过去', () => {
+      const wealth = asset({ id: 'w1', type: 'wealth', currency: 'USD' })
+      const engine = new PortfolioEngine(
+        [wealth],
+        [tx({ id: 'd1', assetId: 'w1', type: 'DEPOSIT', occurredAt: T0, amount: 100 })],
+        emptyPrices,
+        settings({ fxRates: { USD: 8 } }),
+        fxHistory,
+      )
+      expect(engine.valueAt(wealth, T0)).toBe(700)
+      expect(engine.valueAt(wealth, NOW)).toBe(800)
+      const snap = engine.snapshot(wealth)
+      expect(snap.netInvestedCNY).toBe(700)
+      expect(snap.totalPnlCNY).toBe(100)
+    })
   })
 
   describe('valueAt 数量型', () => {
@@ -84,6 +131,70 @@ describe('PortfolioEngine', () => {
     })
   })
 
+  describe('拆股 / 送转 / 分红', () => {
+    const stock = asset({ id: 's1', type: 'stock' })
+
+    it('拆股前价格按比例复权,拆股前后市值连续', () => {
+      const engine = new PortfolioEngine(
+        [stock],
+        [
+          tx({ id: 'b1', assetId: 's1', type: 'BUY', occurredAt: T0, quantity: 10, price: 100 }),
+          tx({ id: 'p1', assetId: 's1', type: 'SPLIT', occurredAt: T1, ratio: 10 }),
+          tx({ id: 'b2', assetId: 's1', type: 'BUY', occurredAt: T2, quantity: 10, price: 12 }),
+        ],
+        emptyPrices,
+        settings(),
+      )
+      // T0 价格复权为 10,T0→T2 区间按 10 → 12 插值
+      expect(engine.valueAt(stock, T0)).toBeCloseTo(1000)
+      expect(engine.valueAt(stock, T1 - 1)).toBeCloseTo(engine.valueAt(stock, T1), 2)
+      const snap = engine.snapshot(stock)
+      expect(snap.quantity).toBe(110)
+      expect(snap.unitPrice).toBe(12)
+      expect(snap.valueCNY).toBe(1320)
+      expect(snap.totalPnlCNY).toBe(1320 - 1120)
+    })
+
+    it('送转股增加持仓且不产生现金流', () => {
+      const engine = new PortfolioEngine(
+        [stock],
+        [
+          tx({ id: 'b1', assetId: 's1', type: 'BUY', occurredAt: T0, quantity: 10, price: 12 }),
+          tx({ id: 'g1', assetId: 's1', type: 'BONUS_SHARES', occurredAt: T1, quantity: 2 }),
+        ],
+        emptyPrices,
+        settings(),
+      )
+      const snap = engine.snapshot(stock)
+      expect(snap.quantity).toBe(12)
+      // 送转后单价复权为 10,市值不变
+      expect(snap.valueCNY).toBeCloseTo(120)
+      expect(snap.netInvestedCNY).toBe(120)
+      expect(engine.txLedger(stock)[0].balanceAfter).toBe(12)
+    })
+
+    it('现金分红计入流出,再投资分红只增加份额', () => {
+      const fund = asset({ id: 'f1', type: 'fund' })
+      const engine = new PortfolioEngine(
+        [fund],
+        [
+          tx({ id: 'b1', assetId: 'f1', type: 'BUY', occurredAt: T0, quantity: 100, price: 1 }),
+          tx({ id: 'd1', assetId: 'f1', type: 'DIVIDEND', occurredAt: T1, amount: 5 }),
+          tx({ id: 'd2', assetId: 'f1', type: 'DIVIDEND', occurredAt: T2, amount: 6, quantity: 5 }),
+        ],
+        emptyPrices,
+        settings(),
+      )
+      const snap = engine.snapshot(fund)
+      expect(snap.quantity).toBe(105)
+      expect(snap.netInvestedCNY).toBe(95)
+      expect(snap.valueCNY).toBeCloseTo(105 * 1.2)
+      expect(snap.totalPnlCNY).toBeCloseTo(105 * 1.2 - 95)
+      expect(snap.realizedPnlCNY! + snap.unrealizedPnlCNY!).toBeCloseTo(snap.totalPnlCNY)
+      expect(engine.txLedger(fund).map((r) => r.amountNative)).toEqual([6, 5, 100])
+    })
+  })
+
   describe('valueAt 金额型', () => {
     const cash = asset({ id: 'c1', type: 'cash' })
     const wealth = asset({ id: 'w1', type: 'wealth', currency: 'USD' })
@@ -151,6 +262,59 @@ describe('PortfolioEngine', () => {
       expect(snap.lastUpdated).toBe(T0)
     })
 
+    it('已实现 + 浮动 = 累计盈亏', () => {
+      const stock = asset({ id: 's1', type: 'stock', costBasisMethod: 'average' })
+      const engine = new PortfolioEngine(
+        [stock],
+        [
+          tx({ id: 'b1', assetId: 's1', type: 'BUY', occurredAt: T0, quantity: 10, price: 100 }),
+          tx({ id: 'b2', assetId: 's1', type: 'BUY', occurredAt: T1, quantity: 10, price: 200 }),
+          tx({ id: 'x1', assetId: 's1', type: 'SELL', occurredAt: T2, quantity: 15, price: 250 }),
+        ],
+        emptyPrices,
+        settings(),
+      )
+      const snap = engine.snapshot(stock)
+      expect(snap.avgCost).toBe(150)
+      expect(snap.realizedPnlCNY).toBe(1500)
+      expect(snap.unrealizedPnlCNY).toBe(5 * 250 - 750)
+      expect(snap.realizedPnlCNY! + snap.unrealizedPnlCNY!).toBeCloseTo(snap.totalPnlCNY)
+    })
+
+    it('手续费与税费计入现金流与累计费用', () => {
+      const stock = asset({ id: 's1', type: 'stock', currency: 'USD' })
+      const engine = new PortfolioEngine(
+        [stock],
+        [
+          tx({ id: 'b1', assetId: 's1', type: 'BUY', occurredAt: T0, quantity: 10, price: 100, fee: 5 }),
+          tx({ id: 'x1', assetId: 's1', type: 'SELL', occurredAt: T1, quantity: 5, price: 100, fee: 2, tax: 1 }),
+        ],
+        emptyPrices,
+        settings({ fxRates: { USD: 7 } }),
+      )
+      const snap = engine.snapshot(stock)
+      // 流入 1005×7,流出 497×7;剩余 5 股按 100 估值
+      expect(snap.netInvestedCNY).toBeCloseTo((1005 - 497) * 7)
+      expect(snap.totalPnlCNY).toBeCloseTo(-8 * 7)
+      expect(snap.feesPaidCNY).toBeCloseTo(8 * 7)
+      expect(snap.realizedPnlCNY! + snap.unrealizedPnlCNY!).toBeCloseTo(snap.totalPnlCNY)
+      expect(engine.summary().totalFeesCNY).toBeCloseTo(56)
+      expect(engine.txLedger(stock).map((r) => r.amountNative)).toEqual([497, 1005])
+    })
+
+    it('金额型不填成本字段', () => {
+      const cash = asset({ id: 'c1', type: 'cash' })
+      const engine = new PortfolioEngine(
+        [cash],
+        [tx({ id: 'd1', assetId: 'c1', type: 'DEPOSIT', occurredAt: T0, amount: 100 })],
+        emptyPrices,
+        settings(),
+      )
+      const snap = engine.snapshot(cash)
+      expect(snap.avgCost).toBeUndefined()
+      expect(snap.realizedPnlCNY).toBeUndefined()
+    })
+
     it('理财估值', () => {
       const wealth = asset({ id: 'w1', type: 'wealth' })
       const engine = new PortfolioEngine(
@@ -208,6 +372,79 @@ describe('PortfolioEngine', () => {
     })
   })
 
+  describe('划转', () => {
+    const bank = asset({ id: 'bank', type: 'cash' })
+    const wealth = asset({ id: 'w1', type: 'wealth' })
+    const recent = NOW - 3600_000
+
+    function engineWithTransfer() {
+      return new PortfolioEngine(
+        [bank, wealth],
+        [
+          tx({ id: 'd1', assetId: 'bank', type: 'DEPOSIT', occurredAt: T0, amount: 10_000 }),
+          tx({ id: 'o1', assetId: 'bank', type: 'WITHDRAW', occurredAt: recent, amount: 4000, transferId: 'x1' }),
+          tx({ id: 'i1', assetId: 'w1', type: 'DEPOSIT', occurredAt: recent, amount: 4000, transferId: 'x1' }),
+        ],
+        emptyPrices,
+        settings(),
+      )
+    }
+
+    it('组合内部划转不产生收益,也不算新增投入', () => {
+      const engine = engineWithTransfer()
+      const month = engine.periodReturnsForAssets([bank, wealth]).find((p) => p.key === 'month')!
+      expect(month.pnlCNY).toBe(0)
+      expect(month.ratio).toBe(0)
+      expect(engine.summary().totalPnlCNY).toBe(0)
+    })
+
+    it('只看一侧时划转按存取处理', () => {
+      const engine = engineWithTransfer()
+      const month = engine.periodReturnsForAssets([bank]).find((p) => p.key === 'month')!
+      expect(month.pnlCNY).toBe(0)
+      expect(engine.snapshot(bank).netInvestedCNY).toBe(6000)
+      expect(engine.snapshot(wealth).netInvestedCNY).toBe(4000)
+    })
+  })
+
+  describe('结算账户', () => {
+    const bank = asset({ id: 'bank', type: 'cash' })
+    const stock = asset({ id: 's1', type: 'stock', settlementAssetId: 'bank' })
+    const recent = NOW - 3600_000
+
+    function engineWithSettlement() {
+      return new PortfolioEngine(
+        [bank, stock],
+        [
+          tx({ id: 'd1', assetId: 'bank', type: 'DEPOSIT', occurredAt: T0, amount: 10_000 }),
+          tx({ id: 'b1', assetId: 's1', type: 'BUY', occurredAt: recent, quantity: 10, price: 300 }),
+        ],
+        emptyPrices,
+        settings(),
+      )
+    }
+
+    it('买入自动从结算账户扣款', () => {
+      const engine = engineWithSettlement()
+      expect(engine.snapshot(bank).valueCNY).toBe(7000)
+      expect(engine.summary().netWorthCNY).toBe(10_000)
+    })
+
+    it('证券与结算账户之间视为内部资金移动', () => {
+      const engine = engineWithSettlement()
+      const month = engine.periodReturnsForAssets([bank, stock]).find((p) => p.key === 'month')!
+      expect(month.pnlCNY).toBe(0)
+      expect(month.ratio).toBe(0)
+    })
+
+    it('结算账户流水指向来源证券流水', () => {
+      const engine = engineWithSettlement()
+      const [row] = engine.txLedger(bank)
+      expect(row.tx.type).toBe('WITHDRAW')
+      expect(row.settlementOf?.id).toBe('b1')
+    })
+  })
+
   describe('txLedger', () => {
     it('倒序展示', () => {
       const cash = asset({ id: 'c1', type: 'cash' })
@@ -237,6 +474,23 @@ describe('PortfolioEngine', () => {
       expect(ledger[0].balanceAfter).toBe(10)
     })
 
+    it('数量型逐笔均价与已实现盈亏(FIFO)', () => {
+      const stock = asset({ id: 's1', type: 'stock' })
+      const engine = new PortfolioEngine(
+        [stock],
+        [
+          tx({ id: 'b1', assetId: 's1', type: 'BUY', occurredAt: T0, quantity: 10, price: 100 }),
+          tx({ id: 'b2', assetId: 's1', type: 'BUY', occurredAt: T1, quantity: 10, price: 200 }),
+          tx({ id: 'x1', assetId: 's1', type: 'SELL', occurredAt: T2, quantity: 15, price: 250 }),
+        ],
+        emptyPrices,
+        settings(),
+      )
+      const ledger = engine.txLedger(stock)
+      expect(ledger.map((r) => r.avgCostAfter)).toEqual([200, 150, 100])
+      expect(ledger.map((r) => r.realizedPnlCNY)).toEqual([1750, null, null])
+    })
+
     it('金额型 balanceLabel=value', () => {
       const cash = asset({ id: 'c1', type: 'cash' })
       const engine = new PortfolioEngine(
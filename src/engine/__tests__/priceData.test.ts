@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { findOutliers, parsePriceCsv } from '../priceData'
+
+describe('findOutliers', () => {
+  it('孤立尖刺只标尖刺本身', () => {
+    const points = { '2024-01-01': 100, '2024-01-02': 102, '2024-01-03': 1020, '2024-01-04': 101, '2024-01-05': 103 }
+    const outliers = findOutliers(points)
+    expect(outliers.map((o) => o.date)).toEqual(['2024-01-03'])
+    expect(outliers[0].prevDate).toBe('2024-01-02')
+    expect(outliers[0].change).toBeCloseTo(9)
+  })
+
+  it('持续跳变只标跳变当日', () => {
+    const points = { '2024-01-01': 100, '2024-01-02': 40, '2024-01-03': 41, '2024-01-04': 42 }
+    expect(findOutliers(points).map((o) => o.date)).toEqual(['2024-01-02'])
+  })
+
+  it('点的顺序与阈值', () => {
+    const points = { '2024-01-03': 130, '2024-01-01': 100 }
+    expect(findOutliers(points)).toEqual([])
+    expect(findOutliers(points, 0.2).map((o) => o.date)).toEqual(['2024-01-03'])
+  })
+})
+
+describe('parsePriceCsv', () => {
+  it('跳过表头,识别多种日期与分隔符', () => {
+    const text = ['date,close', '2024-06-27,3.869', '2024/6/28,3.845', '', '20240701,3.9'].join('\n')
+    const r = parsePriceCsv(text)
+    expect(r.errors).toEqual([])
+    expect(r.points).toEqual({ '2024-06-27': 3.869, '2024-06-28': 3.845, '2024-07-01': 3.9 })
+    expect(parsePriceCsv('2024-07-02\t3.95').points).toEqual({ '2024-07-02': 3.95 })
+    expect(parsePriceCsv('2024-07-02;3.95').points).toEqual({ '2024-07-02': 3.95 })
+  })
+
+  it('多列按表头取收盘价列,不取成交量', () => {
+    const text = ['Date,Open,High,Low,Close,Adj Close,Volume', '2024-06-28,"1,470.00",1490,1460,"1,475.00",1470.2,3200000'].join('\n')
+    expect(parsePriceCsv(text)).toEqual({ points: { '2024-06-28': 1475 }, errors: [] })
+    expect(parsePriceCsv('净值日期,单位净值,累计净值\n2024-06-28,1.2345,2.5').points).toEqual({ '2024-06-28': 1.2345 })
+  })
+
+  it('多列且认不出收盘价列时整体报错', () => {
+    expect(parsePriceCsv('date,open,volume\n2024-06-28,1,100')).toEqual({
+      points: {},
+      errors: ['无法识别收盘价列:请在表头中用 close / 收盘 / 净值 标明'],
+    })
+    expect(parsePriceCsv('2024-06-28,贵州茅台,1475.00').errors).toEqual([
+      '多列文件需要表头,并用 close / 收盘 / 净值 标明收盘价列',
+    ])
+  })
+
+  it('报告无法解析的行', () => {
+    const r = parsePriceCsv('2024-06-28,1\n2024-13-01,2\n2024-06-29,abc\n2024-06-30,-1')
+    expect(r.points).toEqual({ '2024-06-28': 1 })
+    expect(r.errors).toEqual(['第 2 行:无法识别日期「2024-13-01」', '第 3 行:价格无效', '第 4 行:价格无效'])
+  })
+})
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest'
+import type { RecurringRule } from '../../types'
+import { dueOccurrences, needsInput, nextOccurrence, occurrenceDraft, parseHolidays } from '../recurring'
+import { formatDateKey } from '../../utils/time'
+
+function rule(overrides: Partial<RecurringRule>): RecurringRule {
+  return {
+    id: 'r1',
+    name: '工资',
+    assetId: 'cash',
+    template: { type: 'INCOME', amount: 10_000 },
+    cadence: 'monthly',
+    startDate: '2024-01-31',
+    createdAt: 0,
+    ...overrides,
+  }
+}
+
+const at = (date: string) => new Date(`${date}T12:00:00`).getTime()
+const keys = (ms: number[]) => ms.map((m) => formatDateKey(m))
+
+describe('dueOccurrences', () => {
+  it('每月规则遇月末不足时取当月最后一天', () => {
+    const { occurrences, generatedUntil } = dueOccurrences(rule({}), at('2024-04-30'))
+    expect(keys(occurrences)).toEqual(['2024-01-31', '2024-02-29', '2024-03-31', '2024-04-30'])
+    expect(generatedUntil).toBe('2024-04-30')
+  })
+
+  it('每周与自定义间隔', () => {
+    const weekly = dueOccurrences(rule({ cadence: 'weekly', startDate: '2024-01-01' }), at('2024-01-20'))
+    expect(keys(weekly.occurrences)).toEqual(['2024-01-01', '2024-01-08', '2024-01-15'])
+    const custom = dueOccurrences(
+      rule({ cadence: 'custom', intervalDays: 10, startDate: '2024-01-01' }),
+      at('2024-01-25'),
+    )
+    expect(keys(custom.occurrences)).toEqual(['2024-01-01', '2024-01-11', '2024-01-21'])
+  })
+
+  it('跳过已生成的期数,并在结束日期后停止', () => {
+    const r = rule({ startDate: '2024-01-15', generatedUntil: '2024-02-15', endDate: '2024-04-01' })
+    expect(keys(dueOccurrences(r, at('2024-12-31')).occurrences)).toEqual(['2024-03-15'])
+  })
+
+  it('遇周末顺延到周一,顺延后晚于截止时刻的留待下次', () => {
+    // 2024-06-15 为周六
+    const r = rule({ startDate: '2024-06-15', skipHolidays: true })
+    expect(dueOccurrences(r, at('2024-06-16')).occurrences).toEqual([])
+    expect(keys(dueOccurrences(r, at('2024-06-17')).occurrences)).toEqual(['2024-06-17'])
+  })
+
+  it('遇节假日顺延到下一个工作日,未开启顺延时不受影响', () => {
+    // 2024-10-01 至 10-07 为假期,其中 10-05、10-06 为周末
+    const holidays = ['2024-10-01', '2024-10-02', '2024-10-03', '2024-10-04', '2024-10-07']
+    const r = rule({ startDate: '2024-10-01', skipHolidays: true })
+    expect(keys(dueOccurrences(r, at('2024-10-31'), holidays).occurrences)).toEqual(['2024-10-08'])
+    expect(formatDateKey(nextOccurrence(r, holidays)!)).toBe('2024-10-08')
+    const plain = rule({ startDate: '2024-10-01' })
+    expect(keys(dueOccurrences(plain, at('2024-10-31'), holidays).occurrences)).toEqual(['2024-10-01'])
+  })
+
+  it('暂停的规则不生成', () => {
+    const r = rule({ paused: true, generatedUntil: '2024-01-31' })
+    expect(dueOccurrences(r, at('2024-12-31'))).toEqual({ occurrences: [], generatedUntil: '2024-01-31' })
+  })
+})
+
+describe('parseHolidays', () => {
+  it('按换行、空格或逗号分隔,去重排序并列出无法识别的片段', () => {
+    expect(parseHolidays('2025-10-02\n2025-10-01, 2025-10-01 2025-2-30 国庆')).toEqual({
+      dates: ['2025-10-01', '2025-10-02'],
+      invalid: ['2025-2-30', '国庆'],
+    })
+    expect(parseHolidays('  ')).toEqual({ dates: [], invalid: [] })
+  })
+})
+
+describe('nextOccurrence', () => {
+  it('返回首个未生成的期数,规则结束后为 null', () => {
+    expect(formatDateKey(nextOccurrence(rule({ generatedUntil: '2024-01-31' }))!)).toBe('2024-02-29')
+    expect(nextOccurrence(rule({ generatedUntil: '2024-01-31', endDate: '2024-02-01' }))).toBeNull()
+  })
+})
+
+describe('occurrenceDraft / needsInput', () => {
+  it('资产规则:备注默认取规则名称并带上规则 id', () => {
+    const draft = occurrenceDraft(rule({}), at('2024-01-31'))
+    expect(draft).toEqual({
+      kind: 'asset',
+      tx: {
+        assetId: 'cash',
+        type: 'INCOME',
+        occurredAt: at('2024-01-31'),
+        amount: 10_000,
+        note: '工资',
+        recurringRuleId: 'r1',
+      },
+    })
+  })
+
+  it('策略规则生成策略流水', () => {
+    const draft = occurrenceDraft(
+      rule({ assetId: undefined, strategyId: 's1', template: { type: 'DEPOSIT', amount: 500, note: '追加' } }),
+      at('2024-01-31'),
+    )
+    expect(draft.kind).toBe('strategy')
+    expect(draft.tx).toMatchObject({ strategyId: 's1', type: 'DEPOSIT', amount: 500, note: '追加' })
+  })
+
+  it('按金额定投须补填成交,数量与单价齐全时可直接确认', () => {
+    expect(needsInput(rule({ template: { type: 'BUY', amount: 1000 } }))).toBe(true)
+    expect(needsInput(rule({ template: { type: 'BUY', quantity: 100, price: 3.5 } }))).toBe(false)
+    expect(needsInput(rule({}))).toBe(false)
+  })
+})
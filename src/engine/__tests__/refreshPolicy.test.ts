@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import {
+  BACKOFF_BASE_MS,
+  BACKOFF_MAX_MS,
+  inBackoff,
+  isRefreshDue,
+  mergeRefresh,
+  nextBackoff,
+  updateBackoff,
+  type RefreshFetched,
+} from '../refreshPolicy'
+import type { RefreshSourceResult } from '../../types'
+import { mergePriceHistory } from '../backfill'
+import { NOW, settings } from './helpers'
+
+const result = (source: string, patch: Partial<RefreshSourceResult> = {}): RefreshSourceResult => ({
+  source,
+  label: source,
+  updated: 0,
+  failed: [],
+  ...patch,
+})
+
+describe('nextBackoff', () => {
+  it('每次失败退避时长翻倍,封顶', () => {
+    const first = nextBackoff(undefined, NOW)
+    expect(first).toEqual({ failures: 1, retryAt: NOW + BACKOFF_BASE_MS })
+    const second = nextBackoff(first, NOW)
+    expect(second.retryAt).toBe(NOW + BACKOFF_BASE_MS * 2)
+    expect(nextBackoff({ failures: 20, retryAt: 0 }, NOW).retryAt).toBe(NOW + BACKOFF_MAX_MS)
+  })
+})
+
+describe('updateBackoff', () => {
+  it('报错或全部失败计入退避,取到价格即清除,跳过的保持原状', () => {
+    const prev = { fx: { failures: 2, retryAt: NOW - 1 }, coingecko: { failures: 1, retryAt: NOW + 1 } }
+    const next = updateBackoff(
+      prev,
+      [
+        result('fx', { updated: 3, failed: ['XYZ'] }),
+        result('coingecko', { skipped: true }),
+        result('eastmoney', { error: '请求失败 (500)' }),
+        result('ttfund', { failed: ['110022'] }),
+      ],
+      NOW,
+    )
+    expect(next.fx).toBeUndefined()
+    expect(next.coingecko).toBe(prev.coingecko)
+    expect(next.eastmoney).toEqual({ failures: 1, retryAt: NOW + BACKOFF_BASE_MS })
+    expect(next.ttfund.failures).toBe(1)
+    expect(inBackoff(next, 'eastmoney', NOW)).toBe(true)
+    expect(inBackoff(next, 'eastmoney', NOW + BACKOFF_BASE_MS)).toBe(false)
+  })
+})
+
+describe('isRefreshDue', () => {
+  it('从未刷新或超过阈值时需要刷新', () => {
+    expect(isRefreshDue(undefined, 60, NOW)).toBe(true)
+    expect(isRefreshDue(NOW - 59 * 60_000, 60, NOW)).toBe(false)
+    expect(isRefreshDue(NOW - 60 * 60_000, 60, NOW)).toBe(true)
+  })
+})
+
+describe('mergeRefresh', () => {
+  const start = { prices: { BTC: { '2025-05-31': 100 } }, fxHistory: { USD: { '2025-05-31': 7.1 } }, settings: settings() }
+  const fetched: RefreshFetched = {
+    baseCurrency: 'CNY',
+    quotes: { BTC: { '2025-06-01': 110 } },
+    fxRates: { USD: 7.2 },
+    fxMeta: { USD: { source: 'frankfurter', updatedAt: NOW } },
+    fxPoints: { USD: { '2025-06-01': 7.2 } },
+    fxUpdatedAt: NOW,
+    pricesUpdatedAt: NOW,
+  }
+
+  it('刷新期间回填的价格点与手动改的汇率保留,只并入取到的数据', () => {
+    // 刷新开始后、结束前:回填补入了 BTC 的历史点,并手动改了 HKD 汇率
+    const latest = { ...start, prices: { ...start.prices }, settings: settings({ fxRates: { USD: 7.1, HKD: 0.95 } }) }
+    mergePriceHistory(latest.prices, 'BTC', { '2025-01-01': 60, '2025-05-31': 1 })
+    const next = mergeRefresh(latest, fetched)
+    expect(next.prices.BTC).toEqual({ '2025-01-01': 60, '2025-05-31': 100, '2025-06-01': 110 })
+    expect(next.fxHistory.USD).toEqual({ '2025-05-31': 7.1, '2025-06-01': 7.2 })
+    expect(next.settings.fxRates).toEqual({ USD: 7.2, HKD: 0.95 })
+    expect(next.settings.fxMeta?.USD.source).toBe('frankfurter')
+    expect(next.settings.pricesUpdatedAt).toBe(NOW)
+  })
+
+  it('刷新期间更换了基准货币时丢弃取到的数据', () => {
+    const latest = { ...start, settings: settings({ baseCurrency: 'USD', fxRates: { CNY: 0.14 } }) }
+    expect(mergeRefresh(latest, fetched)).toBe(latest)
+  })
+})
@@ -74,7 +74,7 @@ describe('buildValueFlows', () => {
       { type: 'DEPOSIT', occurredAt: T0, amount: 100 },
       { type: 'WITHDRAW', occurredAt: T1, amount: 40 },
     ]
-    const { flows, totalIn, totalOut } = buildValueFlows(txs, 7)
+    const { flows, totalIn, totalOut } = buildValueFlows(txs, () => 7)
     expect(flows).toEqual([
       { occurredAt: T0, amount: -700 },
       { occurredAt: T1, amount: 280 },
@@ -83,13 +83,23 @@ describe('buildValueFlows', () => {
     expect(totalOut).toBe(280)
   })
 
+  it('按流水时刻取汇率', () => {
+    const txs: ValueTx[] = [
+      { type: 'DEPOSIT', occurredAt: T0, amount: 100 },
+      { type: 'WITHDRAW', occurredAt: T1, amount: 40 },
+    ]
+    const { totalIn, totalOut } = buildValueFlows(txs, (atMs) => (atMs === T0 ? 7 : 8))
+    expect(totalIn).toBe(700)
+    expect(totalOut).toBe(320)
+  })
+
   it('非 DEPOSIT/WITHDRAW 类型忽略', () => {
     const txs: ValueTx[] = [
       { type: 'INCOME', occurredAt: T0, amount: 50 },
       { type: 'VALUATION', occurredAt: T1, value: 200 },
       { type: 'BORROW', occurredAt: T2, amount: 1000 },
     ]
-    const { flows, totalIn, totalOut } = buildValueFlows(txs, 1)
+    const { flows, totalIn, totalOut } = buildValueFlows(txs, () => 1)
     expect(flows).toEqual([])
     expect(totalIn).toBe(0)
     expect(totalOut).toBe(0)
@@ -189,7 +199,7 @@ describe('snapshotFromValueTxs', () => {
       { type: 'VALUATION', occurredAt: T1, value: 10_500 },
       { type: 'VALUATION', occurredAt: T2, value: 11_000 },
     ]
-    const snap = snapshotFromValueTxs(txs, 1, NOW)
+    const snap = snapshotFromValueTxs(txs, () => 1, NOW)
     expect(snap.valueNative).toBe(11_000)
     expect(snap.valueCNY).toBe(11_000)
     expect(snap.netInvestedCNY).toBe(10_000)
@@ -200,7 +210,7 @@ describe('snapshotFromValueTxs', () => {
   })
 
   it('空流水', () => {
-    const snap = snapshotFromValueTxs([], 1, NOW)
+    const snap = snapshotFromValueTxs([], () => 1, NOW)
     expect(snap.valueNative).toBe(0)
     expect(snap.valueCNY).toBe(0)
     expect(snap.netInvestedCNY).toBe(0)
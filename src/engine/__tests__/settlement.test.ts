@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import { buildSettlementTxs } from '../settlement'
+import { asset, T0, T1, T2, tx } from './helpers'
+
+const bank = asset({ id: 'bank', type: 'cash', name: '证券账户' })
+const stock = asset({ id: 's1', type: 'stock', name: '茅台', settlementAssetId: 'bank' })
+
+describe('buildSettlementTxs', () => {
+  it('买入扣款、卖出与现金分红入账', () => {
+    const result = buildSettlementTxs(
+      [bank, stock],
+      [
+        tx({ id: 'b1', assetId: 's1', type: 'BUY', occurredAt: T0, quantity: 10, price: 100, fee: 5 }),
+        tx({ id: 'd1', assetId: 's1', type: 'DIVIDEND', occurredAt: T1, amount: 30 }),
+        tx({ id: 's1', assetId: 's1', type: 'SELL', occurredAt: T2, quantity: 5, price: 120, tax: 1 }),
+      ],
+      () => 1,
+    )
+    expect(result.map((r) => [r.tx.type, r.tx.amount, r.tx.assetId])).toEqual([
+      ['WITHDRAW', 1005, 'bank'],
+      ['DEPOSIT', 30, 'bank'],
+      ['DEPOSIT', 599, 'bank'],
+    ])
+    expect(result[0].tx.id).toBe('b1:settle')
+    expect(result[0].source.id).toBe('b1')
+  })
+
+  it('再投资分红、拆股与送转不产生资金变动', () => {
+    const result = buildSettlementTxs(
+      [bank, stock],
+      [
+        tx({ id: 'd1', assetId: 's1', type: 'DIVIDEND', occurredAt: T0, amount: 30, quantity: 1 }),
+        tx({ id: 'p1', assetId: 's1', type: 'SPLIT', occurredAt: T1, ratio: 2 }),
+        tx({ id: 'g1', assetId: 's1', type: 'BONUS_SHARES', occurredAt: T2, quantity: 3 }),
+      ],
+      () => 1,
+    )
+    expect(result).toEqual([])
+  })
+
+  it('跨币种按当日汇率换算为结算账户币种', () => {
+    const us = asset({ id: 'us', type: 'stock', currency: 'USD', settlementAssetId: 'bank' })
+    const fx = (c: string, at?: number) => (c === 'USD' ? (at === T0 ? 7 : 8) : 1)
+    const result = buildSettlementTxs(
+      [bank, us],
+      [
+        tx({ id: 'b1', assetId: 'us', type: 'BUY', occurredAt: T0, quantity: 1, price: 100 }),
+        tx({ id: 's1', assetId: 'us', type: 'SELL', occurredAt: T1, quantity: 1, price: 100 }),
+      ],
+      fx,
+    )
+    expect(result.map((r) => r.tx.amount)).toEqual([700, 800])
+  })
+
+  it('结算账户无效时不派生', () => {
+    const loan = asset({ id: 'loan', type: 'debt' })
+    const other = asset({ id: 's2', type: 'stock', settlementAssetId: 'loan' })
+    const missing = asset({ id: 's3', type: 'stock', settlementAssetId: 'gone' })
+    const result = buildSettlementTxs(
+      [loan, other, missing],
+      [
+        tx({ id: 'b1', assetId: 's2', type: 'BUY', occurredAt: T0, quantity: 1, price: 10 }),
+        tx({ id: 'b2', assetId: 's3', type: 'BUY', occurredAt: T0, quantity: 1, price: 10 }),
+      ],
+      () => 1,
+    )
+    expect(result).toEqual([])
+  })
+})
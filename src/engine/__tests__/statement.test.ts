@@ -0,0 +1,177 @@
+import { describe, expect, it } from 'vitest'
+import type { StatementMapping, StatementTypeRule } from '../../types'
+import {
+  detectTxType,
+  guessColumns,
+  mapStatement,
+  parseAmount,
+  parseCsv,
+  parseStatementDate,
+  statementHeader,
+} from '../statement'
+import { asset, tx } from './helpers'
+
+function mapping(overrides: Partial<StatementMapping> = {}): StatementMapping {
+  return {
+    id: 'm1',
+    name: '测试银行',
+    hasHeader: true,
+    skipRows: 0,
+    columns: { date: 0, amount: 1, note: 2 },
+    dateFormat: 'ymd',
+    typeRule: { kind: 'sign', positive: 'DEPOSIT', negative: 'WITHDRAW' },
+    createdAt: 0,
+    ...overrides,
+  }
+}
+
+const cash = asset({ id: 'a1', type: 'cash' })
+const stock = asset({ id: 'a2', type: 'stock' })
+
+describe('parseCsv', () => {
+  it('处理引号、转义与换行,自动识别分隔符', () => {
+    expect(parseCsv('a,"b,c","say ""hi"""\r\n1,2,3\n')).toEqual([
+      ['a', 'b,c', 'say "hi"'],
+      ['1', '2', '3'],
+    ])
+    expect(parseCsv('日期\t金额\n2024-01-02\t"1,000.00"')).toEqual([
+      ['日期', '金额'],
+      ['2024-01-02', '1,000.00'],
+    ])
+    expect(parseCsv('a;b\n\n"多\n行";2')).toEqual([['a', 'b'], [], ['多\n行', '2']])
+  })
+})
+
+describe('parseAmount', () => {
+  it('去掉货币符号与千分位,识别括号与负号', () => {
+    expect(parseAmount('¥1,234.50')).toBe(1234.5)
+    expect(parseAmount('-88')).toBe(-88)
+    expect(parseAmount('+3.2元')).toBe(3.2)
+    expect(parseAmount('(200.00)')).toBe(-200)
+    expect(parseAmount('15.5-')).toBe(-15.5)
+    expect(parseAmount('')).toBeNull()
+    expect(parseAmount('abc')).toBeNull()
+  })
+})
+
+describe('parseStatementDate', () => {
+  it('按所选写法解析,只有日期时取 12:00', () => {
+    const noon = new Date(2024, 5, 28, 12).getTime()
+    expect(parseStatementDate('2024-06-28', 'ymd')).toBe(noon)
+    expect(parseStatementDate('20240628', 'ymd')).toBe(noon)
+    expect(parseStatementDate('2024年6月28日', 'ymd')).toBe(noon)
+    expect(parseStatementDate('28/06/2024', 'dmy')).toBe(noon)
+    expect(parseStatementDate('06/28/24', 'mdy')).toBe(noon)
+  })
+
+  it('保留时分秒,拒绝不存在的日期', () => {
+    expect(parseStatementDate('2024-06-28 09:30:15', 'ymd')).toBe(new Date(2024, 5, 28, 9, 30, 15).getTime())
+    expect(parseStatementDate('2024-02-30', 'ymd')).toBeNull()
+    expect(parseStatementDate('28/06/2024', 'mdy')).toBeNull()
+  })
+})
+
+describe('detectTxType', () => {
+  it('按正负、关键词或固定类型判断', () => {
+    const sign = { kind: 'sign', positive: 'DEPOSIT', negative: 'WITHDRAW' } as const
+    expect(detectTxType(sign, 10, '')).toBe('DEPOSIT')
+    expect(detectTxType(sign, -10, '')).toBe('WITHDRAW')
+    expect(detectTxType(sign, 0, '')).toBeNull()
+
+    const keyword: StatementTypeRule = {
+      kind: 'keyword',
+      keywords: [
+        { keyword: '买入', type: 'BUY' },
+        { keyword: 'sell', type: 'SELL' },
+      ],
+    }
+    expect(detectTxType(keyword, null, '证券买入')).toBe('BUY')
+    expect(detectTxType(keyword, null, 'SELL')).toBe('SELL')
+    expect(detectTxType(keyword, null, '红利')).toBeNull()
+    expect(detectTxType({ ...keyword, fallback: 'DIVIDEND' }, null, '红利')).toBe('DIVIDEND')
+
+    expect(detectTxType({ kind: 'fixed', type: 'INCOME' }, -1, '')).toBe('INCOME')
+  })
+})
+
+describe('guessColumns', () => {
+  it('按表头名称猜测,每列只用一次', () => {
+    expect(guessColumns(['交易日期', '摘要', '成交数量', '成交价格', '发生金额', '手续费', '备注'])).toEqual({
+      date: 0,
+      type: 1,
+      quantity: 2,
+      price: 3,
+      amount: 4,
+      fee: 5,
+      note: 6,
+    })
+  })
+})
+
+describe('mapStatement', () => {
+  it('跳过前置行与表头,按正负生成存取流水', () => {
+    const table = parseCsv(['账号:6222…', '', '日期,金额,备注', '2024-01-02,"5,000.00",工资', '2024-01-05,-120.5,水电', ''].join('\n'))
+    const m = mapping({ skipRows: 1 })
+    expect(statementHeader(table, m)).toEqual(['日期', '金额', '备注'])
+    const lines = mapStatement(table, m, cash, [])
+    expect(lines.map((l) => l.line)).toEqual([4, 5])
+    expect(lines.map((l) => l.tx)).toEqual([
+      { assetId: 'a1', type: 'DEPOSIT', occurredAt: new Date(2024, 0, 2, 12).getTime(), amount: 5000, note: '工资' },
+      { assetId: 'a1', type: 'WITHDRAW', occurredAt: new Date(2024, 0, 5, 12).getTime(), amount: 120.5, note: '水电' },
+    ])
+  })
+
+  it('金额取反与无表头', () => {
+    const lines = mapStatement([['2024-01-02', '30']], mapping({ hasHeader: false, negateAmount: true }), cash, [])
+    expect(lines[0].tx?.type).toBe('WITHDRAW')
+    expect(lines[0].tx?.amount).toBe(30)
+  })
+
+  it('买卖:缺单价时由金额 / 数量推算,手续费取绝对值', () => {
+    const m = mapping({
+      hasHeader: false,
+      columns: { date: 0, type: 1, quantity: 2, price: 3, amount: 4, fee: 5 },
+      typeRule: { kind: 'keyword', keywords: [{ keyword: '买', type: 'BUY' }, { keyword: '卖', type: 'SELL' }] },
+    })
+    const table = [
+      ['2024-03-01', '证券买入', '100', '10.5', '-1050', '-5'],
+      ['2024-03-02', '证券卖出', '-50', '', '600', ''],
+      ['2024-03-03', '证券买入', '', '10', '-100', ''],
+    ]
+    const lines = mapStatement(table, m, stock, [])
+    expect(lines[0].tx).toMatchObject({ type: 'BUY', quantity: 100, price: 10.5, fee: 5 })
+    expect(lines[1].tx).toMatchObject({ type: 'SELL', quantity: 50, price: 12 })
+    expect(lines[1].tx?.fee).toBeUndefined()
+    expect(lines[2].error).toBe('缺少数量')
+  })
+
+  it('逐行报错:日期、类型、不适用的类型', () => {
+    const table = [
+      ['bad', '1'],
+      ['2024-01-02', '0'],
+      ['2024-01-03', '5'],
+    ]
+    const m = mapping({ hasHeader: false, typeRule: { kind: 'sign', positive: 'BUY', negative: 'SELL' } })
+    expect(mapStatement(table, m, cash, []).map((l) => l.error)).toEqual([
+      '无法识别日期「bad」',
+      '无法判断类型「0」',
+      '买入不适用于该资产',
+    ])
+    const split = mapping({ hasHeader: false, typeRule: { kind: 'fixed', type: 'SPLIT' } })
+    expect(mapStatement([['2024-01-02', '2']], split, stock, [])[0].error).toBe('不支持导入拆股/合股,请手动记录')
+  })
+
+  it('同资产、同类型、同一天且金额一致的视为重复', () => {
+    const existing = [
+      tx({ id: 't1', assetId: 'a1', type: 'DEPOSIT', occurredAt: new Date(2024, 0, 2, 9).getTime(), amount: 5000 }),
+      tx({ id: 't2', assetId: 'a9', type: 'WITHDRAW', occurredAt: new Date(2024, 0, 5, 12).getTime(), amount: 120.5 }),
+    ]
+    const table = [
+      ['2024-01-02', '5000.001'],
+      ['2024-01-02', '5000.5'],
+      ['2024-01-05', '-120.5'],
+    ]
+    const lines = mapStatement(table, mapping({ hasHeader: false }), cash, existing)
+    expect(lines.map((l) => l.duplicateOf)).toEqual(['t1', undefined, undefined])
+  })
+})
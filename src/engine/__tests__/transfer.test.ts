@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { buildTransferLegs, groupTransferLegs, isTransferOut, transferDraftFromLegs } from '../transfer'
+import type { TransferDraft } from '../../types'
+import { asset, T0, tx } from './helpers'
+
+const bank = asset({ id: 'bank', type: 'cash', name: '招商银行' })
+const alipay = asset({ id: 'alipay', type: 'wealth', name: '支付宝理财' })
+const usd = asset({ id: 'usd', type: 'cash', currency: 'USD' })
+const loan = asset({ id: 'loan', type: 'debt' })
+const stock = asset({ id: 'stock', type: 'stock' })
+const assets = [bank, alipay, usd, loan, stock]
+
+function draft(overrides: Partial<TransferDraft>): TransferDraft {
+  return { fromAssetId: 'bank', toAssetId: 'alipay', occurredAt: T0, amount: 1000, toAmount: 1000, ...overrides }
+}
+
+describe('buildTransferLegs', () => {
+  it('生成共用 transferId 的转出/转入两笔', () => {
+    const [out, into] = buildTransferLegs(draft({ note: '理财' }), assets, 'x1')
+    expect(out).toMatchObject({ assetId: 'bank', type: 'WITHDRAW', amount: 1000, transferId: 'x1', note: '理财' })
+    expect(into).toMatchObject({ assetId: 'alipay', type: 'DEPOSIT', amount: 1000, transferId: 'x1' })
+  })
+
+  it('跨币种两侧各记原币金额', () => {
+    const [out, into] = buildTransferLegs(draft({ toAssetId: 'usd', toAmount: 138.5 }), assets, 'x1')
+    expect(out.amount).toBe(1000)
+    expect(into.amount).toBe(138.5)
+  })
+
+  it('转入负债记为还款', () => {
+    const [, into] = buildTransferLegs(draft({ toAssetId: 'loan' }), assets, 'x1')
+    expect(into.type).toBe('REPAY')
+  })
+
+  it('非法组合抛错', () => {
+    expect(() => buildTransferLegs(draft({ toAssetId: 'bank' }), assets, 'x')).toThrow('不能相同')
+    expect(() => buildTransferLegs(draft({ fromAssetId: 'loan' }), assets, 'x')).toThrow('转出资产')
+    expect(() => buildTransferLegs(draft({ toAssetId: 'stock' }), assets, 'x')).toThrow('转入资产')
+    expect(() => buildTransferLegs(draft({ amount: 0 }), assets, 'x')).toThrow('大于 0')
+    expect(() => buildTransferLegs(draft({ toAssetId: 'nope' }), assets, 'x')).toThrow('不存在')
+  })
+})
+
+describe('transferDraftFromLegs', () => {
+  it('由两笔流水还原表单', () => {
+    const legs = buildTransferLegs(draft({ toAssetId: 'usd', toAmount: 140 }), assets, 'x1').map((leg, i) => ({
+      ...leg,
+      id: `t${i}`,
+      createdAt: T0,
+      updatedAt: T0,
+    }))
+    expect(transferDraftFromLegs(legs)).toEqual(draft({ toAssetId: 'usd', toAmount: 140, note: undefined }))
+    expect(isTransferOut(legs[0])).toBe(true)
+    expect(groupTransferLegs(legs).get('x1')).toHaveLength(2)
+  })
+
+  it('不成对返回 null', () => {
+    const single = tx({ id: 't1', assetId: 'bank', type: 'WITHDRAW', occurredAt: T0, amount: 1, transferId: 'x1' })
+    expect(transferDraftFromLegs([single])).toBeNull()
+  })
+})
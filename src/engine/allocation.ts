@@ -0,0 +1,103 @@
+import type { AllocationBucket, AllocationDrift, Asset, AssetSnapshot, RebalanceProposal } from '../types'
+import { DEFAULT_ALLOCATION_TOLERANCE, isQuantityBased } from '../types'
+
+/** 资产所属的组:先看 assetIds 指定,再按类别;负债不参与配置 */
+export function bucketOf(asset: Asset, buckets: AllocationBucket[]): AllocationBucket | null {
+  if (asset.type === 'debt') return null
+  return (
+    buckets.find((b) => b.assetIds?.includes(asset.id)) ??
+    buckets.find((b) => b.assetTypes.includes(asset.type)) ??
+    null
+  )
+}
+
+/**
+ * 各组实际占比与目标的偏离(占正资产合计)。
+ * 有资产未归入任何组时追加一行 bucket=null,目标为各组目标之外的剩余部分。
+ */
+export function allocationDrift(
+  buckets: AllocationBucket[],
+  snapshots: AssetSnapshot[],
+  defaultTolerance = DEFAULT_ALLOCATION_TOLERANCE,
+): AllocationDrift[] {
+  const held = snapshots.filter((s) => s.asset.type !== 'debt' && s.valueCNY > 0)
+  const total = held.reduce((sum, s) => sum + s.valueCNY, 0)
+  const values = new Map<string | null, number>()
+  for (const s of held) {
+    const id = bucketOf(s.asset, buckets)?.id ?? null
+    values.set(id, (values.get(id) ?? 0) + s.valueCNY)
+  }
+
+  const row = (bucket: AllocationBucket | null, target: number, tolerance: number): AllocationDrift => {
+    const valueCNY = values.get(bucket?.id ?? null) ?? 0
+    const actual = total > 0 ? valueCNY / total : 0
+    const drift = actual - target
+    return { bucket, valueCNY, actual, target, drift, tolerance, outOfBand: Math.abs(drift) > tolerance + 1e-9 }
+  }
+
+  const rows = buckets.map((b) => row(b, b.target, b.tolerance ?? defaultTolerance))
+  const rest = Math.max(0, 1 - buckets.reduce((sum, b) => sum + b.target, 0))
+  if (values.has(null) || rest > 1e-9) rows.push(row(null, rest, defaultTolerance))
+  return rows
+}
+
+const round = (n: number, digits: number) => Math.round(n * 10 ** digits) / 10 ** digits
+
+/**
+ * 把各组调回目标占比的逐项建议。组内按当前市值比例分摊,组内全为空仓时记到第一项资产;
+ * extraCashCNY 为本次新增(正)或取出(负)的资金。份额型资产按当前单价折成买卖份额,
+ * 其余资产为转入/转出;未归组的资产保持不动。
+ */
+export function rebalancePlan(
+  buckets: AllocationBucket[],
+  snapshots: AssetSnapshot[],
+  fx: (currency: string) => number,
+  options: { extraCashCNY?: number; minTradeCNY?: number; occurredAt?: number } = {},
+): { proposals: RebalanceProposal[]; unplaced: AllocationBucket[] } {
+  const { extraCashCNY = 0, minTradeCNY = 1, occurredAt = Date.now() } = options
+  const held = snapshots.filter((s) => s.asset.type !== 'debt' && !s.asset.archived)
+  const total = held.reduce((sum, s) => sum + Math.max(0, s.valueCNY), 0) + extraCashCNY
+  const proposals: RebalanceProposal[] = []
+  const unplaced: AllocationBucket[] = []
+
+  for (const bucket of buckets) {
+    const members = held.filter((s) => bucketOf(s.asset, buckets)?.id === bucket.id)
+    const current = members.reduce((sum, s) => sum + Math.max(0, s.valueCNY), 0)
+    const delta = bucket.target * total - current
+    if (Math.abs(delta) < minTradeCNY) continue
+    const tradable = members.filter((s) => !isQuantityBased(s.asset.type) || (s.unitPrice ?? 0) > 0)
+    if (tradable.length === 0) {
+      unplaced.push(bucket)
+      continue
+    }
+    const base = tradable.reduce((sum, s) => sum + Math.max(0, s.valueCNY), 0)
+    for (const [i, s] of tradable.entries()) {
+      const share = base > 0 ? Math.max(0, s.valueCNY) / base : i === 0 ? 1 : 0
+      const amountCNY = delta * share
+      if (Math.abs(amountCNY) < minTradeCNY) continue
+      const native = amountCNY / fx(s.asset.currency)
+      const note = `再平衡:${bucket.name}`
+      if (isQuantityBased(s.asset.type)) {
+        const price = s.unitPrice!
+        const quantity = round(Math.min(Math.abs(native) / price, native < 0 ? s.quantity : Infinity), 4)
+        if (quantity <= 0) continue
+        proposals.push({
+          asset: s.asset,
+          bucketId: bucket.id,
+          amountCNY,
+          tx: { assetId: s.asset.id, type: native > 0 ? 'BUY' : 'SELL', occurredAt, quantity, price, note },
+        })
+      } else {
+        const amount = round(Math.min(Math.abs(native), native < 0 ? s.valueNative : Infinity), 2)
+        if (amount <= 0) continue
+        proposals.push({
+          asset: s.asset,
+          bucketId: bucket.id,
+          amountCNY,
+          tx: { assetId: s.asset.id, type: native > 0 ? 'DEPOSIT' : 'WITHDRAW', occurredAt, amount, note },
+        })
+      }
+    }
+  }
+  return { proposals, unplaced }
+}
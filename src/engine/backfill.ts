@@ -0,0 +1,50 @@
+import type { Asset, PriceHistory, Transaction } from '../types'
+import { formatDateKey } from '../utils/time'
+
+/** 资产还没有流水时,回填最近这么多天 */
+export const DEFAULT_BACKFILL_DAYS = 365
+
+/** 回填起点(YYYY-MM-DD):该资产最早一笔流水的日期;没有流水时取 defaultDays 天前 */
+export function backfillStart(
+  asset: Asset,
+  transactions: Transaction[],
+  now: number,
+  defaultDays = DEFAULT_BACKFILL_DAYS,
+): string {
+  let earliest = Infinity
+  for (const t of transactions) {
+    if (t.assetId === asset.id && t.occurredAt < earliest) earliest = t.occurredAt
+  }
+  return formatDateKey(Number.isFinite(earliest) ? earliest : now - defaultDays * 86400_000)
+}
+
+/**
+ * 新记一笔流水后是否要往前补回填:该笔早于此资产已有的全部流水,且早于行情库中最早的价格点。
+ * 新建资产时还没有流水,回填只覆盖默认天数;首次记入更早的流水时据此补足到该笔。
+ */
+export function needsEarlierBackfill(
+  asset: Asset,
+  transactions: Transaction[],
+  prices: PriceHistory,
+  occurredAt: number,
+): boolean {
+  if (!asset.symbol) return false
+  if (transactions.some((t) => t.assetId === asset.id && t.occurredAt <= occurredAt)) return false
+  const day = formatDateKey(occurredAt)
+  return Object.keys(prices[asset.symbol] ?? {}).every((d) => d > day)
+}
+
+/**
+ * 把历史日线并入行情库:只补缺失的日期,已有价格点(当日报价、手动记录)不覆盖。
+ * 返回新增的点数。
+ */
+export function mergePriceHistory(prices: PriceHistory, key: string, points: Record<string, number>): number {
+  const existing = prices[key] ?? {}
+  const added: Record<string, number> = {}
+  for (const [date, price] of Object.entries(points)) {
+    if (!(date in existing) && Number.isFinite(price) && price > 0) added[date] = price
+  }
+  const count = Object.keys(added).length
+  if (count > 0) prices[key] = { ...added, ...existing }
+  return count
+}
@@ -0,0 +1,105 @@
+import type { Asset, FxHistory, Goal, PriceHistory, Settings, Strategy } from '../types'
+import { endOfDayFromDateKey, formatDateKey } from '../utils/time'
+
+/** 按币种查汇率:atMs 省略时取当前汇率(settings.fxRates) */
+export type FxLookup = (currency: string, atMs?: number) => number
+
+/**
+ * 历史汇率查询。
+ * 取 atMs 所在日或之前最近的一个汇率点;早于全部记录时取最早一点;
+ * 该币种没有任何历史点时回落到 settings.fxRates(再无则为 1)。
+ */
+export function createFxLookup(settings: Settings, fxHistory: FxHistory): FxLookup {
+  const sortedKeys = new Map<string, string[]>()
+  for (const [currency, points] of Object.entries(fxHistory)) {
+    const keys = Object.keys(points).sort()
+    if (keys.length > 0) sortedKeys.set(currency, keys)
+  }
+
+  return (currency, atMs) => {
+    if (currency === settings.baseCurrency) return 1
+    const current = settings.fxRates[currency] ?? 1
+    if (atMs == null) return current
+    const keys = sortedKeys.get(currency)
+    if (!keys) return current
+
+    const dateKey = formatDateKey(atMs)
+    let lo = 0
+    let hi = keys.length - 1
+    let found = -1
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1
+      if (keys[mid] <= dateKey) {
+        found = mid
+        lo = mid + 1
+      } else {
+        hi = mid - 1
+      }
+    }
+    return fxHistory[currency][keys[Math.max(0, found)]]
+  }
+}
+
+/** 资产与策略用到的非基准币种,按代码排序 */
+export function usedCurrencies(assets: Asset[], strategies: Strategy[], baseCurrency: string): string[] {
+  const set = new Set([...assets.map((a) => a.currency), ...strategies.map((s) => s.currency)])
+  set.delete(baseCurrency)
+  return [...set].sort()
+}
+
+/** 没有可用汇率的币种;createFxLookup 对它们按 1 折算,估值会失真 */
+export function missingFxCurrencies(currencies: string[], settings: Settings): string[] {
+  return currencies.filter((c) => c !== settings.baseCurrency && !(settings.fxRates[c] > 0))
+}
+
+/**
+ * 更换基准货币:把以旧基准计价的当前汇率、历史汇率与行情库换算为以 next 计价。
+ * 某日的换算比例取 next 在该日的历史汇率(规则同 createFxLookup);
+ * 旧基准本身作为外币加入汇率表,其历史点由 next 的历史点取倒数得到。
+ * 返回的 factor 为 1 单位旧基准 = ? next,供目标金额等按当前汇率换算。
+ */
+export function rebaseFx(
+  settings: Settings,
+  fxHistory: FxHistory,
+  prices: PriceHistory,
+  next: string,
+): { fxRates: Record<string, number>; fxHistory: FxHistory; prices: PriceHistory; factor: number } {
+  const prev = settings.baseCurrency
+  if (next === prev) return { fxRates: settings.fxRates, fxHistory, prices, factor: 1 }
+  const rate = settings.fxRates[next]
+  if (!(rate > 0)) throw new Error(`缺少 ${next} 的汇率,请先填写或更新汇率`)
+
+  const lookup = createFxLookup(settings, fxHistory)
+  const rateOn = (dateKey: string) => lookup(next, endOfDayFromDateKey(dateKey)) || rate
+
+  const fxRates: Record<string, number> = { [prev]: 1 / rate }
+  for (const [currency, r] of Object.entries(settings.fxRates)) {
+    if (currency !== next && currency !== prev) fxRates[currency] = r / rate
+  }
+
+  const nextHistory: FxHistory = {}
+  for (const [currency, points] of Object.entries(fxHistory)) {
+    if (currency === next || currency === prev) continue
+    nextHistory[currency] = Object.fromEntries(
+      Object.entries(points).map(([d, r]) => [d, r / rateOn(d)]),
+    )
+  }
+  if (fxHistory[next]) {
+    nextHistory[prev] = Object.fromEntries(Object.entries(fxHistory[next]).map(([d, r]) => [d, 1 / r]))
+  }
+
+  const nextPrices: PriceHistory = {}
+  for (const [symbol, points] of Object.entries(prices)) {
+    nextPrices[symbol] = Object.fromEntries(Object.entries(points).map(([d, p]) => [d, p / rateOn(d)]))
+  }
+  return { fxRates, fxHistory: nextHistory, prices: nextPrices, factor: 1 / rate }
+}
+
+/** 按 rebaseFx 返回的 factor 换算目标金额与计划月投入 */
+export function rebaseGoal(goal: Goal, factor: number): Goal {
+  return {
+    ...goal,
+    targetCNY: goal.targetCNY * factor,
+    monthlyContribution: goal.monthlyContribution != null ? goal.monthlyContribution * factor : undefined,
+  }
+}
@@ -0,0 +1,83 @@
+import type { Asset, AssetSnapshot, Goal, GoalGrowth, GoalProgress } from '../types'
+import { endOfDayFromDateKey } from '../utils/time'
+
+/** 预测的最长期数(月) */
+const MAX_MONTHS = 600
+
+/** 目标统计范围内的资产(不含已归档) */
+export function goalAssets(goal: Goal, assets: Asset[]): Asset[] {
+  return assets.filter((a) => {
+    if (a.archived) return false
+    if (goal.scope === 'types') return goal.assetTypes?.includes(a.type) ?? false
+    if (goal.scope === 'assets') return goal.assetIds?.includes(a.id) ?? false
+    return true
+  })
+}
+
+/** 目标当前值(CNY):范围内资产市值合计,负债按负值计入 */
+export function goalValue(goal: Goal, snapshots: AssetSnapshot[]): number {
+  const ids = new Set(goalAssets(goal, snapshots.map((s) => s.asset)).map((a) => a.id))
+  return snapshots
+    .filter((s) => ids.has(s.asset.id))
+    .reduce((sum, s) => sum + (s.asset.type === 'debt' ? -s.valueCNY : s.valueCNY), 0)
+}
+
+function addMonths(ms: number, n: number): number {
+  const d = new Date(ms)
+  return new Date(d.getFullYear(), d.getMonth() + n, d.getDate(), 12).getTime()
+}
+
+/** 从 nowMs 到 deadline 之间的整月数 */
+function monthsUntil(nowMs: number, deadline: string): number {
+  const end = endOfDayFromDateKey(deadline)
+  let n = 0
+  while (n < MAX_MONTHS && addMonths(nowMs, n + 1) <= end) n++
+  return n
+}
+
+/**
+ * 目标进度与预测:按月复利滚动「当前值 × (1 + 月化收益) + 每月投入」,
+ * 每月投入优先取目标设定的计划值,否则取近一年的月均净投入。
+ */
+export function projectGoal(
+  goal: Goal,
+  currentCNY: number,
+  growth: GoalGrowth | null,
+  nowMs = Date.now(),
+): GoalProgress {
+  const rate = growth?.monthlyRate ?? 0
+  const contribution = goal.monthlyContribution ?? growth?.monthlyInflowCNY ?? 0
+  const ratio = goal.targetCNY > 0 ? Math.max(0, Math.min(1, currentCNY / goal.targetCNY)) : 0
+  const base = { goal, currentCNY, ratio, growth, monthlyContributionCNY: contribution }
+
+  if (currentCNY >= goal.targetCNY) {
+    return { ...base, projectedAt: nowMs, requiredMonthlyCNY: null, status: 'achieved' }
+  }
+
+  let projectedAt: number | null = null
+  let value = currentCNY
+  for (let n = 1; n <= MAX_MONTHS; n++) {
+    value = value * (1 + rate) + contribution
+    if (value >= goal.targetCNY) {
+      projectedAt = addMonths(nowMs, n)
+      break
+    }
+  }
+
+  let requiredMonthlyCNY: number | null = null
+  if (goal.deadline) {
+    const n = Math.max(1, monthsUntil(nowMs, goal.deadline))
+    const grown = currentCNY * (1 + rate) ** n
+    const gap = goal.targetCNY - grown
+    const factor = Math.abs(rate) < 1e-9 ? n : ((1 + rate) ** n - 1) / rate
+    requiredMonthlyCNY = gap > 0 ? gap / factor : 0
+  }
+
+  let status: GoalProgress['status']
+  if (!growth && goal.monthlyContribution == null) status = 'unknown'
+  else if (projectedAt == null) status = 'offTrack'
+  else if (goal.deadline && projectedAt > endOfDayFromDateKey(goal.deadline)) status = 'offTrack'
+  else status = 'onTrack'
+
+  return { ...base, projectedAt, requiredMonthlyCNY, status }
+}
@@ -0,0 +1,68 @@
+import type { Asset, AssetSnapshot } from '../types'
+import { ASSET_TYPE_LABEL } from '../types'
+
+/** 分组维度:类别、平台、币种、标签,或 `dim:维度名` 形式的自定义维度 */
+export type GroupBy = 'type' | 'platform' | 'currency' | 'tag' | `dim:${string}`
+
+export const UNSET_LABEL = '未设置'
+
+/** 资产在某维度下的取值;标签可有多个,未设置时为 [UNSET_LABEL] */
+export function groupValues(asset: Asset, groupBy: GroupBy): string[] {
+  if (groupBy === 'type') return [ASSET_TYPE_LABEL[asset.type]]
+  if (groupBy === 'currency') return [asset.currency]
+  if (groupBy === 'platform') return [asset.platform || UNSET_LABEL]
+  if (groupBy === 'tag') return asset.tags?.length ? asset.tags : [UNSET_LABEL]
+  return [asset.dimensions?.[groupBy.slice(4)] || UNSET_LABEL]
+}
+
+/**
+ * 正资产按维度汇总(同 summary.byType 口径,不含负债),按市值降序。
+ * 标签为多值:一项资产会计入它的每个标签,各组之和可能大于总资产。
+ */
+export function breakdownBy(snapshots: AssetSnapshot[], groupBy: GroupBy): { label: string; valueCNY: number }[] {
+  const map = new Map<string, number>()
+  for (const s of snapshots) {
+    if (s.asset.type === 'debt' || s.valueCNY <= 0) continue
+    for (const label of groupValues(s.asset, groupBy)) {
+      map.set(label, (map.get(label) ?? 0) + s.valueCNY)
+    }
+  }
+  return [...map.entries()]
+    .map(([label, valueCNY]) => ({ label, valueCNY }))
+    .sort((a, b) => b.valueCNY - a.valueCNY)
+}
+
+/** 已使用的标签(按使用次数降序) */
+export function tagOptions(assets: Asset[]): { tag: string; count: number }[] {
+  const map = new Map<string, number>()
+  for (const a of assets) for (const t of a.tags ?? []) map.set(t, (map.get(t) ?? 0) + 1)
+  return [...map.entries()].map(([tag, count]) => ({ tag, count })).sort((a, b) => b.count - a.count)
+}
+
+/** 已使用的自定义维度及其取值 */
+export function dimensionOptions(assets: Asset[]): { key: string; values: string[] }[] {
+  const map = new Map<string, Set<string>>()
+  for (const a of assets) {
+    for (const [key, value] of Object.entries(a.dimensions ?? {})) {
+      if (!value) continue
+      const set = map.get(key) ?? new Set<string>()
+      set.add(value)
+      map.set(key, set)
+    }
+  }
+  return [...map.entries()].map(([key, values]) => ({ key, values: [...values].sort() }))
+}
+
+/**
+ * 标签/维度筛选:'' 不筛选;`tag:标签` 或 `dim:维度名=取值`。
+ */
+export function matchesLabelFilter(asset: Asset | undefined, filter: string): boolean {
+  if (!filter) return true
+  if (!asset) return false
+  if (filter.startsWith('tag:')) return asset.tags?.includes(filter.slice(4)) ?? false
+  if (filter.startsWith('dim:')) {
+    const eq = filter.indexOf('=')
+    return asset.dimensions?.[filter.slice(4, eq)] === filter.slice(eq + 1)
+  }
+  return true
+}
@@ -0,0 +1,85 @@
+import type { Asset, Strategy, StrategyTransaction, Transaction, Workspace } from '../types'
+import { isTransferOut } from './transfer'
+
+/** 一个账本的事件流(合并视图只用到资产、策略两条线) */
+export interface WorkspaceBook {
+  workspace: Workspace
+  assets: Asset[]
+  transactions: Transaction[]
+  strategies: Strategy[]
+  strategyTransactions: StrategyTransaction[]
+}
+
+/** 合并视图中区分账本的维度名,可在分布图、筛选中按账本分组 */
+export const WORKSPACE_DIMENSION = '账本'
+
+/** 资产计入家庭的比例,限定在 0–1 */
+export function ownershipOf(asset: Asset): number {
+  const share = asset.ownership ?? 1
+  return Number.isFinite(share) ? Math.min(1, Math.max(0, share)) : 1
+}
+
+const WEIGHTED_FIELDS = ['quantity', 'amount', 'value', 'fee', 'tax'] as const
+
+/** 按持有比例缩放流水:份额、金额、估值与费用同比缩放,单价与拆股比例不变 */
+export function weightTransaction<T extends Transaction | StrategyTransaction>(tx: T, share: number): T {
+  if (share === 1) return tx
+  const weighted: Record<string, unknown> = { ...tx }
+  for (const field of WEIGHTED_FIELDS) {
+    const v = weighted[field]
+    if (typeof v === 'number') weighted[field] = v * share
+  }
+  return weighted as T
+}
+
+/**
+ * 把各账本合并为一份事件流:id 加账本前缀避免冲突,流水按所属资产的持有比例缩放,
+ * 资产带上「账本」维度。结果可直接交给 PortfolioEngine / StrategyEngine。
+ * 划转两笔统一按转出方的比例缩放,两边金额仍然相抵;结算账户的资金腿由引擎从已缩放的证券流水派生,
+ * 同样跟随证券的比例。
+ */
+export function mergeBooks(books: WorkspaceBook[]): Omit<WorkspaceBook, 'workspace'> {
+  const merged: Omit<WorkspaceBook, 'workspace'> = {
+    assets: [],
+    transactions: [],
+    strategies: [],
+    strategyTransactions: [],
+  }
+  for (const { workspace, assets, transactions, strategies, strategyTransactions } of books) {
+    const id = (x: string) => `${workspace.id}/${x}`
+    const optId = (x: string | undefined) => (x ? id(x) : x)
+    const shares = new Map(assets.map((a) => [a.id, ownershipOf(a)]))
+    const strategyShares = new Map(strategies.map((s) => [s.id, shares.get(s.assetId) ?? 1]))
+    const transferShares = new Map(
+      transactions.filter(isTransferOut).map((t) => [t.transferId, shares.get(t.assetId) ?? 1]),
+    )
+
+    for (const a of assets) {
+      merged.assets.push({
+        ...a,
+        id: id(a.id),
+        settlementAssetId: optId(a.settlementAssetId),
+        loan: a.loan && { ...a.loan, paymentAssetId: optId(a.loan.paymentAssetId) },
+        dimensions: { ...a.dimensions, [WORKSPACE_DIMENSION]: workspace.name },
+      })
+    }
+    for (const t of transactions) {
+      merged.transactions.push({
+        ...weightTransaction(t, transferShares.get(t.transferId) ?? shares.get(t.assetId) ?? 1),
+        id: id(t.id),
+        assetId: id(t.assetId),
+        transferId: optId(t.transferId),
+        loanAssetId: optId(t.loanAssetId),
+      })
+    }
+    for (const s of strategies) merged.strategies.push({ ...s, id: id(s.id), assetId: id(s.assetId) })
+    for (const t of strategyTransactions) {
+      merged.strategyTransactions.push({
+        ...weightTransaction(t, strategyShares.get(t.strategyId) ?? 1),
+        id: id(t.id),
+        strategyId: id(t.strategyId),
+      })
+    }
+  }
+  return merged
+}
@@ -0,0 +1,246 @@
+import type { Asset, LoanTerms, PrepaymentMode, Transaction } from '../types'
+import { isQuantityBased } from '../types'
+import { formatDateKey, migrateDateToOccurredAt } from '../utils/time'
+
+export type LoanTxDraft = Omit<Transaction, 'id' | 'createdAt' | 'updatedAt'>
+
+/** 还款计划中的一期(金额为资产币种,按分取整) */
+export interface LoanInstallment {
+  /** 期数,从 1 开始 */
+  period: number
+  dueAt: number
+  /** 当期月供 = 本金 + 利息 */
+  payment: number
+  principal: number
+  interest: number
+  /** 当期还款后的剩余本金 */
+  remainingPrincipal: number
+}
+
+/** 某时刻按计划推算的贷款状态 */
+export interface LoanStatus {
+  schedule: LoanInstallment[]
+  /** 已到期期数 */
+  duePeriods: number
+  remainingPrincipal: number
+  interestPaid: number
+  interestRemaining: number
+  nextInstallment: LoanInstallment | null
+  /** 末期还款日 */
+  payoffAt: number | null
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+/** 第 period 期还款日(本地 12:00);还款日超出当月天数时取月末 */
+export function loanDueAt(loan: Pick<LoanTerms, 'startDate' | 'repaymentDay'>, period: number): number {
+  const start = new Date(migrateDateToOccurredAt(loan.startDate))
+  const year = start.getFullYear()
+  const month = start.getMonth() + period
+  const lastDay = new Date(year, month + 1, 0).getDate()
+  return new Date(year, month, Math.min(loan.repaymentDay, lastDay), 12, 0, 0, 0).getTime()
+}
+
+/** 生成完整还款计划;末期吸收取整误差,使本金合计等于贷款本金 */
+export function buildAmortizationSchedule(loan: LoanTerms): LoanInstallment[] {
+  const n = Math.floor(loan.termMonths)
+  if (!(loan.principal > 0) || !(n > 0)) return []
+  const r = Math.max(loan.annualRate, 0) / 12
+  const annuity =
+    r === 0 ? loan.principal / n : (loan.principal * r * (1 + r) ** n) / ((1 + r) ** n - 1)
+
+  const schedule: LoanInstallment[] = []
+  let remaining = loan.principal
+  for (let period = 1; period <= n; period++) {
+    const interest = round2(remaining * r)
+    const principal =
+      period === n
+        ? round2(remaining)
+        : loan.method === 'annuity'
+          ? round2(annuity - interest)
+          : round2(loan.principal / n)
+    remaining = round2(remaining - principal)
+    schedule.push({
+      period,
+      dueAt: loanDueAt(loan, period),
+      payment: round2(principal + interest),
+      principal,
+      interest,
+      remainingPrincipal: remaining,
+    })
+  }
+  return schedule
+}
+
+/** 截至 atMs 已到期的部分视为已还,其余为未来 */
+export function loanStatus(loan: LoanTerms, atMs: number): LoanStatus {
+  const schedule = buildAmortizationSchedule(loan)
+  const due = schedule.filter((i) => i.dueAt <= atMs)
+  const future = schedule.slice(due.length)
+  return {
+    schedule,
+    duePeriods: due.length,
+    remainingPrincipal: due.length ? due[due.length - 1].remainingPrincipal : loan.principal,
+    interestPaid: round2(due.reduce((s, i) => s + i.interest, 0)),
+    interestRemaining: round2(future.reduce((s, i) => s + i.interest, 0)),
+    nextInstallment: future[0] ?? null,
+    payoffAt: schedule.length ? schedule[schedule.length - 1].dueAt : null,
+  }
+}
+
+/**
+ * atMs 时点剩余贷款的计划参数:startDate 改为最近一期已到期的还款日(尚无到期时为首期前一月),
+ * 还款日不变,剩余计划的第 1 期即原计划的下一期,与 dueLoanTxs 的到期日一致。
+ */
+export function remainingLoanTerms(loan: LoanTerms, atMs: number): LoanTerms {
+  const status = loanStatus(loan, atMs)
+  return {
+    ...loan,
+    principal: status.remainingPrincipal,
+    termMonths: status.schedule.length - status.duePeriods,
+    startDate: formatDateKey(loanDueAt(loan, status.duePeriods)),
+  }
+}
+
+/**
+ * 截至 atMs 尚未记账的到期流水:每期一笔本金 REPAY,设置扣款账户时另记整笔月供的 WITHDRAW;
+ * 资产还没有任何流水时先补一笔放款 BORROW。两笔各按所在账户已记的期数去重,
+ * 删掉其中一笔只补回这一笔。
+ * 手动流水视为已覆盖其之前的期数(例如以「借入剩余本金」起算),只补记之后到期的部分。
+ */
+export function dueLoanTxs(
+  asset: Asset,
+  assets: ReadonlyArray<Asset>,
+  transactions: ReadonlyArray<Transaction>,
+  atMs: number,
+): LoanTxDraft[] {
+  const loan = asset.loan
+  if (asset.type !== 'debt' || !loan) return []
+  const own = transactions.filter((t) => t.assetId === asset.id)
+  const recorded = new Set(own.filter((t) => t.loanPeriod != null).map((t) => t.loanPeriod))
+  const manualUntil = Math.max(
+    -Infinity,
+    ...own.filter((t) => t.loanPeriod == null).map((t) => t.occurredAt),
+  )
+  const payFrom = assets.find((a) => a.id === loan.paymentAssetId)
+  const canPay =
+    !!payFrom &&
+    !isQuantityBased(payFrom.type) &&
+    payFrom.type !== 'debt' &&
+    payFrom.currency === asset.currency
+  // 早期生成的月供没有 loanAssetId,按期数与还款日认领
+  const paid = new Set(
+    transactions
+      .filter((t) => t.assetId === payFrom?.id && t.type === 'WITHDRAW' && t.loanPeriod != null)
+      .filter((t) =>
+        t.loanAssetId == null ? t.occurredAt === loanDueAt(loan, t.loanPeriod!) : t.loanAssetId === asset.id,
+      )
+      .map((t) => t.loanPeriod),
+  )
+
+  const drafts: LoanTxDraft[] = []
+  const startAt = migrateDateToOccurredAt(loan.startDate)
+  if (own.length === 0 && startAt <= atMs) {
+    drafts.push({
+      assetId: asset.id,
+      type: 'BORROW',
+      occurredAt: startAt,
+      amount: loan.principal,
+      note: '贷款放款',
+      loanPeriod: 0,
+    })
+  }
+  for (const i of buildAmortizationSchedule(loan)) {
+    if (i.dueAt > atMs) break
+    if (i.dueAt <= manualUntil) continue
+    if (!recorded.has(i.period)) {
+      drafts.push({
+        assetId: asset.id,
+        type: 'REPAY',
+        occurredAt: i.dueAt,
+        amount: i.principal,
+        note: `第 ${i.period} 期本金(月供 ${i.payment},利息 ${i.interest})`,
+        loanPeriod: i.period,
+      })
+    }
+    if (canPay && !paid.has(i.period)) {
+      drafts.push({
+        assetId: payFrom.id,
+        type: 'WITHDRAW',
+        occurredAt: i.dueAt,
+        amount: i.payment,
+        note: `${asset.name} 第 ${i.period} 期月供`,
+        loanPeriod: i.period,
+        loanAssetId: asset.id,
+      })
+    }
+  }
+  return drafts
+}
+
+/** 提前还款模拟结果(金额为资产币种) */
+export interface PrepaymentResult {
+  /** 不提前还款的剩余计划 */
+  baseline: LoanInstallment[]
+  /** 提前还款后的新计划;还清时为空 */
+  schedule: LoanInstallment[]
+  interestSaved: number
+  monthsSaved: number
+  /** 每期净资产差异:提前还款 − 不提前还款(首点为提前还款日,差异为 0) */
+  netWorthDelta: { at: number; delta: number }[]
+}
+
+/** 缩短期限时的新期数:等额本息保持月供,等额本金保持每期本金 */
+function shortenedTerm(loan: LoanTerms, remaining: number, baseline: LoanInstallment[]): number {
+  const n = baseline.length
+  if (loan.method === 'linear') return Math.min(n, Math.ceil(remaining / (loan.principal / n) - 1e-9))
+  const r = Math.max(loan.annualRate, 0) / 12
+  const payment = baseline[0].payment
+  const term = r === 0 ? remaining / payment : -Math.log(1 - (r * remaining) / payment) / Math.log(1 + r)
+  return Math.min(n, Math.ceil(term - 1e-9))
+}
+
+/**
+ * 提前还款模拟。loan 描述 prepaidAt 时点的剩余贷款:principal 为当时剩余本金、termMonths 为剩余期数,
+ * 还款日按 loan 的计划推算(由 remainingLoanTerms 得出时与原贷款一致)。净资产对比中,
+ * 不提前还款时这笔钱按 investRate 年化投资,提前还款后每期少付的月供也按同一收益率投资;
+ * investRate 为 0 时期末差异即节省的利息。
+ */
+export function simulatePrepayment(
+  loan: LoanTerms,
+  prepaidAt: number,
+  amount: number,
+  mode: PrepaymentMode,
+  investRate = 0,
+): PrepaymentResult {
+  const baseline = buildAmortizationSchedule(loan)
+  const remaining = round2(loan.principal - Math.min(amount, loan.principal))
+  const termMonths =
+    remaining <= 0 || baseline.length === 0
+      ? 0
+      : mode === 'shorten'
+        ? shortenedTerm(loan, remaining, baseline)
+        : baseline.length
+  const schedule = termMonths > 0 ? buildAmortizationSchedule({ ...loan, principal: remaining, termMonths }) : []
+
+  const monthlyInvest = (1 + investRate) ** (1 / 12) - 1
+  let idle = Math.min(amount, loan.principal)
+  let saved = 0
+  const netWorthDelta = [{ at: prepaidAt, delta: 0 }]
+  for (const [k, base] of baseline.entries()) {
+    const next = schedule[k]
+    idle *= 1 + monthlyInvest
+    saved = saved * (1 + monthlyInvest) + base.payment - (next?.payment ?? 0)
+    const debtDiff = base.remainingPrincipal - (next?.remainingPrincipal ?? 0)
+    netWorthDelta.push({ at: base.dueAt, delta: round2(debtDiff + saved - idle) })
+  }
+
+  const interest = (list: LoanInstallment[]) => list.reduce((s, i) => s + i.interest, 0)
+  return {
+    baseline,
+    schedule,
+    interestSaved: round2(interest(baseline) - interest(schedule)),
+    monthsSaved: baseline.length - schedule.length,
+    netWorthDelta,
+  }
+}
@@ -0,0 +1,188 @@
+import type { CostBasisMethod, Transaction } from '../types'
+
+/** 持仓批次:一笔买入剩余的份额与其成本 */
+export interface Lot {
+  occurredAt: number
+  quantity: number
+  /** 单位成本(资产币种) */
+  unitCost: number
+  /** 单位成本(CNY,按买入当日汇率) */
+  unitCostCNY: number
+}
+
+/** 单笔流水重放后的成本状态 */
+export interface LotStep {
+  tx: Transaction
+  /** SELL / DIVIDEND:本笔已实现盈亏(CNY);其余类型为 null */
+  realizedPnlCNY: number | null
+  /** 本笔之后的持仓均价(资产币种);空仓为 null */
+  avgCostAfter: number | null
+}
+
+export interface LotReplay {
+  /** 未平仓批次(average 法下合并为一批) */
+  lots: Lot[]
+  quantity: number
+  /** 持仓均价(资产币种);空仓为 null */
+  avgCost: number | null
+  /** 剩余持仓成本(CNY) */
+  costBasisCNY: number
+  /** 累计已实现盈亏(CNY) */
+  realizedPnlCNY: number
+  steps: LotStep[]
+}
+
+const QTY_EPSILON = 1e-9
+
+/** 单步持仓更新:将一条数量型事件应用到当前份额上,返回新份额 */
+export function applyQuantityTxStep(quantity: number, tx: Transaction): number {
+  switch (tx.type) {
+    case 'BUY':
+    case 'BONUS_SHARES':
+    case 'DIVIDEND':
+      return quantity + (tx.quantity ?? 0)
+    case 'SELL':
+      return quantity - (tx.quantity ?? 0)
+    case 'SPLIT':
+      return tx.ratio != null && tx.ratio > 0 ? quantity * tx.ratio : quantity
+    default:
+      return quantity
+  }
+}
+
+/** 单笔流水的手续费与税费合计(资产币种) */
+export function txCharges(tx: Transaction): number {
+  return (tx.fee ?? 0) + (tx.tax ?? 0)
+}
+
+/** BUY/SELL 成交净额(资产币种):买入为实付(含费用),卖出为实收(扣除费用) */
+export function tradeNetAmount(tx: Transaction): number {
+  const gross = (tx.quantity ?? 0) * (tx.price ?? 0)
+  if (tx.type === 'BUY') return gross + txCharges(tx)
+  if (tx.type === 'SELL') return gross - txCharges(tx)
+  return 0
+}
+
+function sumQuantity(lots: Lot[]): number {
+  return lots.reduce((s, l) => s + l.quantity, 0)
+}
+
+function avgCostOf(lots: Lot[]): number | null {
+  const qty = sumQuantity(lots)
+  if (qty <= QTY_EPSILON) return null
+  return lots.reduce((s, l) => s + l.quantity * l.unitCost, 0) / qty
+}
+
+function buyInto(lots: Lot[], lot: Lot, method: CostBasisMethod): Lot[] {
+  if (method === 'fifo' || lots.length === 0) return [...lots, lot]
+  const [merged] = lots
+  const qty = merged.quantity + lot.quantity
+  return [
+    {
+      occurredAt: merged.occurredAt,
+      quantity: qty,
+      unitCost: (merged.quantity * merged.unitCost + lot.quantity * lot.unitCost) / qty,
+      unitCostCNY: (merged.quantity * merged.unitCostCNY + lot.quantity * lot.unitCostCNY) / qty,
+    },
+  ]
+}
+
+/** 份额按比例缩放、总成本不变(拆股/合股与按持仓比例摊入的送转股) */
+function scaleLots(lots: Lot[], factor: number): Lot[] {
+  return lots.map((l) => ({
+    ...l,
+    quantity: l.quantity * factor,
+    unitCost: l.unitCost / factor,
+    unitCostCNY: l.unitCostCNY / factor,
+  }))
+}
+
+/** 按先进先出消耗批次(average 法只有一批,等价于按均价出库);返回剩余批次与出库成本(CNY) */
+function sellFrom(lots: Lot[], quantity: number): { lots: Lot[]; costCNY: number } {
+  const rest: Lot[] = []
+  let remaining = quantity
+  let costCNY = 0
+  for (const lot of lots) {
+    if (remaining <= QTY_EPSILON) {
+      rest.push(lot)
+      continue
+    }
+    const take = Math.min(lot.quantity, remaining)
+    costCNY += take * lot.unitCostCNY
+    remaining -= take
+    if (lot.quantity - take > QTY_EPSILON) rest.push({ ...lot, quantity: lot.quantity - take })
+  }
+  return { lots: rest, costCNY }
+}
+
+/**
+ * 数量型资产的成本批次重放。
+ * fifo:卖出先消耗最早的批次;average:移动加权平均,卖出不改变均价。
+ * 买入费用摊入批次成本,卖出费用从所得中扣除;卖出超过持仓的部分按零成本处理。
+ * SPLIT / BONUS_SHARES 按比例放大各批次份额、总成本不变;
+ * DIVIDEND 金额计入已实现盈亏,红利再投资的份额以分红金额为成本新增批次。
+ */
+export function replayLots(
+  txs: ReadonlyArray<Transaction>,
+  method: CostBasisMethod,
+  fxAt: (atMs: number) => number,
+): LotReplay {
+  let lots: Lot[] = []
+  let realizedPnlCNY = 0
+  const steps: LotStep[] = []
+
+  for (const tx of txs) {
+    let realized: number | null = null
+    const fx = fxAt(tx.occurredAt)
+    const quantity = tx.quantity ?? 0
+
+    if (tx.type === 'BUY' && quantity > 0) {
+      const unitCost = tradeNetAmount(tx) / quantity
+      lots = buyInto(
+        lots,
+        { occurredAt: tx.occurredAt, quantity, unitCost, unitCostCNY: unitCost * fx },
+        method,
+      )
+    }
+    if (tx.type === 'SELL' && quantity > 0) {
+      const { lots: rest, costCNY } = sellFrom(lots, quantity)
+      lots = rest
+      realized = tradeNetAmount(tx) * fx - costCNY
+      realizedPnlCNY += realized
+    }
+    if (tx.type === 'SPLIT' && tx.ratio != null && tx.ratio > 0) {
+      lots = scaleLots(lots, tx.ratio)
+    }
+    if (tx.type === 'BONUS_SHARES' && quantity > 0) {
+      const held = sumQuantity(lots)
+      lots =
+        held > QTY_EPSILON
+          ? scaleLots(lots, (held + quantity) / held)
+          : [{ occurredAt: tx.occurredAt, quantity, unitCost: 0, unitCostCNY: 0 }]
+    }
+    if (tx.type === 'DIVIDEND') {
+      const amount = tx.amount ?? 0
+      realized = amount * fx
+      realizedPnlCNY += realized
+      if (quantity > 0) {
+        const unitCost = amount / quantity
+        lots = buyInto(
+          lots,
+          { occurredAt: tx.occurredAt, quantity, unitCost, unitCostCNY: unitCost * fx },
+          method,
+        )
+      }
+    }
+
+    steps.push({ tx, realizedPnlCNY: realized, avgCostAfter: avgCostOf(lots) })
+  }
+
+  return {
+    lots,
+    quantity: sumQuantity(lots),
+    avgCost: avgCostOf(lots),
+    costBasisCNY: lots.reduce((s, l) => s + l.quantity * l.unitCostCNY, 0),
+    realizedPnlCNY,
+    steps,
+  }
+}
@@ -2,6 +2,8 @@ import type {
   Asset,
   AssetSnapshot,
   AssetType,
+  FxHistory,
+  GoalGrowth,
   PeriodReturn,
   PortfolioSummary,
   PriceHistory,
@@ -9,69 +11,138 @@ import type {
   Transaction,
   TxLedgerRow,
 } from '../types'
-import { isQuantityBased } from '../types'
+import { DEFAULT_COST_BASIS_METHOD, isQuantityBased } from '../types'
 import { endOfDay, endOfDayFromDateKey, formatDateKey, startOfDay, todayEndMs } from '../utils/time'
 import { xirr, type CashFlow } from './xirr'
+import { createFxLookup, type FxLookup } from './fx'
+import { buildSettlementTxs } from './settlement'
+import { applyQuantityTxStep, replayLots, tradeNetAmount, txCharges, type LotReplay } from './lots'
 import { applyValueTxStep, buildValueFlows, buildValueLedgerRows, compareValueTx, periodReturnsFor, recentAnnualizedFromValueTxs } from './replayValue'
 
 const DAY_MS = 86400_000
 
 export class PortfolioEngine {
   private txByAsset = new Map<string, Transaction[]>()
+  /** 流水 id -> 同一笔资金移动涉及的资产(划转两侧、证券与其结算账户) */
+  private linkedAssets = new Map<string, string[]>()
+  /** 派生结算流水 id -> 来源证券流水 */
+  private settlementSource = new Map<string, Transaction>()
   private assets: Asset[]
   private prices: PriceHistory
-  private settings: Settings
+  private fxLookup: FxLookup
 
   constructor(
     assets: Asset[],
     transactions: Transaction[],
     prices: PriceHistory,
     settings: Settings,
+    fxHistory: FxHistory = {},
   ) {
     this.assets = assets
     this.prices = prices
-    this.settings = settings
-    const sorted = [...transactions].sort(compareValueTx)
+    this.fxLookup = createFxLookup(settings, fxHistory)
+    const settlements = buildSettlementTxs(assets, transactions, this.fxLookup)
+    const sorted = [...transactions, ...settlements.map((s) => s.tx)].sort(compareValueTx)
+    const transferAssets = new Map<string, string[]>()
     for (const tx of sorted) {
       const list = this.txByAsset.get(tx.assetId) ?? []
       list.push(tx)
       this.txByAsset.set(tx.assetId, list)
+      if (tx.transferId) {
+        const ids = transferAssets.get(tx.transferId) ?? []
+        transferAssets.set(tx.transferId, [...ids, tx.assetId])
+      }
+    }
+    for (const tx of sorted) {
+      if (tx.transferId) this.linkedAssets.set(tx.id, transferAssets.get(tx.transferId)!)
+    }
+    for (const { tx, source } of settlements) {
+      this.settlementSource.set(tx.id, source)
+      this.linkedAssets.set(tx.id, [source.assetId, tx.assetId])
+      this.linkedAssets.set(source.id, [source.assetId, tx.assetId])
     }
   }
 
-  fx(currency: string): number {
-    if (currency === this.settings.baseCurrency) return 1
-    return this.settings.fxRates[currency] ?? 1
+  /** 资金移动的另一方也在 assetIds 内时(划转、证券结算),这笔流水只是组合内部的移动 */
+  private isInternalFlow(tx: Transaction, assetIds: ReadonlySet<string>): boolean {
+    const linked = this.linkedAssets.get(tx.id)
+    return !!linked && linked.every((id) => assetIds.has(id))
+  }
+
+  /** 外币 → 基准货币汇率;给出 atMs 时按当日历史汇率,否则取当前汇率 */
+  fx(currency: string, atMs?: number): number {
+    return this.fxLookup(currency, atMs)
   }
 
   private quantityAt(assetId: string, atMs: number): number {
     let qty = 0
     for (const tx of this.txByAsset.get(assetId) ?? []) {
       if (tx.occurredAt > atMs) break
-      if (tx.type === 'BUY') qty += tx.quantity ?? 0
-      if (tx.type === 'SELL') qty -= tx.quantity ?? 0
+      qty = applyQuantityTxStep(qty, tx)
     }
     return qty
   }
 
+  /** 拆股/送转事件的份额放大倍数:[发生时刻, 倍数] */
+  private shareEvents(assetId: string): Array<[number, number]> {
+    const events: Array<[number, number]> = []
+    let qty = 0
+    for (const tx of this.txByAsset.get(assetId) ?? []) {
+      const next = applyQuantityTxStep(qty, tx)
+      if ((tx.type === 'SPLIT' || tx.type === 'BONUS_SHARES') && qty > 0 && next > 0) {
+        events.push([tx.occurredAt, next / qty])
+      }
+      qty = next
+    }
+    return events
+  }
+
+  /** atMs 之后发生的拆股/送转累计倍数;用于把当时的份额与单价换算为当前口径 */
+  private shareFactorAfter(events: Array<[number, number]>, atMs: number): number {
+    let factor = 1
+    for (const [at, f] of events) {
+      if (at > atMs) factor *= f
+    }
+    return factor
+  }
+
+  /**
+   * 单价点(资产币种,按当前份额口径复权);
+   * 行情库以基准货币计价,按行情日汇率还原为原币,估值时再按估值时刻汇率折算。
+   */
   private pricePoints(asset: Asset): Array<[number, number]> {
-    const fx = this.fx(asset.currency)
     const points = new Map<number, number>()
     for (const tx of this.txByAsset.get(asset.id) ?? []) {
       if ((tx.type === 'BUY' || tx.type === 'SELL') && tx.price != null) {
-        points.set(tx.occurredAt, tx.price * fx)
+        points.set(tx.occurredAt, tx.price)
+      }
+      if (tx.type === 'DIVIDEND' && tx.amount != null && (tx.quantity ?? 0) > 0) {
+        points.set(tx.occurredAt, tx.amount / tx.quantity!)
       }
       if (tx.type === 'VALUATION' && tx.value != null) {
         const qty = this.quantityAt(asset.id, tx.occurredAt)
-        if (qty > 0) points.set(tx.occurredAt, (tx.value / qty) * fx)
+        if (qty > 0) points.set(tx.occurredAt, tx.value / qty)
       }
     }
     if (asset.symbol) {
       for (const [date, price] of Object.entries(this.prices[asset.symbol] ?? {})) {
-        points.set(endOfDayFromDateKey(date), price)
+        const at = endOfDayFromDateKey(date)
+        points.set(at, price / (this.fx(asset.currency, at) || 1))
       }
     }
-    return [...points.entries()].sort((a, b) => a[0] - b[0])
+    const events = this.shareEvents(asset.id)
+    return [...points.entries()]
+      .map(([at, price]): [number, number] => [at, price / this.shareFactorAfter(events, at)])
+      .sort((a, b) => a[0] - b[0])
+  }
+
+  /** 数量型资产的成本批次重放(按资产选择的成本法) */
+  lots(asset: Asset): LotReplay {
+    return replayLots(
+      this.txByAsset.get(asset.id) ?? [],
+      asset.costBasisMethod ?? DEFAULT_COST_BASIS_METHOD,
+      (atMs) => this.fx(asset.currency, atMs),
+    )
   }
 
   private priceAt(points: Array<[number, number]>, atMs: number): number {
@@ -91,12 +162,13 @@ export class PortfolioEngine {
 
   valueAt(asset: Asset, atMs: number): number {
     const txs = (this.txByAsset.get(asset.id) ?? []).filter((t) => t.occurredAt <= atMs)
-    const fx = this.fx(asset.currency)
+    const fx = this.fx(asset.currency, atMs)
 
     if (isQuantityBased(asset.type)) {
       const qty = this.quantityAt(asset.id, atMs)
       if (qty <= 0) return 0
-      return qty * this.priceAt(this.pricePoints(asset), atMs)
+      const factor = this.shareFactorAfter(this.shareEvents(asset.id), atMs)
+      return qty * factor * this.priceAt(this.pricePoints(asset), atMs) * fx
     }
 
     let value = 0
@@ -108,8 +180,8 @@ export class PortfolioEngine {
 
   snapshot(asset: Asset): AssetSnapshot {
     const txs = this.txByAsset.get(asset.id) ?? []
-    const fx = this.fx(asset.currency)
     const nowMs = Date.now()
+    const fx = this.fx(asset.currency, nowMs)
     const quantity = isQuantityBased(asset.type) ? this.quantityAt(asset.id, nowMs) : 0
     const valueCNY = this.valueAt(asset, nowMs)
     const valueNative = fx === 0 ? 0 : valueCNY / fx
@@ -117,14 +189,19 @@ export class PortfolioEngine {
     let flows: CashFlow[]
     let totalIn: number
     let totalOut: number
+    let feesPaidCNY: number | undefined
     if (isQuantityBased(asset.type)) {
       flows = []
       totalIn = 0
       totalOut = 0
+      feesPaidCNY = 0
       for (const tx of txs) {
+        const txFx = this.fx(asset.currency, tx.occurredAt)
         let amt = 0
-        if (tx.type === 'BUY') amt = -(tx.quantity ?? 0) * (tx.price ?? 0) * fx
-        if (tx.type === 'SELL') amt = (tx.quantity ?? 0) * (tx.price ?? 0) * fx
+        if (tx.type === 'BUY') amt = -tradeNetAmount(tx) * txFx
+        if (tx.type === 'SELL') amt = tradeNetAmount(tx) * txFx
+        if (tx.type === 'DIVIDEND' && !tx.quantity) amt = (tx.amount ?? 0) * txFx
+        if (tx.type === 'BUY' || tx.type === 'SELL') feesPaidCNY += txCharges(tx) * txFx
         if (amt !== 0) {
           flows.push({ occurredAt: tx.occurredAt, amount: amt })
           if (amt < 0) totalIn += -amt
@@ -132,7 +209,7 @@ export class PortfolioEngine {
         }
       }
     } else {
-      ;({ flows, totalIn, totalOut } = buildValueFlows(txs, fx))
+      ;({ flows, totalIn, totalOut } = buildValueFlows(txs, (atMs) => this.fx(asset.currency, atMs)))
     }
 
     const isDebt = asset.type === 'debt'
@@ -148,8 +225,9 @@ export class PortfolioEngine {
     const recentAnnualized = this.recentAnnualized(asset)
 
     const unitPrice = isQuantityBased(asset.type)
-      ? this.priceAt(this.pricePoints(asset), nowMs) / (fx || 1)
+      ? this.priceAt(this.pricePoints(asset), nowMs)
       : undefined
+    const lots = isQuantityBased(asset.type) ? this.lots(asset) : null
 
     return {
       asset,
@@ -159,6 +237,10 @@ export class PortfolioEngine {
       unitPrice,
       netInvestedCNY,
       totalPnlCNY,
+      feesPaidCNY,
+      avgCost: lots?.avgCost,
+      realizedPnlCNY: lots?.realizedPnlCNY,
+      unrealizedPnlCNY: lots ? valueCNY - lots.costBasisCNY : undefined,
       xirr: rate,
       lastUpdated,
       recentAnnualized,
@@ -186,7 +268,7 @@ export class PortfolioEngine {
 
   private txAmountNative(tx: Transaction): number | null {
     if (tx.type === 'BUY' || tx.type === 'SELL') {
-      if (tx.quantity != null && tx.price != null) return tx.quantity * tx.price
+      if (tx.quantity != null && tx.price != null) return tradeNetAmount(tx)
       return null
     }
     if (
@@ -194,7 +276,8 @@ export class PortfolioEngine {
       tx.type === 'WITHDRAW' ||
       tx.type === 'INCOME' ||
       tx.type === 'BORROW' ||
-      tx.type === 'REPAY'
+      tx.type === 'REPAY' ||
+      tx.type === 'DIVIDEND'
     ) {
       return tx.amount ?? null
     }
@@ -216,17 +299,18 @@ export class PortfolioEngine {
         .map((row) => ({
           ...row,
           balanceLabel,
+          settlementOf: this.settlementSource.get(row.tx.id),
         }))
         .reverse()
     }
 
     let balance = 0
     const rows: TxLedgerRow[] = []
+    const lotSteps = isQuantityBased(asset.type) ? this.lots(asset).steps : null
 
-    for (const tx of txs) {
-      if (isQuantityBased(asset.type)) {
-        if (tx.type === 'BUY') balance += tx.quantity ?? 0
-        if (tx.type === 'SELL') balance -= tx.quantity ?? 0
+    for (const [i, tx] of txs.entries()) {
+      if (lotSteps) {
+        balance = applyQuantityTxStep(balance, tx)
       } else {
         balance = applyValueTxStep(balance, tx)
       }
@@ -236,20 +320,29 @@ export class PortfolioEngine {
         amountNative: this.txAmountNative(tx),
         balanceAfter: balance,
         balanceLabel,
+        avgCostAfter: lotSteps?.[i].avgCostAfter,
+        realizedPnlCNY: lotSteps?.[i].realizedPnlCNY,
       })
     }
 
     return rows.reverse()
   }
 
-  private flowsUpTo(asset: Asset, atMs: number): { in: number; out: number } {
-    const fx = this.fx(asset.currency)
+  /** 截至 atMs 的累计流入/流出(CNY);给出 internal 时跳过组合内部划转 */
+  private flowsUpTo(
+    asset: Asset,
+    atMs: number,
+    internal?: ReadonlySet<string>,
+  ): { in: number; out: number } {
     let totalIn = 0
     let totalOut = 0
     for (const tx of this.txByAsset.get(asset.id) ?? []) {
       if (tx.occurredAt > atMs) break
-      if (tx.type === 'BUY') totalIn += (tx.quantity ?? 0) * (tx.price ?? 0) * fx
-      if (tx.type === 'SELL') totalOut += (tx.quantity ?? 0) * (tx.price ?? 0) * fx
+      if (internal && this.isInternalFlow(tx, internal)) continue
+      const fx = this.fx(asset.currency, tx.occurredAt)
+      if (tx.type === 'BUY') totalIn += tradeNetAmount(tx) * fx
+      if (tx.type === 'SELL') totalOut += tradeNetAmount(tx) * fx
+      if (tx.type === 'DIVIDEND' && !tx.quantity) totalOut += (tx.amount ?? 0) * fx
       if (tx.type === 'DEPOSIT') totalIn += (tx.amount ?? 0) * fx
       if (tx.type === 'WITHDRAW') totalOut += (tx.amount ?? 0) * fx
     }
@@ -269,11 +362,12 @@ export class PortfolioEngine {
 
   periodReturnsForAssets(assets: Asset[]): PeriodReturn[] {
     const nonDebt = assets.filter((a) => a.type !== 'debt')
+    const internal = new Set(nonDebt.map((a) => a.id))
     const nowMs = Date.now()
     return periodReturnsFor(
       nonDebt,
       (a, atMs) => this.valueAt(a, atMs),
-      (a, atMs) => this.flowsUpTo(a, atMs),
+      (a, atMs) => this.flowsUpTo(a, atMs, internal),
       nowMs,
       {
         includeLast30Days: true,
@@ -282,6 +376,28 @@ export class PortfolioEngine {
     )
   }
 
+  /**
+   * 目标预测用的近一年增长:月化收益率取区间收益率按月折算,
+   * 月均净投入 = (净值变化 − 区间收益) / 月数;数据不足一个月时为 null。
+   */
+  goalGrowth(assets: Asset[]): GoalGrowth | null {
+    let earliestMs: number | undefined
+    for (const a of assets) {
+      const first = this.txByAsset.get(a.id)?.[0]
+      if (first && (earliestMs == null || first.occurredAt < earliestMs)) earliestMs = first.occurredAt
+    }
+    if (earliestMs == null) return null
+    const months = Math.min(12, (Date.now() - earliestMs) / (DAY_MS * 30.44))
+    if (months < 1) return null
+    const year = this.periodReturnsForAssets(assets).find((p) => p.key === 'year')
+    if (!year) return null
+    const ratio = year.ratio ?? 0
+    return {
+      monthlyRate: ratio > -1 ? (1 + ratio) ** (1 / months) - 1 : 0,
+      monthlyInflowCNY: ((year.netWorthChangeCNY ?? 0) - year.pnlCNY) / months,
+    }
+  }
+
   summary(): PortfolioSummary {
     const active = this.assets.filter((a) => !a.archived)
     const snapshots = active.map((a) => this.snapshot(a))
@@ -290,6 +406,7 @@ export class PortfolioEngine {
     let totalDebt = 0
     let totalPnl = 0
     let totalNetInvested = 0
+    let totalFees = 0
     const byTypeMap = new Map<AssetType, number>()
     for (const s of snapshots) {
       if (s.asset.type === 'debt') {
@@ -299,6 +416,7 @@ export class PortfolioEngine {
         totalPnl += s.totalPnlCNY
         totalNetInvested += s.netInvestedCNY
       }
+      totalFees += s.feesPaidCNY ?? 0
       byTypeMap.set(s.asset.type, (byTypeMap.get(s.asset.type) ?? 0) + s.valueCNY)
     }
 
@@ -308,6 +426,7 @@ export class PortfolioEngine {
       netWorthCNY: totalAssets - totalDebt,
       totalPnlCNY: totalPnl,
       totalPnlRatio: totalNetInvested > 0 ? totalPnl / totalNetInvested : null,
+      totalFeesCNY: totalFees,
       byType: [...byTypeMap.entries()]
         .map(([type, valueCNY]) => ({ type, valueCNY }))
         .sort((a, b) => b.valueCNY - a.valueCNY),
@@ -0,0 +1,97 @@
+import { formatDateKey } from '../utils/time'
+import { parseAmount, parseCsv, parseStatementDate } from './statement'
+
+/** 单日涨跌超过此比例视为疑似异常 */
+export const OUTLIER_THRESHOLD = 0.5
+
+export interface PriceOutlier {
+  date: string
+  price: number
+  prevDate: string
+  prevPrice: number
+  /** 相对前一个价格点的涨跌幅 */
+  change: number
+}
+
+/** 按日期升序的价格点 */
+export function sortedPoints(points: Record<string, number>): Array<[string, number]> {
+  return Object.entries(points).sort((a, b) => a[0].localeCompare(b[0]))
+}
+
+/**
+ * 疑似异常点:相对前一点涨跌超过 threshold。
+ * 孤立尖刺只标尖刺本身——紧随其后回到原水平的那一点不再标记;
+ * 持续的跳变(如拆股)只标跳变当日。
+ */
+export function findOutliers(points: Record<string, number>, threshold = OUTLIER_THRESHOLD): PriceOutlier[] {
+  const sorted = sortedPoints(points)
+  const outliers: PriceOutlier[] = []
+  let lastFlagged = -1
+  for (let i = 1; i < sorted.length; i++) {
+    const [prevDate, prevPrice] = sorted[i - 1]
+    const [date, price] = sorted[i]
+    if (!(prevPrice > 0)) continue
+    const change = price / prevPrice - 1
+    if (Math.abs(change) <= threshold) continue
+    // 尖刺之后的回落:相对尖刺前一点已在阈值内
+    if (lastFlagged === i - 1 && i >= 2 && Math.abs(price / sorted[i - 2][1] - 1) <= threshold) continue
+    outliers.push({ date, price, prevDate, prevPrice, change })
+    lastFlagged = i
+  }
+  return outliers
+}
+
+export interface PriceCsvResult {
+  points: Record<string, number>
+  /** 无法解析的行(行号从 1 起) */
+  errors: string[]
+}
+
+/** 表头中表示收盘价的列名;Adj Close 排在 Close 之后,取第一个匹配即为收盘价 */
+const CLOSE_HEADER = /close|收盘|净值/i
+
+function dateKeyOf(raw: string | undefined): string | null {
+  const ms = parseStatementDate(raw, 'ymd')
+  return ms == null ? null : formatDateKey(ms)
+}
+
+/**
+ * 解析日收盘价 CSV:分隔符可为逗号、制表符或分号,支持带引号的单元格(如 "1,475.00");
+ * 日期在第一列,支持 2024-06-28 / 2024/6/28 / 20240628;首行不是数据时视为表头。
+ * 两列时第二列为价格;多列时按表头找 close / 收盘 / 净值 列,找不到则整体报错,
+ * 避免把成交量等列误当价格。同一日期以后出现的为准。
+ */
+export function parsePriceCsv(text: string): PriceCsvResult {
+  const points: Record<string, number> = {}
+  const errors: string[] = []
+  const rows = parseCsv(text)
+  const first = rows.findIndex((r) => r.length > 0)
+  if (first < 0) return { points, errors }
+  const header = dateKeyOf(rows[first][0]) ? null : rows[first]
+  const width = header?.length ?? Math.max(...rows.map((r) => r.length))
+  const col = header ? header.findIndex((h, i) => i > 0 && CLOSE_HEADER.test(h)) : -1
+  const priceCol = col > 0 ? col : width === 2 ? 1 : -1
+  if (priceCol < 0) {
+    errors.push(
+      header
+        ? '无法识别收盘价列:请在表头中用 close / 收盘 / 净值 标明'
+        : '多列文件需要表头,并用 close / 收盘 / 净值 标明收盘价列',
+    )
+    return { points, errors }
+  }
+  rows.forEach((cells, i) => {
+    if (cells.length === 0 || (header && i === first)) return
+    const date = dateKeyOf(cells[0])
+    if (!date) {
+      errors.push(`第 ${i + 1} 行:无法识别日期「${cells[0]}」`)
+      return
+    }
+    const price = parseAmount(cells[priceCol])
+    if (price == null || !(price > 0)) {
+      errors.push(`第 ${i + 1} 行:价格无效`)
+      return
+    }
+    points[date] = price
+  })
+  return { points, errors }
+}
@@ -0,0 +1,135 @@
+import type { RecurringRule, StrategyTransaction, StrategyTxType, Transaction } from '../types'
+import { formatDateKey, migrateDateToOccurredAt } from '../utils/time'
+
+/** 单条规则一次最多补生成的期数,防止起始日过早的每日规则一次塞满队列 */
+const MAX_OCCURRENCES = 1000
+
+export type RecurringDraft =
+  | { kind: 'asset'; tx: Omit<Transaction, 'id' | 'createdAt' | 'updatedAt'> }
+  | { kind: 'strategy'; tx: Omit<StrategyTransaction, 'id' | 'createdAt'> }
+
+/** 第 n 次名义发生日(本地 12:00,未顺延);每月规则遇月末不足时取当月最后一天 */
+function nominalAt(rule: RecurringRule, n: number): number {
+  const start = new Date(migrateDateToOccurredAt(rule.startDate))
+  const y = start.getFullYear()
+  const m = start.getMonth()
+  const d = start.getDate()
+  switch (rule.cadence) {
+    case 'monthly': {
+      const lastDay = new Date(y, m + n + 1, 0).getDate()
+      return new Date(y, m + n, Math.min(d, lastDay), 12).getTime()
+    }
+    case 'weekly':
+      return new Date(y, m, d + 7 * n, 12).getTime()
+    case 'custom':
+      return new Date(y, m, d + Math.max(1, Math.floor(rule.intervalDays ?? 1)) * n, 12).getTime()
+    default:
+      return new Date(y, m, d + n, 12).getTime()
+  }
+}
+
+/** 遇周末或节假日顺延到下一个工作日 */
+function nextBusinessDay(ms: number, holidays: ReadonlySet<string>): number {
+  const d = new Date(ms)
+  while (d.getDay() === 0 || d.getDay() === 6 || holidays.has(formatDateKey(d.getTime()))) {
+    d.setDate(d.getDate() + 1)
+  }
+  return d.getTime()
+}
+
+/** 开启顺延的规则按节假日表顺延,否则取名义发生日 */
+function occurrenceAt(rule: RecurringRule, nominal: number, holidays: ReadonlySet<string>): number {
+  return rule.skipHolidays ? nextBusinessDay(nominal, holidays) : nominal
+}
+
+/**
+ * 解析节假日列表:日期之间用换行、空格或逗号分隔,写法 YYYY-MM-DD。
+ * 返回去重排序后的日期与无法识别的片段。
+ */
+export function parseHolidays(text: string): { dates: string[]; invalid: string[] } {
+  const dates = new Set<string>()
+  const invalid: string[] = []
+  for (const part of text.split(/[\s,\uFF0C、]+/).filter(Boolean)) {
+    const m = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(part)
+    const [y, mo, d] = m ? [Number(m[1]), Number(m[2]), Number(m[3])] : [0, 0, 0]
+    const date = new Date(y, mo - 1, d, 12)
+    if (m && date.getMonth() === mo - 1 && date.getDate() === d) dates.add(formatDateKey(date.getTime()))
+    else invalid.push(part)
+  }
+  return { dates: [...dates].sort(), invalid }
+}
+
+/**
+ * 截至 atMs 新到期的发生时刻,以及生成后应记录的 generatedUntil。
+ * 名义发生日不晚于 generatedUntil 的视为已生成;顺延后仍晚于 atMs 的留待下次。
+ */
+export function dueOccurrences(
+  rule: RecurringRule,
+  atMs: number,
+  holidays: string[] = [],
+): { occurrences: number[]; generatedUntil?: string } {
+  const holidaySet = new Set(holidays)
+  const occurrences: number[] = []
+  let generatedUntil = rule.generatedUntil
+  if (rule.paused) return { occurrences, generatedUntil }
+  for (let n = 0; occurrences.length < MAX_OCCURRENCES; n++) {
+    const nominal = nominalAt(rule, n)
+    const key = formatDateKey(nominal)
+    if (rule.endDate && key > rule.endDate) break
+    const at = occurrenceAt(rule, nominal, holidaySet)
+    if (at > atMs) break
+    if (rule.generatedUntil && key <= rule.generatedUntil) continue
+    if (!occurrences.includes(at)) occurrences.push(at)
+    generatedUntil = key
+  }
+  return { occurrences, generatedUntil }
+}
+
+/** 下一次(未生成的)发生时刻;规则已结束时为 null */
+export function nextOccurrence(rule: RecurringRule, holidays: string[] = []): number | null {
+  for (let n = 0; n < MAX_OCCURRENCES * 10; n++) {
+    const nominal = nominalAt(rule, n)
+    const key = formatDateKey(nominal)
+    if (rule.endDate && key > rule.endDate) return null
+    if (rule.generatedUntil && key <= rule.generatedUntil) continue
+    return occurrenceAt(rule, nominal, new Set(holidays))
+  }
+  return null
+}
+
+/** 按模板生成某次发生的流水草稿 */
+export function occurrenceDraft(rule: RecurringRule, occurredAt: number): RecurringDraft {
+  const { type, amount, quantity, price, note } = rule.template
+  const text = note ?? rule.name
+  if (rule.strategyId) {
+    return {
+      kind: 'strategy',
+      tx: {
+        strategyId: rule.strategyId,
+        type: type as StrategyTxType,
+        occurredAt,
+        amount,
+        note: text,
+        recurringRuleId: rule.id,
+      },
+    }
+  }
+  const trade = type === 'BUY' || type === 'SELL'
+  return {
+    kind: 'asset',
+    tx: {
+      assetId: rule.assetId ?? '',
+      type,
+      occurredAt,
+      ...(trade ? { quantity, price } : { amount }),
+      note: text,
+      recurringRuleId: rule.id,
+    },
+  }
+}
+
+/** 模板缺少数量或单价的买卖(如按金额定投)须在确认时补全 */
+export function needsInput(rule: RecurringRule): boolean {
+  const { type, quantity, price } = rule.template
+  return (type === 'BUY' || type === 'SELL') && !(quantity != null && quantity > 0 && price != null && price > 0)
+}
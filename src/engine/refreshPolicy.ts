@@ -0,0 +1,86 @@
+import type { FxHistory, FxRateMeta, PriceHistory, RefreshSourceResult, Settings } from '../types'
+
+/** 某个来源连续失败后的退避状态 */
+export interface BackoffState {
+  failures: number
+  /** 早于此时刻的自动刷新跳过该来源 */
+  retryAt: number
+}
+
+export const BACKOFF_BASE_MS = 5 * 60_000
+export const BACKOFF_MAX_MS = 6 * 3600_000
+
+/** 失败一次后的退避:5 分钟起每次翻倍,最长 6 小时 */
+export function nextBackoff(prev: BackoffState | undefined, now: number): BackoffState {
+  const failures = (prev?.failures ?? 0) + 1
+  return { failures, retryAt: now + Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (failures - 1)) }
+}
+
+export function inBackoff(backoff: Record<string, BackoffState>, source: string, now: number): boolean {
+  return (backoff[source]?.retryAt ?? 0) > now
+}
+
+/** 整体失败(报错,或一个都没取到)的来源计入退避,取到任意价格即清除;跳过的来源保持原状 */
+export function updateBackoff(
+  backoff: Record<string, BackoffState>,
+  results: RefreshSourceResult[],
+  now: number,
+): Record<string, BackoffState> {
+  const next = { ...backoff }
+  for (const r of results) {
+    if (r.skipped) continue
+    if (r.error || (r.updated === 0 && r.failed.length > 0)) next[r.source] = nextBackoff(backoff[r.source], now)
+    else delete next[r.source]
+  }
+  return next
+}
+
+/** 上次刷新早于 thresholdMinutes 分钟(或从未刷新)时需要刷新 */
+export function isRefreshDue(lastAt: number | undefined, thresholdMinutes: number, now: number): boolean {
+  return lastAt == null || now - lastAt >= thresholdMinutes * 60_000
+}
+
+/** 一次刷新实际取到的数据;只含取到的部分,不是完整的行情库或汇率表 */
+export interface RefreshFetched {
+  /** 发起刷新时的基准货币:价格与汇率均以它计价 */
+  baseCurrency: string
+  /** 取到的价格点(同日覆盖) */
+  quotes: PriceHistory
+  /** 取到的汇率及其来源 */
+  fxRates: Record<string, number>
+  fxMeta: Record<string, FxRateMeta>
+  /** 取到的汇率记成的历史点 */
+  fxPoints: FxHistory
+  /** 本次刷新了汇率时为完成时刻 */
+  fxUpdatedAt?: number
+  /** 本次刷新了行情时为完成时刻 */
+  pricesUpdatedAt?: number
+}
+
+export interface RefreshState {
+  prices: PriceHistory
+  fxHistory: FxHistory
+  settings: Settings
+}
+
+/**
+ * 把刷新取到的数据并入最新状态,而不是用刷新开始时的快照整体覆盖,
+ * 以保留刷新期间的回填、手动编辑等改动。期间更换过基准货币时取到的数据已不适用,原样返回 latest。
+ */
+export function mergeRefresh(latest: RefreshState, fetched: RefreshFetched): RefreshState {
+  if (latest.settings.baseCurrency !== fetched.baseCurrency) return latest
+  const prices = { ...latest.prices }
+  for (const [key, points] of Object.entries(fetched.quotes)) prices[key] = { ...prices[key], ...points }
+  const fxHistory = { ...latest.fxHistory }
+  for (const [currency, points] of Object.entries(fetched.fxPoints)) {
+    fxHistory[currency] = { ...fxHistory[currency], ...points }
+  }
+  const settings: Settings = {
+    ...latest.settings,
+    fxRates: { ...latest.settings.fxRates, ...fetched.fxRates },
+    fxMeta: { ...latest.settings.fxMeta, ...fetched.fxMeta },
+  }
+  if (fetched.fxUpdatedAt != null) settings.fxUpdatedAt = fetched.fxUpdatedAt
+  if (fetched.pricesUpdatedAt != null) settings.pricesUpdatedAt = fetched.pricesUpdatedAt
+  return { prices, fxHistory, settings }
+}
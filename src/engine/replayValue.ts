@@ -52,17 +52,18 @@ export function replayValueBalance(txs: ReadonlyArray<ValueTx>): number {
   return balance
 }
 
+/** 存取现金流(CNY);fxAt 按流水发生时刻取汇率 */
 export function buildValueFlows(
   txs: ReadonlyArray<ValueTx>,
-  fxRate: number,
+  fxAt: (atMs: number) => number,
 ): { flows: CashFlow[]; totalIn: number; totalOut: number } {
   const flows: CashFlow[] = []
   let totalIn = 0
   let totalOut = 0
   for (const tx of txs) {
     let amt = 0
-    if (tx.type === 'DEPOSIT') amt = -(tx.amount ?? 0) * fxRate
-    if (tx.type === 'WITHDRAW') amt = (tx.amount ?? 0) * fxRate
+    if (tx.type === 'DEPOSIT') amt = -(tx.amount ?? 0) * fxAt(tx.occurredAt)
+    if (tx.type === 'WITHDRAW') amt = (tx.amount ?? 0) * fxAt(tx.occurredAt)
     if (amt !== 0) {
       flows.push({ occurredAt: tx.occurredAt, amount: amt })
       if (amt < 0) totalIn += -amt
@@ -240,7 +241,7 @@ export function recentAnnualizedFromValueTxs(txs: ReadonlyArray<ValueTx>): numbe
 
 export function snapshotFromValueTxs(
   txs: ReadonlyArray<ValueTx>,
-  fxRate: number,
+  fxAt: (atMs: number) => number,
   terminalAtMs: number,
 ): {
   valueCNY: number
@@ -253,9 +254,9 @@ export function snapshotFromValueTxs(
 } {
   const sorted = [...txs].sort(compareValueTx)
   const valueNative = Math.max(0, replayValueBalance(sorted))
-  const valueCNY = valueNative * fxRate
+  const valueCNY = valueNative * fxAt(terminalAtMs)
 
-  const { flows, totalIn, totalOut } = buildValueFlows(sorted, fxRate)
+  const { flows, totalIn, totalOut } = buildValueFlows(sorted, fxAt)
   const netInvestedCNY = totalIn - totalOut
   const totalPnlCNY = valueCNY + totalOut - totalIn
 
@@ -0,0 +1,67 @@
+import type { Asset, Transaction } from '../types'
+import { TX_TYPE_LABEL, isQuantityBased } from '../types'
+import type { FxLookup } from './fx'
+import { tradeNetAmount } from './lots'
+
+/** 由证券流水派生出的结算账户资金变动 */
+export interface SettlementTx {
+  tx: Transaction
+  /** 派生来源(证券资产上的原始流水) */
+  source: Transaction
+}
+
+/** 结算账户须为未删除的金额型、非负债资产 */
+export function isValidSettlementAsset(asset: Asset | undefined): asset is Asset {
+  return !!asset && !isQuantityBased(asset.type) && asset.type !== 'debt'
+}
+
+/** 证券流水对结算账户的现金影响(证券币种):买入为负,卖出/现金分红为正 */
+function settlementAmount(tx: Transaction): number {
+  switch (tx.type) {
+    case 'BUY':
+      return -tradeNetAmount(tx)
+    case 'SELL':
+      return tradeNetAmount(tx)
+    case 'DIVIDEND':
+      return tx.quantity ? 0 : (tx.amount ?? 0)
+    default:
+      return 0
+  }
+}
+
+/**
+ * 为设置了结算账户的数量型资产派生资金流水:买入从结算账户扣款,卖出与现金分红入账。
+ * 跨币种按流水当日汇率换算为结算账户币种。派生流水只参与重放,不持久化。
+ */
+export function buildSettlementTxs(
+  assets: ReadonlyArray<Asset>,
+  transactions: ReadonlyArray<Transaction>,
+  fx: FxLookup,
+): SettlementTx[] {
+  const byId = new Map(assets.map((a) => [a.id, a]))
+  const result: SettlementTx[] = []
+  for (const source of transactions) {
+    const security = byId.get(source.assetId)
+    if (!security?.settlementAssetId || !isQuantityBased(security.type)) continue
+    const account = byId.get(security.settlementAssetId)
+    if (!isValidSettlementAsset(account) || account.id === security.id) continue
+
+    const native = settlementAmount(source)
+    if (native === 0) continue
+    const rate = fx(security.currency, source.occurredAt) / (fx(account.currency, source.occurredAt) || 1)
+    result.push({
+      source,
+      tx: {
+        id: `${source.id}:settle`,
+        assetId: account.id,
+        type: native < 0 ? 'WITHDRAW' : 'DEPOSIT',
+        occurredAt: source.occurredAt,
+        amount: Math.abs(native) * rate,
+        note: `${TX_TYPE_LABEL[source.type]} ${security.name}`,
+        createdAt: source.createdAt,
+        updatedAt: source.updatedAt,
+      },
+    })
+  }
+  return result
+}
@@ -0,0 +1,261 @@
+import type {
+  Asset,
+  StatementDateFormat,
+  StatementField,
+  StatementMapping,
+  StatementTypeRule,
+  Transaction,
+  TxType,
+} from '../types'
+import { TX_TYPE_LABEL, txTypesFor } from '../types'
+import { formatDateKey, migrateDateToOccurredAt } from '../utils/time'
+
+export type StatementTxDraft = Omit<Transaction, 'id' | 'createdAt' | 'updatedAt'>
+
+/** 对账单一行的映射结果:成功时有 tx,否则有 error */
+export interface StatementLine {
+  /** 行号(从 1 起,含表头与跳过的行) */
+  line: number
+  cells: string[]
+  tx?: StatementTxDraft
+  error?: string
+  /** 与已有流水疑似重复时,为已有流水的 id */
+  duplicateOf?: string
+}
+
+/** 金额/数量比较的容差(对账单常四舍五入到分) */
+const DUPLICATE_TOLERANCE = 0.005
+
+/** 按首个非空行中出现最多的分隔符判断:逗号、制表符或分号 */
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/).find((l) => l.trim()) ?? ''
+  let best = ','
+  let bestCount = 0
+  for (const d of [',', '\t', ';']) {
+    const count = firstLine.split(d).length - 1
+    if (count > bestCount) {
+      best = d
+      bestCount = count
+    }
+  }
+  return best
+}
+
+/**
+ * 解析 CSV 为二维表:支持双引号包裹(含分隔符、换行与 "" 转义)与 \r\n 换行;
+ * 分隔符自动识别。空行保留为空数组,以便行号与文件一致。
+ */
+export function parseCsv(text: string): string[][] {
+  const delimiter = detectDelimiter(text)
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i]
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (c === '"') quoted = false
+      else cell += c
+    } else if (c === '"' && cell.trim() === '') {
+      quoted = true
+      cell = ''
+    } else if (c === delimiter) {
+      row.push(cell.trim())
+      cell = ''
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++
+      row.push(cell.trim())
+      rows.push(row.length === 1 && row[0] === '' ? [] : row)
+      row = []
+      cell = ''
+    } else cell += c
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell.trim())
+    rows.push(row)
+  }
+  return rows
+}
+
+/**
+ * 解析金额:去掉货币符号、千分位与空格;(123) 与末尾负号视为负数。
+ * 空白或无法识别时返回 null。
+ */
+export function parseAmount(raw: string | undefined): number | null {
+  if (raw == null) return null
+  let s = raw.trim().replace(/[\s,，¥￥$€£]|元|CNY|RMB|USD|HKD/gi, '')
+  if (!s) return null
+  let sign = 1
+  if (/^\(.*\)$/.test(s)) {
+    sign = -1
+    s = s.slice(1, -1)
+  }
+  if (s.endsWith('-')) {
+    sign = -sign
+    s = s.slice(0, -1)
+  }
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)$/.test(s)) return null
+  return sign * Number(s)
+}
+
+const DATE_PATTERN: Record<StatementDateFormat, RegExp> = {
+  ymd: /^(\d{4})[-/.年]?(\d{1,2})[-/.月]?(\d{1,2})日?/,
+  dmy: /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})/,
+  mdy: /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})/,
+}
+
+const TIME_PATTERN = /^[\sT]*(\d{1,2}):(\d{2})(?::(\d{2}))?/
+
+/**
+ * 按所选写法解析日期,返回本地时刻;带时分秒时保留,只有日期时取当日 12:00。
+ * 两位年份视为 20xx。日期不存在(如 2 月 30 日)时返回 null。
+ */
+export function parseStatementDate(raw: string | undefined, format: StatementDateFormat): number | null {
+  const s = raw?.trim() ?? ''
+  const m = DATE_PATTERN[format].exec(s)
+  if (!m) return null
+  const [a, b, c] = [m[1], m[2], m[3]].map(Number)
+  const [y, mo, d] = format === 'ymd' ? [a, b, c] : format === 'dmy' ? [c, b, a] : [c, a, b]
+  const year = y < 100 ? 2000 + y : y
+  const check = new Date(year, mo - 1, d)
+  if (check.getFullYear() !== year || check.getMonth() !== mo - 1 || check.getDate() !== d) return null
+  const time = TIME_PATTERN.exec(s.slice(m[0].length))
+  if (!time) return migrateDateToOccurredAt(`${year}-${mo}-${d}`)
+  const [h, mi, sec] = [time[1], time[2], time[3] ?? '0'].map(Number)
+  if (h > 23 || mi > 59 || sec > 59) return null
+  return new Date(year, mo - 1, d, h, mi, sec).getTime()
+}
+
+/** 按规则判断流水类型;无法判断时返回 null */
+export function detectTxType(rule: StatementTypeRule, amount: number | null, typeText: string): TxType | null {
+  if (rule.kind === 'fixed') return rule.type
+  if (rule.kind === 'sign') {
+    if (amount == null || amount === 0) return null
+    return amount > 0 ? rule.positive : rule.negative
+  }
+  const text = typeText.trim().toLowerCase()
+  const hit = text ? rule.keywords.find((k) => k.keyword && text.includes(k.keyword.trim().toLowerCase())) : undefined
+  return hit?.type ?? rule.fallback ?? null
+}
+
+/** 表头行的下标;无表头时为 -1 */
+function headerIndex(table: string[][], mapping: Pick<StatementMapping, 'hasHeader' | 'skipRows'>): number {
+  if (!mapping.hasHeader) return -1
+  let i = mapping.skipRows
+  while (i < table.length && table[i].length === 0) i++
+  return i
+}
+
+/** 表头各列的名称;无表头时为空数组 */
+export function statementHeader(table: string[][], mapping: Pick<StatementMapping, 'hasHeader' | 'skipRows'>): string[] {
+  const i = headerIndex(table, mapping)
+  return i >= 0 ? table[i] ?? [] : []
+}
+
+/** 文件的列数(取数据行中最多的) */
+export function columnCount(table: string[][]): number {
+  return table.reduce((n, row) => Math.max(n, row.length), 0)
+}
+
+const FIELD_KEYWORDS: Array<[StatementField, RegExp]> = [
+  ['date', /日期|时间|date|time/i],
+  ['type', /类型|摘要|业务|方向|type|description|action/i],
+  ['quantity', /数量|份额|股数|成交量|quantity|shares|qty/i],
+  ['price', /价格|单价|成交价|净值|price/i],
+  ['fee', /手续费|佣金|fee|commission/i],
+  ['amount', /金额|发生额|收支|amount|total/i],
+  ['note', /备注|附言|对方|说明|note|memo|remark/i],
+]
+
+/** 按表头名称猜测列映射;每个字段取第一个匹配且尚未被占用的列 */
+export function guessColumns(header: string[]): Partial<Record<StatementField, number>> {
+  const columns: Partial<Record<StatementField, number>> = {}
+  const used = new Set<number>()
+  for (const [field, pattern] of FIELD_KEYWORDS) {
+    const i = header.findIndex((h, idx) => !used.has(idx) && pattern.test(h))
+    if (i >= 0) {
+      columns[field] = i
+      used.add(i)
+    }
+  }
+  return columns
+}
+
+function cellOf(cells: string[], col: number | undefined): string {
+  return col == null ? '' : cells[col] ?? ''
+}
+
+/** 由一行数据生成流水草稿;数据不完整时抛错 */
+function buildTx(cells: string[], mapping: StatementMapping, asset: Asset): StatementTxDraft {
+  const { columns } = mapping
+  const occurredAt = parseStatementDate(cellOf(cells, columns.date), mapping.dateFormat)
+  if (occurredAt == null) throw new Error(`无法识别日期「${cellOf(cells, columns.date)}」`)
+  const rawAmount = parseAmount(cellOf(cells, columns.amount))
+  const amount = rawAmount != null && mapping.negateAmount ? -rawAmount : rawAmount
+  const type = detectTxType(mapping.typeRule, amount, cellOf(cells, columns.type))
+  if (!type) throw new Error(`无法判断类型「${cellOf(cells, columns.type) || cellOf(cells, columns.amount)}」`)
+  if (!txTypesFor(asset.type).includes(type)) throw new Error(`${TX_TYPE_LABEL[type]}不适用于该资产`)
+
+  const note = cellOf(cells, columns.note) || undefined
+  const base = { assetId: asset.id, type, occurredAt, note }
+  if (type === 'SPLIT' || type === 'BONUS_SHARES') throw new Error(`不支持导入${TX_TYPE_LABEL[type]},请手动记录`)
+
+  if (type === 'BUY' || type === 'SELL') {
+    const quantity = Math.abs(parseAmount(cellOf(cells, columns.quantity)) ?? 0)
+    if (!(quantity > 0)) throw new Error('缺少数量')
+    const price = parseAmount(cellOf(cells, columns.price)) ?? (amount != null ? Math.abs(amount) / quantity : null)
+    if (price == null || !(price > 0)) throw new Error('缺少单价或金额')
+    const fee = Math.abs(parseAmount(cellOf(cells, columns.fee)) ?? 0)
+    return { ...base, quantity, price: Math.abs(price), ...(fee > 0 ? { fee } : {}) }
+  }
+
+  const abs = amount == null ? 0 : Math.abs(amount)
+  if (!(abs > 0)) throw new Error('缺少金额')
+  return type === 'VALUATION' ? { ...base, value: abs } : { ...base, amount: abs }
+}
+
+/** 已有流水中与草稿同资产、同类型、同一天且金额(或数量与单价)一致的一笔 */
+export function findDuplicate(draft: StatementTxDraft, existing: ReadonlyArray<Transaction>): Transaction | undefined {
+  const day = formatDateKey(draft.occurredAt)
+  const near = (a: number | undefined, b: number | undefined) =>
+    a == null ? b == null : b != null && Math.abs(a - b) < DUPLICATE_TOLERANCE
+  return existing.find(
+    (t) =>
+      t.assetId === draft.assetId &&
+      t.type === draft.type &&
+      formatDateKey(t.occurredAt) === day &&
+      near(t.amount, draft.amount) &&
+      near(t.value, draft.value) &&
+      near(t.quantity, draft.quantity) &&
+      near(t.price, draft.price),
+  )
+}
+
+/**
+ * 按列映射把对账单各行转为目标资产的流水草稿,并标出与已有流水疑似重复的行。
+ * 跳过 skipRows 行与表头;空行忽略;出错的行带 error 而不中断其余行。
+ */
+export function mapStatement(
+  table: string[][],
+  mapping: StatementMapping,
+  asset: Asset,
+  existing: ReadonlyArray<Transaction>,
+): StatementLine[] {
+  const header = headerIndex(table, mapping)
+  const start = header >= 0 ? header + 1 : mapping.skipRows
+  const lines: StatementLine[] = []
+  for (let i = start; i < table.length; i++) {
+    const cells = table[i]
+    if (cells.every((c) => c === '')) continue
+    try {
+      const tx = buildTx(cells, mapping, asset)
+      lines.push({ line: i + 1, cells, tx, duplicateOf: findDuplicate(tx, existing)?.id })
+    } catch (e) {
+      lines.push({ line: i + 1, cells, error: (e as Error).message })
+    }
+  }
+  return lines
+}
@@ -1,4 +1,5 @@
 import type {
+  FxHistory,
   PeriodReturn,
   Settings,
   Strategy,
@@ -13,19 +14,21 @@ import {
   replayValueBalance,
   snapshotFromValueTxs,
 } from './replayValue'
+import { createFxLookup, type FxLookup } from './fx'
 
 export class StrategyEngine {
   private txByStrategy = new Map<string, StrategyTransaction[]>()
   private strategies: Strategy[]
-  private settings: Settings
+  private fxLookup: FxLookup
 
   constructor(
     strategies: Strategy[],
     strategyTransactions: StrategyTransaction[],
     settings: Settings,
+    fxHistory: FxHistory = {},
   ) {
     this.strategies = strategies
-    this.settings = settings
+    this.fxLookup = createFxLookup(settings, fxHistory)
     const sorted = [...strategyTransactions].sort(compareValueTx)
     for (const tx of sorted) {
       const list = this.txByStrategy.get(tx.strategyId) ?? []
@@ -34,14 +37,12 @@ export class StrategyEngine {
     }
   }
 
-  private fx(currency: string): number {
-    if (currency === this.settings.baseCurrency) return 1
-    return this.settings.fxRates[currency] ?? 1
+  private fx(currency: string, atMs?: number): number {
+    return this.fxLookup(currency, atMs)
   }
 
   snapshot(strategy: Strategy): StrategySnapshot {
     const txs = this.txByStrategy.get(strategy.id) ?? []
-    const fx = this.fx(strategy.currency)
     const nowMs = Date.now()
 
     const {
@@ -52,7 +53,7 @@ export class StrategyEngine {
       xirr: rate,
       recentAnnualized,
       lastUpdated,
-    } = snapshotFromValueTxs(txs, fx, nowMs)
+    } = snapshotFromValueTxs(txs, (atMs) => this.fx(strategy.currency, atMs), nowMs)
 
     return {
       strategy,
@@ -77,15 +78,15 @@ export class StrategyEngine {
   valueAtCNY(strategy: Strategy, atMs: number): number {
     const txs = (this.txByStrategy.get(strategy.id) ?? []).filter((t) => t.occurredAt <= atMs)
     const valueNative = Math.max(0, replayValueBalance(txs))
-    return valueNative * this.fx(strategy.currency)
+    return valueNative * this.fx(strategy.currency, atMs)
   }
 
   private flowsUpTo(strategy: Strategy, atMs: number): { in: number; out: number } {
-    const fx = this.fx(strategy.currency)
     let totalIn = 0
     let totalOut = 0
     for (const tx of this.txByStrategy.get(strategy.id) ?? []) {
       if (tx.occurredAt > atMs) break
+      const fx = this.fx(strategy.currency, tx.occurredAt)
       if (tx.type === 'DEPOSIT') totalIn += (tx.amount ?? 0) * fx
       if (tx.type === 'WITHDRAW') totalOut += (tx.amount ?? 0) * fx
     }
@@ -0,0 +1,62 @@
+import type { Asset, Transaction, TransferDraft } from '../types'
+import { isQuantityBased } from '../types'
+
+export type TransferLeg = Omit<Transaction, 'id' | 'createdAt' | 'updatedAt'>
+
+/** 转出一方固定为 WITHDRAW;转入一方为 DEPOSIT(负债为 REPAY) */
+export function isTransferOut(tx: Pick<Transaction, 'transferId' | 'type'>): boolean {
+  return !!tx.transferId && tx.type === 'WITHDRAW'
+}
+
+/**
+ * 由划转表单生成转出、转入两笔流水;资产类型或金额不合法时抛错。
+ * 只支持金额型资产之间(转入方可以是负债,即用存款还贷)。
+ */
+export function buildTransferLegs(
+  draft: TransferDraft,
+  assets: ReadonlyArray<Asset>,
+  transferId: string,
+): [TransferLeg, TransferLeg] {
+  const from = assets.find((a) => a.id === draft.fromAssetId)
+  const to = assets.find((a) => a.id === draft.toAssetId)
+  if (!from || !to) throw new Error('划转资产不存在')
+  if (from.id === to.id) throw new Error('转出与转入资产不能相同')
+  if (isQuantityBased(from.type) || from.type === 'debt') {
+    throw new Error('转出资产须为金额型资产(现金、理财等)')
+  }
+  if (isQuantityBased(to.type)) throw new Error('转入资产须为金额型资产或负债')
+  if (!(draft.amount > 0) || !(draft.toAmount > 0)) throw new Error('划转金额须大于 0')
+
+  const common = { occurredAt: draft.occurredAt, note: draft.note, transferId }
+  return [
+    { ...common, assetId: from.id, type: 'WITHDRAW', amount: draft.amount },
+    { ...common, assetId: to.id, type: to.type === 'debt' ? 'REPAY' : 'DEPOSIT', amount: draft.toAmount },
+  ]
+}
+
+/** 由一对划转流水还原表单数据;不成对时返回 null */
+export function transferDraftFromLegs(legs: ReadonlyArray<Transaction>): TransferDraft | null {
+  const out = legs.find(isTransferOut)
+  const into = legs.find((t) => t !== out && t.transferId === out?.transferId)
+  if (!out || !into) return null
+  return {
+    fromAssetId: out.assetId,
+    toAssetId: into.assetId,
+    occurredAt: out.occurredAt,
+    amount: out.amount ?? 0,
+    toAmount: into.amount ?? 0,
+    note: out.note,
+  }
+}
+
+/** 按 transferId 分组 */
+export function groupTransferLegs(txs: ReadonlyArray<Transaction>): Map<string, Transaction[]> {
+  const groups = new Map<string, Transaction[]>()
+  for (const tx of txs) {
+    if (!tx.transferId) continue
+    const list = groups.get(tx.transferId) ?? []
+    list.push(tx)
+    groups.set(tx.transferId, list)
+  }
+  return groups
+}
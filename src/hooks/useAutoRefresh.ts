@@ -0,0 +1,34 @@
+import { useEffect } from 'react'
+import { useStore } from '../store'
+import { DEFAULT_AUTO_REFRESH, type RefreshTrigger } from '../types'
+import { isRefreshDue } from '../engine/refreshPolicy'
+
+const CHECK_INTERVAL_MS = 60_000
+
+/**
+ * 后台自动刷新行情与汇率:打开应用时行情已过期即刷新,之后页面可见时按间隔定时刷新。
+ * 标签页隐藏时不刷新,切回时补一次;连续失败的来源由 store 按退避跳过。
+ */
+export function useAutoRefresh() {
+  const { enabled, staleMinutes, intervalMinutes } = useStore((s) => s.settings.autoRefresh ?? DEFAULT_AUTO_REFRESH)
+
+  useEffect(() => {
+    if (!enabled) return
+    const tick = (trigger: RefreshTrigger) => {
+      const { settings, refreshing, refreshPrices } = useStore.getState()
+      if (refreshing || document.visibilityState !== 'visible') return
+      const threshold = trigger === 'open' ? staleMinutes : intervalMinutes
+      if (!isRefreshDue(settings.pricesUpdatedAt, threshold, Date.now())) return
+      void refreshPrices(trigger)
+    }
+    const onVisible = () => tick('interval')
+
+    tick('open')
+    const timer = setInterval(onVisible, CHECK_INTERVAL_MS)
+    document.addEventListener('visibilitychange', onVisible)
+    return () => {
+      clearInterval(timer)
+      document.removeEventListener('visibilitychange', onVisible)
+    }
+  }, [enabled, staleMinutes, intervalMinutes])
+}
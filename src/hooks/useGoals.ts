@@ -0,0 +1,21 @@
+import { useMemo } from 'react'
+import { useStore } from '../store'
+import { goalAssets, goalValue, projectGoal } from '../engine/goals'
+import type { GoalProgress } from '../types'
+import { usePortfolioEngine, useSummary } from './useSummary'
+
+/** 各目标的当前进度与达成预测 */
+export function useGoalProgress(): GoalProgress[] {
+  const goals = useStore((s) => s.goals)
+  const assets = useStore((s) => s.assets)
+  const summary = useSummary()
+  const engine = usePortfolioEngine()
+
+  return useMemo(
+    () =>
+      goals.map((g) =>
+        projectGoal(g, goalValue(g, summary.snapshots), engine.goalGrowth(goalAssets(g, assets))),
+      ),
+    [goals, assets, summary, engine],
+  )
+}
@@ -8,10 +8,11 @@ export function useStrategyEngine() {
   const strategies = useStore((s) => s.strategies)
   const strategyTransactions = useStore((s) => s.strategyTransactions)
   const settings = useStore((s) => s.settings)
+  const fxHistory = useStore((s) => s.fxHistory)
 
   return useMemo(
-    () => new StrategyEngine(strategies, strategyTransactions, settings),
-    [strategies, strategyTransactions, settings],
+    () => new StrategyEngine(strategies, strategyTransactions, settings, fxHistory),
+    [strategies, strategyTransactions, settings, fxHistory],
   )
 }
 
@@ -1,6 +1,7 @@
 import { useMemo } from 'react'
 import { useStore } from '../store'
 import { PortfolioEngine } from '../engine/portfolio'
+import { missingFxCurrencies, usedCurrencies } from '../engine/fx'
 import { isUpdateStale } from '../utils/format'
 
 /** 由事件流实时计算组合状态(事件溯源,无派生状态落盘) */
@@ -8,11 +9,12 @@ export function useSummary() {
   const assets = useStore((s) => s.assets)
   const transactions = useStore((s) => s.transactions)
   const prices = useStore((s) => s.prices)
+  const fxHistory = useStore((s) => s.fxHistory)
   const settings = useStore((s) => s.settings)
 
   return useMemo(
-    () => new PortfolioEngine(assets, transactions, prices, settings).summary(),
-    [assets, transactions, prices, settings],
+    () => new PortfolioEngine(assets, transactions, prices, settings, fxHistory).summary(),
+    [assets, transactions, prices, settings, fxHistory],
   )
 }
 
@@ -21,11 +23,12 @@ export function usePortfolioEngine() {
   const assets = useStore((s) => s.assets)
   const transactions = useStore((s) => s.transactions)
   const prices = useStore((s) => s.prices)
+  const fxHistory = useStore((s) => s.fxHistory)
   const settings = useStore((s) => s.settings)
 
   return useMemo(
-    () => new PortfolioEngine(assets, transactions, prices, settings),
-    [assets, transactions, prices, settings],
+    () => new PortfolioEngine(assets, transactions, prices, settings, fxHistory),
+    [assets, transactions, prices, settings, fxHistory],
   )
 }
 
@@ -37,3 +40,14 @@ export function useAssetStaleCount() {
     [summary.snapshots],
   )
 }
+
+/** 资产或策略用到、却没有汇率的币种(按 1 折算,估值失真) */
+export function useMissingFxCurrencies() {
+  const assets = useStore((s) => s.assets)
+  const strategies = useStore((s) => s.strategies)
+  const settings = useStore((s) => s.settings)
+  return useMemo(
+    () => missingFxCurrencies(usedCurrencies(assets, strategies, settings.baseCurrency), settings),
+    [assets, strategies, settings],
+  )
+}
@@ -1,10 +1,29 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
-import App from './App.tsx'
+import { StorageService } from './services/storage'
+import { color } from './theme/colors'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
-)
+const root = createRoot(document.getElementById('root')!)
+
+// 先把本地数据读入内存,store 初始化时才能同步读取
+StorageService.init()
+  .then(() => import('./App.tsx'))
+  .then(({ default: App }) =>
+    root.render(
+      <StrictMode>
+        <App />
+      </StrictMode>,
+    ),
+  )
+  .catch((e: unknown) => {
+    root.render(
+      <div className="mx-auto max-w-xl p-6">
+        <div className={color.alertWarn} role="alert">
+          <p className="font-medium">启动失败:无法读取本地数据</p>
+          <p className="mt-1">请刷新页面重试;若仍失败,请检查浏览器是否禁用了本站的存储(如无痕模式)。</p>
+          {e instanceof Error && <p className="mt-1 text-xs opacity-70">{e.message}</p>}
+        </div>
+      </div>,
+    )
+  })
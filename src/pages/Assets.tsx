@@ -1,7 +1,7 @@
 import { useEffect, useMemo, useState } from 'react'
 import { useStore } from '../store'
 import { StorageService } from '../services/storage'
-import { usePortfolioEngine, useSummary } from '../hooks/useSummary'
+import { useMissingFxCurrencies, usePortfolioEngine, useSummary } from '../hooks/useSummary'
 import { useStrategyEngine } from '../hooks/useStrategySummary'
 import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts'
 import Modal, { btnGhost, btnPrimary } from '../components/Modal'
@@ -13,6 +13,9 @@ import {
   type RecordTxModalState,
 } from '../components/recordTxModal'
 import TxForm from '../components/TxForm'
+import TransferForm from '../components/TransferForm'
+import LoanSchedule from '../components/LoanSchedule'
+import PrepaymentSimulator from '../components/PrepaymentSimulator'
 import StrategyList from '../components/StrategyList'
 import StrategyDetail from '../components/StrategyDetail'
 import StrategyForm from '../components/StrategyForm'
@@ -23,9 +26,22 @@ import PeriodReturnsCard from '../components/PeriodReturnsCard'
 import { color } from '../theme/colors'
 import { useTableSort } from '../hooks/useTableSort'
 import type { Asset, AssetSnapshot, AssetType, StrategySnapshot, Transaction, TxLedgerRow } from '../types'
-import { ASSET_TYPE_LABEL, TX_TYPE_LABEL, isQuantityBased } from '../types'
-import { fmtDateTime, fmtMoney, fmtNum, fmtPct, isUpdateStale, pnlColor, staleUpdateCls } from '../utils/format'
+import {
+  ASSET_TYPE_LABEL,
+  COST_BASIS_METHOD_LABEL,
+  DEFAULT_AUTO_REFRESH,
+  DEFAULT_COST_BASIS_METHOD,
+  REPAYMENT_METHOD_LABEL,
+  TX_TYPE_LABEL,
+  isQuantityBased,
+} from '../types'
+import { fmtAge, fmtDateTime, fmtMoney, fmtNum, fmtPct, isUpdateStale, pnlColor, staleUpdateCls } from '../utils/format'
 import { sortBy, type SortState } from '../utils/tableSort'
+import { transferDraftFromLegs } from '../engine/transfer'
+import { formatDateKey } from '../utils/time'
+import { dueLoanTxs, loanStatus } from '../engine/loan'
+import { matchesLabelFilter } from '../engine/grouping'
+import { canBackfill } from '../services/prices'
 
 const assetTheadCls = 'bg-slate-50/80'
 const assetTheadRowCls = 'border-b border-slate-200/70 text-left text-xs text-slate-500'
@@ -81,22 +97,30 @@ function closeEditTx(
 export default function Assets({
   onViewClosedStrategies,
   onViewAllFlows,
+  onViewPriceData,
 }: {
   onViewClosedStrategies?: (assetId: string) => void
   onViewAllFlows?: (assetId?: string) => void
+  onViewPriceData?: (symbol: string) => void
 } = {}) {
   const summary = useSummary()
+  const missingFx = useMissingFxCurrencies()
   const engine = usePortfolioEngine()
   const assets = useStore((s) => s.assets)
   const addAsset = useStore((s) => s.addAsset)
   const updateAsset = useStore((s) => s.updateAsset)
   const deleteAsset = useStore((s) => s.deleteAsset)
   const settings = useStore((s) => s.settings)
+  const backfill = useStore((s) => s.backfill)
   const addTransaction = useStore((s) => s.addTransaction)
   const updateTransaction = useStore((s) => s.updateTransaction)
+  const updateTransfer = useStore((s) => s.updateTransfer)
+  const transactions = useStore((s) => s.transactions)
+  const readOnly = useStore((s) => s.readOnly)
   const [modal, setModal] = useState<ModalState>(null)
   const [filterType, setFilterType] = useState(() => StorageService.loadAssetsFilterType())
   const [filterAsset, setFilterAsset] = useState(() => StorageService.loadAssetsFilterAsset())
+  const [filterLabel, setFilterLabel] = useState('')
   const { sort, handleSort } = useTableSort(DEFAULT_ASSET_SORT, ASSET_TEXT_KEYS)
 
   useEffect(() => {
@@ -136,9 +160,11 @@ export default function Assets({
   const assetOptions = useMemo(
     () =>
       summary.snapshots
-        .filter((s) => !filterType || s.asset.type === filterType)
+        .filter(
+          (s) => (!filterType || s.asset.type === filterType) && matchesLabelFilter(s.asset, filterLabel),
+        )
         .map((s) => ({ id: s.asset.id, name: s.asset.name })),
-    [summary.snapshots, filterType],
+    [summary.snapshots, filterType, filterLabel],
   )
 
   const filteredSnapshots = useMemo(
@@ -146,9 +172,10 @@ export default function Assets({
       summary.snapshots.filter(
         (s) =>
           (!filterType || s.asset.type === filterType) &&
+          matchesLabelFilter(s.asset, filterLabel) &&
           (!filterAsset || s.asset.id === filterAsset),
       ),
-    [summary.snapshots, filterType, filterAsset],
+    [summary.snapshots, filterType, filterLabel, filterAsset],
   )
 
   const filteredOverview = useMemo(() => {
@@ -156,7 +183,9 @@ export default function Assets({
     let totalDebt = 0
     let totalPnl = 0
     let totalNetInvested = 0
+    let totalFees = 0
     for (const s of filteredSnapshots) {
+      totalFees += s.feesPaidCNY ?? 0
       if (s.asset.type === 'debt') {
         totalDebt += s.valueCNY
       } else {
@@ -171,6 +200,7 @@ export default function Assets({
       netWorthCNY: totalAssets - totalDebt,
       totalPnlCNY: totalPnl,
       totalPnlRatio: totalNetInvested > 0 ? totalPnl / totalNetInvested : null,
+      totalFeesCNY: totalFees,
     }
   }, [filteredSnapshots])
 
@@ -192,6 +222,14 @@ export default function Assets({
     }
   }
 
+  const handleLabelChange = (value: string) => {
+    setFilterLabel(value)
+    if (filterAsset) {
+      const snap = summary.snapshots.find((s) => s.asset.id === filterAsset)
+      if (!matchesLabelFilter(snap?.asset, value)) setFilterAsset('')
+    }
+  }
+
   return (
     <div className="space-y-6">
       <div className="flex flex-wrap items-center justify-between gap-3">
@@ -209,28 +247,44 @@ export default function Assets({
           )}
           <button
             className={btnGhost}
-            disabled={assets.length === 0}
+            disabled={readOnly || assets.length === 0}
             onClick={() => setModal(openRecordTx())}
           >
             记一笔
           </button>
-          <button className={btnPrimary} onClick={() => setModal({ kind: 'add' })}>
+          <button className={btnPrimary} onClick={() => setModal({ kind: 'add' })} disabled={readOnly}>
             + 添加资产
           </button>
         </div>
       </div>
 
+      {missingFx.length > 0 && (
+        <p className={color.alertWarn}>
+          {missingFx.join('、')} 缺少汇率,相关资产暂按 1:1 折算。请到「设置 → 汇率」获取或填写。
+        </p>
+      )}
+      {backfill && (
+        <p className={color.alertInfo}>
+          正在回填历史行情 {backfill.done}/{backfill.total}
+          {backfill.current ? `:${backfill.current}` : ''}…
+        </p>
+      )}
+
       {hasAssets && (
         <AssetFilters
           filterType={filterType}
           filterAsset={filterAsset}
+          filterLabel={filterLabel}
           typeOptions={typeOptions}
           assetOptions={assetOptions}
+          labelAssets={summary.snapshots.map((s) => s.asset)}
           onTypeChange={handleTypeChange}
           onAssetChange={setFilterAsset}
+          onLabelChange={handleLabelChange}
           onClear={() => {
             setFilterType('')
             setFilterAsset('')
+            setFilterLabel('')
           }}
         />
       )}
@@ -242,6 +296,9 @@ export default function Assets({
             { label: '净资产', value: fmtMoney(filteredOverview.netWorthCNY), featured: true },
             { label: '总资产', value: fmtMoney(filteredOverview.totalAssetsCNY) },
             { label: '总负债', value: fmtMoney(filteredOverview.totalDebtCNY), accent: color.danger },
+            ...(filteredOverview.totalFeesCNY > 0
+              ? [{ label: '累计费用', value: fmtMoney(filteredOverview.totalFeesCNY), sub: '手续费 + 税费' }]
+              : []),
           ]}
           returns={filteredPeriodReturns}
           totalPnl={{
@@ -377,6 +434,7 @@ export default function Assets({
       {modal?.kind === 'add' && (
         <Modal title="添加资产" onClose={() => setModal(null)}>
           <AssetForm
+            assets={assets}
             onSubmit={(a) => {
               addAsset(a)
               setModal(null)
@@ -389,6 +447,7 @@ export default function Assets({
       {modal?.kind === 'edit' && (
         <Modal title="编辑资产" onClose={() => setModal(null)}>
           <AssetForm
+            assets={assets}
             initial={modal.asset}
             onSubmit={(a) => {
               updateAsset(modal.asset.id, a)
@@ -410,7 +469,27 @@ export default function Assets({
         />
       )}
 
-      {modal?.kind === 'editTx' && (
+      {modal?.kind === 'editTx' && modal.tx.transferId && (() => {
+        const transferId = modal.tx.transferId
+        const initial = transferDraftFromLegs(transactions.filter((t) => t.transferId === transferId))
+        if (!initial) return null
+        return (
+          <Modal title="编辑划转" onClose={() => closeEditTx(modal, setModal)}>
+            <TransferForm
+              assets={assets}
+              settings={settings}
+              initial={initial}
+              onSubmit={(t) => {
+                updateTransfer(transferId, t)
+                closeEditTx(modal, setModal)
+              }}
+              onCancel={() => closeEditTx(modal, setModal)}
+            />
+          </Modal>
+        )
+      })()}
+
+      {modal?.kind === 'editTx' && !modal.tx.transferId && (
         <Modal title="编辑流水" onClose={() => closeEditTx(modal, setModal)}>
           <TxForm
             assets={assets}
@@ -440,6 +519,7 @@ export default function Assets({
           }}
           onViewClosedStrategies={onViewClosedStrategies}
           onViewAllFlows={onViewAllFlows}
+          onViewPriceData={onViewPriceData}
         />
       )}
     </div>
@@ -454,6 +534,22 @@ function AssetTypeBadge({ type }: { type: AssetType }) {
   )
 }
 
+/** 自动行情资产的报价时效,超过过期阈值标黄;尚未获取过报价时只标「自动行情」 */
+function QuoteAge({ asset }: { asset: Asset }) {
+  const quoteTime = useStore((st) => (asset.symbol ? st.quoteTimes[asset.symbol] : undefined))
+  const staleMinutes = useStore((st) => (st.settings.autoRefresh ?? DEFAULT_AUTO_REFRESH).staleMinutes)
+  const [now] = useState(() => Date.now())
+  if (asset.priceSource === 'manual') return null
+  if (quoteTime == null) return <> · 自动行情</>
+  const stale = now - quoteTime > staleMinutes * 60_000
+  return (
+    <span className={stale ? 'text-amber-600' : undefined} title={`最近报价 ${fmtDateTime(quoteTime)}`}>
+      {' '}
+      · 行情 {fmtAge(quoteTime, now)}
+    </span>
+  )
+}
+
 function AssetTableRow({
   snap: s,
   onOpen,
@@ -466,6 +562,8 @@ function AssetTableRow({
   onValuation: () => void
 }) {
   const type = s.asset.type
+  const baseCurrency = useStore((st) => st.settings.baseCurrency)
+  const readOnly = useStore((st) => st.readOnly)
   return (
     <tr
       className="cursor-pointer border-t border-slate-100 transition-colors duration-200 hover:bg-slate-50/50"
@@ -475,19 +573,29 @@ function AssetTableRow({
         <div className="text-slate-700">{s.asset.name}</div>
         <div className="text-xs text-slate-500">
           {s.asset.platform}
-          {s.asset.currency !== 'CNY' && ` · ${s.asset.currency}`}
-          {s.asset.priceSource !== 'manual' && ' · 自动行情'}
+          {s.asset.currency !== baseCurrency && ` · ${s.asset.currency}`}
+          <QuoteAge asset={s.asset} />
         </div>
       </td>
       <td className="px-3 py-2.5">
         <AssetTypeBadge type={type} />
       </td>
       <td className="px-2 py-2.5 text-right tabular-nums text-slate-500">
-        {s.quantity > 0 ? fmtNum(s.quantity) : '—'}
+        <div>{s.quantity > 0 ? fmtNum(s.quantity) : '—'}</div>
+        {s.avgCost != null && (
+          <div className="text-xs text-slate-400" title="持仓均价(按资产的成本计算方法)">
+            均价 {fmtNum(s.avgCost)} {s.asset.currency}
+          </div>
+        )}
       </td>
       <td className="px-2 py-2.5 text-right tabular-nums text-slate-700">{fmtMoney(s.valueCNY)}</td>
       <td className={`px-2 py-2.5 text-right tabular-nums ${pnlColor(s.totalPnlCNY)}`}>
-        {type === 'debt' ? '—' : `${s.totalPnlCNY > 0 ? '+' : ''}${fmtMoney(s.totalPnlCNY)}`}
+        <div>{type === 'debt' ? '—' : `${s.totalPnlCNY > 0 ? '+' : ''}${fmtMoney(s.totalPnlCNY)}`}</div>
+        {s.realizedPnlCNY != null && s.unrealizedPnlCNY != null && (
+          <div className="text-xs text-slate-400" title="已实现盈亏(卖出部分) / 浮动盈亏(剩余持仓)">
+            已实现 {fmtMoney(s.realizedPnlCNY)} · 浮动 {fmtMoney(s.unrealizedPnlCNY)}
+          </div>
+        )}
       </td>
       <td
         className={`px-2 py-2.5 text-right tabular-nums ${s.xirr != null ? pnlColor(s.xirr) : 'text-slate-500'}`}
@@ -506,18 +614,22 @@ function AssetTableRow({
         {s.lastUpdated != null ? fmtDateTime(s.lastUpdated) : '—'}
       </td>
       <td className="px-4 py-2.5 text-right" onClick={(e) => e.stopPropagation()}>
-        <button
-          className="rounded-lg px-2 py-1 text-xs text-blue-600 transition-colors hover:bg-blue-50"
-          onClick={onRecordTx}
-        >
-          记一笔
-        </button>
-        <button
-          className="rounded-lg px-2 py-1 text-xs text-slate-500 transition-colors hover:bg-slate-50"
-          onClick={onValuation}
-        >
-          更新估值
-        </button>
+        {!readOnly && (
+          <>
+            <button
+              className="rounded-lg px-2 py-1 text-xs text-blue-600 transition-colors hover:bg-blue-50"
+              onClick={onRecordTx}
+            >
+              记一笔
+            </button>
+            <button
+              className="rounded-lg px-2 py-1 text-xs text-slate-500 transition-colors hover:bg-slate-50"
+              onClick={onValuation}
+            >
+              更新估值
+            </button>
+          </>
+        )}
       </td>
     </tr>
   )
@@ -535,6 +647,8 @@ function AssetMobileCard({
   onValuation: () => void
 }) {
   const type = s.asset.type
+  const baseCurrency = useStore((st) => st.settings.baseCurrency)
+  const readOnly = useStore((st) => st.readOnly)
   return (
     <div
       className="rounded-xl border border-slate-100 bg-slate-50/50 p-3 transition-colors duration-200 active:bg-slate-50"
@@ -548,7 +662,8 @@ function AssetMobileCard({
           </div>
           <p className="mt-0.5 text-xs text-slate-500">
             {s.asset.platform}
-            {s.asset.currency !== 'CNY' && ` · ${s.asset.currency}`}
+            {s.asset.currency !== baseCurrency && ` · ${s.asset.currency}`}
+            <QuoteAge asset={s.asset} />
           </p>
         </div>
         <p className="text-sm font-semibold tabular-nums text-slate-800">{fmtMoney(s.valueCNY)}</p>
@@ -560,6 +675,16 @@ function AssetMobileCard({
             {fmtMoney(s.totalPnlCNY)}
           </span>
         )}
+        {s.realizedPnlCNY != null && s.unrealizedPnlCNY != null && (
+          <span className="text-slate-500">
+            已实现 {fmtMoney(s.realizedPnlCNY)} · 浮动 {fmtMoney(s.unrealizedPnlCNY)}
+          </span>
+        )}
+        {s.avgCost != null && (
+          <span className="text-slate-500">
+            均价 {fmtNum(s.avgCost)} {s.asset.currency}
+          </span>
+        )}
         {s.xirr != null && (
           <span className={pnlColor(s.xirr)} title="自持有以来的内部收益率（XIRR）">
             年化(XIRR) {fmtPct(s.xirr)}
@@ -577,20 +702,22 @@ function AssetMobileCard({
           最近记录 {s.lastUpdated != null ? fmtDateTime(s.lastUpdated) : '—'}
         </span>
       </div>
-      <div className="mt-2 flex gap-2" onClick={(e) => e.stopPropagation()}>
-        <button
-          className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs text-blue-600"
-          onClick={onRecordTx}
-        >
-          记一笔
-        </button>
-        <button
-          className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs text-slate-600"
-          onClick={onValuation}
-        >
-          更新估值
-        </button>
-      </div>
+      {!readOnly && (
+        <div className="mt-2 flex gap-2" onClick={(e) => e.stopPropagation()}>
+          <button
+            className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs text-blue-600"
+            onClick={onRecordTx}
+          >
+            记一笔
+          </button>
+          <button
+            className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs text-slate-600"
+            onClick={onValuation}
+          >
+            更新估值
+          </button>
+        </div>
+      )}
     </div>
   )
 }
@@ -604,6 +731,7 @@ function AssetDetail({
   onDelete,
   onViewClosedStrategies,
   onViewAllFlows,
+  onViewPriceData,
 }: {
   assetId: string
   onClose: () => void
@@ -613,6 +741,7 @@ function AssetDetail({
   onDelete: (a: Asset) => void
   onViewClosedStrategies?: (assetId: string) => void
   onViewAllFlows?: (assetId?: string) => void
+  onViewPriceData?: (symbol: string) => void
 }) {
   const summary = useSummary()
   const engine = usePortfolioEngine()
@@ -621,10 +750,19 @@ function AssetDetail({
   const addStrategy = useStore((s) => s.addStrategy)
   const updateStrategy = useStore((s) => s.updateStrategy)
   const deleteStrategy = useStore((s) => s.deleteStrategy)
-  const settings = useStore((s) => s.settings)
   const deleteTransaction = useStore((s) => s.deleteTransaction)
+  const transactions = useStore((s) => s.transactions)
+  const readOnly = useStore((s) => s.readOnly)
+  const recordDueLoanTxs = useStore((s) => s.recordDueLoanTxs)
+  const baseCurrency = useStore((s) => s.settings.baseCurrency)
+  const backfill = useStore((s) => s.backfill)
+  const backfillPrices = useStore((s) => s.backfillPrices)
+  const [backfillMsg, setBackfillMsg] = useState('')
   const snap = summary.snapshots.find((s) => s.asset.id === assetId)
   const asset = snap?.asset
+  const settlementAsset = asset?.settlementAssetId
+    ? assets.find((a) => a.id === asset.settlementAssetId)
+    : undefined
 
   type StrategyModalState =
     | { kind: 'addStrategy' }
@@ -632,6 +770,8 @@ function AssetDetail({
     | { kind: 'detailStrategy'; snap: StrategySnapshot }
     | null
   const [strategyModal, setStrategyModal] = useState<StrategyModalState>(null)
+  const [showLoanSchedule, setShowLoanSchedule] = useState(false)
+  const [showPrepayment, setShowPrepayment] = useState(false)
 
   const strategySnapshots = useMemo(
     () => strategyEngine.snapshotsByAsset(assetId),
@@ -646,13 +786,16 @@ function AssetDetail({
     if (!s) return []
     return engine.txLedger(s.asset)
   }, [engine, assetId, summary])
+  const [now] = useState(() => Date.now())
   if (!snap || !asset) return null
 
+  const loan = asset.loan ? loanStatus(asset.loan, now) : null
+  const pendingLoanTxs = asset.loan ? dueLoanTxs(asset, assets, transactions, now).length : 0
+
   const qtyBased = isQuantityBased(asset.type)
-  const showFx = asset.currency !== 'CNY'
+  const showFx = asset.currency !== baseCurrency
   const showInterval = !qtyBased && asset.type !== 'debt'
-  const fx = asset.currency === settings.baseCurrency ? 1 : (settings.fxRates[asset.currency] ?? 1)
-  const colSpan = (qtyBased ? 8 : showInterval ? 8 : 6) + (showFx ? 1 : 0)
+  const colSpan = (qtyBased ? 10 : showInterval ? 8 : 6) + (showFx ? 1 : 0)
 
   return (
     <Modal
@@ -687,17 +830,113 @@ function AssetDetail({
           value={snap.quantity > 0 ? fmtNum(snap.quantity) : fmtMoney(snap.netInvestedCNY)}
         />
       </div>
+      {qtyBased && (
+        <div className="mb-4 grid grid-cols-2 gap-3 sm:grid-cols-4">
+          <Mini
+            label="持仓均价"
+            title={`成本计算:${COST_BASIS_METHOD_LABEL[asset.costBasisMethod ?? DEFAULT_COST_BASIS_METHOD]}`}
+            value={snap.avgCost != null ? `${fmtNum(snap.avgCost)} ${asset.currency}` : '—'}
+          />
+          <Mini
+            label="已实现盈亏"
+            value={fmtMoney(snap.realizedPnlCNY ?? 0)}
+            cls={pnlColor(snap.realizedPnlCNY ?? 0)}
+          />
+          <Mini
+            label="浮动盈亏"
+            value={fmtMoney(snap.unrealizedPnlCNY ?? 0)}
+            cls={pnlColor(snap.unrealizedPnlCNY ?? 0)}
+          />
+          <Mini label="累计费用" title="手续费 + 税费" value={fmtMoney(snap.feesPaidCNY ?? 0)} />
+        </div>
+      )}
+      {asset.loan && loan && (
+        <div className="mb-4">
+          <div className="mb-2 flex flex-wrap items-center justify-between gap-2 text-xs text-slate-500">
+            <span>
+              {REPAYMENT_METHOD_LABEL[asset.loan.method]} · 年利率 {fmtPct(asset.loan.annualRate, 2, false)} ·{' '}
+              {asset.loan.termMonths} 期 · 已到期 {loan.duePeriods} 期
+              {loan.nextInstallment &&
+                ` · 下期 ${formatDateKey(loan.nextInstallment.dueAt)} 月供 ${fmtNum(loan.nextInstallment.payment, 2)}`}
+            </span>
+            <span className="flex gap-3">
+              {pendingLoanTxs > 0 && !readOnly && (
+                <button
+                  type="button"
+                  className="text-blue-600 hover:underline"
+                  onClick={() => recordDueLoanTxs([asset.id])}
+                >
+                  记入到期流水({pendingLoanTxs} 笔)
+                </button>
+              )}
+              <button
+                type="button"
+                className="text-blue-600 hover:underline"
+                onClick={() => setShowLoanSchedule(true)}
+              >
+                还款计划
+              </button>
+            </span>
+          </div>
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+            <Mini
+              label="剩余本金(计划)"
+              value={`${fmtNum(loan.remainingPrincipal, 2)} ${asset.currency}`}
+            />
+            <Mini label="已付利息" value={`${fmtNum(loan.interestPaid, 2)} ${asset.currency}`} />
+            <Mini label="剩余利息" value={`${fmtNum(loan.interestRemaining, 2)} ${asset.currency}`} />
+            <Mini label="结清日期" value={loan.payoffAt != null ? formatDateKey(loan.payoffAt) : '—'} />
+          </div>
+        </div>
+      )}
+      {settlementAsset && (
+        <p className="mb-4 text-xs text-slate-500">
+          结算账户:{settlementAsset.name}。买入自动扣款,卖出与现金分红自动入账。
+        </p>
+      )}
 
       <div className="mb-4 max-h-[min(50vh,28rem)] overflow-x-auto overflow-y-auto rounded-xl border border-slate-100">
-        {onViewAllFlows && (
-          <div className="flex justify-end border-b border-slate-100 px-3 py-2">
-            <button
-              type="button"
-              className="text-xs text-blue-600 transition-colors hover:text-blue-700"
-              onClick={() => onViewAllFlows(assetId)}
-            >
-              在全部流水中查看 →
-            </button>
+        {(onViewAllFlows || asset.type === 'debt' || asset.symbol) && (
+          <div className="flex items-center justify-end gap-4 border-b border-slate-100 px-3 py-2">
+            {backfillMsg && <span className="mr-auto text-xs text-slate-500">{backfillMsg}</span>}
+            {canBackfill(asset) && (
+              <button
+                type="button"
+                className="text-xs text-blue-600 transition-colors hover:text-blue-700 disabled:text-slate-400"
+                disabled={!!backfill}
+                title="从最早一笔流水起拉取每日收盘价,只补缺失的日期"
+                onClick={async () => setBackfillMsg(await backfillPrices([asset.id]))}
+              >
+                {backfill ? `回填中 ${backfill.done}/${backfill.total}…` : '回填历史行情'}
+              </button>
+            )}
+            {asset.symbol && onViewPriceData && (
+              <button
+                type="button"
+                className="text-xs text-blue-600 transition-colors hover:text-blue-700"
+                onClick={() => onViewPriceData(asset.symbol!)}
+              >
+                行情数据 →
+              </button>
+            )}
+            {asset.type === 'debt' && (
+              <button
+                type="button"
+                className="text-xs text-blue-600 transition-colors hover:text-blue-700"
+                onClick={() => setShowPrepayment(true)}
+              >
+                提前还款模拟
+              </button>
+            )}
+            {onViewAllFlows && (
+              <button
+                type="button"
+                className="text-xs text-blue-600 transition-colors hover:text-blue-700"
+                onClick={() => onViewAllFlows(assetId)}
+              >
+                在全部流水中查看 →
+              </button>
+            )}
           </div>
         )}
         <table className="w-full text-sm">
@@ -712,8 +951,16 @@ function AssetDetail({
                 </>
               )}
               <th className="px-3 py-2 font-medium text-right">发生额</th>
-              {showFx && <th className="px-3 py-2 font-medium text-right">折合 CNY</th>}
+              {showFx && <th className="px-3 py-2 font-medium text-right">折合 {baseCurrency}</th>}
               <th className="px-3 py-2 font-medium text-right">余额</th>
+              {qtyBased && (
+                <>
+                  <th className="px-3 py-2 font-medium text-right">持仓均价</th>
+                  <th className="px-3 py-2 font-medium text-right" title={`卖出所得 - 按成本法出库的成本(${baseCurrency})`}>
+                    已实现盈亏
+                  </th>
+                </>
+              )}
               {showInterval && (
                 <>
                   <th className="px-3 py-2 font-medium text-right">区间变化</th>
@@ -730,14 +977,18 @@ function AssetDetail({
             </tr>
           </thead>
           <tbody>
-            {ledger.map(({ tx, amountNative, balanceAfter, balanceLabel, intervalGainNative, intervalAnnualized }) => (
+            {ledger.map(({ tx, amountNative, balanceAfter, balanceLabel, intervalGainNative, intervalAnnualized, avgCostAfter, realizedPnlCNY, settlementOf }) => (
               <tr key={tx.id} className="border-t border-slate-100 hover:bg-slate-50/50">
                 <td className="px-3 py-2 text-xs tabular-nums text-slate-500">{fmtDateTime(tx.occurredAt)}</td>
-                <td className="px-3 py-2 text-slate-700">{TX_TYPE_LABEL[tx.type]}</td>
+                <td className="px-3 py-2 text-slate-700">
+                  {TX_TYPE_LABEL[tx.type]}
+                  {tx.transferId && <span className="ml-1 text-xs text-slate-400">(划转)</span>}
+                  {settlementOf && <span className="ml-1 text-xs text-slate-400">(结算)</span>}
+                </td>
                 {qtyBased && (
                   <>
                     <td className="px-3 py-2 text-right tabular-nums text-slate-700">
-                      {tx.quantity != null ? fmtNum(tx.quantity) : '—'}
+                      {tx.ratio != null ? `×${fmtNum(tx.ratio)}` : tx.quantity != null ? fmtNum(tx.quantity) : '—'}
                     </td>
                     <td className="px-3 py-2 text-right tabular-nums text-slate-700">
                       {tx.price != null ? `${fmtNum(tx.price)} ${asset.currency}` : '—'}
@@ -745,16 +996,37 @@ function AssetDetail({
                   </>
                 )}
                 <td className="px-3 py-2 text-right tabular-nums text-slate-700">
-                  {formatTxAmount(amountNative, asset.currency)}
+                  <div>{formatTxAmount(amountNative, asset.currency)}</div>
+                  {(tx.fee ?? 0) + (tx.tax ?? 0) > 0 && (
+                    <div className="text-xs text-slate-400" title="手续费 + 税费,已计入发生额">
+                      含费用 {fmtNum((tx.fee ?? 0) + (tx.tax ?? 0), 2)}
+                    </div>
+                  )}
                 </td>
                 {showFx && (
                   <td className="px-3 py-2 text-right tabular-nums text-slate-500">
-                    {amountNative != null ? fmtMoney(amountNative * fx) : '—'}
+                    {amountNative != null
+                      ? fmtMoney(amountNative * engine.fx(asset.currency, tx.occurredAt))
+                      : '—'}
                   </td>
                 )}
                 <td className="px-3 py-2 text-right tabular-nums text-slate-700">
                   {formatTxBalance(balanceAfter, balanceLabel, asset.currency)}
                 </td>
+                {qtyBased && (
+                  <>
+                    <td className="px-3 py-2 text-right tabular-nums text-slate-500">
+                      {avgCostAfter != null ? `${fmtNum(avgCostAfter)} ${asset.currency}` : '—'}
+                    </td>
+                    <td
+                      className={`px-3 py-2 text-right tabular-nums ${
+                        realizedPnlCNY != null ? pnlColor(realizedPnlCNY) : 'text-slate-500'
+                      }`}
+                    >
+                      {realizedPnlCNY != null ? fmtMoney(realizedPnlCNY) : '—'}
+                    </td>
+                  </>
+                )}
                 {showInterval && (
                   <>
                     <td
@@ -780,20 +1052,31 @@ function AssetDetail({
                 )}
                 <td className="max-w-32 truncate px-3 py-2 text-xs text-slate-500">{tx.note}</td>
                 <td className="px-3 py-2 text-right">
-                  <button
-                    className="mr-3 text-xs text-blue-600 hover:underline"
-                    onClick={() => onEditTx(tx)}
-                  >
-                    编辑
-                  </button>
-                  <button
-                    className="text-xs text-slate-500 hover:text-red-600"
-                    onClick={() => {
-                      if (confirm('删除这条流水?')) deleteTransaction(tx.id)
-                    }}
-                  >
-                    删除
-                  </button>
+                  {readOnly ? null : settlementOf ? (
+                    <span
+                      className="text-xs text-slate-400"
+                      title="由证券流水自动生成,请在证券资产中编辑来源流水"
+                    >
+                      {assets.find((a) => a.id === settlementOf.assetId)?.name ?? '证券'}
+                    </span>
+                  ) : (
+                    <>
+                      <button
+                        className="mr-3 text-xs text-blue-600 hover:underline"
+                        onClick={() => onEditTx(tx)}
+                      >
+                        编辑
+                      </button>
+                      <button
+                        className="text-xs text-slate-500 hover:text-red-600"
+                        onClick={() => {
+                          if (confirm('删除这条流水?')) deleteTransaction(tx.id)
+                        }}
+                      >
+                        删除
+                      </button>
+                    </>
+                  )}
                 </td>
               </tr>
             ))}
@@ -808,34 +1091,38 @@ function AssetDetail({
         </table>
       </div>
 
-      <div className="flex flex-wrap items-center justify-between gap-3 border-t border-slate-100 pt-4">
-        <button
-          type="button"
-          className="text-sm text-red-600 transition-colors hover:text-red-700"
-          onClick={() => onDelete(asset)}
-        >
-          删除资产
-        </button>
-        <div className="flex flex-wrap gap-2">
-          <button type="button" className={btnGhost} onClick={() => onEdit(asset)}>
-            编辑资产信息
-          </button>
-          <button type="button" className={btnPrimary} onClick={() => onAddTx(asset)}>
-            + 记一笔
+      {!readOnly && (
+        <div className="flex flex-wrap items-center justify-between gap-3 border-t border-slate-100 pt-4">
+          <button
+            type="button"
+            className="text-sm text-red-600 transition-colors hover:text-red-700"
+            onClick={() => onDelete(asset)}
+          >
+            删除资产
           </button>
+          <div className="flex flex-wrap gap-2">
+            <button type="button" className={btnGhost} onClick={() => onEdit(asset)}>
+              编辑资产信息
+            </button>
+            <button type="button" className={btnPrimary} onClick={() => onAddTx(asset)}>
+              + 记一笔
+            </button>
+          </div>
         </div>
-      </div>
+      )}
 
       {/* 跟踪策略区块 */}
       <div className="mt-4 border-t border-slate-100 pt-4">
         <div className="mb-3 flex items-center justify-between">
           <h3 className="text-sm font-medium text-slate-700">跟踪策略</h3>
-          <button
-            className="text-xs text-blue-600 transition-colors hover:text-blue-700"
-            onClick={() => setStrategyModal({ kind: 'addStrategy' })}
-          >
-            + 添加策略
-          </button>
+          {!readOnly && (
+            <button
+              className="text-xs text-blue-600 transition-colors hover:text-blue-700"
+              onClick={() => setStrategyModal({ kind: 'addStrategy' })}
+            >
+              + 添加策略
+            </button>
+          )}
         </div>
         {strategySnapshots.length > 0 && (
           <p className="mb-2 text-xs text-slate-500">
@@ -865,6 +1152,18 @@ function AssetDetail({
         )}
       </div>
 
+      {showPrepayment && (
+        <Modal title={`${asset.name} · 提前还款模拟`} onClose={() => setShowPrepayment(false)} size="xl">
+          <PrepaymentSimulator asset={asset} ledger={ledger} />
+        </Modal>
+      )}
+
+      {showLoanSchedule && asset.loan && loan && (
+        <Modal title={`${asset.name} · 还款计划`} onClose={() => setShowLoanSchedule(false)} size="lg">
+          <LoanSchedule schedule={loan.schedule} currency={asset.currency} transactions={transactions.filter((t) => t.assetId === asset.id)} now={now} />
+        </Modal>
+      )}
+
       {strategyModal?.kind === 'addStrategy' && (
         <Modal title="添加策略" onClose={() => setStrategyModal(null)}>
           <StrategyForm
@@ -1,19 +1,28 @@
-import { useMemo } from 'react'
+import { useMemo, useState } from 'react'
 import { TrendingUp } from 'lucide-react'
-import { useSummary } from '../hooks/useSummary'
+import { useMissingFxCurrencies, useSummary } from '../hooks/useSummary'
 import { useStrategySnapshots } from '../hooks/useStrategySummary'
 import { useStore } from '../store'
 import EChart from '../components/EChart'
 import { lightAxis, lightTooltip } from '../components/chartTheme'
 import { Card, CardBody, CardHeader } from '../components/ui/Card'
+import GoalsCard from '../components/GoalsCard'
+import AllocationCard from '../components/AllocationCard'
 import { btnGhost } from '../components/Modal'
-import { hexAlpha, palette } from '../theme/colors'
+import { categoricalHex, color, hexAlpha, palette } from '../theme/colors'
 import { ASSET_TYPE_COLOR, ASSET_TYPE_LABEL } from '../types'
+import type { AssetType } from '../types'
+import { breakdownBy, dimensionOptions, UNSET_LABEL } from '../engine/grouping'
+import type { GroupBy } from '../engine/grouping'
 import { fmtCompact, fmtMoney, fmtPct, pnlColor } from '../utils/format'
 
 export default function Dashboard({ goTo }: { goTo: (page: string) => void }) {
   const loadDemo = useStore((s) => s.loadDemo)
+  const pendingCount = useStore(
+    (s) => s.recurringRules.reduce((n, r) => n + (r.pending?.length ?? 0), 0) + s.pendingTxs.length,
+  )
   const summary = useSummary()
+  const missingFx = useMissingFxCurrencies()
   const { history } = summary
 
   const trendOption = useMemo(
@@ -84,8 +93,54 @@ export default function Dashboard({ goTo }: { goTo: (page: string) => void }) {
     [history],
   )
 
-  const pieOption = useMemo(
-    () => ({
+  const assets = useStore((s) => s.assets)
+  const [groupBy, setGroupBy] = useState<GroupBy>('type')
+  const [chartKind, setChartKind] = useState<'pie' | 'treemap'>('pie')
+  const groupOptions: { value: GroupBy; label: string }[] = [
+    { value: 'type', label: '按类别' },
+    { value: 'platform', label: '按平台' },
+    { value: 'currency', label: '按币种' },
+    { value: 'tag', label: '按标签' },
+    ...dimensionOptions(assets).map((d) => ({ value: `dim:${d.key}` as GroupBy, label: `按${d.key}` })),
+  ]
+
+  const distOption = useMemo(() => {
+    const typeByLabel = new Map(Object.entries(ASSET_TYPE_LABEL).map(([t, l]) => [l, t as AssetType]))
+    const data = breakdownBy(summary.snapshots, groupBy).map((g, i) => {
+      const type = groupBy === 'type' ? typeByLabel.get(g.label) : undefined
+      const fill =
+        g.label === UNSET_LABEL
+          ? palette.slate400
+          : type
+            ? ASSET_TYPE_COLOR[type]
+            : categoricalHex[i % categoricalHex.length]
+      return { name: g.label, value: Math.round(g.valueCNY), itemStyle: { color: fill } }
+    })
+    if (chartKind === 'treemap') {
+      return {
+        tooltip: {
+          ...lightTooltip,
+          formatter: (p: unknown) => {
+            const { name, value } = p as { name: string; value: number }
+            return `${name}<br/>${fmtMoney(value)}`
+          },
+        },
+        series: [
+          {
+            type: 'treemap' as const,
+            roam: false,
+            nodeClick: false as const,
+            breadcrumb: { show: false },
+            width: '100%',
+            height: '100%',
+            itemStyle: { borderColor: palette.surface, borderWidth: 2, gapWidth: 2 },
+            label: { color: palette.white, formatter: '{b}' },
+            data,
+          },
+        ],
+      }
+    }
+    return {
       tooltip: {
         trigger: 'item' as const,
         ...lightTooltip,
@@ -107,18 +162,11 @@ export default function Dashboard({ goTo }: { goTo: (page: string) => void }) {
           center: ['38%', '50%'],
           itemStyle: { borderColor: palette.surface, borderWidth: 2 },
           label: { show: false },
-          data: summary.byType
-            .filter((t) => t.type !== 'debt' && t.valueCNY > 0)
-            .map((t) => ({
-              name: ASSET_TYPE_LABEL[t.type],
-              value: Math.round(t.valueCNY),
-              itemStyle: { color: ASSET_TYPE_COLOR[t.type] },
-            })),
+          data,
         },
       ],
-    }),
-    [summary.byType],
-  )
+    }
+  }, [summary.snapshots, groupBy, chartKind])
 
   const topAssets = summary.snapshots.filter((s) => s.asset.type !== 'debt' && s.valueCNY > 0).slice(0, 6)
   const strategySnapshots = useStrategySnapshots()
@@ -162,6 +210,23 @@ export default function Dashboard({ goTo }: { goTo: (page: string) => void }) {
     <div className="space-y-6">
       <h1 className="text-xl font-semibold text-slate-800">总览</h1>
 
+      {missingFx.length > 0 && (
+        <div className={`${color.alertWarn} flex items-center justify-between gap-3`}>
+          <span>{missingFx.join('、')} 缺少汇率,相关资产暂按 1:1 折算,总额可能失真</span>
+          <button type="button" className="shrink-0 hover:underline" onClick={() => goTo('settings')}>
+            去设置 →
+          </button>
+        </div>
+      )}
+      {pendingCount > 0 && (
+        <div className={`${color.alertInfo} flex items-center justify-between gap-3`}>
+          <span>有 {pendingCount} 笔流水待确认</span>
+          <button type="button" className="shrink-0 text-xs hover:underline" onClick={() => goTo('flows')}>
+            去确认 →
+          </button>
+        </div>
+      )}
+
       <div className="grid gap-4 xl:grid-cols-5">
         <Card className="xl:col-span-3">
           <CardHeader>
@@ -173,14 +238,41 @@ export default function Dashboard({ goTo }: { goTo: (page: string) => void }) {
         </Card>
         <Card className="xl:col-span-2">
           <CardHeader>
-            <h3 className="text-sm font-medium text-slate-700">资产分布</h3>
+            <div className="flex items-center justify-between gap-2">
+              <h3 className="text-sm font-medium text-slate-700">资产分布</h3>
+              <div className="flex items-center gap-2">
+                <select
+                  className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs text-slate-600"
+                  value={groupBy}
+                  onChange={(e) => setGroupBy(e.target.value as GroupBy)}
+                >
+                  {groupOptions.map((o) => (
+                    <option key={o.value} value={o.value}>
+                      {o.label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  className="text-xs text-slate-500 transition-colors hover:text-slate-700"
+                  onClick={() => setChartKind(chartKind === 'pie' ? 'treemap' : 'pie')}
+                >
+                  {chartKind === 'pie' ? '矩形树图' : '环形图'}
+                </button>
+              </div>
+            </div>
           </CardHeader>
           <CardBody className="pt-2">
-            <EChart option={pieOption} height={300} />
+            <EChart option={distOption} height={300} />
+            {groupBy === 'tag' && <p className="text-xs text-slate-400">一项资产有多个标签时会分别计入,各组之和可能大于总资产。</p>}
           </CardBody>
         </Card>
       </div>
 
+      <div className="grid gap-4 xl:grid-cols-2">
+        <GoalsCard />
+        <AllocationCard snapshots={summary.snapshots} />
+      </div>
+
       <Card>
         <CardHeader>
           <div className="flex items-center justify-between">
@@ -0,0 +1,417 @@
+import { useMemo, useRef, useState } from 'react'
+import { useStore } from '../store'
+import { createFxLookup } from '../engine/fx'
+import { findOutliers, OUTLIER_THRESHOLD, parsePriceCsv, sortedPoints } from '../engine/priceData'
+import { Card, CardBody, CardHeader } from '../components/ui/Card'
+import EChart from '../components/EChart'
+import { lightAxis, lightTooltip } from '../components/chartTheme'
+import { btnGhost, btnPrimary, inputCls, labelCls } from '../components/Modal'
+import { color, palette } from '../theme/colors'
+import { fmtNum, fmtPct, pnlColor } from '../utils/format'
+import { formatDateKey, migrateDateToOccurredAt } from '../utils/time'
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/
+
+/** 行情数据:按行情代码查看、编辑、导入与清理价格点(行情库按基准货币保存) */
+export default function PriceData({ initialSymbol }: { initialSymbol?: string }) {
+  const prices = useStore((s) => s.prices)
+  const assets = useStore((s) => s.assets)
+  const settings = useStore((s) => s.settings)
+  const fxHistory = useStore((s) => s.fxHistory)
+  const deletePricePoints = useStore((s) => s.deletePricePoints)
+  const deletePriceSymbol = useStore((s) => s.deletePriceSymbol)
+  const base = settings.baseCurrency
+
+  const symbols = useMemo(
+    () => [...new Set([...Object.keys(prices), ...assets.filter((a) => a.symbol).map((a) => a.symbol!)])].sort(),
+    [prices, assets],
+  )
+  const [symbol, setSymbol] = useState(() => initialSymbol ?? Object.keys(prices).sort()[0] ?? '')
+  const users = assets.filter((a) => a.symbol === symbol)
+  const currencies = [...new Set([base, ...users.map((a) => a.currency)])]
+  const [unit, setUnit] = useState(() => assets.find((a) => a.symbol === symbol)?.currency ?? base)
+  const unitCurrency = currencies.includes(unit) ? unit : base
+
+  const fxLookup = useMemo(() => createFxLookup(settings, fxHistory), [settings, fxHistory])
+  /** 1 单位 unit = ? 基准货币(按该日历史汇率) */
+  const rate = (date: string) => fxLookup(unitCurrency, migrateDateToOccurredAt(date)) || 1
+
+  const points = useMemo(() => prices[symbol] ?? {}, [prices, symbol])
+  const sorted = useMemo(() => sortedPoints(points), [points])
+  const outliers = useMemo(() => findOutliers(points), [points])
+  const outlierDates = new Set(outliers.map((o) => o.date))
+
+  const chooseSymbol = (next: string) => {
+    setSymbol(next)
+    setUnit(assets.find((a) => a.symbol === next)?.currency ?? base)
+  }
+
+  const removeSymbol = () => {
+    const note = users.length > 0 ? `仍有 ${users.length} 项资产使用该代码,估值将回落到流水价格。` : ''
+    if (!confirm(`删除「${symbol}」的全部 ${sorted.length} 个价格点?${note}`)) return
+    deletePriceSymbol(symbol)
+    const next = symbols.find((s) => s !== symbol && prices[s])
+    chooseSymbol(next ?? '')
+  }
+
+  const option = {
+    tooltip: {
+      trigger: 'axis' as const,
+      ...lightTooltip,
+      valueFormatter: (v: unknown) => `${fmtNum(Number(v))} ${unitCurrency}`,
+    },
+    grid: { left: 12, right: 16, top: 16, bottom: 8, containLabel: true },
+    xAxis: { type: 'category' as const, data: sorted.map(([d]) => d), ...lightAxis, boundaryGap: false },
+    yAxis: { type: 'value' as const, ...lightAxis, scale: true },
+    series: [
+      {
+        name: '单价',
+        type: 'line' as const,
+        data: sorted.map(([d, p]) => ({
+          value: p / rate(d),
+          symbol: outlierDates.has(d) ? 'circle' : 'none',
+          symbolSize: 8,
+          itemStyle: { color: outlierDates.has(d) ? palette.red500 : palette.blue600 },
+        })),
+        showSymbol: true,
+        lineStyle: { width: 2, color: palette.blue600 },
+      },
+    ],
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h1 className="text-xl font-semibold text-slate-800">行情数据</h1>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            className={`${inputCls} w-auto min-w-48`}
+            value={symbol}
+            onChange={(e) => chooseSymbol(e.target.value)}
+            aria-label="行情代码"
+          >
+            {symbols.length === 0 && <option value="">暂无行情代码</option>}
+            {symbols.map((s) => (
+              <option key={s} value={s}>
+                {s} · {Object.keys(prices[s] ?? {}).length} 点
+              </option>
+            ))}
+          </select>
+          {currencies.length > 1 && (
+            <select
+              className={`${inputCls} w-auto`}
+              value={unitCurrency}
+              onChange={(e) => setUnit(e.target.value)}
+              aria-label="显示与录入币种"
+              title="按当日汇率换算显示;录入与导入也按此币种"
+            >
+              {currencies.map((c) => (
+                <option key={c} value={c}>
+                  {c}
+                </option>
+              ))}
+            </select>
+          )}
+          {sorted.length > 0 && (
+            <button className={btnGhost} onClick={removeSymbol}>
+              删除该代码
+            </button>
+          )}
+        </div>
+      </div>
+
+      {symbol && (
+        <p className="text-xs text-slate-500">
+          {sorted.length > 0
+            ? `${sorted.length} 个价格点 · ${sorted[0][0]} 至 ${sorted[sorted.length - 1][0]} · `
+            : '还没有价格点 · '}
+          {users.length > 0 ? (
+            `使用该代码的资产:${users.map((a) => a.name).join('、')}`
+          ) : (
+            <span className="text-amber-600">没有资产使用该代码,可能是输错或已改名的代码</span>
+          )}
+        </p>
+      )}
+
+      {outliers.length > 0 && (
+        <div className={color.alertWarn}>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <span>
+              发现 {outliers.length} 个疑似异常点(单日涨跌超过 {fmtPct(OUTLIER_THRESHOLD, 0, false)})
+            </span>
+            <button
+              type="button"
+              className="text-xs font-medium hover:underline"
+              onClick={() => deletePricePoints(symbol, outliers.map((o) => o.date))}
+            >
+              全部删除
+            </button>
+          </div>
+          <ul className="mt-2 space-y-1 text-xs">
+            {outliers.map((o) => (
+              <li key={o.date} className="flex items-center gap-3">
+                <span className="tabular-nums">
+                  {o.date} {fmtNum(o.price / rate(o.date))}(前一点 {o.prevDate} {fmtNum(o.prevPrice / rate(o.prevDate))},
+                  {fmtPct(o.change)})
+                </span>
+                <button type="button" className="hover:underline" onClick={() => deletePricePoints(symbol, [o.date])}>
+                  删除
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {sorted.length > 1 && (
+        <Card>
+          <CardBody>
+            <EChart option={option} height={280} />
+          </CardBody>
+        </Card>
+      )}
+
+      {symbol && (
+        <div className="grid gap-6 lg:grid-cols-2">
+          <PointTable
+            key={`${symbol}-${unitCurrency}`}
+            symbol={symbol}
+            sorted={sorted}
+            outlierDates={outlierDates}
+            unit={unitCurrency}
+            rate={rate}
+          />
+          <CsvImport key={symbol} symbol={symbol} unit={unitCurrency} rate={rate} existing={points} />
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface PointTableProps {
+  symbol: string
+  sorted: Array<[string, number]>
+  outlierDates: Set<string>
+  unit: string
+  rate: (date: string) => number
+}
+
+/** 价格点列表(新的在前),可添加、就地修改与删除 */
+function PointTable({ symbol, sorted, outlierDates, unit, rate }: PointTableProps) {
+  const upsertPricePoints = useStore((s) => s.upsertPricePoints)
+  const deletePricePoints = useStore((s) => s.deletePricePoints)
+  const [newDate, setNewDate] = useState(() => formatDateKey(Date.now()))
+  const [newPrice, setNewPrice] = useState('')
+  const [editing, setEditing] = useState<{ date: string; value: string } | null>(null)
+
+  const rows = [...sorted].reverse()
+  const prevOf = new Map(sorted.slice(1).map(([d], i) => [d, sorted[i][1]]))
+  const save = (date: string, value: string) => {
+    const n = Number(value)
+    if (!DATE_RE.test(date) || !(n > 0)) return false
+    upsertPricePoints(symbol, { [date]: n * rate(date) })
+    return true
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <h3 className="text-sm font-medium text-slate-700">价格点</h3>
+      </CardHeader>
+      <CardBody className="space-y-3">
+        <div className="flex items-end gap-2">
+          <div>
+            <label className={labelCls}>日期</label>
+            <input type="date" className={inputCls} value={newDate} onChange={(e) => setNewDate(e.target.value)} />
+          </div>
+          <div className="flex-1">
+            <label className={labelCls}>收盘价({unit})</label>
+            <input
+              type="number"
+              className={inputCls}
+              value={newPrice}
+              onChange={(e) => setNewPrice(e.target.value)}
+              step="any"
+              placeholder="同日已有价格点时覆盖"
+            />
+          </div>
+          <button
+            className={`${btnPrimary} shrink-0`}
+            disabled={!DATE_RE.test(newDate) || !(Number(newPrice) > 0)}
+            onClick={() => save(newDate, newPrice) && setNewPrice('')}
+          >
+            添加
+          </button>
+        </div>
+
+        {rows.length === 0 ? (
+          <p className="py-6 text-center text-sm text-slate-400">暂无价格点</p>
+        ) : (
+          <div className="max-h-[28rem] overflow-y-auto rounded-xl border border-slate-100">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-white">
+                <tr className="border-b border-slate-100 text-left text-xs text-slate-500">
+                  <th className="px-3 py-2 font-medium">日期</th>
+                  <th className="px-3 py-2 text-right font-medium">收盘价</th>
+                  <th className="px-3 py-2 text-right font-medium">日涨跌</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(([date, price]) => {
+                  const prev = prevOf.get(date)
+                  const change = prev ? price / prev - 1 : null
+                  return (
+                    <tr
+                      key={date}
+                      className={`border-t border-slate-100 ${outlierDates.has(date) ? 'bg-amber-50' : ''}`}
+                    >
+                      <td className="px-3 py-1.5 tabular-nums text-slate-600">{date}</td>
+                      <td className="px-3 py-1.5 text-right tabular-nums text-slate-700">
+                        {editing?.date === date ? (
+                          <input
+                            type="number"
+                            className={`${inputCls} ml-auto w-28 py-1 text-right`}
+                            value={editing.value}
+                            onChange={(e) => setEditing({ date, value: e.target.value })}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter' && save(date, editing.value)) setEditing(null)
+                              if (e.key === 'Escape') setEditing(null)
+                            }}
+                            step="any"
+                            autoFocus
+                          />
+                        ) : (
+                          fmtNum(price / rate(date))
+                        )}
+                      </td>
+                      <td className={`px-3 py-1.5 text-right text-xs tabular-nums ${pnlColor(change ?? 0)}`}>
+                        {change == null ? '—' : fmtPct(change)}
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-1.5 text-right text-xs">
+                        {editing?.date === date ? (
+                          <button
+                            type="button"
+                            className="text-blue-600 hover:underline"
+                            onClick={() => save(date, editing.value) && setEditing(null)}
+                          >
+                            保存
+                          </button>
+                        ) : (
+                          <button
+                            type="button"
+                            className="text-slate-500 hover:text-slate-700"
+                            onClick={() => setEditing({ date, value: String(price / rate(date)) })}
+                          >
+                            编辑
+                          </button>
+                        )}
+                        <button
+                          type="button"
+                          className="ml-3 text-slate-500 hover:text-red-600"
+                          onClick={() => deletePricePoints(symbol, [date])}
+                        >
+                          删除
+                        </button>
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardBody>
+    </Card>
+  )
+}
+
+interface CsvImportProps {
+  symbol: string
+  unit: string
+  rate: (date: string) => number
+  existing: Record<string, number>
+}
+
+/** 批量导入日收盘价 CSV:粘贴或选择文件,预览后导入 */
+function CsvImport({ symbol, unit, rate, existing }: CsvImportProps) {
+  const upsertPricePoints = useStore((s) => s.upsertPricePoints)
+  const [text, setText] = useState('')
+  const [overwrite, setOverwrite] = useState(false)
+  const [done, setDone] = useState('')
+  const fileRef = useRef<HTMLInputElement>(null)
+
+  const parsed = useMemo(() => parsePriceCsv(text), [text])
+  const dates = Object.keys(parsed.points)
+  const conflicts = dates.filter((d) => d in existing).length
+  const toWrite = overwrite ? dates : dates.filter((d) => !(d in existing))
+
+  const importPoints = () => {
+    upsertPricePoints(symbol, Object.fromEntries(toWrite.map((d) => [d, parsed.points[d] * rate(d)])))
+    setDone(`已导入 ${toWrite.length} 个价格点`)
+    setText('')
+  }
+
+  const onFile = async (file: File | undefined) => {
+    if (!file) return
+    setText(await file.text())
+    setDone('')
+    if (fileRef.current) fileRef.current.value = ''
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <h3 className="text-sm font-medium text-slate-700">导入 CSV</h3>
+        <p className="mt-1 text-xs text-slate-500">
+          每行「日期,收盘价」,价格按 {unit} 计;日期支持 2024-06-28、2024/6/28、20240628。多列的行情导出需带表头,按 close / 收盘 / 净值 列取价。
+        </p>
+      </CardHeader>
+      <CardBody className="space-y-3">
+        <textarea
+          className={`${inputCls} h-40 font-mono text-xs`}
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value)
+            setDone('')
+          }}
+          placeholder={'date,close\n2024-06-27,3.869\n2024-06-28,3.845'}
+        />
+        <div className="flex flex-wrap items-center gap-3">
+          <button type="button" className={btnGhost} onClick={() => fileRef.current?.click()}>
+            选择文件
+          </button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".csv,.txt,text/csv,text/plain"
+            className="hidden"
+            onChange={(e) => onFile(e.target.files?.[0])}
+          />
+          <label className="flex items-center gap-2 text-xs text-slate-600">
+            <input type="checkbox" checked={overwrite} onChange={(e) => setOverwrite(e.target.checked)} />
+            覆盖已有日期
+          </label>
+        </div>
+        {text.trim() && (
+          <div className="text-xs text-slate-500">
+            识别 {dates.length} 个价格点
+            {conflicts > 0 && `,其中 ${conflicts} 个日期已有数据(${overwrite ? '将覆盖' : '将跳过'})`}
+            {parsed.errors.length > 0 && (
+              <ul className="mt-1 text-amber-600">
+                {parsed.errors.slice(0, 5).map((e) => (
+                  <li key={e}>{e}</li>
+                ))}
+                {parsed.errors.length > 5 && <li>另有 {parsed.errors.length - 5} 行无法识别</li>}
+              </ul>
+            )}
+          </div>
+        )}
+        {done && <p className="text-xs text-green-600">{done}</p>}
+        <button className={btnPrimary} onClick={importPoints} disabled={toWrite.length === 0}>
+          导入{toWrite.length > 0 ? ` ${toWrite.length} 个价格点` : ''}
+        </button>
+      </CardBody>
+    </Card>
+  )
+}
@@ -1,9 +1,17 @@
 import { useMemo, useRef, useState } from 'react'
 import { useStore } from '../store'
-import { StorageService } from '../services/storage'
-import { fetchFxRates } from '../services/prices'
+import { isEncryptedBackup, parseImportFile, type ParsedImport } from '../services/storage'
+import { BASE_CURRENCIES } from '../types'
 import { Card, CardBody, CardHeader } from '../components/ui/Card'
-import { btnGhost, btnPrimary, inputCls, labelCls } from '../components/Modal'
+import FxRateTable from '../components/FxRateTable'
+import PriceProviderPanel from '../components/PriceProviderPanel'
+import AutoRefreshPanel from '../components/AutoRefreshPanel'
+import HolidayPanel from '../components/HolidayPanel'
+import StorageUsageMeter from '../components/StorageUsageMeter'
+import ImportPreview from '../components/ImportPreview'
+import ExportBackupForm from '../components/ExportBackupForm'
+import DecryptBackupForm from '../components/DecryptBackupForm'
+import Modal, { btnGhost, btnPrimary, inputCls, labelCls } from '../components/Modal'
 import { color } from '../theme/colors'
 import { formatFxRate, staleUpdateCls } from '../utils/format'
 import { isLocalLlmBaseUrl, isLocalLlmUnavailableOnRemoteHost } from '../services/llmClient'
@@ -11,32 +19,36 @@ import { isLocalLlmBaseUrl, isLocalLlmUnavailableOnRemoteHost } from '../service
 const FX_STALE_DAYS = 7
 const PRICES_STALE_DAYS = 7
 
-export default function Settings() {
+export default function Settings({ onOpenPriceData }: { onOpenPriceData?: () => void } = {}) {
   const assets = useStore((s) => s.assets)
+  const strategies = useStore((s) => s.strategies)
   const settings = useStore((s) => s.settings)
   const saveSettings = useStore((s) => s.saveSettings)
-  const refreshCryptoPrices = useStore((s) => s.refreshCryptoPrices)
-  const refreshing = useStore((s) => s.refreshing)
+  const saveFxRates = useStore((s) => s.saveFxRates)
+  const refreshFxRates = useStore((s) => s.refreshFxRates)
   const loadDemoData = useStore((s) => s.loadDemo)
-  const reload = useStore((s) => s.reload)
+  const changeBaseCurrency = useStore((s) => s.changeBaseCurrency)
+  const workspaces = useStore((s) => s.workspaces)
+  const workspaceId = useStore((s) => s.workspaceId)
+  const household = useStore((s) => s.readOnly)
+  const workspaceName = workspaces.find((w) => w.id === workspaceId)?.name ?? ''
 
-  const cryptoSymbols = useMemo(
-    () => [
-      ...new Set(
-        assets
-          .filter((a) => !a.archived && a.priceSource === 'coingecko' && a.symbol)
-          .map((a) => a.symbol!.toLowerCase()),
-      ),
-    ],
-    [assets],
-  )
+  const fxUsage = useMemo(() => {
+    const usage: Record<string, number> = {}
+    for (const c of [...assets.map((a) => a.currency), ...strategies.map((st) => st.currency)]) {
+      if (c !== settings.baseCurrency) usage[c] = (usage[c] ?? 0) + 1
+    }
+    return usage
+  }, [assets, strategies, settings.baseCurrency])
   const [msg, setMsg] = useState('')
+  const [exporting, setExporting] = useState(false)
+  const [encryptedImport, setEncryptedImport] = useState<string | null>(null)
+  const [pendingImport, setPendingImport] = useState<ParsedImport | null>(null)
   const fileRef = useRef<HTMLInputElement>(null)
 
   const [fx, setFx] = useState<Record<string, string>>(
     Object.fromEntries(Object.entries(settings.fxRates).map(([k, v]) => [k, formatFxRate(v)])),
   )
-  const [finnhubKey, setFinnhubKey] = useState(settings.finnhubKey ?? '')
   const [llm, setLlm] = useState(settings.llm)
   const [llmSendAssetNames, setLlmSendAssetNames] = useState(settings.llmSendAssetNames !== false)
   const [llmContextPrivacy, setLlmContextPrivacy] = useState<'summary' | 'detailed'>(
@@ -54,49 +66,60 @@ export default function Settings() {
       const n = Number(v)
       if (n > 0) fxRates[k] = Number(n.toFixed(4))
     }
-    saveSettings({ fxRates })
+    saveFxRates(fxRates)
     setFx(Object.fromEntries(Object.entries(fxRates).map(([k, v]) => [k, formatFxRate(v)])))
     flash('汇率已保存')
   }
 
-  const autoFx = async () => {
+  const changeBase = (currency: string) => {
+    const rate = settings.fxRates[currency]
+    if (
+      !confirm(
+        `将基准货币改为 ${currency}?行情库、历史汇率与目标金额会按 1 ${currency} = ${rate ?? '?'} ${settings.baseCurrency} 及各日历史汇率换算。建议先导出备份。`,
+      )
+    )
+      return
     try {
-      const fxRates = await fetchFxRates(settings)
-      saveSettings({ fxRates, fxUpdatedAt: Date.now() })
+      changeBaseCurrency(currency)
+      const fxRates = useStore.getState().settings.fxRates
       setFx(Object.fromEntries(Object.entries(fxRates).map(([k, v]) => [k, formatFxRate(v)])))
-      flash('汇率已自动更新(Frankfurter/欧洲央行)')
+      flash(`基准货币已改为 ${currency}`)
     } catch (e) {
-      flash(`自动更新失败:${(e as Error).message}`)
+      flash(`更换失败:${(e as Error).message}`)
     }
   }
 
-  const autoCrypto = async () => {
+  const autoFx = async () => {
     try {
-      const result = await refreshCryptoPrices()
-      flash(result.startsWith('当前没有') || result.startsWith('失败:') ? result : `加密货币行情已更新:${result}`)
+      const { fxRates, updated, failed } = await refreshFxRates()
+      setFx(Object.fromEntries(Object.entries(fxRates).map(([k, v]) => [k, formatFxRate(v)])))
+      flash(
+        `已更新 ${updated.join('、')} 的汇率` +
+          (failed.length ? `;${failed.join('、')} 无公开汇率,请手动填写` : ''),
+      )
     } catch (e) {
-      flash(`加密货币行情更新失败:${(e as Error).message}`)
+      flash(`自动更新失败:${(e as Error).message}`)
     }
   }
 
-  const exportData = () => {
-    const blob = new Blob([StorageService.exportAll()], { type: 'application/json' })
-    const a = document.createElement('a')
-    a.href = URL.createObjectURL(blob)
-    a.download = `panassetlite-backup-${new Date().toISOString().slice(0, 10)}.json`
-    a.click()
-    URL.revokeObjectURL(a.href)
+  const previewImport = (json: string) => {
+    try {
+      setPendingImport(parseImportFile(json))
+    } catch (e) {
+      flash(`导入失败:${(e as Error).message}`)
+    }
   }
 
   const importData = async (file: File) => {
+    let text: string
     try {
-      const text = await file.text()
-      const r = StorageService.importAll(text)
-      reload()
-      flash(`导入成功:${r.assets} 项资产、${r.transactions} 条流水`)
+      text = await file.text()
     } catch (e) {
       flash(`导入失败:${(e as Error).message}`)
+      return
     }
+    if (isEncryptedBackup(text)) setEncryptedImport(text)
+    else previewImport(text)
   }
 
   const loadDemo = () => {
@@ -104,7 +127,7 @@ export default function Settings() {
   }
 
   const clearAll = () => {
-    if (!confirm('确定清空所有本地数据?建议先导出备份。此操作不可恢复!')) return
+    if (!confirm('确定清空所有本地数据(包括全部账本)?建议先导出备份。此操作不可恢复!')) return
     useStore.getState().clearAll()
     flash('已清空')
   }
@@ -116,22 +139,22 @@ export default function Settings() {
 
       <Section
         title="汇率"
-        desc="非人民币资产按此汇率折算为 CNY 展示。可手动填写,或一键从免费接口更新。"
+        desc="汇总、图表、AI 简报与导出都以基准货币计价,其他币种的资产按此汇率折算。每次保存或更新都会记为当日的历史汇率点,过往流水按发生当日的汇率折算。"
       >
-        <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
-          {Object.keys(fx).map((k) => (
-            <div key={k}>
-              <label className={labelCls}>{k} → CNY</label>
-              <input
-                className={inputCls}
-                type="number"
-                step="0.0001"
-                value={fx[k]}
-                onChange={(e) => setFx({ ...fx, [k]: e.target.value })}
-              />
-            </div>
-          ))}
+        <div className="mb-3 w-40">
+          <label className={labelCls}>基准货币</label>
+          <select className={inputCls} value={settings.baseCurrency} onChange={(e) => changeBase(e.target.value)}>
+            {BASE_CURRENCIES.map((c) => (
+              <option key={c} value={c}>
+                {c}
+              </option>
+            ))}
+          </select>
         </div>
+        <FxRateTable settings={settings} value={fx} onChange={setFx} usage={fxUsage} staleDays={FX_STALE_DAYS} />
+        <p className="mt-2 text-xs text-slate-500">
+          自动获取会覆盖资产与策略用到的全部币种:法币取欧洲央行汇率,USDT 等稳定币取 CoinGecko 报价;获取不到的请手动填写。
+        </p>
         <div className="mt-3 flex flex-wrap items-center gap-2">
           <button className={btnPrimary} onClick={saveFx}>
             保存汇率
@@ -150,50 +173,38 @@ export default function Settings() {
       </Section>
 
       <Section
-        title="行情 API(可选)"
-        desc="加密货币行情使用 CoinGecko 免费接口,无需配置。美股行情需要 Finnhub 免费 key(finnhub.io 注册即得)。"
+        title="行情来源"
+        desc="资产选择自动行情来源后,可在此获取今日价格,写入本地并按日保存(同一天重复获取以最后一次为准)。需要 key 的来源未配置时,对应资产仍按手动估值。"
       >
-        <div className="space-y-3">
-          <div>
-            <p className="text-xs text-slate-500">
-              为行情来源选 CoinGecko 的加密资产拉取 CNY 单价,写入本地并按日保存(同一天重复获取以最后一次为准)。
+        <PriceProviderPanel onMessage={flash} />
+        <div className="mt-4 flex flex-wrap items-center justify-between gap-2">
+          {settings.pricesUpdatedAt && (
+            <p
+              className={`text-xs ${staleUpdateCls(new Date(settings.pricesUpdatedAt).toISOString(), PRICES_STALE_DAYS)}`}
+            >
+              上次更新:{new Date(settings.pricesUpdatedAt).toLocaleString('zh-CN')}
             </p>
-            {cryptoSymbols.length > 0 && (
-              <p className="mt-1 text-xs text-slate-500">
-                将更新:{cryptoSymbols.join('、')}
-              </p>
-            )}
-            <div className="mt-3 flex flex-wrap items-center gap-2">
-              <button className={btnPrimary} onClick={autoCrypto} disabled={refreshing}>
-                {refreshing ? '获取中…' : '自动获取加密货币行情'}
-              </button>
-              {settings.pricesUpdatedAt && (
-                <span
-                  className={`text-xs ${staleUpdateCls(new Date(settings.pricesUpdatedAt).toISOString(), PRICES_STALE_DAYS)}`}
-                >
-                  上次更新:{new Date(settings.pricesUpdatedAt).toLocaleString('zh-CN')}
-                </span>
-              )}
-            </div>
-          </div>
+          )}
+          {onOpenPriceData && (
+            <button type="button" className="text-xs text-blue-600 hover:underline" onClick={onOpenPriceData}>
+              查看与编辑行情数据 →
+            </button>
+          )}
         </div>
-        <label className={`${labelCls} mt-5`}>Finnhub API Key</label>
-        <input
-          className={inputCls}
-          type="password"
-          value={finnhubKey}
-          onChange={(e) => setFinnhubKey(e.target.value)}
-          placeholder="留空则美股资产手动估值"
-        />
-        <button
-          className={`${btnPrimary} mt-3`}
-          onClick={() => {
-            saveSettings({ finnhubKey: finnhubKey.trim() || undefined })
-            flash('已保存')
-          }}
-        >
-          保存
-        </button>
+      </Section>
+
+      <Section
+        title="自动刷新"
+        desc="打开应用时行情已过期即自动刷新,之后在页面可见时定时刷新;某个来源连续失败时按 5 分钟起翻倍的间隔暂停重试,手动刷新不受影响。"
+      >
+        <AutoRefreshPanel onMessage={flash} />
+      </Section>
+
+      <Section
+        title="节假日"
+        desc="周期规则开启「遇周末或节假日顺延」时,发生日落在周末或下列日期的顺延到下一个工作日。法定节假日每年公布后请在此补充。"
+      >
+        <HolidayPanel onMessage={flash} />
       </Section>
 
       <Section
@@ -301,16 +312,20 @@ export default function Settings() {
 
       <Section
         title="数据管理"
-        desc="所有数据仅保存在当前浏览器的 LocalStorage 中。换设备或清缓存前,请先导出备份。"
+        desc="所有数据仅保存在当前浏览器的本地数据库(IndexedDB)中。换设备或清缓存前,请先导出备份;备份可去掉密钥并用密码加密。有多个账本时,导出与导入只针对当前账本。"
       >
+        <div className="mb-4">
+          <StorageUsageMeter />
+        </div>
+        {household && <p className="mb-3 text-xs text-amber-600">家庭合并视图下不能导入导出,请先切换到具体账本。</p>}
         <div className="flex flex-wrap gap-2">
-          <button className={btnPrimary} onClick={exportData}>
-            导出备份(JSON)
+          <button className={btnPrimary} onClick={() => setExporting(true)} disabled={household}>
+            {workspaces.length > 1 && !household ? `导出「${workspaceName}」(JSON)` : '导出备份(JSON)'}
           </button>
-          <button className={btnGhost} onClick={() => fileRef.current?.click()}>
-            导入备份
+          <button className={btnGhost} onClick={() => fileRef.current?.click()} disabled={household}>
+            {workspaces.length > 1 && !household ? `导入到「${workspaceName}」` : '导入备份'}
           </button>
-          <button className={btnGhost} onClick={loadDemo}>
+          <button className={btnGhost} onClick={loadDemo} disabled={household}>
             加载演示数据
           </button>
           <button className={color.btnDanger} onClick={clearAll}>
@@ -330,6 +345,42 @@ export default function Settings() {
         </div>
       </Section>
 
+      {exporting && (
+        <Modal title="导出备份" onClose={() => setExporting(false)}>
+          <ExportBackupForm
+            onDone={(m) => {
+              setExporting(false)
+              if (m) flash(m)
+            }}
+          />
+        </Modal>
+      )}
+
+      {encryptedImport && (
+        <Modal title="解密备份" onClose={() => setEncryptedImport(null)}>
+          <DecryptBackupForm
+            encrypted={encryptedImport}
+            onCancel={() => setEncryptedImport(null)}
+            onDecrypted={(json) => {
+              setEncryptedImport(null)
+              previewImport(json)
+            }}
+          />
+        </Modal>
+      )}
+
+      {pendingImport && (
+        <Modal title="导入备份" size="lg" onClose={() => setPendingImport(null)}>
+          <ImportPreview
+            parsed={pendingImport}
+            onDone={(m) => {
+              setPendingImport(null)
+              if (m) flash(m)
+            }}
+          />
+        </Modal>
+      )}
+
       <p className="pb-6 text-center text-xs text-slate-400">
         PanassetLite · 本地优先 · 隐私至上 —— 不注册、不上传,你的财务数据只属于你。
       </p>
@@ -16,10 +16,11 @@ import StrategyFilters from '../components/StrategyFilters'
 import PeriodReturnsCard from '../components/PeriodReturnsCard'
 import { Card, CardHeader } from '../components/ui/Card'
 import { useTableSort } from '../hooks/useTableSort'
-import type { StrategySnapshot } from '../types'
+import type { Asset, StrategySnapshot } from '../types'
 import { STRATEGY_KIND_LABEL } from '../types'
 import { fmtDateTime, fmtMoney, fmtPct, isUpdateStale, pnlColor, staleUpdateCls } from '../utils/format'
 import { sortBy, type SortState } from '../utils/tableSort'
+import { matchesLabelFilter } from '../engine/grouping'
 
 type StrategySortKey = 'name' | 'kind' | 'asset' | 'valueCNY' | 'totalPnlCNY' | 'xirr' | 'recentAnnualized' | 'lastUpdated'
 
@@ -46,10 +47,13 @@ function filterSnapshots(
   snapshots: StrategySnapshot[],
   filterAsset: string,
   filterKind: string,
+  filterLabel: string,
+  assetMap: Map<string, Asset>,
 ) {
   return snapshots.filter((s) => {
     if (filterAsset && s.strategy.assetId !== filterAsset) return false
     if (filterKind && s.strategy.kind !== filterKind) return false
+    if (filterLabel && !matchesLabelFilter(assetMap.get(s.strategy.assetId), filterLabel)) return false
     return true
   })
 }
@@ -120,9 +124,11 @@ function StrategyTableRow({
 
 export default function Strategies({ initial, onViewAllFlows }: Props) {
   const assets = useStore((s) => s.assets)
+  const strategies = useStore((s) => s.strategies)
   const addStrategy = useStore((s) => s.addStrategy)
   const updateStrategy = useStore((s) => s.updateStrategy)
   const deleteStrategy = useStore((s) => s.deleteStrategy)
+  const readOnly = useStore((s) => s.readOnly)
 
   const allSnapshots = useStrategySnapshots()
   const archivedSnapshots = useArchivedStrategySnapshots()
@@ -132,6 +138,7 @@ export default function Strategies({ initial, onViewAllFlows }: Props) {
     () => initial?.filterAsset ?? StorageService.loadStrategiesFilterAsset(),
   )
   const [filterKind, setFilterKind] = useState(() => StorageService.loadStrategiesFilterKind())
+  const [filterLabel, setFilterLabel] = useState('')
   const [showClosed, setShowClosed] = useState(
     () => initial?.showClosed ?? StorageService.loadStrategiesShowClosed(),
   )
@@ -165,21 +172,23 @@ export default function Strategies({ initial, onViewAllFlows }: Props) {
         counts.set(s.strategy.assetId, (counts.get(s.strategy.assetId) ?? 0) + 1)
       }
     }
-    return [...counts.entries()].map(([id, count]) => ({
-      id,
-      name: assetMap.get(id)?.name ?? '(已删除)',
-      count,
-    }))
-  }, [allSnapshots, archivedSnapshots, showClosed, assetMap])
+    return [...counts.entries()]
+      .filter(([id]) => matchesLabelFilter(assetMap.get(id), filterLabel))
+      .map(([id, count]) => ({
+        id,
+        name: assetMap.get(id)?.name ?? '(已删除)',
+        count,
+      }))
+  }, [allSnapshots, archivedSnapshots, showClosed, assetMap, filterLabel])
 
   const filtered = useMemo(
-    () => filterSnapshots(allSnapshots, filterAsset, filterKind),
-    [allSnapshots, filterAsset, filterKind],
+    () => filterSnapshots(allSnapshots, filterAsset, filterKind, filterLabel, assetMap),
+    [allSnapshots, filterAsset, filterKind, filterLabel, assetMap],
   )
 
   const filteredClosed = useMemo(
-    () => filterSnapshots(archivedSnapshots, filterAsset, filterKind),
-    [archivedSnapshots, filterAsset, filterKind],
+    () => filterSnapshots(archivedSnapshots, filterAsset, filterKind, filterLabel, assetMap),
+    [archivedSnapshots, filterAsset, filterKind, filterLabel, assetMap],
   )
 
   const strategyAccessors = useMemo(
@@ -312,7 +321,7 @@ export default function Strategies({ initial, onViewAllFlows }: Props) {
               type="button"
               className={btnPrimary}
               onClick={() => setModal({ kind: 'add' })}
-              disabled={activeAssets.length === 0}
+              disabled={readOnly || activeAssets.length === 0}
             >
               + 添加策略
             </button>
@@ -332,7 +341,7 @@ export default function Strategies({ initial, onViewAllFlows }: Props) {
             type="button"
             className={btnPrimary}
             onClick={() => setModal({ kind: 'add' })}
-            disabled={activeAssets.length === 0}
+            disabled={readOnly || activeAssets.length === 0}
           >
             + 添加第一个策略
           </button>
@@ -358,7 +367,7 @@ export default function Strategies({ initial, onViewAllFlows }: Props) {
               type="button"
               className={btnPrimary}
               onClick={() => setModal({ kind: 'add' })}
-              disabled={activeAssets.length === 0}
+              disabled={readOnly || activeAssets.length === 0}
             >
               + 添加策略
             </button>
@@ -403,7 +412,7 @@ export default function Strategies({ initial, onViewAllFlows }: Props) {
             type="button"
             className={btnPrimary}
             onClick={() => setModal({ kind: 'add' })}
-            disabled={activeAssets.length === 0}
+            disabled={readOnly || activeAssets.length === 0}
           >
             + 添加策略
           </button>
@@ -413,12 +422,16 @@ export default function Strategies({ initial, onViewAllFlows }: Props) {
       <StrategyFilters
         filterAsset={filterAsset}
         filterKind={filterKind}
+        filterLabel={filterLabel}
         onAssetChange={setFilterAsset}
         onKindChange={setFilterKind}
+        onLabelChange={setFilterLabel}
         assetOptions={assetOptions}
+        labelAssets={assets.filter((a) => strategies.some((s) => s.assetId === a.id))}
         onClear={() => {
           setFilterAsset('')
           setFilterKind('')
+          setFilterLabel('')
         }}
         showClosed={showClosed}
         archivedCount={archivedSnapshots.length}
@@ -4,10 +4,17 @@ import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts'
 import Modal, { btnGhost, btnPrimary, inputCls, labelCls } from '../components/Modal'
 import { SortTh } from '../components/SortTh'
 import TxForm from '../components/TxForm'
+import TransferForm from '../components/TransferForm'
+import StatementImport from '../components/StatementImport'
 import StrategyTxForm from '../components/StrategyTxForm'
 import FlowFilters from '../components/FlowFilters'
+import PendingOccurrences from '../components/PendingOccurrences'
+import RecurringRuleList from '../components/RecurringRuleList'
 import { Card, CardBody } from '../components/ui/Card'
+import { color } from '../theme/colors'
 import { useTableSort } from '../hooks/useTableSort'
+import { groupTransferLegs, isTransferOut, transferDraftFromLegs } from '../engine/transfer'
+import { matchesLabelFilter } from '../engine/grouping'
 import type { Strategy, StrategyTransaction, Transaction } from '../types'
 import { STRATEGY_TX_TYPE_LABEL, TX_TYPE_LABEL } from '../types'
 import { fmtDateTime, fmtNum } from '../utils/format'
@@ -42,7 +49,12 @@ function strategyTxDetailSortValue(t: StrategyTransaction): number | null {
   return null
 }
 
-type AssetModalState = { kind: 'add'; assetId?: string } | { kind: 'edit'; tx: Transaction } | null
+type AssetModalState =
+  | { kind: 'add'; assetId?: string }
+  | { kind: 'edit'; tx: Transaction }
+  | { kind: 'transfer'; transferId?: string }
+  | { kind: 'statement' }
+  | null
 type StrategyModalState =
   | { kind: 'add'; strategyId?: string }
   | { kind: 'edit'; tx: StrategyTransaction }
@@ -60,6 +72,10 @@ export default function Transactions({ initial }: Props) {
   const addTransaction = useStore((s) => s.addTransaction)
   const updateTransaction = useStore((s) => s.updateTransaction)
   const deleteTransaction = useStore((s) => s.deleteTransaction)
+  const addTransfer = useStore((s) => s.addTransfer)
+  const updateTransfer = useStore((s) => s.updateTransfer)
+  const settings = useStore((s) => s.settings)
+  const readOnly = useStore((s) => s.readOnly)
   const addStrategyTransaction = useStore((s) => s.addStrategyTransaction)
   const updateStrategyTransaction = useStore((s) => s.updateStrategyTransaction)
   const deleteStrategyTransaction = useStore((s) => s.deleteStrategyTransaction)
@@ -68,10 +84,13 @@ export default function Transactions({ initial }: Props) {
   const [filterAsset, setFilterAsset] = useState(() => initial?.filterAssetId ?? '')
   const [filterStrategy, setFilterStrategy] = useState(() => initial?.filterStrategyId ?? '')
   const [filterStrategyAsset, setFilterStrategyAsset] = useState('')
+  const [filterLabel, setFilterLabel] = useState('')
   const [assetModal, setAssetModal] = useState<AssetModalState>(null)
   const [strategyModal, setStrategyModal] = useState<StrategyModalState>(null)
   const [pickAssetId, setPickAssetId] = useState('')
   const [pickStrategyId, setPickStrategyId] = useState('')
+  const [showRules, setShowRules] = useState(false)
+  const [msg, setMsg] = useState('')
 
   const { sort: assetSort, handleSort: handleAssetSort } = useTableSort(DEFAULT_TX_SORT, TX_TEXT_KEYS)
   const { sort: strategySort, handleSort: handleStrategySort } = useTableSort(
@@ -111,18 +130,18 @@ export default function Transactions({ initial }: Props) {
   }, [filterStrategy, strategyMap])
 
   const openAddAssetTx = useCallback(() => {
-    if (activeAssets.length === 0) return
+    if (readOnly || activeAssets.length === 0) return
     const id = resolveAddAssetId()
     setPickAssetId(id ?? '')
     setAssetModal({ kind: 'add', assetId: id })
-  }, [activeAssets.length, resolveAddAssetId])
+  }, [readOnly, activeAssets.length, resolveAddAssetId])
 
   const openAddStrategyTx = useCallback(() => {
-    if (activeStrategies.length === 0) return
+    if (readOnly || activeStrategies.length === 0) return
     const id = resolveAddStrategyId()
     setPickStrategyId(id ?? '')
     setStrategyModal({ kind: 'add', strategyId: id })
-  }, [activeStrategies.length, resolveAddStrategyId])
+  }, [readOnly, activeStrategies.length, resolveAddStrategyId])
 
   const txAccessors = useMemo(
     (): Record<TxSortKey, (t: Transaction) => string | number | null | undefined> => ({
@@ -153,18 +172,29 @@ export default function Transactions({ initial }: Props) {
     [assetMap, strategyMap],
   )
 
+  const transferLegs = useMemo(() => groupTransferLegs(transactions), [transactions])
+
   const assetRows = useMemo(() => {
-    const filtered = transactions.filter((t) => !filterAsset || t.assetId === filterAsset)
+    const labelled = (t: Transaction) => matchesLabelFilter(assetMap.get(t.assetId), filterLabel)
+    // 未按资产筛选时,一次划转只展示转出那一行(转出一侧被标签筛掉时展示转入)
+    const filtered = transactions.filter((t) => {
+      if (filterAsset) return t.assetId === filterAsset
+      if (!labelled(t)) return false
+      return (
+        !t.transferId ||
+        isTransferOut(t) ||
+        !transferLegs.get(t.transferId)?.some((leg) => isTransferOut(leg) && labelled(leg))
+      )
+    })
     return sortBy(filtered, assetSort, txAccessors)
-  }, [transactions, filterAsset, assetSort, txAccessors])
+  }, [transactions, transferLegs, filterAsset, filterLabel, assetMap, assetSort, txAccessors])
 
   const strategyRows = useMemo(() => {
     const filtered = strategyTransactions.filter((t) => {
       if (filterStrategy && t.strategyId !== filterStrategy) return false
-      if (filterStrategyAsset) {
-        const s = strategyMap.get(t.strategyId)
-        if (!s || s.assetId !== filterStrategyAsset) return false
-      }
+      const s = strategyMap.get(t.strategyId)
+      if (filterStrategyAsset && (!s || s.assetId !== filterStrategyAsset)) return false
+      if (filterLabel && !matchesLabelFilter(s && assetMap.get(s.assetId), filterLabel)) return false
       return true
     })
     return sortBy(filtered, strategySort, strategyTxAccessors)
@@ -172,9 +202,11 @@ export default function Transactions({ initial }: Props) {
     strategyTransactions,
     filterStrategy,
     filterStrategyAsset,
+    filterLabel,
     strategySort,
     strategyTxAccessors,
     strategyMap,
+    assetMap,
   ])
 
   const assetFlowOptions = useMemo(() => {
@@ -182,16 +214,21 @@ export default function Transactions({ initial }: Props) {
     for (const t of transactions) {
       counts.set(t.assetId, (counts.get(t.assetId) ?? 0) + 1)
     }
-    return assets.map((a) => ({
-      id: a.id,
-      name: a.name,
-      count: counts.get(a.id) ?? 0,
-    }))
-  }, [assets, transactions])
+    return assets
+      .filter((a) => matchesLabelFilter(a, filterLabel))
+      .map((a) => ({
+        id: a.id,
+        name: a.name,
+        count: counts.get(a.id) ?? 0,
+      }))
+  }, [assets, transactions, filterLabel])
 
   const strategyFlowAssetOptions = useMemo(
-    () => assets.map((a) => ({ id: a.id, name: a.name })),
-    [assets],
+    () =>
+      assets
+        .filter((a) => matchesLabelFilter(a, filterLabel))
+        .map((a) => ({ id: a.id, name: a.name })),
+    [assets, filterLabel],
   )
 
   const strategyFlowOptions = useMemo(() => {
@@ -200,14 +237,18 @@ export default function Transactions({ initial }: Props) {
       counts.set(t.strategyId, (counts.get(t.strategyId) ?? 0) + 1)
     }
     return strategies
-      .filter((s) => !filterStrategyAsset || s.assetId === filterStrategyAsset)
+      .filter(
+        (s) =>
+          (!filterStrategyAsset || s.assetId === filterStrategyAsset) &&
+          matchesLabelFilter(assetMap.get(s.assetId), filterLabel),
+      )
       .map((s) => ({
         id: s.id,
         name: s.name,
         archived: s.archived,
         count: counts.get(s.id) ?? 0,
       }))
-  }, [strategies, strategyTransactions, filterStrategyAsset])
+  }, [strategies, strategyTransactions, filterStrategyAsset, filterLabel, assetMap])
 
   const handleStrategyAssetChange = useCallback(
     (id: string) => {
@@ -221,6 +262,7 @@ export default function Transactions({ initial }: Props) {
   )
 
   const handleClearFilters = useCallback(() => {
+    setFilterLabel('')
     if (tab === 'asset') {
       setFilterAsset('')
     } else {
@@ -229,7 +271,7 @@ export default function Transactions({ initial }: Props) {
     }
   }, [tab])
 
-  const modalOpen = assetModal !== null || strategyModal !== null
+  const modalOpen = assetModal !== null || strategyModal !== null || showRules
 
   useKeyboardShortcuts(
     useMemo(
@@ -261,29 +303,61 @@ export default function Transactions({ initial }: Props) {
     <div className="space-y-6">
       <div className="flex flex-wrap items-center justify-between gap-3">
         <h1 className="text-xl font-semibold text-slate-800">流水</h1>
-        <button
-          className={`${btnPrimary} shrink-0 whitespace-nowrap`}
-          onClick={() => {
-            if (tab === 'asset') openAddAssetTx()
-            else openAddStrategyTx()
-          }}
-          disabled={tab === 'asset' ? activeAssets.length === 0 : activeStrategies.length === 0}
-        >
-          + 记一笔
-        </button>
+        <div className="flex gap-2">
+          {!readOnly && (
+            <button className={`${btnGhost} shrink-0 whitespace-nowrap`} onClick={() => setShowRules(true)}>
+              周期规则
+            </button>
+          )}
+          {tab === 'asset' && (
+            <button
+              className={`${btnGhost} shrink-0 whitespace-nowrap`}
+              onClick={() => setAssetModal({ kind: 'transfer' })}
+              disabled={readOnly || activeAssets.length < 2}
+            >
+              划转
+            </button>
+          )}
+          {tab === 'asset' && (
+            <button
+              className={`${btnGhost} shrink-0 whitespace-nowrap`}
+              onClick={() => setAssetModal({ kind: 'statement' })}
+              disabled={readOnly || activeAssets.length === 0}
+            >
+              导入对账单
+            </button>
+          )}
+          <button
+            className={`${btnPrimary} shrink-0 whitespace-nowrap`}
+            onClick={() => {
+              if (tab === 'asset') openAddAssetTx()
+              else openAddStrategyTx()
+            }}
+            disabled={readOnly || (tab === 'asset' ? activeAssets.length === 0 : activeStrategies.length === 0)}
+          >
+            + 记一笔
+          </button>
+        </div>
       </div>
 
+      {msg && <p className={color.alertInfo}>{msg}</p>}
+
+      <PendingOccurrences />
+
       <FlowFilters
         tab={tab}
         onTabChange={setTab}
         filterAsset={filterAsset}
         filterStrategyAsset={filterStrategyAsset}
         filterStrategy={filterStrategy}
+        filterLabel={filterLabel}
         assetOptions={tab === 'asset' ? assetFlowOptions : strategyFlowAssetOptions}
         strategyOptions={strategyFlowOptions}
+        labelAssets={assets}
         onAssetChange={setFilterAsset}
         onStrategyAssetChange={handleStrategyAssetChange}
         onStrategyChange={setFilterStrategy}
+        onLabelChange={setFilterLabel}
         onClear={handleClearFilters}
       />
 
@@ -293,7 +367,14 @@ export default function Transactions({ initial }: Props) {
           assetMap={assetMap}
           sort={assetSort}
           onSort={handleAssetSort}
-          onEdit={(tx) => setAssetModal({ kind: 'edit', tx })}
+          transferLegs={transferLegs}
+          onEdit={(tx) =>
+            setAssetModal(
+              tx.transferId && transferLegs.get(tx.transferId)?.length === 2
+                ? { kind: 'transfer', transferId: tx.transferId }
+                : { kind: 'edit', tx },
+            )
+          }
           onDelete={(id) => deleteTransaction(id)}
         />
       ) : (
@@ -308,6 +389,12 @@ export default function Transactions({ initial }: Props) {
         />
       )}
 
+      {showRules && (
+        <Modal title="周期规则" onClose={() => setShowRules(false)} size="lg">
+          <RecurringRuleList />
+        </Modal>
+      )}
+
       {assetModal?.kind === 'add' && (
         <Modal
           title={addAsset ? `${addAsset.name} · 记一笔` : '记一笔'}
@@ -387,6 +474,45 @@ export default function Transactions({ initial }: Props) {
         </Modal>
       )}
 
+      {assetModal?.kind === 'transfer' && (() => {
+        const transferId = assetModal.transferId
+        const initialDraft = transferId
+          ? transferDraftFromLegs(transferLegs.get(transferId) ?? []) ?? undefined
+          : undefined
+        return (
+          <Modal title={transferId ? '编辑划转' : '划转'} onClose={() => setAssetModal(null)}>
+            <TransferForm
+              assets={assets}
+              settings={settings}
+              defaultFromAssetId={resolveAddAssetId()}
+              initial={initialDraft}
+              onSubmit={(t) => {
+                if (transferId) updateTransfer(transferId, t)
+                else addTransfer(t)
+                setAssetModal(null)
+              }}
+              onCancel={() => setAssetModal(null)}
+            />
+          </Modal>
+        )
+      })()}
+
+      {assetModal?.kind === 'statement' && (
+        <Modal title="导入对账单" onClose={() => setAssetModal(null)} size="xl">
+          <StatementImport
+            assets={assets}
+            defaultAssetId={resolveAddAssetId()}
+            onDone={(m) => {
+              setAssetModal(null)
+              if (m) {
+                setMsg(m)
+                setTimeout(() => setMsg(''), 4000)
+              }
+            }}
+          />
+        </Modal>
+      )}
+
       {strategyModal?.kind === 'add' && (
         <Modal
           title={addStrategy ? `${addStrategy.name} · 记一笔` : '记一笔'}
@@ -478,6 +604,7 @@ export default function Transactions({ initial }: Props) {
 function AssetFlowTable({
   rows,
   assetMap,
+  transferLegs,
   sort,
   onSort,
   onEdit,
@@ -485,6 +612,7 @@ function AssetFlowTable({
 }: {
   rows: Transaction[]
   assetMap: Map<string, { name: string; currency: string }>
+  transferLegs: Map<string, Transaction[]>
   sort: SortState<TxSortKey>
   onSort: (key: TxSortKey) => void
   onEdit: (tx: Transaction) => void
@@ -540,6 +668,7 @@ function AssetFlowTable({
               {rows.map((t) => {
                 const asset = assetMap.get(t.assetId)
                 const cur = asset?.currency ?? ''
+                const transfer = transferView(t, transferLegs, assetMap)
                 return (
                   <tr
                     key={t.id}
@@ -548,14 +677,21 @@ function AssetFlowTable({
                     <td className="px-4 py-2.5 text-xs tabular-nums text-slate-500">
                       {fmtDateTime(t.occurredAt)}
                     </td>
-                    <td className="px-3 py-2.5 text-slate-700">{asset?.name ?? '(已删除)'}</td>
+                    <td className="px-3 py-2.5 text-slate-700">
+                      {transfer?.assets ?? asset?.name ?? '(已删除)'}
+                    </td>
                     <td className="px-3 py-2.5">
                       <span className="rounded-full border border-slate-100 bg-slate-50 px-2 py-0.5 text-xs text-slate-600">
-                        {TX_TYPE_LABEL[t.type]}
+                        {transfer?.label ?? TX_TYPE_LABEL[t.type]}
                       </span>
+                      {t.recurringRuleId && (
+                        <span className="ml-1 text-xs text-slate-400" title="由周期规则生成">
+                          周期
+                        </span>
+                      )}
                     </td>
                     <td className="px-3 py-2.5 text-right tabular-nums text-slate-700">
-                      {formatAssetDetail(t, cur)}
+                      {transfer?.detail ?? formatAssetDetail(t, cur)}
                     </td>
                     <td className="max-w-40 truncate px-3 py-2.5 text-xs text-slate-500">
                       {t.note}
@@ -582,19 +718,24 @@ function AssetFlowTable({
         {rows.map((t) => {
           const asset = assetMap.get(t.assetId)
           const cur = asset?.currency ?? ''
+          const transfer = transferView(t, transferLegs, assetMap)
           return (
             <Card key={t.id}>
               <CardBody className="space-y-2">
                 <div className="flex items-start justify-between gap-2">
                   <div>
-                    <p className="font-medium text-slate-800">{asset?.name ?? '(已删除)'}</p>
+                    <p className="font-medium text-slate-800">
+                      {transfer?.assets ?? asset?.name ?? '(已删除)'}
+                    </p>
                     <p className="text-xs tabular-nums text-slate-500">{fmtDateTime(t.occurredAt)}</p>
                   </div>
                   <span className="shrink-0 rounded-full border border-slate-100 bg-slate-50 px-2 py-0.5 text-xs text-slate-600">
-                    {TX_TYPE_LABEL[t.type]}
+                    {transfer?.label ?? TX_TYPE_LABEL[t.type]}
                   </span>
                 </div>
-                <p className="text-sm tabular-nums text-slate-700">{formatAssetDetail(t, cur)}</p>
+                <p className="text-sm tabular-nums text-slate-700">
+                  {transfer?.detail ?? formatAssetDetail(t, cur)}
+                </p>
                 {t.note && <p className="text-xs text-slate-500">{t.note}</p>}
                 <div className="flex justify-end pt-1">
                   <FlowActions onEdit={() => onEdit(t)} onDelete={() => onDelete(t.id)} />
@@ -707,6 +848,11 @@ function StrategyFlowTable({
                       <span className="rounded-full border border-sky-100 bg-sky-50 px-2 py-0.5 text-xs text-sky-700">
                         {STRATEGY_TX_TYPE_LABEL[t.type]}
                       </span>
+                      {t.recurringRuleId && (
+                        <span className="ml-1 text-xs text-slate-400" title="由周期规则生成">
+                          周期
+                        </span>
+                      )}
                     </td>
                     <td className="px-3 py-2.5 text-right tabular-nums text-slate-700">
                       {formatStrategyDetail(t, cur)}
@@ -768,12 +914,43 @@ function StrategyFlowTable({
 }
 
 function formatAssetDetail(t: Transaction, cur: string): string {
-  if (t.quantity != null && t.price != null) return `${fmtNum(t.quantity)} × ${fmtNum(t.price)} ${cur}`
+  if (t.type === 'SPLIT' && t.ratio != null) return `1 → ${fmtNum(t.ratio)} 份`
+  if (t.type === 'BONUS_SHARES' && t.quantity != null) return `+${fmtNum(t.quantity)} 份`
+  if (t.type === 'DIVIDEND' && t.amount != null && t.quantity != null) {
+    return `${fmtNum(t.amount, 2)} ${cur} → 再投资 ${fmtNum(t.quantity)} 份`
+  }
+  if (t.quantity != null && t.price != null) {
+    const charges = (t.fee ?? 0) + (t.tax ?? 0)
+    const base = `${fmtNum(t.quantity)} × ${fmtNum(t.price)} ${cur}`
+    return charges > 0 ? `${base} · 费用 ${fmtNum(charges, 2)}` : base
+  }
   if (t.amount != null) return `${fmtNum(t.amount, 2)} ${cur}`
   if (t.value != null) return `市值 ${fmtNum(t.value, 2)} ${cur}`
   return '—'
 }
 
+/** 划转行的展示:资产列为「转出 → 转入」,明细为两侧金额 */
+function transferView(
+  t: Transaction,
+  transferLegs: Map<string, Transaction[]>,
+  assetMap: Map<string, { name: string; currency: string }>,
+): { assets: string; label: string; detail: string } | null {
+  if (!t.transferId) return null
+  const legs = transferLegs.get(t.transferId) ?? []
+  const out = legs.find(isTransferOut)
+  const into = legs.find((l) => l !== out)
+  if (!out || !into) return null
+  const from = assetMap.get(out.assetId)
+  const to = assetMap.get(into.assetId)
+  const outText = `${fmtNum(out.amount ?? 0, 2)} ${from?.currency ?? ''}`
+  const inText = `${fmtNum(into.amount ?? 0, 2)} ${to?.currency ?? ''}`
+  return {
+    assets: `${from?.name ?? '(已删除)'} → ${to?.name ?? '(已删除)'}`,
+    label: t === out ? '划转' : '划转转入',
+    detail: from?.currency === to?.currency ? outText : `${outText} → ${inText}`,
+  }
+}
+
 function formatStrategyDetail(t: StrategyTransaction, cur: string): string {
   if (t.amount != null) return `${fmtNum(t.amount, 2)} ${cur}`
   if (t.value != null) return `市值 ${fmtNum(t.value, 2)} ${cur}`
@@ -787,6 +964,8 @@ function FlowActions({
   onEdit: () => void
   onDelete: () => void
 }) {
+  const readOnly = useStore((s) => s.readOnly)
+  if (readOnly) return null
   return (
     <>
       <button
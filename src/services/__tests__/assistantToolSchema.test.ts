@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest'
+import { validateToolArgs } from '../assistantToolSchema'
+
+describe('validateToolArgs propose_add_flow', () => {
+  it('SPLIT 缺少 ratio 或 ratio 不为正时报错', () => {
+    for (const ratio of [undefined, 0, -2]) {
+      const result = validateToolArgs('propose_add_flow', { assetId: 'a', type: 'SPLIT', ratio })
+      expect(result).toEqual({ ok: false, errors: ['SPLIT 须提供大于 0 的 ratio(拆分后份额/拆分前份额)'] })
+    }
+  })
+
+  it('SPLIT 带 ratio 时通过,其他类型不要求 ratio', () => {
+    expect(validateToolArgs('propose_add_flow', { assetId: 'a', type: 'SPLIT', ratio: 10 })).toEqual({
+      ok: true,
+      args: { assetId: 'a', type: 'SPLIT', ratio: 10 },
+    })
+    expect(validateToolArgs('propose_add_flow', { assetId: 'a', type: 'DEPOSIT', amount: 100 }).ok).toBe(true)
+  })
+})
@@ -1,7 +1,11 @@
-import type { PortfolioSummary, Settings } from '../types'
+import type { AllocationDrift, Asset, GoalProgress, PortfolioSummary, Settings, Strategy } from '../types'
 import type { LlmContextPrivacy } from '../types/assistant'
 import { ASSET_TYPE_LABEL } from '../types'
+import { allocationDrift } from '../engine/allocation'
+import { missingFxCurrencies, usedCurrencies } from '../engine/fx'
 import { postChatCompletions, readChatCompletionStream } from './llmClient'
+import { formatDateKey } from '../utils/time'
+import { fmtMoney } from '../utils/format'
 
 /**
  * AI 智能顾问。
@@ -32,7 +36,33 @@ const LEVEL_LABEL: Record<InsightLevel, string> = {
   good: '良好',
 }
 
-export function analyzePortfolio(summary: PortfolioSummary): HealthReport {
+/** 健康检查所需的组合数据;AI 简报与助手工具共用,同一组合得到同样的评分与洞察 */
+export interface AnalysisContext {
+  summary: PortfolioSummary
+  settings: Settings
+  assets: Asset[]
+  strategies?: Strategy[]
+  /** 目标进度;健康检查据此提示进度落后的目标 */
+  goals?: GoalProgress[]
+}
+
+/** 由组合数据算出配置偏离与缺失汇率,再做健康检查 */
+export function analyzePortfolioContext(ctx: AnalysisContext): HealthReport {
+  const { summary, settings } = ctx
+  const drift = allocationDrift(settings.allocationBuckets ?? [], summary.snapshots, settings.allocationTolerance)
+  const missingFx = missingFxCurrencies(
+    usedCurrencies(ctx.assets, ctx.strategies ?? [], settings.baseCurrency),
+    settings,
+  )
+  return analyzePortfolio(summary, ctx.goals, drift, missingFx)
+}
+
+export function analyzePortfolio(
+  summary: PortfolioSummary,
+  goals: GoalProgress[] = [],
+  allocation: AllocationDrift[] = [],
+  missingFx: string[] = [],
+): HealthReport {
   const insights: Insight[] = []
   let score = 100
   const { totalAssetsCNY: assets, totalDebtCNY: debt, snapshots } = summary
@@ -182,7 +212,7 @@ export function analyzePortfolio(summary: PortfolioSummary): HealthReport {
     insights.push({
       level: 'warn',
       title: `「${s.asset.name}」浮亏较大`,
-      detail: `累计盈亏 ${s.totalPnlCNY.toFixed(0)} 元(约 ${pct(s.totalPnlCNY / s.netInvestedCNY)})。回顾一下当初的买入逻辑是否仍然成立。`,
+      detail: `累计盈亏 ${fmtMoney(s.totalPnlCNY)}(约 ${pct(s.totalPnlCNY / s.netInvestedCNY)})。回顾一下当初的买入逻辑是否仍然成立。`,
     })
   }
 
@@ -215,6 +245,58 @@ export function analyzePortfolio(summary: PortfolioSummary): HealthReport {
     })
   }
 
+  // 10. 目标进度
+  for (const p of goals) {
+    const { goal } = p
+    if (p.status === 'offTrack') {
+      score -= 3
+      const plan = goal.deadline
+        ? `要在 ${goal.deadline} 前达成,每月需投入约 ${fmtMoney(p.requiredMonthlyCNY ?? 0)},按当前每月 ${fmtMoney(p.monthlyContributionCNY)} 预测${p.projectedAt != null ? `要到 ${formatDateKey(p.projectedAt)}` : '难以达成'}。`
+        : `按当前每月 ${fmtMoney(p.monthlyContributionCNY)} 与近一年收益预测,五十年内难以达成,需要提高投入。`
+      insights.push({
+        level: 'warn',
+        title: `目标「${goal.name}」进度落后`,
+        detail: `当前 ${fmtMoney(p.currentCNY)},目标 ${fmtMoney(goal.targetCNY)}(完成 ${pct(p.ratio)})。${plan}`,
+      })
+    } else if (p.status === 'achieved') {
+      insights.push({
+        level: 'good',
+        title: `目标「${goal.name}」已达成`,
+        detail: `当前 ${fmtMoney(p.currentCNY)},已超过目标 ${fmtMoney(goal.targetCNY)}。`,
+      })
+    }
+  }
+
+  // 11. 偏离自定的目标配置
+  const drifted = allocation.filter((d) => d.bucket && d.outOfBand)
+  if (drifted.length > 0) {
+    score -= Math.min(10, drifted.length * 3)
+    insights.push({
+      level: 'warn',
+      title: '配置偏离目标',
+      detail: `${drifted
+        .map((d) => `「${d.bucket!.name}」实际 ${pct(d.actual)},目标 ${pct(d.target)}`)
+        .join(';')},超出容忍带。可在总览页「目标配置」生成再平衡建议。`,
+    })
+  } else if (allocation.some((d) => d.bucket)) {
+    insights.push({
+      level: 'good',
+      title: '配置符合目标',
+      detail: '各组占比都在自定的容忍带内。',
+    })
+  }
+
+  // 12. 汇率缺失:相关资产按 1 折算,总额失真
+  if (missingFx.length > 0) {
+    const affected = snapshots.filter((s) => missingFx.includes(s.asset.currency))
+    score -= Math.min(15, missingFx.length * 5)
+    insights.push({
+      level: 'warn',
+      title: '部分币种缺少汇率',
+      detail: `${missingFx.join('、')} 没有汇率,${affected.length} 项资产暂按 1:1 折算,上面的占比与总额可能失真。请在设置页获取或填写汇率。`,
+    })
+  }
+
   score = Math.max(0, Math.min(100, score))
   const grade = score >= 85 ? '优秀' : score >= 70 ? '良好' : score >= 55 ? '一般' : '需改善'
   const order: Record<InsightLevel, number> = { danger: 0, warn: 1, info: 2, good: 3 }
@@ -224,15 +306,13 @@ export function analyzePortfolio(summary: PortfolioSummary): HealthReport {
 
 // ── LLM 增强(可选) ─────────────────────────────────────────────────────────
 
-export function buildPortfolioBrief(
-  summary: PortfolioSummary,
-  privacy: LlmContextPrivacy = 'detailed',
-): string {
+export function buildPortfolioBrief(ctx: AnalysisContext, privacy: LlmContextPrivacy = 'detailed'): string {
+  const { summary } = ctx
   const lines: string[] = []
   const { totalAssetsCNY: assets, totalDebtCNY: debt } = summary
 
   lines.push(
-    `总资产 ¥${assets.toFixed(0)},负债 ¥${debt.toFixed(0)},净资产 ¥${summary.netWorthCNY.toFixed(0)}`,
+    `总资产 ${fmtMoney(assets)},负债 ${fmtMoney(debt)},净资产 ${fmtMoney(summary.netWorthCNY)}`,
   )
   if (assets > 0) {
     lines.push(`负债率 ${pct(debt / assets)}`)
@@ -244,7 +324,7 @@ export function buildPortfolioBrief(
         .map((t) => {
           const share =
             assets > 0 && t.valueCNY > 0 ? ` ${pct(t.valueCNY / assets)}` : ''
-          return `${ASSET_TYPE_LABEL[t.type]}${share} ¥${t.valueCNY.toFixed(0)}`
+          return `${ASSET_TYPE_LABEL[t.type]}${share} ${fmtMoney(t.valueCNY)}`
         })
         .join(','),
   )
@@ -253,7 +333,7 @@ export function buildPortfolioBrief(
     lines.push('区间收益:')
     for (const p of summary.periodReturns) {
       const ratioStr = p.ratio != null ? `,收益率 ${pct(p.ratio)}` : ''
-      lines.push(`- ${p.label}: 收益 ¥${p.pnlCNY.toFixed(0)}${ratioStr}`)
+      lines.push(`- ${p.label}: 收益 ${fmtMoney(p.pnlCNY)}${ratioStr}`)
     }
   }
 
@@ -274,7 +354,7 @@ export function buildPortfolioBrief(
     }
   }
 
-  const report = analyzePortfolio(summary)
+  const report = analyzePortfolioContext(ctx)
   if (report.insights.length > 0) {
     lines.push(`本地健康评分 ${report.score}/100(${report.grade}),已检出的问题与优点:`)
     for (const i of report.insights) {
@@ -287,10 +367,10 @@ export function buildPortfolioBrief(
     for (const s of summary.snapshots) {
       if (s.valueCNY <= 0) continue
       const parts = [
-        `- ${s.asset.name}(${ASSET_TYPE_LABEL[s.asset.type]}):市值 ¥${s.valueCNY.toFixed(0)}`,
+        `- ${s.asset.name}(${ASSET_TYPE_LABEL[s.asset.type]}):市值 ${fmtMoney(s.valueCNY)}`,
       ]
       if (s.asset.type !== 'debt') {
-        parts.push(`累计盈亏 ¥${s.totalPnlCNY.toFixed(0)}`)
+        parts.push(`累计盈亏 ${fmtMoney(s.totalPnlCNY)}`)
         if (s.xirr != null) parts.push(`年化 ${(s.xirr * 100).toFixed(1)}%`)
         if (s.recentAnnualized != null)
           parts.push(`近期区间年化 ${(s.recentAnnualized * 100).toFixed(1)}%`)
@@ -305,7 +385,7 @@ export function buildPortfolioBrief(
   if (h.length >= 2) {
     const monthAgoIdx = Math.max(0, h.length - 31)
     const delta = h[h.length - 1].netWorth - h[monthAgoIdx].netWorth
-    lines.push(`近一个月净资产变动:¥${delta.toFixed(0)}`)
+    lines.push(`近一个月净资产变动:${fmtMoney(delta)}`)
   }
   return lines.join('\n')
 }
@@ -361,12 +441,12 @@ export function resolveAdvisorPrompt(userInput: string): string | null {
 }
 
 export async function streamLlmAdvice(
-  summary: PortfolioSummary,
-  settings: Settings,
+  ctx: AnalysisContext,
   question: string | undefined,
   onDelta: (accumulated: string) => void,
   signal?: AbortSignal,
 ): Promise<string> {
+  const { settings } = ctx
   const { baseUrl, apiKey, model } = settings.llm
   if (!apiKey) throw new Error('未配置 LLM API key,请到设置页填写(或仅使用本地规则分析)')
 
@@ -376,7 +456,7 @@ export async function streamLlmAdvice(
     '直接给结论和理由,不要免责声明套话。用 markdown 列表组织内容,控制在 400 字以内。'
   const privacy: LlmContextPrivacy =
     settings.llmContextPrivacy === 'summary' ? 'summary' : 'detailed'
-  const user = `我的资产组合如下:\n${buildPortfolioBrief(summary, privacy)}\n\n${
+  const user = `我的资产组合如下:\n${buildPortfolioBrief(ctx, privacy)}\n\n${
     question?.trim() || DEFAULT_ADVISOR_PROMPT
   }`
 
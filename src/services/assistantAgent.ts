@@ -1,4 +1,4 @@
-import type { PortfolioSummary, Settings } from '../types'
+import type { Settings } from '../types'
 import type { AppPageId, ChatMessage, LlmContextPrivacy, PendingAction } from '../types/assistant'
 import { buildPortfolioBrief } from './ai'
 import {
@@ -13,6 +13,7 @@ import {
   executeAssistantTool,
   isWriteTool,
 } from './assistantTools'
+import { currencySymbol } from '../utils/format'
 
 const MAX_TOOL_ITERATIONS = 8
 
@@ -46,12 +47,8 @@ function resolveContextPrivacy(settings: Settings): LlmContextPrivacy {
   return settings.llmContextPrivacy === 'summary' ? 'summary' : 'detailed'
 }
 
-function buildSystemPrompt(
-  summary: PortfolioSummary,
-  currentPage: AppPageId,
-  settings: Settings,
-): string {
-  const privacy = resolveContextPrivacy(settings)
+function buildSystemPrompt(ctx: AssistantToolContext, currentPage: AppPageId): string {
+  const privacy = resolveContextPrivacy(ctx.settings)
   const privacyNote =
     privacy === 'summary'
       ? '当前用户已选择「仅汇总」隐私模式,系统上下文不含具体资产名称与单项盈亏。'
@@ -64,7 +61,7 @@ function buildSystemPrompt(
     '导入导出、清空数据、LLM 配置请用 open_settings 引导用户去设置页手动操作。' +
     `当前页面:${currentPage}。${privacyNote}` +
     '\n\n当前资产组合摘要:\n' +
-    buildPortfolioBrief(summary, privacy)
+    buildPortfolioBrief(ctx, privacy)
   )
 }
 
@@ -167,7 +164,7 @@ export async function runLocalQuickReply(
       }
       const lines = ['**资产列表**', '']
       for (const a of data.assets) {
-        lines.push(`- ${a.name}(${a.type}): ¥${a.valueCNY.toLocaleString()}`)
+        lines.push(`- ${a.name}(${a.type}): ${currencySymbol()}${a.valueCNY.toLocaleString()}`)
       }
       if (data.assets.length === 0) lines.push('暂无资产')
       return { assistantContent: lines.join('\n'), pendingActions: [] }
@@ -234,15 +231,15 @@ function formatSummaryResult(json: string): string {
       byType: Array<{ type: string; valueCNY: number }>
     }
     const lines = [
-      `- 净资产: ¥${data.netWorthCNY.toLocaleString()}`,
-      `- 总资产: ¥${data.totalAssetsCNY.toLocaleString()}`,
-      `- 负债: ¥${data.totalDebtCNY.toLocaleString()}`,
-      `- 累计盈亏: ¥${data.totalPnlCNY.toLocaleString()}`,
+      `- 净资产: ${currencySymbol()}${data.netWorthCNY.toLocaleString()}`,
+      `- 总资产: ${currencySymbol()}${data.totalAssetsCNY.toLocaleString()}`,
+      `- 负债: ${currencySymbol()}${data.totalDebtCNY.toLocaleString()}`,
+      `- 累计盈亏: ${currencySymbol()}${data.totalPnlCNY.toLocaleString()}`,
       '',
       '**类别分布:**',
     ]
     for (const t of data.byType) {
-      if (t.valueCNY > 0) lines.push(`- ${t.type}: ¥${t.valueCNY.toLocaleString()}`)
+      if (t.valueCNY > 0) lines.push(`- ${t.type}: ${currencySymbol()}${t.valueCNY.toLocaleString()}`)
     }
     return lines.join('\n')
   } catch {
@@ -261,7 +258,7 @@ export async function runAssistantTurn(
 
   const historyMessages = dedupeTrailingUserMessage(chatHistoryToApi(history), userInput)
   const apiMessages: ApiMessage[] = [
-    { role: 'system', content: buildSystemPrompt(ctx.summary, currentPage, ctx.settings) },
+    { role: 'system', content: buildSystemPrompt(ctx, currentPage) },
     ...historyMessages,
     { role: 'user', content: userInput },
   ]
@@ -20,6 +20,9 @@ const TX_TYPES = new Set<TxType>([
   'VALUATION',
   'BORROW',
   'REPAY',
+  'SPLIT',
+  'BONUS_SHARES',
+  'DIVIDEND',
 ])
 
 const APP_PAGES = new Set(['dashboard', 'assets', 'strategies', 'flows', 'settings'])
@@ -192,6 +195,7 @@ export function validateToolArgs(
         'quantity',
         'price',
         'value',
+        'ratio',
         'note',
       ])
       const keyErrors = rejectUnknownKeys(raw, allowed)
@@ -205,6 +209,7 @@ export function validateToolArgs(
         ...optionalNumber(raw, 'quantity'),
         ...optionalNumber(raw, 'price'),
         ...optionalNumber(raw, 'value'),
+        ...optionalNumber(raw, 'ratio'),
       ]
       if (raw.type !== undefined && raw.type !== null) {
         if (typeof raw.type !== 'string' || !TX_TYPES.has(raw.type as TxType)) {
@@ -214,6 +219,9 @@ export function validateToolArgs(
       if (raw.date !== undefined && typeof raw.date === 'string' && !/^\d{4}-\d{2}-\d{2}$/.test(raw.date)) {
         errors.push('date 格式须为 YYYY-MM-DD')
       }
+      if (raw.type === 'SPLIT' && !(typeof raw.ratio === 'number' && raw.ratio > 0)) {
+        errors.push('SPLIT 须提供大于 0 的 ratio(拆分后份额/拆分前份额)')
+      }
       const hasNl = typeof raw.naturalLanguage === 'string' && raw.naturalLanguage.trim()
       const hasStructured = raw.type !== undefined
       if (!hasNl && !hasStructured) errors.push('请提供 naturalLanguage 或 type 等结构化字段')
@@ -1,7 +1,7 @@
-import type { Asset, PortfolioSummary, Settings, Transaction } from '../types'
+import type { Asset, GoalProgress, PortfolioSummary, Settings, Strategy, Transaction } from '../types'
 import { ASSET_TYPE_LABEL, TX_TYPE_LABEL } from '../types'
 import type { AppPageId, PendingAction, ToolExecutionResult } from '../types/assistant'
-import { analyzePortfolio } from './ai'
+import { analyzePortfolioContext } from './ai'
 import { parseNaturalLanguageTx } from './nlTx'
 import { nlResultToTxInitial } from '../services/nlTx'
 import { fmtDateTime } from '../utils/format'
@@ -14,6 +14,9 @@ export interface AssistantToolContext {
   transactions: Transaction[]
   settings: Settings
   summary: PortfolioSummary
+  strategies?: Strategy[]
+  /** 目标进度;健康检查据此提示进度落后的目标 */
+  goals?: GoalProgress[]
   navigate: (page: AppPageId) => void
   refreshPrices: () => Promise<string>
 }
@@ -153,13 +156,26 @@ export const ASSISTANT_TOOL_DEFINITIONS = [
           assetId: { type: 'string' },
           type: {
             type: 'string',
-            enum: ['BUY', 'SELL', 'DEPOSIT', 'WITHDRAW', 'INCOME', 'VALUATION', 'BORROW', 'REPAY'],
+            enum: [
+              'BUY',
+              'SELL',
+              'DEPOSIT',
+              'WITHDRAW',
+              'INCOME',
+              'VALUATION',
+              'BORROW',
+              'REPAY',
+              'SPLIT',
+              'BONUS_SHARES',
+              'DIVIDEND',
+            ],
           },
           date: { type: 'string', description: 'YYYY-MM-DD' },
           amount: { type: 'number' },
           quantity: { type: 'number' },
           price: { type: 'number' },
           value: { type: 'number' },
+          ratio: { type: 'number', description: 'SPLIT 必填,拆分后份额/拆分前份额(1 拆 10 为 10)' },
           note: { type: 'string' },
         },
         additionalProperties: false,
@@ -287,7 +303,7 @@ export async function executeAssistantTool(
     }
 
     case 'analyze_portfolio': {
-      const report = analyzePortfolio(ctx.summary)
+      const report = analyzePortfolioContext(ctx)
       return {
         content: JSON.stringify({
           score: report.score,
@@ -371,7 +387,7 @@ export async function executeAssistantTool(
       const initial: Partial<Omit<Asset, 'id' | 'createdAt'>> = {
         name: nameArg,
         type: assetType,
-        currency: (safeArgs.currency as string) ?? 'CNY',
+        currency: (safeArgs.currency as string) ?? ctx.settings.baseCurrency,
         platform: typeof safeArgs.platform === 'string' ? safeArgs.platform : undefined,
         symbol: typeof safeArgs.symbol === 'string' ? safeArgs.symbol : undefined,
         note: typeof safeArgs.note === 'string' ? safeArgs.note : undefined,
@@ -450,6 +466,7 @@ export async function executeAssistantTool(
         quantity: typeof safeArgs.quantity === 'number' ? safeArgs.quantity : undefined,
         price: typeof safeArgs.price === 'number' ? safeArgs.price : undefined,
         value: typeof safeArgs.value === 'number' ? safeArgs.value : undefined,
+        ratio: typeof safeArgs.ratio === 'number' ? safeArgs.ratio : undefined,
         note: typeof safeArgs.note === 'string' ? safeArgs.note : undefined,
       }
       const action: PendingAction = {
@@ -19,6 +19,9 @@ export interface NlTxDraft {
   quantity?: number
   price?: number
   value?: number
+  ratio?: number
+  fee?: number
+  tax?: number
   note?: string
 }
 
@@ -38,18 +41,24 @@ const TX_TYPES: TxType[] = [
   'SELL',
   'BORROW',
   'REPAY',
+  'SPLIT',
+  'BONUS_SHARES',
+  'DIVIDEND',
 ]
 
 const DATE_RE = /^\d{4}-\d{2}-\d{2}$/
 
 const JSON_SCHEMA_DESC = `{
-  "type": "DEPOSIT" | "WITHDRAW" | "INCOME" | "VALUATION" | "BUY" | "SELL" | "BORROW" | "REPAY",
+  "type": "DEPOSIT" | "WITHDRAW" | "INCOME" | "VALUATION" | "BUY" | "SELL" | "BORROW" | "REPAY" | "SPLIT" | "BONUS_SHARES" | "DIVIDEND",
   "date": "YYYY-MM-DD",
   "assetHint": "用户提到的资产或平台名称,如 招商银行、支付宝理财",
-  "amount": "仅 DEPOSIT/WITHDRAW/INCOME/BORROW/REPAY,现金流金额",
-  "quantity": "仅 BUY/SELL",
+  "amount": "仅 DEPOSIT/WITHDRAW/INCOME/BORROW/REPAY/DIVIDEND,现金流金额",
+  "quantity": "仅 BUY/SELL/BONUS_SHARES;DIVIDEND 红利再投资时为获得的份额",
+  "ratio": "仅 SPLIT,拆分后份额/拆分前份额,如 1 拆 10 为 10",
   "price": "仅 BUY/SELL,单价",
   "value": "仅 VALUATION,当日总市值(不要用 amount)",
+  "fee": "可选,仅 BUY/SELL,手续费/佣金金额",
+  "tax": "可选,仅 BUY/SELL,印花税等税费金额",
   "note": "可选备注"
 }`
 
@@ -149,6 +158,9 @@ export function validateNlTxDraft(raw: unknown): NlTxDraft {
   const quantity = readPositiveNumber(raw.quantity, 'quantity')
   const price = readPositiveNumber(raw.price, 'price')
   const value = readPositiveNumber(raw.value, 'value')
+  const ratio = readPositiveNumber(raw.ratio, 'ratio')
+  const fee = readPositiveNumber(raw.fee, 'fee')
+  const tax = readPositiveNumber(raw.tax, 'tax')
 
   switch (txType) {
     case 'DEPOSIT':
@@ -165,10 +177,22 @@ export function validateNlTxDraft(raw: unknown): NlTxDraft {
       draft.value = valuation
       break
     }
+    case 'DIVIDEND':
+      draft.amount = readPositiveStrict(raw.amount, 'amount')
+      draft.quantity = quantity || undefined
+      break
+    case 'BONUS_SHARES':
+      draft.quantity = readPositiveStrict(raw.quantity, 'quantity')
+      break
+    case 'SPLIT':
+      draft.ratio = readPositiveStrict(raw.ratio, 'ratio')
+      break
     case 'BUY':
     case 'SELL':
       draft.quantity = readPositiveStrict(raw.quantity, 'quantity')
       draft.price = readPositiveStrict(raw.price, 'price')
+      draft.fee = fee || undefined
+      draft.tax = tax || undefined
       break
   }
 
@@ -176,12 +200,18 @@ export function validateNlTxDraft(raw: unknown): NlTxDraft {
   if (amount != null && draft.amount == null && txType !== 'VALUATION') {
     throw new Error(`${txType} 类型不应包含 amount 字段`)
   }
-  if ((quantity != null || price != null) && draft.quantity == null) {
+  if ((quantity != null && draft.quantity == null) || (price != null && draft.price == null)) {
     throw new Error(`${txType} 类型不应包含 quantity/price 字段`)
   }
+  if (ratio != null && draft.ratio == null) {
+    throw new Error(`${txType} 类型不应包含 ratio 字段`)
+  }
   if (value != null && draft.value == null) {
     throw new Error(`${txType} 类型不应包含 value 字段`)
   }
+  if ((fee || tax) && draft.price == null) {
+    throw new Error(`${txType} 类型不应包含 fee/tax 字段`)
+  }
 
   return draft
 }
@@ -253,6 +283,9 @@ async function requestNlTxJson(
           '「今天」「昨日」等相对日期要换算为具体 YYYY-MM-DD。' +
           '存入本金用 DEPOSIT,取出用 WITHDRAW,利息分红到账用 INCOME,更新总市值用 VALUATION,' +
           '买入用 BUY,卖出用 SELL,借入用 BORROW,还款用 REPAY。' +
+          '买卖提到的手续费/佣金写 fee,印花税等税费写 tax,不要并入 price。' +
+          '拆股/合股用 SPLIT(ratio),送股/转增用 BONUS_SHARES(quantity 为获得股数),' +
+          '股票/基金分红用 DIVIDEND(amount);红利再投资时另填 quantity 为再投资获得的份额。' +
           'VALUATION 必须把金额写在 value(总市值),禁止写 amount。' +
           `今日日期:${today()}。` +
           `JSON 结构:\n${JSON_SCHEMA_DESC}`,
@@ -357,6 +390,9 @@ export function nlResultToTxInitial(
     quantity: draft.quantity,
     price: draft.price,
     value: draft.value,
+    ratio: draft.ratio,
+    fee: draft.fee,
+    tax: draft.tax,
     note: draft.note,
     createdAt: 0,
     updatedAt: 0,
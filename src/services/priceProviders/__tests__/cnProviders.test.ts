@@ -0,0 +1,139 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { asset, settings } from '../../../engine/__tests__/helpers'
+import type { PriceHistory } from '../../../types'
+import { fetchQuotes } from '../../prices'
+import { cnQuoteCurrency, eastmoney, normalizeCnSymbol, validateCnSymbol } from '../eastmoney'
+import { ttfund, validateFundCode } from '../ttfund'
+import { eastmoneyKline, eastmoneyQuote, fundNav, fundNavHistory } from './fixtures'
+
+function mockFetch(body: unknown) {
+  const fetchMock = vi.fn<(url: string) => Promise<Response>>(
+    async () => new Response(JSON.stringify(body), { status: 200 }),
+  )
+  vi.stubGlobal('fetch', fetchMock)
+  return fetchMock
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('A 股 / 港股代码', () => {
+  it('统一为交易所前缀 + 代码', () => {
+    expect(normalizeCnSymbol('600519')).toBe('SH600519')
+    expect(normalizeCnSymbol('000001')).toBe('SZ000001')
+    expect(normalizeCnSymbol('300750')).toBe('SZ300750')
+    expect(normalizeCnSymbol('830799')).toBe('BJ830799')
+    expect(normalizeCnSymbol('600519.SS')).toBe('SH600519')
+    expect(normalizeCnSymbol('sz000001')).toBe('SZ000001')
+    expect(normalizeCnSymbol('0700.HK')).toBe('HK00700')
+    expect(normalizeCnSymbol('700')).toBe('HK00700')
+  })
+
+  it('校验代码格式', () => {
+    expect(validateCnSymbol('600519')).toBeUndefined()
+    expect(validateCnSymbol('HK00700')).toBeUndefined()
+    expect(validateCnSymbol('AAPL')).toBeTruthy()
+    expect(validateCnSymbol('SH6005')).toBeTruthy()
+  })
+
+  it('港股以港币报价,A 股以人民币报价', () => {
+    expect(cnQuoteCurrency('00700')).toBe('HKD')
+    expect(cnQuoteCurrency('600519')).toBe('CNY')
+  })
+})
+
+describe('东方财富行情', () => {
+  const assets = [
+    asset({ id: 'a', type: 'stock', symbol: 'SH600519', priceSource: 'eastmoney' }),
+    asset({ id: 'b', type: 'stock', symbol: 'SZ000001', priceSource: 'eastmoney' }),
+    asset({ id: 'c', type: 'stock', currency: 'HKD', symbol: 'HK00700', priceSource: 'eastmoney' }),
+    asset({ id: 'd', type: 'stock', symbol: 'SZ300750', priceSource: 'eastmoney' }),
+    asset({ id: 'e', type: 'stock', symbol: 'AAPL', priceSource: 'eastmoney' }),
+  ]
+
+  it('按 secid 解析报价,港股按港币汇率折算,停牌与非法代码记为失败', async () => {
+    const fetchMock = mockFetch(eastmoneyQuote)
+    const s = settings({ fxRates: { HKD: 0.92 } })
+    const r = await eastmoney.fetchQuotes(assets, { settings: s, config: {} })
+
+    expect(String(fetchMock.mock.calls[0][0])).toContain('secids=1.600519,0.000001,116.00700,0.300750')
+    expect(r.quotes.SH600519).toBe(1475)
+    expect(r.quotes.SZ000001).toBe(11.52)
+    expect(r.quotes.HK00700).toBeCloseTo(412.6 * 0.92)
+    expect(r.failed.sort()).toEqual(['AAPL', 'SZ300750'])
+  })
+
+  it('基准货币为港币时港股不折算,A 股按人民币汇率折算', async () => {
+    mockFetch(eastmoneyQuote)
+    const s = settings({ baseCurrency: 'HKD', fxRates: { CNY: 1.08 } })
+    const r = await eastmoney.fetchQuotes(assets.slice(0, 3), { settings: s, config: {} })
+    expect(r.quotes.HK00700).toBe(412.6)
+    expect(r.quotes.SH600519).toBeCloseTo(1475 * 1.08)
+  })
+})
+
+describe('历史日线', () => {
+  const fx = (currency: string, date: string) => (currency === 'HKD' ? (date < '2024-06-27' ? 0.9 : 0.92) : 1)
+
+  it('东方财富 K 线按当日历史汇率折算,早于起点的丢弃', async () => {
+    const fetchMock = mockFetch(eastmoneyKline)
+    const tencent = asset({ id: 't', type: 'stock', currency: 'HKD', symbol: 'HK00700', priceSource: 'eastmoney' })
+    const points = await eastmoney.fetchHistory!(tencent, '2024-06-26', { settings: settings(), config: {}, fx })
+
+    expect(String(fetchMock.mock.calls[0][0])).toContain('secid=116.00700')
+    expect(String(fetchMock.mock.calls[0][0])).toContain('beg=20240626')
+    expect(Object.keys(points)).toEqual(['2024-06-26', '2024-06-27', '2024-06-28'])
+    expect(points['2024-06-26']).toBeCloseTo(372 * 0.9)
+    expect(points['2024-06-28']).toBeCloseTo(372.4 * 0.92)
+  })
+
+  it('天天基金历史净值不足一页时不再翻页', async () => {
+    const fetchMock = mockFetch(fundNavHistory)
+    const fund = asset({ id: 'f', type: 'fund', symbol: '110022', priceSource: 'ttfund' })
+    const points = await ttfund.fetchHistory!(fund, '2024-06-27', { settings: settings(), config: {}, fx })
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(points).toEqual({ '2024-06-28': 3.845, '2024-06-27': 3.869 })
+  })
+})
+
+describe('天天基金净值', () => {
+  it('校验 6 位基金代码', () => {
+    expect(validateFundCode('110022')).toBeUndefined()
+    expect(validateFundCode('11002')).toBeTruthy()
+  })
+
+  it('按净值日记录单位净值,缺失的基金记为失败', async () => {
+    mockFetch(fundNav)
+    const assets = ['110022', '000001', '999999'].map((code) =>
+      asset({ id: code, type: 'fund', symbol: code, priceSource: 'ttfund' }),
+    )
+    const r = await ttfund.fetchQuotes(assets, { settings: settings(), config: {} })
+    expect(r.quotes).toEqual({ '110022': 3.845, '000001': 1.039 })
+    expect(r.asOf).toEqual({ '110022': '2024-06-28', '000001': '2024-06-28' })
+    expect(r.failed).toEqual(['999999'])
+  })
+
+  it('接口未返回数据时报错', async () => {
+    mockFetch({ Datas: null, ErrMsg: '参数错误' })
+    const assets = [asset({ id: 'f', type: 'fund', symbol: '110022', priceSource: 'ttfund' })]
+    await expect(ttfund.fetchQuotes(assets, { settings: settings(), config: {} })).rejects.toThrow('参数错误')
+  })
+})
+
+describe('fetchQuotes', () => {
+  it('按资产自己的 symbol 写入行情库,与引擎读取的键一致', async () => {
+    mockFetch(eastmoneyQuote)
+    const assets = [
+      asset({ id: 'a', type: 'stock', symbol: '600519', priceSource: 'eastmoney' }),
+      asset({ id: 'c', type: 'stock', currency: 'HKD', symbol: '0700.HK', priceSource: 'eastmoney' }),
+    ]
+    const prices: PriceHistory = {}
+    const [r] = await fetchQuotes(assets, prices, settings({ fxRates: { HKD: 0.92 } }))
+
+    expect(r.updated).toEqual(['600519', '0700.HK'])
+    expect(Object.keys(prices)).toEqual(['600519', '0700.HK'])
+    expect(Object.values(prices['600519'])).toEqual([1475])
+  })
+})
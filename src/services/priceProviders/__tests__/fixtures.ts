@@ -0,0 +1,48 @@
+/** 录制的接口响应(已删去无关字段),供离线测试解析逻辑 */
+
+/** push2.eastmoney.com/api/qt/ulist.np/get?fltt=2&fields=f2,f12,f13&secids=1.600519,0.000001,116.00700,0.300750 */
+export const eastmoneyQuote = {
+  rc: 0,
+  rt: 11,
+  data: {
+    total: 4,
+    diff: [
+      { f2: 1475.0, f12: '600519', f13: 1 },
+      { f2: 11.52, f12: '000001', f13: 0 },
+      { f2: 412.6, f12: '00700', f13: 116 },
+      { f2: '-', f12: '300750', f13: 0 },
+    ],
+  },
+}
+
+/** fundmobapi.eastmoney.com/FundMNewApi/FundMNFInfo?...&Fcodes=110022,000001,999999 */
+export const fundNav = {
+  Datas: [
+    { FCODE: '110022', SHORTNAME: '易方达消费行业股票', PDATE: '2024-06-28', NAV: '3.8450', ACCNAV: '3.9450' },
+    { FCODE: '000001', SHORTNAME: '华夏成长混合', PDATE: '2024-06-28', NAV: '1.0390', ACCNAV: '3.5400' },
+  ],
+  ErrCode: 0,
+  ErrMsg: null,
+  Success: true,
+}
+
+/** push2his.eastmoney.com/api/qt/stock/kline/get?secid=116.00700&fields1=f1&fields2=f51,f53&klt=101&fqt=0&beg=20240625 */
+export const eastmoneyKline = {
+  rc: 0,
+  data: {
+    code: '00700',
+    market: 116,
+    klines: ['2024-06-25,371.20', '2024-06-26,372.00', '2024-06-27,366.80', '2024-06-28,372.40'],
+  },
+}
+
+/** fundmobapi.eastmoney.com/FundMNewApi/FundMNHisNetList?FCODE=110022&pageIndex=1&pagesize=100(截取) */
+export const fundNavHistory = {
+  Datas: [
+    { FSRQ: '2024-06-28', DWJZ: '3.8450', LJJZ: '3.9450' },
+    { FSRQ: '2024-06-27', DWJZ: '3.8690', LJJZ: '3.9690' },
+    { FSRQ: '2024-06-26', DWJZ: '3.9010', LJJZ: '4.0010' },
+  ],
+  TotalCount: 3,
+  ErrCode: 0,
+}
@@ -0,0 +1,53 @@
+import { formatDateKey } from '../../utils/time'
+import { fetchJson, type PriceProvider } from './registry'
+
+/** 免费接口只提供最近 365 天的历史 */
+const MAX_HISTORY_DAYS = 365
+
+/** 加密货币:CoinGecko 免费接口,免 key,直接取基准货币计价 */
+export const coingecko: PriceProvider = {
+  id: 'coingecko',
+  label: 'CoinGecko',
+  description: '加密货币行情,免费接口,无需配置。',
+  assetTypes: ['crypto'],
+  symbolHint: 'CoinGecko id,如 bitcoin / tether / ethereum',
+  symbolPlaceholder: 'bitcoin',
+  normalizeSymbol: (s) => s.toLowerCase(),
+  settings: [],
+  // 免费接口约每分钟 10–30 次
+  historyIntervalMs: 6000,
+
+  async fetchQuotes(assets, { settings }) {
+    const ids = [...new Set(assets.map((a) => a.symbol!.toLowerCase()))]
+    const vs = settings.baseCurrency.toLowerCase()
+    const url = `https://api.coingecko.com/api/v3/simple/price?ids=${ids.join(',')}&vs_currencies=${vs}`
+    const res = await fetch(url)
+    if (!res.ok) throw new Error(`CoinGecko 请求失败 (${res.status})`)
+    const data: Record<string, Record<string, number | undefined>> = await res.json()
+
+    const quotes: Record<string, number> = {}
+    const failed: string[] = []
+    for (const id of ids) {
+      const price = data[id]?.[vs]
+      if (price && price > 0) quotes[id] = price
+      else failed.push(id)
+    }
+    return { quotes, failed }
+  },
+
+  async fetchHistory(asset, from, { settings }) {
+    const vs = settings.baseCurrency.toLowerCase()
+    const days = Math.min(MAX_HISTORY_DAYS, Math.ceil((Date.now() - Date.parse(from)) / 86400_000) + 1)
+    const id = encodeURIComponent(asset.symbol!.toLowerCase())
+    const data = await fetchJson<{ prices?: Array<[number, number]> }>(
+      `https://api.coingecko.com/api/v3/coins/${id}/market_chart?vs_currency=${vs}&days=${days}&interval=daily`,
+      'CoinGecko',
+    )
+    const points: Record<string, number> = {}
+    for (const [ms, price] of data.prices ?? []) {
+      const date = formatDateKey(ms)
+      if (date >= from) points[date] = price
+    }
+    return points
+  },
+}
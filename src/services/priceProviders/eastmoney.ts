@@ -0,0 +1,117 @@
+import { fetchJson, toBaseCurrency, type PriceProvider } from './registry'
+
+/** 交易所前缀 -> 东方财富 secid 市场号 */
+const MARKET_ID: Record<string, number> = { SH: 1, SZ: 0, BJ: 0, HK: 116 }
+
+/** 6 位 A 股代码按号段推断交易所:6/5/9 开头沪市(920 为北交所),4/8 开头北交所,其余深市 */
+function inferExchange(code: string): string {
+  if (code.startsWith('92')) return 'BJ'
+  if ('569'.includes(code[0])) return 'SH'
+  if ('48'.includes(code[0])) return 'BJ'
+  return 'SZ'
+}
+
+function canonical(exchange: string, code: string): string {
+  return exchange === 'HK' ? `HK${code.padStart(5, '0')}` : `${exchange}${code}`
+}
+
+/**
+ * 统一为「交易所前缀 + 代码」:SH600519、SZ000001、BJ830799、HK00700。
+ * 接受 600519.SH / 600519.SS / sh600519 / 0700.HK,纯 6 位数字按号段推断交易所,1–5 位数字视为港股。
+ */
+export function normalizeCnSymbol(raw: string): string {
+  const s = raw.replace(/\s+/g, '').toUpperCase()
+  let m = /^(\d+)\.(SH|SS|SZ|BJ|HK)$/.exec(s)
+  if (m) return canonical(m[2] === 'SS' ? 'SH' : m[2], m[1])
+  m = /^(SH|SZ|BJ|HK)\.?(\d+)$/.exec(s)
+  if (m) return canonical(m[1], m[2])
+  if (/^\d{6}$/.test(s)) return canonical(inferExchange(s), s)
+  if (/^\d{1,5}$/.test(s)) return canonical('HK', s)
+  return s
+}
+
+export function validateCnSymbol(raw: string): string | undefined {
+  const s = normalizeCnSymbol(raw)
+  if (/^(SH|SZ|BJ)\d{6}$/.test(s) || /^HK\d{5}$/.test(s)) return undefined
+  return 'A 股为 6 位代码(如 600519 / SZ000001),港股为 5 位代码(如 00700 / HK00700)'
+}
+
+/** 港股以港币报价,A 股以人民币报价 */
+export function cnQuoteCurrency(symbol: string): string {
+  return normalizeCnSymbol(symbol).startsWith('HK') ? 'HKD' : 'CNY'
+}
+
+function secid(symbol: string): string {
+  return `${MARKET_ID[symbol.slice(0, 2)]}.${symbol.slice(2)}`
+}
+
+interface EastmoneyKlineResponse {
+  /** klines 每行为「日期,收盘价」 */
+  data?: { klines?: string[] } | null
+}
+
+interface EastmoneyQuoteResponse {
+  data?: { diff?: Array<{ f2?: number | string; f12?: string; f13?: number }> } | null
+}
+
+/** A 股、港股:东方财富行情接口,免 key;按市场报价币种换算为基准货币 */
+export const eastmoney: PriceProvider = {
+  id: 'eastmoney',
+  label: '东方财富',
+  description: 'A 股、港股与场内 ETF 行情,免费接口,无需配置;港股按港币报价折算。',
+  assetTypes: ['stock', 'fund'],
+  symbolHint: 'A 股 600519 / SZ000001,港股 00700',
+  symbolPlaceholder: '600519',
+  normalizeSymbol: normalizeCnSymbol,
+  validateSymbol: validateCnSymbol,
+  quoteCurrency: cnQuoteCurrency,
+  settings: [],
+  historyIntervalMs: 500,
+
+  async fetchQuotes(assets, { settings }) {
+    const symbols = [...new Set(assets.map((a) => normalizeCnSymbol(a.symbol!)))]
+    const valid = symbols.filter((s) => !validateCnSymbol(s))
+    const failed = symbols.filter((s) => validateCnSymbol(s))
+    const quotes: Record<string, number> = {}
+    if (valid.length === 0) return { quotes, failed }
+
+    const url =
+      'https://push2.eastmoney.com/api/qt/ulist.np/get?fltt=2&fields=f2,f12,f13' +
+      `&secids=${valid.map(secid).join(',')}`
+    const res = await fetch(url)
+    if (!res.ok) throw new Error(`东方财富请求失败 (${res.status})`)
+    const data: EastmoneyQuoteResponse = await res.json()
+
+    const bySecid = new Map((data.data?.diff ?? []).map((q) => [`${q.f13}.${q.f12}`, q.f2]))
+    for (const symbol of valid) {
+      const price = bySecid.get(secid(symbol))
+      // 停牌或未开盘时 f2 为 "-"
+      if (typeof price === 'number' && price > 0) {
+        quotes[symbol] = toBaseCurrency(price, cnQuoteCurrency(symbol), settings)
+      } else {
+        failed.push(symbol)
+      }
+    }
+    return { quotes, failed }
+  },
+
+  async fetchHistory(asset, from, { fx }) {
+    const symbol = normalizeCnSymbol(asset.symbol!)
+    const error = validateCnSymbol(symbol)
+    if (error) throw new Error(error)
+    // fqt=0 不复权,与流水中的成交价一致
+    const data = await fetchJson<EastmoneyKlineResponse>(
+      `https://push2his.eastmoney.com/api/qt/stock/kline/get?secid=${secid(symbol)}` +
+        `&fields1=f1&fields2=f51,f53&klt=101&fqt=0&beg=${from.replace(/-/g, '')}&end=20500101`,
+      '东方财富',
+    )
+    const currency = cnQuoteCurrency(symbol)
+    const points: Record<string, number> = {}
+    for (const line of data.data?.klines ?? []) {
+      const [date, close] = line.split(',')
+      const price = Number(close)
+      if (date >= from && price > 0) points[date] = price * fx(currency, date)
+    }
+    return points
+  },
+}
@@ -0,0 +1,31 @@
+import { toBaseCurrency, type PriceProvider } from './registry'
+
+/** 美股等:Finnhub(需免费 API key),按资产币种换算为基准货币 */
+export const finnhub: PriceProvider = {
+  id: 'finnhub',
+  label: 'Finnhub',
+  description: '美股行情,需要免费 API key(finnhub.io 注册即得)。',
+  assetTypes: ['stock', 'fund'],
+  symbolHint: 'ticker,如 AAPL / MSFT',
+  symbolPlaceholder: 'AAPL',
+  settings: [{ key: 'apiKey', label: 'Finnhub API Key', placeholder: '留空则美股资产手动估值', secret: true }],
+
+  async fetchQuotes(assets, { settings, config }) {
+    const quotes: Record<string, number> = {}
+    const failed: string[] = []
+    for (const asset of assets) {
+      const symbol = asset.symbol!
+      try {
+        const url = `https://finnhub.io/api/v1/quote?symbol=${encodeURIComponent(symbol)}&token=${config.apiKey}`
+        const res = await fetch(url)
+        if (!res.ok) throw new Error(String(res.status))
+        const data: { c?: number } = await res.json()
+        if (data.c && data.c > 0) quotes[symbol] = toBaseCurrency(data.c, asset.currency, settings)
+        else failed.push(symbol)
+      } catch {
+        failed.push(symbol)
+      }
+    }
+    return { quotes, failed }
+  },
+}
@@ -0,0 +1,9 @@
+import { coingecko } from './coingecko'
+import { eastmoney } from './eastmoney'
+import { finnhub } from './finnhub'
+import { registerPriceProvider } from './registry'
+import { ttfund } from './ttfund'
+
+export * from './registry'
+
+for (const provider of [coingecko, finnhub, eastmoney, ttfund]) registerPriceProvider(provider)
@@ -0,0 +1,109 @@
+import type { Asset, AssetType, Settings } from '../../types'
+
+/** 行情源需要的一项配置(API key 等),值保存在 Settings.priceProviders[providerId][key] */
+export interface ProviderSettingField {
+  key: string
+  label: string
+  placeholder?: string
+  /** 按密码框显示 */
+  secret?: boolean
+  /** 可留空;其余字段缺失时该行情源不可用 */
+  optional?: boolean
+}
+
+export interface QuoteContext {
+  settings: Settings
+  /** 该行情源自己的配置 */
+  config: Record<string, string>
+}
+
+export interface HistoryContext extends QuoteContext {
+  /** 某日 1 单位外币 = ? 基准货币(按历史汇率) */
+  fx: (currency: string, date: string) => number
+}
+
+export interface QuoteResult {
+  /** 行情库键(通常为 symbol)-> 单价(基准货币) */
+  quotes: Record<string, number>
+  /** 未取到价格的代码 */
+  failed: string[]
+  /** 报价对应的日期(YYYY-MM-DD,如基金净值日);缺省为今日 */
+  asOf?: Record<string, string>
+}
+
+/**
+ * 行情源:按资产的 symbol 拉取报价,统一换算为基准货币。
+ * 注册后即出现在资产表单的「行情来源」与设置页,store 无需改动。
+ */
+export interface PriceProvider {
+  id: string
+  label: string
+  /** 设置页的简短说明 */
+  description: string
+  /** 适用的资产类型 */
+  assetTypes: AssetType[]
+  /** 资产表单中行情代码的说明与示例 */
+  symbolHint: string
+  symbolPlaceholder: string
+  /** 保存资产时规范化行情代码(如统一小写) */
+  normalizeSymbol?: (symbol: string) => string
+  /** 校验行情代码,不合法时返回提示 */
+  validateSymbol?: (symbol: string) => string | undefined
+  /** 该代码的报价币种;与资产币种不同时按汇率折算 */
+  quoteCurrency?: (symbol: string) => string
+  settings: ProviderSettingField[]
+  /** 获取今日报价;assets 已按本行情源筛选,且均有 symbol */
+  fetchQuotes: (assets: Asset[], ctx: QuoteContext) => Promise<QuoteResult>
+  /** 获取 from(YYYY-MM-DD)至今的日收盘价,date -> 单价(基准货币) */
+  fetchHistory?: (asset: Asset, from: string, ctx: HistoryContext) => Promise<Record<string, number>>
+  /** 批量回填时两次历史请求的最小间隔(毫秒),按免费接口的限流设定 */
+  historyIntervalMs?: number
+}
+
+const registry = new Map<string, PriceProvider>()
+
+export function registerPriceProvider(provider: PriceProvider) {
+  if (provider.id === 'manual') throw new Error('manual 为保留的行情来源')
+  registry.set(provider.id, provider)
+}
+
+export function getPriceProvider(id: string): PriceProvider | undefined {
+  return registry.get(id)
+}
+
+/** 已注册的行情源;给出 type 时只列适用于该资产类型的 */
+export function listPriceProviders(type?: AssetType): PriceProvider[] {
+  const all = [...registry.values()]
+  return type ? all.filter((p) => p.assetTypes.includes(type)) : all
+}
+
+export function providerConfig(settings: Settings, id: string): Record<string, string> {
+  return settings.priceProviders?.[id] ?? {}
+}
+
+/** 尚未填写的必填配置项 */
+export function missingProviderSettings(provider: PriceProvider, settings: Settings): ProviderSettingField[] {
+  const config = providerConfig(settings, provider.id)
+  return provider.settings.filter((f) => !f.optional && !config[f.key]?.trim())
+}
+
+/** 按当前汇率把资产币种计价的价格换算为基准货币 */
+export function toBaseCurrency(price: number, currency: string, settings: Settings): number {
+  return currency === settings.baseCurrency ? price : price * (settings.fxRates[currency] ?? 1)
+}
+
+export const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+/** GET JSON;遇到 429 限流时按 Retry-After(缺省指数退避)等待后重试 */
+export async function fetchJson<T>(url: string, label: string, retries = 3): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    const res = await fetch(url)
+    if (res.status === 429 && attempt < retries) {
+      const after = Number(res.headers.get('Retry-After'))
+      await sleep(after > 0 ? after * 1000 : 2000 * 2 ** attempt)
+      continue
+    }
+    if (!res.ok) throw new Error(`${label} 请求失败 (${res.status})`)
+    return res.json()
+  }
+}
@@ -0,0 +1,85 @@
+import { fetchJson, toBaseCurrency, type PriceProvider } from './registry'
+
+const PAGE_SIZE = 100
+const MOBILE_API = 'https://fundmobapi.eastmoney.com/FundMNewApi'
+const MOBILE_PARAMS = 'plat=Android&appType=ttjj&product=EFund&Version=1&deviceid=panasset'
+
+interface FundNavHistoryResponse {
+  /** 按净值日倒序 */
+  Datas?: Array<{ FSRQ?: string; DWJZ?: string }> | null
+  TotalCount?: number
+}
+
+interface FundNavResponse {
+  Datas?: Array<{ FCODE?: string; PDATE?: string; NAV?: string }> | null
+  ErrMsg?: string | null
+}
+
+export function validateFundCode(symbol: string): string | undefined {
+  return /^\d{6}$/.test(symbol.trim()) ? undefined : '基金代码为 6 位数字,如 110022'
+}
+
+/** 公募基金:天天基金单位净值,免 key;净值按净值日入库,人民币计价 */
+export const ttfund: PriceProvider = {
+  id: 'ttfund',
+  label: '天天基金',
+  description: '公募基金每日单位净值(按净值日记录),免费接口,无需配置。',
+  assetTypes: ['fund'],
+  symbolHint: '6 位基金代码,如 110022',
+  symbolPlaceholder: '110022',
+  normalizeSymbol: (s) => s.trim(),
+  validateSymbol: validateFundCode,
+  quoteCurrency: () => 'CNY',
+  settings: [],
+  historyIntervalMs: 500,
+
+  async fetchQuotes(assets, { settings }) {
+    const codes = [...new Set(assets.map((a) => a.symbol!.trim()))]
+    const valid = codes.filter((c) => !validateFundCode(c))
+    const failed = codes.filter((c) => validateFundCode(c))
+    const quotes: Record<string, number> = {}
+    const asOf: Record<string, string> = {}
+    if (valid.length === 0) return { quotes, failed }
+
+    const url = `${MOBILE_API}/FundMNFInfo?pageIndex=1&pageSize=200&${MOBILE_PARAMS}&Fcodes=${valid.join(',')}`
+    const res = await fetch(url)
+    if (!res.ok) throw new Error(`天天基金请求失败 (${res.status})`)
+    const data: FundNavResponse = await res.json()
+    if (!data.Datas) throw new Error(data.ErrMsg || '天天基金未返回净值')
+
+    const byCode = new Map(data.Datas.map((d) => [d.FCODE, d]))
+    for (const code of valid) {
+      const row = byCode.get(code)
+      const nav = Number(row?.NAV)
+      if (row && nav > 0) {
+        quotes[code] = toBaseCurrency(nav, 'CNY', settings)
+        if (row.PDATE && /^\d{4}-\d{2}-\d{2}$/.test(row.PDATE)) asOf[code] = row.PDATE
+      } else {
+        failed.push(code)
+      }
+    }
+    return { quotes, failed, asOf }
+  },
+
+  async fetchHistory(asset, from, { fx }) {
+    const code = asset.symbol!.trim()
+    const error = validateFundCode(code)
+    if (error) throw new Error(error)
+    const points: Record<string, number> = {}
+    // 分页倒序拉取,直到早于 from 或没有更多
+    for (let page = 1; ; page++) {
+      const data = await fetchJson<FundNavHistoryResponse>(
+        `${MOBILE_API}/FundMNHisNetList?FCODE=${code}&pageIndex=${page}&pagesize=${PAGE_SIZE}&${MOBILE_PARAMS}`,
+        '天天基金',
+      )
+      const rows = data.Datas ?? []
+      for (const row of rows) {
+        const nav = Number(row.DWJZ)
+        if (row.FSRQ && row.FSRQ >= from && nav > 0) points[row.FSRQ] = nav * fx('CNY', row.FSRQ)
+      }
+      const oldest = rows[rows.length - 1]?.FSRQ
+      if (rows.length < PAGE_SIZE || !oldest || oldest < from) break
+    }
+    return points
+  },
+}
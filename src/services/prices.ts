@@ -1,103 +1,239 @@
-import type { Asset, PriceHistory, Settings } from '../types'
+import type { Asset, FxHistory, FxRateMeta, PriceHistory, Settings } from '../types'
 import { today } from './storage'
+import {
+  getPriceProvider,
+  missingProviderSettings,
+  providerConfig,
+  sleep,
+  type PriceProvider,
+} from './priceProviders'
+import { createFxLookup } from '../engine/fx'
+import { mergePriceHistory } from '../engine/backfill'
+import { migrateDateToOccurredAt } from '../utils/time'
 
 /**
  * PriceService — 行情与汇率。
  * 渐进增强:不配置任何 key 也能用(加密货币 CoinGecko、汇率 Frankfurter 均免费免注册);
- * 配置 Finnhub key 后可自动更新美股行情;其余资产手动估值。
+ * 其余行情源见 priceProviders,配置所需 key 后自动更新,未配置的资产手动估值。
  */
 
 export interface PriceUpdateResult {
+  provider: PriceProvider
   updated: string[]
   failed: string[]
+  /** 整个行情源失败(未配置、请求出错)时的原因 */
+  error?: string
 }
 
-/** 加密货币:CoinGecko 免费接口,直接取 CNY 计价 */
-export async function fetchCryptoPrices(
+/** 按资产选择的行情源分组;未注册或手动估值的资产不参与 */
+export function assetsByProvider(assets: Asset[]): Map<PriceProvider, Asset[]> {
+  const groups = new Map<PriceProvider, Asset[]>()
+  for (const a of assets) {
+    if (a.archived || !a.symbol || a.priceSource === 'manual') continue
+    const provider = getPriceProvider(a.priceSource)
+    if (!provider) continue
+    groups.set(provider, [...(groups.get(provider) ?? []), a])
+  }
+  return groups
+}
+
+/**
+ * 逐个行情源获取最新报价并写入 prices(记在今日或报价日,同日重复获取覆盖当天)。
+ * 行情源按规范化后的代码返回报价,写入时换回资产自己的 symbol,与引擎、回填读写同一个键。
+ * providerIds 为空时刷新全部;单个行情源失败不影响其余。
+ */
+export async function fetchQuotes(
   assets: Asset[],
   prices: PriceHistory,
-): Promise<PriceUpdateResult> {
-  const ids = [
-    ...new Set(
-      assets
-        .filter((a) => !a.archived && a.priceSource === 'coingecko' && a.symbol)
-        .map((a) => a.symbol!.toLowerCase()),
-    ),
-  ]
-  if (ids.length === 0) return { updated: [], failed: [] }
-
-  const url = `https://api.coingecko.com/api/v3/simple/price?ids=${ids.join(',')}&vs_currencies=cny`
-  const res = await fetch(url)
-  if (!res.ok) throw new Error(`CoinGecko 请求失败 (${res.status})`)
-  const data: Record<string, { cny?: number }> = await res.json()
-
-  const updated: string[] = []
-  const failed: string[] = []
+  settings: Settings,
+  providerIds?: string[],
+): Promise<PriceUpdateResult[]> {
   const d = today()
-  for (const id of ids) {
-    const price = data[id]?.cny
-    if (price && price > 0) {
-      prices[id] = { ...(prices[id] ?? {}), [d]: price }
-      updated.push(id)
-    } else {
-      failed.push(id)
+  const results: PriceUpdateResult[] = []
+  for (const [provider, targets] of assetsByProvider(assets)) {
+    if (providerIds && !providerIds.includes(provider.id)) continue
+    const missing = missingProviderSettings(provider, settings)
+    if (missing.length > 0) {
+      results.push({ provider, updated: [], failed: [], error: `未配置 ${missing.map((f) => f.label).join('、')}` })
+      continue
+    }
+    try {
+      const { quotes, failed, asOf } = await provider.fetchQuotes(targets, {
+        settings,
+        config: providerConfig(settings, provider.id),
+      })
+      const updated = new Set<string>()
+      for (const { symbol } of targets) {
+        const key = provider.normalizeSymbol ? provider.normalizeSymbol(symbol!) : symbol!
+        const price = quotes[key]
+        if (price === undefined) continue
+        prices[symbol!] = { ...(prices[symbol!] ?? {}), [asOf?.[key] ?? d]: price }
+        updated.add(symbol!)
+      }
+      results.push({ provider, updated: [...updated], failed })
+    } catch (e) {
+      results.push({ provider, updated: [], failed: [], error: (e as Error).message })
     }
   }
-  return { updated, failed }
+  return results
 }
 
-/** 美股等:Finnhub(需免费 API key),按资产币种换算为 CNY 入库 */
-export async function fetchStockPrices(
-  assets: Asset[],
+export interface BackfillTask {
+  asset: Asset
+  /** 回填起点 YYYY-MM-DD */
+  from: string
+}
+
+export interface BackfillProgress {
+  done: number
+  total: number
+  /** 正在回填的资产 */
+  current?: string
+}
+
+export interface BackfillResult {
+  /** 资产名 -> 新增价格点数 */
+  filled: Record<string, number>
+  /** 失败的资产与原因 */
+  failed: string[]
+}
+
+/** 行情源支持历史日线时可回填 */
+export function canBackfill(asset: Asset): boolean {
+  return !!asset.symbol && !!getPriceProvider(asset.priceSource)?.fetchHistory
+}
+
+/**
+ * 历史行情回填:逐个资产拉取日收盘价并入 prices,只补缺失日期。
+ * 同一行情源的请求按其 historyIntervalMs 间隔发出(遇 429 由 fetchJson 退避重试),
+ * 每完成一个资产回调一次进度。外币报价按当日历史汇率折算。
+ */
+export async function backfillPrices(
+  tasks: BackfillTask[],
   prices: PriceHistory,
   settings: Settings,
-): Promise<PriceUpdateResult> {
-  const targets = assets.filter(
-    (a) => !a.archived && a.priceSource === 'finnhub' && a.symbol,
-  )
-  if (targets.length === 0) return { updated: [], failed: [] }
-  if (!settings.finnhubKey) throw new Error('未配置 Finnhub API key(设置页可添加)')
-
-  const updated: string[] = []
-  const failed: string[] = []
-  const d = today()
-  for (const asset of targets) {
+  fxHistory: FxHistory,
+  onProgress?: (p: BackfillProgress) => void,
+): Promise<BackfillResult> {
+  const fxLookup = createFxLookup(settings, fxHistory)
+  const fx = (currency: string, date: string) => fxLookup(currency, migrateDateToOccurredAt(date))
+  const lastCall = new Map<string, number>()
+  const result: BackfillResult = { filled: {}, failed: [] }
+  // 同源任务排在一起,便于按源限速
+  const ordered = [...tasks].sort((a, b) => a.asset.priceSource.localeCompare(b.asset.priceSource))
+
+  for (const [i, { asset, from }] of ordered.entries()) {
+    onProgress?.({ done: i, total: ordered.length, current: asset.name })
+    const provider = getPriceProvider(asset.priceSource)
+    if (!provider?.fetchHistory || !asset.symbol) {
+      result.failed.push(`${asset.name}(行情来源不支持历史数据)`)
+      continue
+    }
+    const missing = missingProviderSettings(provider, settings)
+    if (missing.length > 0) {
+      result.failed.push(`${asset.name}(未配置 ${missing.map((f) => f.label).join('、')})`)
+      continue
+    }
+    const wait = (lastCall.get(provider.id) ?? 0) + (provider.historyIntervalMs ?? 0) - Date.now()
+    if (wait > 0) await sleep(wait)
     try {
-      const url = `https://finnhub.io/api/v1/quote?symbol=${encodeURIComponent(asset.symbol!)}&token=${settings.finnhubKey}`
-      const res = await fetch(url)
-      if (!res.ok) throw new Error(String(res.status))
-      const data: { c?: number } = await res.json()
-      if (data.c && data.c > 0) {
-        const fx =
-          asset.currency === settings.baseCurrency
-            ? 1
-            : (settings.fxRates[asset.currency] ?? 1)
-        prices[asset.symbol!] = { ...(prices[asset.symbol!] ?? {}), [d]: data.c * fx }
-        updated.push(asset.symbol!)
-      } else {
-        failed.push(asset.symbol!)
+      const points = await provider.fetchHistory(asset, from, {
+        settings,
+        config: providerConfig(settings, provider.id),
+        fx,
+      })
+      result.filled[asset.name] = mergePriceHistory(prices, asset.symbol, points)
+    } catch (e) {
+      result.failed.push(`${asset.name}(${(e as Error).message})`)
+    } finally {
+      lastCall.set(provider.id, Date.now())
+    }
+  }
+  onProgress?.({ done: ordered.length, total: ordered.length })
+  return result
+}
+
+/** 稳定币没有法币汇率,按 CoinGecko 报价取对基准货币的价格 */
+const STABLECOIN_IDS: Record<string, string> = { USDT: 'tether', USDC: 'usd-coin', DAI: 'dai' }
+
+export interface FxUpdateResult {
+  /** 更新后的完整汇率表(未能获取的币种保留原值) */
+  fxRates: Record<string, number>
+  fxMeta: Record<string, FxRateMeta>
+  updated: string[]
+  failed: string[]
+}
+
+/**
+ * 汇率:按需获取 currencies 中各币种对基准货币的汇率。
+ * 法币走 Frankfurter 免费接口(欧洲央行数据,约 30 种),稳定币走 CoinGecko;
+ * 获取到的汇率追加为 fxHistory 的当日点。全部失败时抛错。
+ */
+export async function fetchFxRates(
+  settings: Settings,
+  fxHistory: FxHistory,
+  currencies: string[],
+): Promise<FxUpdateResult> {
+  const base = settings.baseCurrency
+  const wanted = [...new Set(currencies)].filter((c) => c !== base)
+  const fxRates: Record<string, number> = { ...settings.fxRates }
+  const fxMeta: Record<string, FxRateMeta> = { ...settings.fxMeta }
+  const fetched: Record<string, number> = {}
+  const now = Date.now()
+  const errors: string[] = []
+
+  const fiat = wanted.filter((c) => !STABLECOIN_IDS[c])
+  if (fiat.length > 0) {
+    try {
+      const res = await fetch(`https://api.frankfurter.dev/v1/latest?base=${base}`)
+      if (!res.ok) throw new Error(`汇率接口请求失败 (${res.status})`)
+      const data: { rates?: Record<string, number> } = await res.json()
+      for (const c of fiat) {
+        const r = data.rates?.[c]
+        if (r && r > 0) {
+          fetched[c] = 1 / r // 返回 基准→外币,取倒数得 外币→基准
+          fxMeta[c] = { source: 'frankfurter', updatedAt: now }
+        }
       }
-    } catch {
-      failed.push(asset.symbol!)
+    } catch (e) {
+      errors.push((e as Error).message)
     }
   }
-  return { updated, failed }
+
+  const coins = wanted.filter((c) => STABLECOIN_IDS[c])
+  if (coins.length > 0) {
+    try {
+      const vs = base.toLowerCase()
+      const ids = coins.map((c) => STABLECOIN_IDS[c]).join(',')
+      const res = await fetch(`https://api.coingecko.com/api/v3/simple/price?ids=${ids}&vs_currencies=${vs}`)
+      if (!res.ok) throw new Error(`CoinGecko 请求失败 (${res.status})`)
+      const data: Record<string, Record<string, number | undefined>> = await res.json()
+      for (const c of coins) {
+        const r = data[STABLECOIN_IDS[c]]?.[vs]
+        if (r && r > 0) {
+          fetched[c] = r
+          fxMeta[c] = { source: 'coingecko', updatedAt: now }
+        }
+      }
+    } catch (e) {
+      errors.push((e as Error).message)
+    }
+  }
+
+  const updated = Object.keys(fetched)
+  const failed = wanted.filter((c) => !(c in fetched))
+  if (updated.length === 0 && wanted.length > 0) {
+    throw new Error(errors[0] ?? `没有获取到 ${failed.join('、')} 的汇率`)
+  }
+  Object.assign(fxRates, fetched)
+  appendFxPoints(fxHistory, fetched)
+  return { fxRates, fxMeta, updated, failed }
 }
 
-/** 汇率:Frankfurter 免费接口(欧洲央行数据) */
-export async function fetchFxRates(settings: Settings): Promise<Record<string, number>> {
-  const symbols = ['USD', 'HKD', 'EUR']
-  const url = `https://api.frankfurter.dev/v1/latest?base=CNY&symbols=${symbols.join(',')}`
-  const res = await fetch(url)
-  if (!res.ok) throw new Error(`汇率接口请求失败 (${res.status})`)
-  const data: { rates?: Record<string, number> } = await res.json()
-  if (!data.rates) throw new Error('汇率数据为空')
-
-  const fx: Record<string, number> = { ...settings.fxRates }
-  for (const s of symbols) {
-    const r = data.rates[s]
-    if (r && r > 0) fx[s] = 1 / r // base=CNY 返回 CNY→外币,取倒数得 外币→CNY
+/** 将一组汇率记为今日的历史点(同日重复写入覆盖当天) */
+export function appendFxPoints(fxHistory: FxHistory, fxRates: Record<string, number>) {
+  const d = today()
+  for (const [currency, rate] of Object.entries(fxRates)) {
+    if (rate > 0) fxHistory[currency] = { ...(fxHistory[currency] ?? {}), [d]: rate }
   }
-  fx.USDT = fx.USD // USDT 按美元近似
-  return fx
 }
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import { diffPrices, diffRecords, isQuotaError, mergeLegacy, recordCollectionOf } from '../backend'
+
+describe('按条存储的集合', () => {
+  it('按键名识别流水集合(含账本前缀)', () => {
+    expect(recordCollectionOf('panasset.transactions')).toBe('transactions')
+    expect(recordCollectionOf('panasset.ws.abc.transactions')).toBe('transactions')
+    expect(recordCollectionOf('panasset.strategyTransactions')).toBe('strategyTransactions')
+    expect(recordCollectionOf('panasset.assets')).toBeNull()
+    expect(recordCollectionOf('panasset.prices')).toBeNull()
+  })
+
+  it('只写引用变化或新增的记录,删除消失的 id', () => {
+    const a = { id: 'a', v: 1 }
+    const b = { id: 'b', v: 2 }
+    const c = { id: 'c', v: 3 }
+    const b2 = { ...b, v: 20 }
+    const d = { id: 'd', v: 4 }
+    const { put, remove } = diffRecords([a, b, c], [a, b2, d])
+    expect(put).toEqual([b2, d])
+    expect(remove).toEqual(['c'])
+  })
+
+  it('前后相同时无需写入', () => {
+    const list = [{ id: 'a' }, { id: 'b' }]
+    expect(diffRecords(list, [...list])).toEqual({ put: [], remove: [] })
+  })
+})
+
+describe('行情逐点对比', () => {
+  it('只比较引用变化的代码,写入新增或改价的点并删除消失的点', () => {
+    const btc = { '2026-01-01': 100 }
+    const prev = { BTC: btc, ETH: { '2026-01-01': 10, '2026-01-02': 11 }, OLD: { '2026-01-01': 1 } }
+    const next = { BTC: btc, ETH: { '2026-01-01': 10, '2026-01-02': 12, '2026-01-03': 13 } }
+    const { put, remove } = diffPrices(prev, next)
+    expect(put).toEqual([
+      { symbol: 'ETH', date: '2026-01-02', price: 12 },
+      { symbol: 'ETH', date: '2026-01-03', price: 13 },
+    ])
+    expect(remove).toEqual([['OLD', '2026-01-01']])
+  })
+
+  it('新代码全部写入', () => {
+    const { put, remove } = diffPrices({}, { SH600519: { '2026-01-01': 1500 } })
+    expect(put).toEqual([{ symbol: 'SH600519', date: '2026-01-01', price: 1500 }])
+    expect(remove).toEqual([])
+  })
+})
+
+describe('旧数据并入', () => {
+  const HISTORY = ['panasset.prices', 'panasset.fxHistory']
+
+  it('已有的流水不被旧数据覆盖或删除,只补上缺少的记录', () => {
+    const a = { id: 'a', amount: 1 }
+    const b = { id: 'b', amount: 2 }
+    const current = new Map<string, unknown>([['panasset.transactions', [a, b]]])
+    const legacy = new Map<string, unknown>([['panasset.transactions', [{ id: 'a', amount: 99 }, { id: 'c', amount: 3 }]]])
+    const [[key, value]] = mergeLegacy(current, legacy, HISTORY)
+    expect(key).toBe('panasset.transactions')
+    expect(value).toEqual([a, b, { id: 'c', amount: 3 }])
+    expect((value as unknown[])[0]).toBe(a)
+  })
+
+  it('没有的键直接采用,其余已有的键以现有数据为准', () => {
+    const current = new Map<string, unknown>([['panasset.settings', { baseCurrency: 'CNY' }]])
+    const legacy = new Map<string, unknown>([
+      ['panasset.settings', { baseCurrency: 'USD' }],
+      ['panasset.goals', [{ id: 'g' }]],
+    ])
+    expect(mergeLegacy(current, legacy, HISTORY)).toEqual([['panasset.goals', [{ id: 'g' }]]])
+  })
+
+  it('行情与汇率历史只补缺少的日期', () => {
+    const current = new Map<string, unknown>([['panasset.prices', { BTC: { d1: 1, d2: 2 } }]])
+    const legacy = new Map<string, unknown>([['panasset.prices', { BTC: { d2: 20, d3: 3 }, ETH: { d1: 5 } }]])
+    expect(mergeLegacy(current, legacy, HISTORY)).toEqual([
+      ['panasset.prices', { BTC: { d1: 1, d2: 2, d3: 3 }, ETH: { d1: 5 } }],
+    ])
+    expect(mergeLegacy(current, new Map([['panasset.prices', { BTC: { d1: 9 } }]]), HISTORY)).toEqual([])
+  })
+})
+
+describe('空间不足', () => {
+  it('识别各浏览器的配额错误', () => {
+    expect(isQuotaError({ name: 'QuotaExceededError' })).toBe(true)
+    expect(isQuotaError({ name: 'NS_ERROR_DOM_QUOTA_REACHED' })).toBe(true)
+    expect(isQuotaError(new Error('x'))).toBe(false)
+    expect(isQuotaError(null)).toBe(false)
+  })
+})
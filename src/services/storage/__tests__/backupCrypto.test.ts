@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { ENCRYPTED_BACKUP_FORMAT, decryptBackup, encryptBackup, isEncryptedBackup } from '../backupCrypto'
+
+// 测试里降低迭代次数,只验证格式与往返
+const ITERATIONS = 1000
+const PLAIN = JSON.stringify({ app: 'PanassetLite', assets: [{ id: 'a1', name: '现金' }] })
+
+describe('加密备份', () => {
+  it('用同一密码可以解密回原文', async () => {
+    const encrypted = await encryptBackup(PLAIN, 'correct horse', ITERATIONS)
+    expect(encrypted).not.toContain('现金')
+    expect(await decryptBackup(encrypted, 'correct horse')).toBe(PLAIN)
+  })
+
+  it('文件头标明格式与派生参数', async () => {
+    const file = JSON.parse(await encryptBackup(PLAIN, 'correct horse', ITERATIONS))
+    expect(file.format).toBe(ENCRYPTED_BACKUP_FORMAT)
+    expect(file.kdf).toMatchObject({ name: 'PBKDF2', hash: 'SHA-256', iterations: ITERATIONS })
+    expect(file.cipher.name).toBe('AES-GCM')
+  })
+
+  it('每次加密使用新的盐与 IV', async () => {
+    const a = JSON.parse(await encryptBackup(PLAIN, 'correct horse', ITERATIONS))
+    const b = JSON.parse(await encryptBackup(PLAIN, 'correct horse', ITERATIONS))
+    expect(a.kdf.salt).not.toBe(b.kdf.salt)
+    expect(a.cipher.iv).not.toBe(b.cipher.iv)
+  })
+
+  it('密码错误或内容被改动时报错', async () => {
+    const encrypted = await encryptBackup(PLAIN, 'correct horse', ITERATIONS)
+    await expect(decryptBackup(encrypted, 'wrong password')).rejects.toThrow('密码错误或文件已损坏')
+    const file = JSON.parse(encrypted)
+    file.data = file.data.slice(0, -4) + 'AAAA'
+    await expect(decryptBackup(JSON.stringify(file), 'correct horse')).rejects.toThrow('密码错误或文件已损坏')
+  })
+
+  it('派生参数不合法时报错,不派生密钥', async () => {
+    const file = JSON.parse(await encryptBackup(PLAIN, 'correct horse', ITERATIONS))
+    const tamper = (patch: (f: typeof file) => void) => {
+      const copy = structuredClone(file)
+      patch(copy)
+      return decryptBackup(JSON.stringify(copy), 'correct horse')
+    }
+    for (const iterations of [0, -1, 1.5, '1000', 1e9]) {
+      await expect(tamper((f) => (f.kdf.iterations = iterations))).rejects.toThrow('迭代次数无效')
+    }
+    await expect(tamper((f) => (f.kdf.salt = 'AAAA'))).rejects.toThrow('盐或 IV 长度不正确')
+    await expect(tamper((f) => (f.cipher.iv = f.kdf.salt))).rejects.toThrow('盐或 IV 长度不正确')
+    await expect(tamper((f) => (f.cipher.iv = '%%'))).rejects.toThrow('盐或 IV 无效')
+  })
+
+  it('密码过短时拒绝加密', async () => {
+    await expect(encryptBackup(PLAIN, 'short', ITERATIONS)).rejects.toThrow('密码至少')
+  })
+
+  it('按文件头识别加密备份', async () => {
+    expect(isEncryptedBackup(await encryptBackup(PLAIN, 'correct horse', ITERATIONS))).toBe(true)
+    expect(isEncryptedBackup(PLAIN)).toBe(false)
+    expect(isEncryptedBackup('not json')).toBe(false)
+  })
+})
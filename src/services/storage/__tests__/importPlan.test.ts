@@ -0,0 +1,274 @@
+import { describe, expect, it } from 'vitest'
+import { T0, T1, asset, settings, strategy, strategyTx, tx } from '../../../engine/__tests__/helpers'
+import {
+  importSettings,
+  mergeHistory,
+  parseImportFile,
+  planImport,
+  reassignIds,
+  rebaseImport,
+  remapSettingsAssetIds,
+  stripSecrets,
+  type BookData,
+} from '../importPlan'
+import { SCHEMA_VERSION } from '../migrations'
+
+function book(overrides: Partial<BookData> = {}): BookData {
+  return {
+    assets: [],
+    transactions: [],
+    strategies: [],
+    strategyTransactions: [],
+    recurringRules: [],
+    goals: [],
+    pendingTxs: [],
+    ...overrides,
+  }
+}
+
+function file(data: Record<string, unknown>): string {
+  return JSON.stringify({ app: 'PanassetLite', version: SCHEMA_VERSION, ...data })
+}
+
+function counter() {
+  let n = 0
+  return () => `new${++n}`
+}
+
+const cash = asset({ id: 'a1', type: 'cash' })
+const stock = asset({ id: 'a2', type: 'stock', name: '股票' })
+const deposit = tx({ id: 't1', assetId: 'a1', type: 'DEPOSIT', occurredAt: T0, amount: 100 })
+
+describe('parseImportFile', () => {
+  it('不是 JSON 或缺少必需字段时整体拒绝', () => {
+    expect(() => parseImportFile('{oops')).toThrow('不是有效的 JSON')
+    expect(() => parseImportFile(JSON.stringify({ assets: [] }))).toThrow('缺少 assets / transactions')
+  })
+
+  it('拒绝来自更新版本的文件', () => {
+    expect(() => parseImportFile(file({ version: SCHEMA_VERSION + 1, assets: [], transactions: [] }))).toThrow(
+      /更新版本/,
+    )
+  })
+
+  it('旧版本文件先迁移再校验', () => {
+    const parsed = parseImportFile(
+      JSON.stringify({ assets: [cash], transactions: [{ id: 't1', assetId: 'a1', type: 'DEPOSIT', date: '2024-01-02' }] }),
+    )
+    expect(parsed.version).toBe(1)
+    expect(parsed.issues).toEqual([])
+    expect(parsed.book.transactions[0].occurredAt).toBeGreaterThan(0)
+    expect(parsed.book.strategies).toEqual([])
+  })
+
+  it('逐行报告错误并跳过有误的行', () => {
+    const parsed = parseImportFile(
+      file({
+        assets: [cash, { id: 'a9', name: '坏资产', type: 'yacht', currency: 'CNY' }, { name: '无 id' }, cash],
+        transactions: [deposit, { ...deposit, id: 't2', amount: 'abc' }, { ...deposit, id: 't3', assetId: 'a9' }],
+      }),
+    )
+    expect(parsed.book.assets.map((a) => a.id)).toEqual(['a1'])
+    expect(parsed.book.transactions.map((t) => t.id)).toEqual(['t1'])
+    expect(parsed.issues).toEqual([
+      { section: 'assets', index: 1, id: 'a9', message: '未知的资产类型 yacht' },
+      { section: 'assets', index: 2, id: undefined, message: '缺少 id' },
+      { section: 'assets', index: 3, id: 'a1', message: 'id 与前面的记录重复' },
+      { section: 'transactions', index: 1, id: 't2', message: '字段 amount 不是有效数字' },
+      { section: 'transactions', index: 2, id: 't3', message: '所属资产 a9 不存在或有误' },
+    ])
+  })
+
+  it('策略流水引用无效策略时跳过', () => {
+    const parsed = parseImportFile(
+      file({
+        assets: [cash],
+        transactions: [],
+        strategies: [strategy({ id: 's1', assetId: 'a1' }), strategy({ id: 's2', assetId: 'missing' })],
+        strategyTransactions: [
+          strategyTx({ id: 'x1', strategyId: 's1', type: 'DEPOSIT', occurredAt: T0 }),
+          strategyTx({ id: 'x2', strategyId: 's2', type: 'DEPOSIT', occurredAt: T0 }),
+        ],
+      }),
+    )
+    expect(parsed.book.strategies.map((s) => s.id)).toEqual(['s1'])
+    expect(parsed.book.strategyTransactions.map((t) => t.id)).toEqual(['x1'])
+    expect(parsed.issues.map((i) => i.section)).toEqual(['strategies', 'strategyTransactions'])
+  })
+
+  it('行情库只保留有效的日期与价格', () => {
+    const parsed = parseImportFile(
+      file({ assets: [], transactions: [], prices: { BTC: { '2024-01-01': 100, bad: 1, '2024-01-02': -1 } } }),
+    )
+    expect(parsed.prices).toEqual({ BTC: { '2024-01-01': 100 } })
+    expect(parsed.issues).toEqual([{ section: 'prices', index: -1, message: '2 个无效的数据点已忽略' }])
+  })
+})
+
+describe('planImport', () => {
+  const changed = { ...deposit, amount: 200 }
+  const other = tx({ id: 't9', assetId: 'a1', type: 'DEPOSIT', occurredAt: T1, amount: 5 })
+  const current = book({ assets: [cash], transactions: [deposit, other] })
+  const incoming = book({ assets: [cash, stock], transactions: [changed] })
+
+  it('替换:以文件为准,文件中没有的记录删除', () => {
+    const { book: next, diff } = planImport(current, incoming, 'replace', counter())
+    expect(next.transactions).toEqual([changed])
+    expect(diff.assets).toEqual({ added: 1, changed: 0, removed: 0, unchanged: 1 })
+    expect(diff.transactions).toEqual({ added: 0, changed: 1, removed: 1, unchanged: 0 })
+  })
+
+  it('按 id 合并:同 id 覆盖并保持位置,其余保留', () => {
+    const { book: next, diff } = planImport(current, incoming, 'merge', counter())
+    expect(next.transactions).toEqual([changed, other])
+    expect(next.assets.map((a) => a.id)).toEqual(['a1', 'a2'])
+    expect(diff.transactions).toEqual({ added: 0, changed: 1, removed: 0, unchanged: 1 })
+  })
+
+  it('追加:全部作为新记录,现有数据不变', () => {
+    const { book: next, diff } = planImport(current, incoming, 'append', counter())
+    expect(next.transactions.slice(0, 2)).toEqual([deposit, other])
+    expect(next.transactions).toHaveLength(3)
+    expect(diff.assets).toEqual({ added: 2, changed: 0, removed: 0, unchanged: 1 })
+    expect(diff.transactions).toEqual({ added: 1, changed: 0, removed: 0, unchanged: 2 })
+  })
+
+  it('追加时给出资产 id 对照,其余方式为空', () => {
+    const { book: next, assetIds } = planImport(current, incoming, 'append', counter())
+    expect([...assetIds.keys()]).toEqual(['a1', 'a2'])
+    expect(next.assets.slice(1).map((a) => a.id)).toEqual([...assetIds.values()])
+    expect(planImport(current, incoming, 'merge', counter()).assetIds.size).toBe(0)
+  })
+})
+
+describe('remapSettingsAssetIds', () => {
+  it('按对照改写目标配置分组中的资产 id', () => {
+    const incoming = {
+      allocationBuckets: [
+        { id: 'b1', name: '股票', assetTypes: [], assetIds: ['a1', 'a9'], target: 0.6 },
+        { id: 'b2', name: '现金', assetTypes: ['cash' as const], target: 0.4 },
+      ],
+    }
+    const next = remapSettingsAssetIds(incoming, new Map([['a1', 'n1']]))
+    expect(next.allocationBuckets?.map((b) => b.assetIds)).toEqual([['n1', 'a9'], undefined])
+    expect(remapSettingsAssetIds(incoming, new Map())).toBe(incoming)
+  })
+})
+
+describe('reassignIds', () => {
+  it('换新 id 并同步改写引用与转账配对', () => {
+    const out = reassignIds(
+      book({
+        assets: [cash, { ...stock, settlementAssetId: 'a1' }],
+        transactions: [
+          tx({ id: 'o', assetId: 'a1', type: 'WITHDRAW', occurredAt: T0, amount: 10, transferId: 'tr' }),
+          tx({ id: 'i', assetId: 'a2', type: 'DEPOSIT', occurredAt: T0, amount: 10, transferId: 'tr' }),
+        ],
+        strategies: [strategy({ id: 's1', assetId: 'a2' })],
+        strategyTransactions: [strategyTx({ id: 'x', strategyId: 's1', type: 'DEPOSIT', occurredAt: T0 })],
+        goals: [{ id: 'g', name: '目标', targetCNY: 1, scope: 'assets', assetIds: ['a2'], createdAt: T0 }],
+      }),
+      counter(),
+    )
+    const [newCash, newStock] = out.assets
+    expect(newCash.id).not.toBe('a1')
+    expect(newStock.settlementAssetId).toBe(newCash.id)
+    expect(out.transactions.map((t) => t.assetId)).toEqual([newCash.id, newStock.id])
+    expect(out.transactions[0].transferId).toBe(out.transactions[1].transferId)
+    expect(out.transactions[0].transferId).not.toBe('tr')
+    expect(out.strategies[0].assetId).toBe(newStock.id)
+    expect(out.strategyTransactions[0].strategyId).toBe(out.strategies[0].id)
+    expect(out.goals[0].assetIds).toEqual([newStock.id])
+  })
+})
+
+describe('mergeHistory', () => {
+  it('逐日合并,同日以导入的为准', () => {
+    expect(mergeHistory({ BTC: { d1: 1, d2: 2 }, ETH: { d1: 5 } }, { BTC: { d2: 3, d3: 4 } })).toEqual({
+      BTC: { d1: 1, d2: 3, d3: 4 },
+      ETH: { d1: 5 },
+    })
+  })
+})
+
+describe('rebaseImport', () => {
+  const file = {
+    version: SCHEMA_VERSION,
+    secretsStripped: false,
+    baseCurrency: 'USD',
+    book: book({ goals: [{ id: 'g', name: '目标', targetCNY: 100, scope: 'assets', createdAt: T0 }] }),
+    prices: { AAPL: { '2024-01-01': 10 } },
+    fxHistory: { CNY: { '2024-01-01': 0.125 }, HKD: { '2024-01-01': 0.1 } },
+    settings: { baseCurrency: 'USD', fxRates: { CNY: 0.125, HKD: 0.1 } },
+    issues: [],
+  }
+
+  it('文件基准货币不同时,行情、历史汇率与目标金额换算为当前基准', () => {
+    const out = rebaseImport(file, settings())
+    expect(out.baseCurrency).toBe('CNY')
+    expect(out.prices).toEqual({ AAPL: { '2024-01-01': 80 } })
+    expect(out.fxHistory).toEqual({ HKD: { '2024-01-01': 0.8 }, USD: { '2024-01-01': 8 } })
+    expect(out.book.goals[0].targetCNY).toBe(800)
+    expect(out.settings?.fxRates).toEqual({ USD: 8, HKD: 0.8 })
+  })
+
+  it('文件没有汇率时取当前汇率的倒数,都没有时报错', () => {
+    const out = rebaseImport({ ...file, settings: undefined, fxHistory: undefined }, settings())
+    expect(out.prices?.AAPL['2024-01-01']).toBeCloseTo(72)
+    expect(() => rebaseImport({ ...file, baseCurrency: 'GBP', settings: undefined }, settings())).toThrow('无法换算')
+  })
+
+  it('基准货币相同时原样返回', () => {
+    const same = { ...file, baseCurrency: 'CNY' }
+    expect(rebaseImport(same, settings())).toBe(same)
+  })
+})
+
+describe('importSettings', () => {
+  const current = settings({
+    llm: { baseUrl: 'https://a', apiKey: 'mine', model: 'm1' },
+    priceProviders: { finnhub: { apiKey: 'my-finnhub' } },
+  })
+  const incoming = {
+    baseCurrency: 'USD',
+    llm: { baseUrl: 'https://b', apiKey: 'theirs', model: 'm2' },
+    priceProviders: { finnhub: { apiKey: 'their-finnhub' } },
+  }
+
+  it('不导入密钥时保留当前密钥,其余字段以文件为准', () => {
+    const next = importSettings(current, incoming, false)
+    expect(next.llm).toEqual({ baseUrl: 'https://b', apiKey: 'mine', model: 'm2' })
+    expect(next.priceProviders?.finnhub).toEqual({ apiKey: 'my-finnhub' })
+  })
+
+  it('基准货币与已有汇率保持当前设置,只补入缺少的币种', () => {
+    const next = importSettings(current, { ...incoming, fxRates: { USD: 1, GBP: 9.1 } }, true)
+    expect(next.baseCurrency).toBe('CNY')
+    expect(next.fxRates).toEqual({ ...current.fxRates, GBP: 9.1 })
+  })
+
+  it('当前没有密钥时不带入文件中的密钥', () => {
+    const next = importSettings(settings(), incoming, false)
+    expect(next.llm.apiKey).toBe('')
+    expect(next.priceProviders?.finnhub).toEqual({})
+  })
+
+  it('选择导入密钥时全部以文件为准', () => {
+    const next = importSettings(current, incoming, true)
+    expect(next.llm.apiKey).toBe('theirs')
+    expect(next.priceProviders?.finnhub.apiKey).toBe('their-finnhub')
+  })
+})
+
+describe('stripSecrets', () => {
+  it('去掉 LLM 与行情源的密钥,保留其余设置', () => {
+    const out = stripSecrets(
+      settings({
+        llm: { baseUrl: 'https://a', apiKey: 'mine', model: 'm1' },
+        priceProviders: { finnhub: { apiKey: 'k' }, unknown: { token: 't' } },
+      }),
+    )
+    expect(out.llm).toEqual({ baseUrl: 'https://a', apiKey: '', model: 'm1' })
+    expect(out.priceProviders).toEqual({ finnhub: {} })
+  })
+})
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest'
+import { MIGRATIONS, SCHEMA_VERSION, fileSchemaVersion, migrateData } from '../migrations'
+import { migrateDateToOccurredAt } from '../../../utils/time'
+
+describe('迁移登记表', () => {
+  it('从 v2 到当前版本每一步都已登记', () => {
+    for (let v = 2; v <= SCHEMA_VERSION; v++) expect(MIGRATIONS[v], `v${v}`).toBeDefined()
+    expect(Math.max(...Object.keys(MIGRATIONS).map(Number))).toBe(SCHEMA_VERSION)
+  })
+})
+
+describe('v1 → v2', () => {
+  const step = MIGRATIONS[2].migrate
+
+  it('缺失的策略、定投规则、目标与待确认字段补为空数组', () => {
+    const out = step({ assets: [], transactions: [] })
+    expect(out).toEqual({
+      assets: [],
+      transactions: [],
+      strategies: [],
+      strategyTransactions: [],
+      recurringRules: [],
+      goals: [],
+      pendingTxs: [],
+    })
+  })
+
+  it('已有的字段原样保留', () => {
+    const strategies = [{ id: 's1' }]
+    expect(step({ strategies }).strategies).toBe(strategies)
+  })
+})
+
+describe('v2 → v3', () => {
+  const step = MIGRATIONS[3].migrate
+
+  it('流水的 date 转为当日中午的 occurredAt,并补 updatedAt', () => {
+    const out = step({ transactions: [{ id: 't1', date: '2024-03-01', createdAt: 5 }] })
+    expect(out.transactions).toEqual([
+      { id: 't1', occurredAt: migrateDateToOccurredAt('2024-03-01'), createdAt: 5, updatedAt: 5 },
+    ])
+  })
+
+  it('已有 occurredAt 的流水保留原值', () => {
+    const out = step({ transactions: [{ id: 't1', occurredAt: 100, updatedAt: 200 }] })
+    expect(out.transactions).toEqual([{ id: 't1', occurredAt: 100, updatedAt: 200 }])
+  })
+
+  it('策略流水同样迁移日期', () => {
+    const out = step({ strategyTransactions: [{ id: 'x', date: '2024-03-01' }] })
+    expect(out.strategyTransactions).toEqual([{ id: 'x', occurredAt: migrateDateToOccurredAt('2024-03-01') }])
+  })
+
+  it('没有流水字段时不改动数据', () => {
+    const data = { settings: {} }
+    expect(step(data)).toBe(data)
+  })
+})
+
+describe('v3 → v4', () => {
+  const step = MIGRATIONS[4].migrate
+
+  it('finnhubKey 迁入 priceProviders.finnhub.apiKey', () => {
+    const out = step({ settings: { baseCurrency: 'CNY', finnhubKey: 'k' } })
+    expect(out.settings).toEqual({ baseCurrency: 'CNY', priceProviders: { finnhub: { apiKey: 'k' } } })
+  })
+
+  it('已配置新字段时不覆盖,只去掉旧字段', () => {
+    const out = step({ settings: { finnhubKey: 'old', priceProviders: { finnhub: { apiKey: 'new' } } } })
+    expect(out.settings).toEqual({ priceProviders: { finnhub: { apiKey: 'new' } } })
+  })
+
+  it('没有旧字段时不改动数据', () => {
+    const data = { settings: { baseCurrency: 'CNY' } }
+    expect(step(data)).toBe(data)
+  })
+})
+
+describe('v4 → v5', () => {
+  const step = MIGRATIONS[5].migrate
+
+  it('周期规则的 skipWeekends 改名为 skipHolidays', () => {
+    const out = step({ recurringRules: [{ id: 'a', skipWeekends: true }, { id: 'b', skipWeekends: false }, { id: 'c' }] })
+    expect(out.recurringRules).toEqual([{ id: 'a', skipHolidays: true }, { id: 'b' }, { id: 'c' }])
+  })
+
+  it('没有周期规则字段时不改动数据', () => {
+    const data = { settings: {} }
+    expect(step(data)).toBe(data)
+  })
+})
+
+describe('migrateData', () => {
+  it('从 v1 依次执行到当前版本', () => {
+    const { data, applied } = migrateData(
+      { assets: [], transactions: [{ id: 't', date: '2024-01-02' }], settings: { finnhubKey: 'k' } },
+      1,
+    )
+    expect(applied).toEqual([2, 3, 4, 5])
+    expect(data.strategies).toEqual([])
+    expect((data.transactions as Array<{ occurredAt: number }>)[0].occurredAt).toBe(
+      migrateDateToOccurredAt('2024-01-02'),
+    )
+    expect(data.settings).toEqual({ priceProviders: { finnhub: { apiKey: 'k' } } })
+  })
+
+  it('已是当前版本时不执行任何步骤', () => {
+    const data = { assets: [] }
+    expect(migrateData(data, SCHEMA_VERSION)).toEqual({ data, applied: [] })
+  })
+
+  it('拒绝来自更新版本的数据', () => {
+    expect(() => migrateData({}, SCHEMA_VERSION + 1)).toThrow(/更新版本/)
+  })
+
+  it('没有 version 字段的文件按 v1 处理', () => {
+    expect(fileSchemaVersion({})).toBe(1)
+    expect(fileSchemaVersion({ version: 3 })).toBe(3)
+    expect(fileSchemaVersion({ version: 'x' })).toBe(1)
+  })
+})
@@ -0,0 +1,118 @@
+import type { PriceHistory } from '../../types'
+
+export type StorageBackendKind = 'indexeddb' | 'localStorage'
+
+export const STORAGE_BACKEND_LABEL: Record<StorageBackendKind, string> = {
+  indexeddb: 'IndexedDB',
+  localStorage: 'LocalStorage(回退)',
+}
+
+/**
+ * 持久化后端:启动时整体读入内存,之后按键增量写入。
+ * 键沿用 LocalStorage 时代的 panasset.* 命名,值为对应的 JSON 数据。
+ */
+export interface StorageBackend {
+  kind: StorageBackendKind
+  loadAll(): Promise<Map<string, unknown>>
+  /** 写入多个键;prev 为各键上次写入的值,后端据此只写有变化的记录 */
+  write(entries: Array<[key: string, value: unknown]>, prev: (key: string) => unknown): Promise<void>
+  remove(keys: string[]): Promise<void>
+  /** 已用与可用空间(字节);浏览器不提供时 quota 缺省 */
+  estimate(): Promise<{ usedBytes: number; quotaBytes?: number }>
+}
+
+/** 按条存储的流水集合:键以 .transactions / .strategyTransactions 结尾(含账本前缀) */
+export type RecordCollection = 'transactions' | 'strategyTransactions'
+
+export function recordCollectionOf(key: string): RecordCollection | null {
+  if (key.endsWith('.strategyTransactions')) return 'strategyTransactions'
+  if (key.endsWith('.transactions')) return 'transactions'
+  return null
+}
+
+export const PRICES_KEY = 'panasset.prices'
+
+type WithId = { id: string }
+
+/** 对比同一集合前后两版:引用变化或新增的记录需写入,消失的 id 需删除 */
+export function diffRecords<T extends WithId>(prev: readonly T[], next: readonly T[]): { put: T[]; remove: string[] } {
+  const before = new Map(prev.map((r) => [r.id, r]))
+  const put = next.filter((r) => before.get(r.id) !== r)
+  const kept = new Set(next.map((r) => r.id))
+  return { put, remove: [...before.keys()].filter((id) => !kept.has(id)) }
+}
+
+export interface PricePointRecord {
+  symbol: string
+  date: string
+  price: number
+}
+
+/** 行情库逐点对比:只有引用变化的代码才逐日比较 */
+export function diffPrices(
+  prev: PriceHistory,
+  next: PriceHistory,
+): { put: PricePointRecord[]; remove: Array<[symbol: string, date: string]> } {
+  const put: PricePointRecord[] = []
+  const remove: Array<[string, string]> = []
+  for (const [symbol, points] of Object.entries(next)) {
+    const old = prev[symbol]
+    if (old === points) continue
+    for (const [date, price] of Object.entries(points)) {
+      if (old?.[date] !== price) put.push({ symbol, date, price })
+    }
+    for (const date of Object.keys(old ?? {})) if (!(date in points)) remove.push([symbol, date])
+  }
+  for (const [symbol, old] of Object.entries(prev)) {
+    if (!(symbol in next)) for (const date of Object.keys(old)) remove.push([symbol, date])
+  }
+  return { put, remove }
+}
+
+function isRecordList(value: unknown): value is WithId[] {
+  return Array.isArray(value) && value.every((r) => typeof (r as Partial<WithId> | null)?.id === 'string')
+}
+
+/**
+ * 旧数据(LocalStorage 中残留的键)并入现有数据时各键要写入的值,只增不删:
+ * 现有数据没有的键直接采用旧值;按 id 存储的列表只补上缺少的记录;
+ * historyKeys(行情库、汇率历史)只补上缺少的日期;其余已有的键以现有数据为准。
+ * 返回有变化的键值。
+ */
+export function mergeLegacy(
+  current: ReadonlyMap<string, unknown>,
+  legacy: ReadonlyMap<string, unknown>,
+  historyKeys: readonly string[],
+): Array<[key: string, value: unknown]> {
+  const out: Array<[string, unknown]> = []
+  for (const [key, old] of legacy) {
+    if (!current.has(key)) {
+      out.push([key, old])
+      continue
+    }
+    const value = current.get(key)
+    if (isRecordList(value) && isRecordList(old)) {
+      const ids = new Set(value.map((r) => r.id))
+      const missing = old.filter((r) => !ids.has(r.id))
+      if (missing.length) out.push([key, [...value, ...missing]])
+    } else if (historyKeys.includes(key) && value && old && typeof value === 'object' && typeof old === 'object') {
+      const cur = value as PriceHistory
+      const merged: PriceHistory = { ...cur }
+      let changed = false
+      for (const [symbol, points] of Object.entries(old as PriceHistory)) {
+        const missing = Object.entries(points).filter(([date]) => !(date in (cur[symbol] ?? {})))
+        if (missing.length === 0) continue
+        merged[symbol] = { ...Object.fromEntries(missing), ...cur[symbol] }
+        changed = true
+      }
+      if (changed) out.push([key, merged])
+    }
+  }
+  return out
+}
+
+/** 存储已满(QuotaExceededError,各浏览器名称略有不同) */
+export function isQuotaError(e: unknown): boolean {
+  const name = (e as { name?: string } | null)?.name
+  return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED'
+}
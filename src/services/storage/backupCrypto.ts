@@ -0,0 +1,119 @@
+/**
+ * 加密备份:PBKDF2(SHA-256)由密码派生 AES-GCM 256 位密钥,加密整份导出 JSON。
+ * 文件仍是 JSON,以 format 字段区分于明文备份;盐、IV 与迭代次数随文件保存。
+ */
+export const ENCRYPTED_BACKUP_FORMAT = 'panasset-encrypted-backup'
+
+/** OWASP 对 PBKDF2-HMAC-SHA256 的建议值 */
+export const PBKDF2_ITERATIONS = 600_000
+
+/** 解密时接受的迭代次数上限,防止被篡改的文件让派生密钥耗时过长 */
+const MAX_PBKDF2_ITERATIONS = PBKDF2_ITERATIONS * 10
+const SALT_BYTES = 16
+const IV_BYTES = 12
+
+export const MIN_BACKUP_PASSWORD_LENGTH = 8
+
+interface EncryptedBackup {
+  format: typeof ENCRYPTED_BACKUP_FORMAT
+  version: 1
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string }
+  cipher: { name: 'AES-GCM'; iv: string }
+  data: string
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let s = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) s += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  return btoa(s)
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  const s = atob(text)
+  const bytes = new Uint8Array(s.length)
+  for (let i = 0; i < s.length; i++) bytes[i] = s.charCodeAt(i)
+  return bytes
+}
+
+async function deriveKey(password: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, [
+    'deriveKey',
+  ])
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  )
+}
+
+/** 读取并校验文件头中的派生参数;不合法时抛错,不进入耗时的密钥派生 */
+function readParams(file: EncryptedBackup): {
+  iterations: number
+  salt: Uint8Array<ArrayBuffer>
+  iv: Uint8Array<ArrayBuffer>
+} {
+  const iterations = file.kdf?.iterations
+  if (!Number.isInteger(iterations) || iterations <= 0 || iterations > MAX_PBKDF2_ITERATIONS) {
+    throw new Error(`加密备份的迭代次数无效(${String(iterations)}),文件可能已损坏`)
+  }
+  let salt: Uint8Array<ArrayBuffer>
+  let iv: Uint8Array<ArrayBuffer>
+  try {
+    salt = fromBase64(file.kdf.salt)
+    iv = fromBase64(file.cipher.iv)
+  } catch {
+    throw new Error('加密备份的盐或 IV 无效,文件可能已损坏')
+  }
+  if (salt.length !== SALT_BYTES || iv.length !== IV_BYTES) {
+    throw new Error('加密备份的盐或 IV 长度不正确,文件可能已损坏')
+  }
+  return { iterations, salt, iv }
+}
+
+/** 是否为加密备份文件(只看文件头,不校验内容) */
+export function isEncryptedBackup(text: string): boolean {
+  try {
+    return (JSON.parse(text) as { format?: unknown })?.format === ENCRYPTED_BACKUP_FORMAT
+  } catch {
+    return false
+  }
+}
+
+/** 用密码加密导出内容,返回加密备份文件的文本 */
+export async function encryptBackup(plaintext: string, password: string, iterations = PBKDF2_ITERATIONS): Promise<string> {
+  if (password.length < MIN_BACKUP_PASSWORD_LENGTH) throw new Error(`密码至少 ${MIN_BACKUP_PASSWORD_LENGTH} 位`)
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES))
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+  const key = await deriveKey(password, salt, iterations)
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext))
+  const file: EncryptedBackup = {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    version: 1,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    data: toBase64(new Uint8Array(data)),
+  }
+  return JSON.stringify(file, null, 2)
+}
+
+/** 解密加密备份,返回原始导出 JSON;密码错误与文件损坏无法区分,统一报错 */
+export async function decryptBackup(text: string, password: string): Promise<string> {
+  let file: EncryptedBackup
+  try {
+    file = JSON.parse(text)
+  } catch {
+    throw new Error('文件不是有效的 JSON')
+  }
+  if (file?.format !== ENCRYPTED_BACKUP_FORMAT) throw new Error('不是加密备份文件')
+  if (file.version !== 1) throw new Error(`不支持的加密备份版本 ${String(file.version)},请先升级 PanassetLite`)
+  const { iterations, salt, iv } = readParams(file)
+  try {
+    const key = await deriveKey(password, salt, iterations)
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, fromBase64(file.data))
+    return new TextDecoder().decode(data)
+  } catch {
+    throw new Error('密码错误或文件已损坏')
+  }
+}
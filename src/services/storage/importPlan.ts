@@ -0,0 +1,520 @@
+import type {
+  Asset,
+  FxHistory,
+  Goal,
+  PendingTx,
+  PriceHistory,
+  RecurringRule,
+  Settings,
+  Strategy,
+  StrategyTransaction,
+  Transaction,
+} from '../../types'
+import {
+  ASSET_TYPE_LABEL,
+  GOAL_SCOPE_LABEL,
+  RECURRENCE_CADENCE_LABEL,
+  STRATEGY_KIND_LABEL,
+  STRATEGY_TX_TYPE_LABEL,
+  TX_TYPE_LABEL,
+} from '../../types'
+import { rebaseFx, rebaseGoal } from '../../engine/fx'
+import { getPriceProvider } from '../priceProviders'
+import { fileSchemaVersion, migrateData } from './migrations'
+
+/** 一个账本的全部数据,字段同导出文件 */
+export interface BookData {
+  assets: Asset[]
+  transactions: Transaction[]
+  strategies: Strategy[]
+  strategyTransactions: StrategyTransaction[]
+  recurringRules: RecurringRule[]
+  goals: Goal[]
+  pendingTxs: PendingTx[]
+}
+
+export type BookSection = keyof BookData
+
+export const BOOK_SECTION_LABEL: Record<BookSection, string> = {
+  assets: '资产',
+  transactions: '流水',
+  strategies: '策略',
+  strategyTransactions: '策略流水',
+  recurringRules: '周期规则',
+  goals: '目标',
+  pendingTxs: '待确认流水',
+}
+
+export const BOOK_SECTIONS = Object.keys(BOOK_SECTION_LABEL) as BookSection[]
+
+export type ImportSection = BookSection | 'prices' | 'fxHistory' | 'settings'
+
+export const IMPORT_SECTION_LABEL: Record<ImportSection, string> = {
+  ...BOOK_SECTION_LABEL,
+  prices: '行情库',
+  fxHistory: '历史汇率',
+  settings: '设置',
+}
+
+/** 校验未通过的一行;index 为该行在文件数组中的下标,整段有误时为 -1 */
+export interface ImportIssue {
+  section: ImportSection
+  index: number
+  id?: string
+  message: string
+}
+
+/** 解析并校验后的导入文件:book 只含校验通过的行 */
+export interface ParsedImport {
+  version: number
+  /** 导出时已去掉密钥,导入时不能覆盖当前密钥 */
+  secretsStripped: boolean
+  exportedAt?: string
+  workspaceName?: string
+  baseCurrency?: string
+  book: BookData
+  prices?: PriceHistory
+  fxHistory?: FxHistory
+  settings?: Partial<Settings>
+  issues: ImportIssue[]
+}
+
+export type ImportMode = 'replace' | 'merge' | 'append'
+
+export const IMPORT_MODE_LABEL: Record<ImportMode, string> = {
+  replace: '替换',
+  merge: '按 id 合并',
+  append: '作为新数据追加',
+}
+
+export const IMPORT_MODE_DESC: Record<ImportMode, string> = {
+  replace: '清空当前账本后写入文件中的数据;行情与汇率为各账本共用,逐日合并。',
+  merge: 'id 相同的记录以文件为准,文件中没有的记录保留;行情与汇率逐日合并。',
+  append: '文件中的记录全部换成新 id 追加,不影响现有数据;适合合并两个账本。',
+}
+
+export interface ImportOptions {
+  mode: ImportMode
+  /** 导入文件中的设置(汇率、配置目标等) */
+  includeSettings: boolean
+  /** 连同 API Key 等密钥一起导入;否则保留当前的密钥 */
+  includeSecrets: boolean
+}
+
+export interface SectionDiff {
+  added: number
+  changed: number
+  removed: number
+  unchanged: number
+}
+
+type Row = Record<string, unknown>
+
+const isObject = (v: unknown): v is Row => typeof v === 'object' && v !== null && !Array.isArray(v)
+const isText = (v: unknown): v is string => typeof v === 'string' && v.trim() !== ''
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v)
+const isOneOf = (labels: Record<string, string>, v: unknown) => typeof v === 'string' && Object.hasOwn(labels, v)
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/
+
+const TX_NUMBER_FIELDS = ['quantity', 'price', 'amount', 'value', 'ratio', 'fee', 'tax']
+
+function badNumber(row: Row, fields: string[]): string | null {
+  const field = fields.find((f) => row[f] !== undefined && !isNumber(row[f]))
+  return field ? `字段 ${field} 不是有效数字` : null
+}
+
+function checkAsset(a: Row): string | null {
+  if (!isText(a.name)) return '缺少名称'
+  if (!isOneOf(ASSET_TYPE_LABEL, a.type)) return `未知的资产类型 ${String(a.type)}`
+  if (!isText(a.currency)) return '缺少币种'
+  if (a.ownership !== undefined && !(isNumber(a.ownership) && a.ownership >= 0 && a.ownership <= 1)) {
+    return '持有比例应在 0–1 之间'
+  }
+  return null
+}
+
+function checkTx(tx: Row, assetIds: Set<string>): string | null {
+  if (!assetIds.has(tx.assetId as string)) return `所属资产 ${String(tx.assetId)} 不存在或有误`
+  if (!isOneOf(TX_TYPE_LABEL, tx.type)) return `未知的流水类型 ${String(tx.type)}`
+  if (!isNumber(tx.occurredAt)) return '发生时间无效'
+  return badNumber(tx, TX_NUMBER_FIELDS)
+}
+
+function checkStrategy(s: Row, assetIds: Set<string>): string | null {
+  if (!assetIds.has(s.assetId as string)) return `所属资产 ${String(s.assetId)} 不存在或有误`
+  if (!isText(s.name)) return '缺少名称'
+  if (!isOneOf(STRATEGY_KIND_LABEL, s.kind)) return `未知的策略类型 ${String(s.kind)}`
+  if (!isText(s.currency)) return '缺少币种'
+  return null
+}
+
+function checkStrategyTx(t: Row, strategyIds: Set<string>): string | null {
+  if (!strategyIds.has(t.strategyId as string)) return `所属策略 ${String(t.strategyId)} 不存在或有误`
+  if (!isOneOf(STRATEGY_TX_TYPE_LABEL, t.type)) return `未知的策略流水类型 ${String(t.type)}`
+  if (!isNumber(t.occurredAt)) return '发生时间无效'
+  return badNumber(t, ['amount', 'value'])
+}
+
+function checkRule(r: Row, assetIds: Set<string>, strategyIds: Set<string>): string | null {
+  if (!isText(r.name)) return '缺少名称'
+  if (r.strategyId !== undefined) {
+    if (!strategyIds.has(r.strategyId as string)) return `目标策略 ${String(r.strategyId)} 不存在或有误`
+  } else if (!assetIds.has(r.assetId as string)) {
+    return `目标资产 ${String(r.assetId)} 不存在或有误`
+  }
+  if (!isOneOf(RECURRENCE_CADENCE_LABEL, r.cadence)) return `未知的频率 ${String(r.cadence)}`
+  if (!(typeof r.startDate === 'string' && DATE_KEY.test(r.startDate))) return '开始日期应为 YYYY-MM-DD'
+  if (!isObject(r.template) || !isOneOf(TX_TYPE_LABEL, r.template.type)) return '流水模板有误'
+  return null
+}
+
+function checkGoal(g: Row): string | null {
+  if (!isText(g.name)) return '缺少名称'
+  if (!isNumber(g.targetCNY)) return '目标金额无效'
+  if (!isOneOf(GOAL_SCOPE_LABEL, g.scope)) return `未知的目标范围 ${String(g.scope)}`
+  return null
+}
+
+/** 逐行校验一段记录:id 必须非空且不重复,其余规则由 validate 给出;返回通过的行 */
+function checkRecords<T>(
+  section: BookSection,
+  list: unknown,
+  validate: (row: Row) => string | null,
+  issues: ImportIssue[],
+): T[] {
+  if (list === undefined) return []
+  if (!Array.isArray(list)) {
+    issues.push({ section, index: -1, message: '应为数组' })
+    return []
+  }
+  const seen = new Set<string>()
+  const valid: T[] = []
+  list.forEach((row: unknown, index) => {
+    const id = isObject(row) && typeof row.id === 'string' ? row.id : undefined
+    const message = !isObject(row)
+      ? '不是有效的记录'
+      : !isText(id)
+        ? '缺少 id'
+        : seen.has(id)
+          ? 'id 与前面的记录重复'
+          : validate(row)
+    if (message) {
+      issues.push({ section, index, id, message })
+    } else {
+      seen.add(id!)
+      valid.push(row as T)
+    }
+  })
+  return valid
+}
+
+/** 行情库 / 历史汇率:只保留 YYYY-MM-DD → 正数 的点 */
+function checkHistory(
+  section: 'prices' | 'fxHistory',
+  value: unknown,
+  issues: ImportIssue[],
+): Record<string, Record<string, number>> | undefined {
+  if (value === undefined) return undefined
+  if (!isObject(value)) {
+    issues.push({ section, index: -1, message: '格式不正确,已忽略' })
+    return undefined
+  }
+  const history: Record<string, Record<string, number>> = {}
+  let dropped = 0
+  for (const [key, points] of Object.entries(value)) {
+    if (!isObject(points)) {
+      dropped++
+      continue
+    }
+    history[key] = {}
+    for (const [date, price] of Object.entries(points)) {
+      if (DATE_KEY.test(date) && isNumber(price) && price > 0) history[key][date] = price
+      else dropped++
+    }
+  }
+  if (dropped) issues.push({ section, index: -1, message: `${dropped} 个无效的数据点已忽略` })
+  return history
+}
+
+/**
+ * 解析导入文件:按架构版本迁移后逐行校验。
+ * 文件整体不可用(不是 JSON、缺少必需字段、来自更新版本)时抛错;单行有误记入 issues 并跳过,
+ * 引用了有误记录的行(如所属资产无效的流水)一并跳过。
+ */
+export function parseImportFile(json: string): ParsedImport {
+  let raw: unknown
+  try {
+    raw = JSON.parse(json)
+  } catch {
+    throw new Error('文件不是有效的 JSON')
+  }
+  if (!isObject(raw) || !Array.isArray(raw.assets) || !Array.isArray(raw.transactions)) {
+    throw new Error('文件格式不正确:缺少 assets / transactions(流水) 字段')
+  }
+  const version = fileSchemaVersion(raw)
+  const { data } = migrateData(raw, version)
+  const issues: ImportIssue[] = []
+
+  const assets = checkRecords<Asset>('assets', data.assets, checkAsset, issues)
+  const assetIds = new Set(assets.map((a) => a.id))
+  const transactions = checkRecords<Transaction>('transactions', data.transactions, (t) => checkTx(t, assetIds), issues)
+  const strategies = checkRecords<Strategy>('strategies', data.strategies, (s) => checkStrategy(s, assetIds), issues)
+  const strategyIds = new Set(strategies.map((s) => s.id))
+  const strategyTransactions = checkRecords<StrategyTransaction>(
+    'strategyTransactions',
+    data.strategyTransactions,
+    (t) => checkStrategyTx(t, strategyIds),
+    issues,
+  )
+  const recurringRules = checkRecords<RecurringRule>(
+    'recurringRules',
+    data.recurringRules,
+    (r) => checkRule(r, assetIds, strategyIds),
+    issues,
+  )
+  const goals = checkRecords<Goal>('goals', data.goals, checkGoal, issues)
+  const pendingTxs = checkRecords<PendingTx>(
+    'pendingTxs',
+    data.pendingTxs,
+    (p) => (isObject(p.tx) ? checkTx(p.tx, assetIds) : '缺少流水内容'),
+    issues,
+  )
+
+  let settings: Partial<Settings> | undefined
+  if (isObject(data.settings)) settings = data.settings as Partial<Settings>
+  else if (data.settings !== undefined) issues.push({ section: 'settings', index: -1, message: '格式不正确,已忽略' })
+
+  return {
+    version,
+    secretsStripped: raw.secretsStripped === true,
+    exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : undefined,
+    workspaceName: isObject(raw.workspace) && typeof raw.workspace.name === 'string' ? raw.workspace.name : undefined,
+    baseCurrency: settings?.baseCurrency ?? (typeof raw.baseCurrency === 'string' ? raw.baseCurrency : undefined),
+    book: { assets, transactions, strategies, strategyTransactions, recurringRules, goals, pendingTxs },
+    prices: checkHistory('prices', data.prices, issues),
+    fxHistory: checkHistory('fxHistory', data.fxHistory, issues),
+    settings,
+    issues,
+  }
+}
+
+type WithId = { id: string }
+
+function diffSection(current: WithId[], next: WithId[]): SectionDiff {
+  const before = new Map(current.map((r) => [r.id, r]))
+  const diff: SectionDiff = { added: 0, changed: 0, removed: 0, unchanged: 0 }
+  for (const r of next) {
+    const old = before.get(r.id)
+    if (!old) diff.added++
+    else if (JSON.stringify(old) === JSON.stringify(r)) diff.unchanged++
+    else diff.changed++
+  }
+  const kept = new Set(next.map((r) => r.id))
+  diff.removed = current.filter((r) => !kept.has(r.id)).length
+  return diff
+}
+
+/** id 相同的记录用新值替换(保持原位置),新 id 追加在后 */
+function mergeById<T extends WithId>(current: T[], incoming: T[]): T[] {
+  const byId = new Map(incoming.map((r) => [r.id, r]))
+  const merged = current.map((r) => byId.get(r.id) ?? r)
+  const known = new Set(current.map((r) => r.id))
+  return [...merged, ...incoming.filter((r) => !known.has(r.id))]
+}
+
+/**
+ * 给导入的记录换上新 id,并同步改写资产、策略、周期规则、转账配对与贷款月供之间的引用。
+ * assetIds 为文件中资产 id → 新 id 的对照,可由调用方传入以便同步改写设置中的引用。
+ */
+export function reassignIds(
+  book: BookData,
+  newId: () => string,
+  assetIds: ReadonlyMap<string, string> = new Map(book.assets.map((a) => [a.id, newId()])),
+): BookData {
+  const strategyIds = new Map(book.strategies.map((s) => [s.id, newId()]))
+  const ruleIds = new Map(book.recurringRules.map((r) => [r.id, newId()]))
+  const transferIds = new Map<string, string>()
+  const ref = (ids: ReadonlyMap<string, string>, id: string | undefined) => (id && ids.get(id)) || id
+  const transfer = (id: string | undefined) => {
+    if (!id) return id
+    if (!transferIds.has(id)) transferIds.set(id, newId())
+    return transferIds.get(id)
+  }
+
+  return {
+    assets: book.assets.map((a) => ({
+      ...a,
+      id: assetIds.get(a.id)!,
+      settlementAssetId: ref(assetIds, a.settlementAssetId),
+      loan: a.loan && { ...a.loan, paymentAssetId: ref(assetIds, a.loan.paymentAssetId) },
+    })),
+    transactions: book.transactions.map((t) => ({
+      ...t,
+      id: newId(),
+      assetId: ref(assetIds, t.assetId)!,
+      transferId: transfer(t.transferId),
+      loanAssetId: ref(assetIds, t.loanAssetId),
+      recurringRuleId: ref(ruleIds, t.recurringRuleId),
+    })),
+    strategies: book.strategies.map((s) => ({ ...s, id: strategyIds.get(s.id)!, assetId: ref(assetIds, s.assetId)! })),
+    strategyTransactions: book.strategyTransactions.map((t) => ({
+      ...t,
+      id: newId(),
+      strategyId: ref(strategyIds, t.strategyId)!,
+      recurringRuleId: ref(ruleIds, t.recurringRuleId),
+    })),
+    recurringRules: book.recurringRules.map((r) => ({
+      ...r,
+      id: ruleIds.get(r.id)!,
+      assetId: ref(assetIds, r.assetId),
+      strategyId: ref(strategyIds, r.strategyId),
+    })),
+    goals: book.goals.map((g) => ({ ...g, id: newId(), assetIds: g.assetIds?.map((id) => ref(assetIds, id)!) })),
+    pendingTxs: book.pendingTxs.map((p) => ({
+      ...p,
+      id: newId(),
+      tx: { ...p.tx, assetId: ref(assetIds, p.tx.assetId)!, transferId: transfer(p.tx.transferId) },
+    })),
+  }
+}
+
+/** 按方式合并一段记录,并算出这一段的变化 */
+function planSection<T extends WithId>(current: T[], incoming: T[], mode: ImportMode): [T[], SectionDiff] {
+  const next = mode === 'replace' ? incoming : mode === 'merge' ? mergeById(current, incoming) : [...current, ...incoming]
+  return [next, diffSection(current, next)]
+}
+
+/**
+ * 按方式算出导入后的账本数据与各段的变化;预览与实际写入用同一结果。
+ * 追加时 assetIds 为文件中资产 id → 新 id 的对照,其余方式为空。
+ */
+export function planImport(
+  current: BookData,
+  incoming: BookData,
+  mode: ImportMode,
+  newId: () => string,
+): { book: BookData; diff: Record<BookSection, SectionDiff>; assetIds: Map<string, string> } {
+  const assetIds = new Map<string, string>()
+  if (mode === 'append') for (const a of incoming.assets) assetIds.set(a.id, newId())
+  const source = mode === 'append' ? reassignIds(incoming, newId, assetIds) : incoming
+  const [assets, assetsDiff] = planSection(current.assets, source.assets, mode)
+  const [transactions, transactionsDiff] = planSection(current.transactions, source.transactions, mode)
+  const [strategies, strategiesDiff] = planSection(current.strategies, source.strategies, mode)
+  const [strategyTransactions, strategyTransactionsDiff] = planSection(
+    current.strategyTransactions,
+    source.strategyTransactions,
+    mode,
+  )
+  const [recurringRules, recurringRulesDiff] = planSection(current.recurringRules, source.recurringRules, mode)
+  const [goals, goalsDiff] = planSection(current.goals, source.goals, mode)
+  const [pendingTxs, pendingTxsDiff] = planSection(current.pendingTxs, source.pendingTxs, mode)
+  return {
+    book: { assets, transactions, strategies, strategyTransactions, recurringRules, goals, pendingTxs },
+    diff: {
+      assets: assetsDiff,
+      transactions: transactionsDiff,
+      strategies: strategiesDiff,
+      strategyTransactions: strategyTransactionsDiff,
+      recurringRules: recurringRulesDiff,
+      goals: goalsDiff,
+      pendingTxs: pendingTxsDiff,
+    },
+    assetIds,
+  }
+}
+
+/** 按资产 id 对照改写设置中目标配置分组引用的资产;对照中没有的 id 保持不变 */
+export function remapSettingsAssetIds(settings: Partial<Settings>, assetIds: ReadonlyMap<string, string>): Partial<Settings> {
+  if (!settings.allocationBuckets || assetIds.size === 0) return settings
+  return {
+    ...settings,
+    allocationBuckets: settings.allocationBuckets.map((b) => ({
+      ...b,
+      assetIds: b.assetIds?.map((id) => assetIds.get(id) ?? id),
+    })),
+  }
+}
+
+/** 行情库 / 历史汇率逐日合并,同日以导入的为准 */
+export function mergeHistory<H extends Record<string, Record<string, number>>>(current: H, incoming: H): H {
+  const merged: Record<string, Record<string, number>> = { ...current }
+  for (const [key, points] of Object.entries(incoming)) merged[key] = { ...current[key], ...points }
+  return merged as H
+}
+
+/**
+ * 文件的基准货币与当前不同时,把文件中的行情库、历史汇率与目标金额换算为以当前基准计价(见 rebaseFx),
+ * 以免不同货币混在共用的行情库里。换算取文件中的汇率,缺少时由当前汇率取倒数;都没有时抛错。
+ * 换算后 settings.fxRates 也改为以当前基准计价。
+ */
+export function rebaseImport(parsed: ParsedImport, current: Settings): ParsedImport {
+  const from = parsed.baseCurrency
+  const to = current.baseCurrency
+  if (!from || from === to) return parsed
+  const fxRates: Record<string, number> = {}
+  for (const [currency, rate] of Object.entries(parsed.settings?.fxRates ?? {})) {
+    if (isNumber(rate) && rate > 0) fxRates[currency] = rate
+  }
+  if (!fxRates[to] && current.fxRates[from] > 0) fxRates[to] = 1 / current.fxRates[from]
+  if (!fxRates[to]) throw new Error(`文件的基准货币为 ${from},缺少 ${from} 与 ${to} 之间的汇率,无法换算`)
+
+  const rebased = rebaseFx({ ...current, baseCurrency: from, fxRates }, parsed.fxHistory ?? {}, parsed.prices ?? {}, to)
+  return {
+    ...parsed,
+    baseCurrency: to,
+    book: { ...parsed.book, goals: parsed.book.goals.map((g) => rebaseGoal(g, rebased.factor)) },
+    prices: parsed.prices && rebased.prices,
+    fxHistory: parsed.fxHistory && rebased.fxHistory,
+    settings: parsed.settings && { ...parsed.settings, baseCurrency: to, fxRates: rebased.fxRates },
+  }
+}
+
+/** 行情源配置中的密钥字段;未登记的行情源返回 null */
+function secretKeysOf(providerId: string): string[] | null {
+  const provider = getPriceProvider(providerId)
+  return provider ? provider.settings.filter((f) => f.secret).map((f) => f.key) : null
+}
+
+/** 去掉设置中的密钥(LLM API Key 与行情源的密钥字段),用于不含密钥的导出 */
+export function stripSecrets(settings: Settings): Settings {
+  const priceProviders: Record<string, Record<string, string>> = {}
+  for (const [id, config] of Object.entries(settings.priceProviders ?? {})) {
+    const secrets = secretKeysOf(id)
+    // 未登记的行情源无法判断哪些是密钥,整项不导出
+    if (!secrets) continue
+    priceProviders[id] = Object.fromEntries(Object.entries(config).filter(([key]) => !secrets.includes(key)))
+  }
+  return { ...settings, llm: { ...settings.llm, apiKey: '' }, priceProviders }
+}
+
+/**
+ * 导入设置:文件中的字段覆盖当前设置。基准货币与汇率不随导入改变:当前汇率表已有的币种保留当前值,
+ * 只补入缺少的币种(incoming 须已由 rebaseImport 换算到当前基准);更换基准货币请用 changeBaseCurrency。
+ * 不导入密钥时,LLM 与行情源的密钥字段保留当前值(当前没有则留空);未登记的行情源无法判断哪些是密钥,保留当前配置。
+ */
+export function importSettings(current: Settings, incoming: Partial<Settings>, includeSecrets: boolean): Settings {
+  const next: Settings = {
+    ...current,
+    ...incoming,
+    baseCurrency: current.baseCurrency,
+    fxRates: { ...incoming.fxRates, ...current.fxRates },
+    fxMeta: current.fxMeta,
+    fxUpdatedAt: current.fxUpdatedAt,
+  }
+  if (includeSecrets) return next
+  next.llm = { ...(incoming.llm ?? current.llm), apiKey: current.llm.apiKey }
+  const providers = { ...current.priceProviders }
+  for (const [id, config] of Object.entries(incoming.priceProviders ?? {})) {
+    const secrets = secretKeysOf(id)
+    if (!secrets) continue
+    const merged = { ...config }
+    for (const key of secrets) {
+      const kept = current.priceProviders?.[id]?.[key]
+      if (kept) merged[key] = kept
+      else delete merged[key]
+    }
+    providers[id] = merged
+  }
+  next.priceProviders = providers
+  return next
+}
@@ -0,0 +1,466 @@
+import type {
+  Asset,
+  FxHistory,
+  Goal,
+  PendingTx,
+  PriceHistory,
+  QuoteTimes,
+  RecurringRule,
+  RefreshLogEntry,
+  Settings,
+  Strategy,
+  StrategyTransaction,
+  Transaction,
+  Workspace,
+} from '../../types'
+import { DEFAULT_SETTINGS, DEFAULT_WORKSPACE_ID, HOUSEHOLD_VIEW_ID } from '../../types'
+import type { WorkspaceBook } from '../../engine/household'
+import type { StorageBackend, StorageBackendKind } from './backend'
+import { PRICES_KEY, isQuotaError, mergeLegacy, recordCollectionOf } from './backend'
+import { createIndexedDbBackend } from './indexedDbBackend'
+import { createLocalStorageBackend, readLocalStorage } from './localStorageBackend'
+import { SCHEMA_VERSION, migrateData, type SchemaData } from './migrations'
+import type { BookData, BookSection, ImportOptions, ParsedImport, SectionDiff } from './importPlan'
+import {
+  importSettings,
+  mergeHistory,
+  planImport,
+  rebaseImport,
+  remapSettingsAssetIds,
+  stripSecrets,
+} from './importPlan'
+
+export type { StorageBackendKind } from './backend'
+export { STORAGE_BACKEND_LABEL } from './backend'
+export type {
+  BookData,
+  BookSection,
+  ImportIssue,
+  ImportMode,
+  ImportOptions,
+  ParsedImport,
+  SectionDiff,
+} from './importPlan'
+export {
+  BOOK_SECTIONS,
+  BOOK_SECTION_LABEL,
+  IMPORT_MODE_DESC,
+  IMPORT_MODE_LABEL,
+  IMPORT_SECTION_LABEL,
+  parseImportFile,
+  planImport,
+  rebaseImport,
+} from './importPlan'
+export {
+  MIN_BACKUP_PASSWORD_LENGTH,
+  decryptBackup,
+  encryptBackup,
+  isEncryptedBackup,
+} from './backupCrypto'
+
+/**
+ * StorageService — 本地优先持久化。
+ * 所有数据仅保存在浏览器本地(优先 IndexedDB,不可用时回退 LocalStorage),绝不上传。
+ * 启动时整体读入内存,读取同步;写入先更新内存,再异步落盘,失败通过 onWriteError 通知。
+ */
+const KEYS = {
+  prices: PRICES_KEY,
+  fxHistory: 'panasset.fxHistory',
+  settings: 'panasset.settings',
+  workspaces: 'panasset.workspaces',
+  ui: 'panasset.ui',
+  quoteTimes: 'panasset.quoteTimes',
+  refreshLog: 'panasset.refreshLog',
+  /** 已应用的数据架构版本,见 migrations.ts */
+  schemaVersion: 'panasset.schemaVersion',
+} as const
+
+/** 按账本分开存储的数据;默认账本沿用 panasset.<name>,其余为 panasset.ws.<id>.<name> */
+const SCOPED = [
+  'assets',
+  'transactions',
+  'strategies',
+  'strategyTransactions',
+  'recurringRules',
+  'goals',
+  'pendingTxs',
+] as const
+
+type ScopedName = (typeof SCOPED)[number]
+
+function scopedKey(name: ScopedName, workspaceId = activeWorkspaceId): string {
+  return workspaceId === DEFAULT_WORKSPACE_ID ? `panasset.${name}` : `panasset.ws.${workspaceId}.${name}`
+}
+
+type WorkspaceRegistry = { workspaces: Workspace[]; activeId: string }
+
+const DEFAULT_WORKSPACE: Workspace = { id: DEFAULT_WORKSPACE_ID, name: '我的账本', createdAt: 0 }
+
+function loadRegistry(): WorkspaceRegistry {
+  const r = read<Partial<WorkspaceRegistry>>(KEYS.workspaces, {})
+  const workspaces = r.workspaces?.length ? r.workspaces : [DEFAULT_WORKSPACE]
+  const known = r.activeId === HOUSEHOLD_VIEW_ID || workspaces.some((w) => w.id === r.activeId)
+  return { workspaces, activeId: known ? r.activeId! : workspaces[0].id }
+}
+
+let activeWorkspaceId = DEFAULT_WORKSPACE_ID
+
+/** 写入账本数据(缺省为当前账本);家庭合并视图只读 */
+function writeScoped(name: ScopedName, value: unknown, workspaceId = activeWorkspaceId) {
+  if (workspaceId === HOUSEHOLD_VIEW_ID) {
+    throw new Error('家庭合并视图为只读,请切换到具体账本后再修改')
+  }
+  write(scopedKey(name, workspaceId), value)
+}
+
+type UiPrefs = {
+  strategiesShowClosed?: boolean
+  assetsFilterType?: string
+  assetsFilterAsset?: string
+  strategiesFilterAsset?: string
+  strategiesFilterKind?: string
+}
+
+function loadUiPrefs(): UiPrefs {
+  return read<UiPrefs>(KEYS.ui, {})
+}
+
+function patchUiPrefs(patch: Partial<UiPrefs>) {
+  write(KEYS.ui, { ...loadUiPrefs(), ...patch })
+}
+
+/** 本应用在 LocalStorage 时代使用的键;迁移与回退后端只处理这些键 */
+function isOwnKey(key: string): boolean {
+  if ((Object.values(KEYS) as string[]).includes(key)) return true
+  const m = /^panasset\.(?:ws\.[^.]+\.)?(\w+)$/.exec(key)
+  return !!m && (SCOPED as readonly string[]).includes(m[1])
+}
+
+const cache = new Map<string, unknown>()
+let backend: StorageBackend = createLocalStorageBackend(isOwnKey)
+/**
+ * 落盘队列:保证写入按调用顺序执行。persisted 记录各键最后一次成功落盘的值,
+ * 后端据此对比增量;某次写入失败时下一次写入会连同遗漏的记录一起补写。
+ */
+let pending: Promise<unknown> = Promise.resolve()
+const persisted = new Map<string, unknown>()
+const writeErrorListeners = new Set<(message: string) => void>()
+
+function writeErrorMessage(e: unknown): string {
+  return isQuotaError(e)
+    ? '浏览器存储空间已满,最近的修改未能保存。请先导出备份,再删除不需要的历史行情或账本。'
+    : `数据保存失败:${(e as Error)?.message ?? e}`
+}
+
+function enqueue(task: () => Promise<void>) {
+  pending = pending.then(task).catch((e) => {
+    const message = writeErrorMessage(e)
+    writeErrorListeners.forEach((listener) => listener(message))
+  })
+}
+
+function read<T>(key: string, fallback: T): T {
+  return cache.has(key) ? (cache.get(key) as T) : fallback
+}
+
+function write(key: string, value: unknown) {
+  cache.set(key, value)
+  enqueue(async () => {
+    await backend.write([[key, value]], (k) => persisted.get(k))
+    persisted.set(key, value)
+  })
+}
+
+function remove(keys: string[]) {
+  keys.forEach((k) => cache.delete(k))
+  enqueue(async () => {
+    await backend.remove(keys)
+    keys.forEach((k) => persisted.delete(k))
+  })
+}
+
+export const StorageService = {
+  /**
+   * 启动时调用一次:打开 IndexedDB(失败则回退 LocalStorage)并读入全部数据。
+   * LocalStorage 中残留的 panasset.* 键来自旧版本或回退期间,只增不删地并入 IndexedDB 后删除,
+   * 避免回退期间的部分数据覆盖 IndexedDB 中已有的记录。
+   */
+  async init(): Promise<StorageBackendKind> {
+    let data: Map<string, unknown>
+    try {
+      backend = await createIndexedDbBackend()
+      data = await backend.loadAll()
+    } catch {
+      backend = createLocalStorageBackend(isOwnKey)
+      data = await backend.loadAll()
+    }
+    if (backend.kind === 'indexeddb') {
+      const legacy = readLocalStorage(isOwnKey)
+      if (legacy.size) {
+        try {
+          const merged = mergeLegacy(data, legacy, [KEYS.prices, KEYS.fxHistory])
+          await backend.write(merged, (k) => data.get(k))
+          merged.forEach(([key, value]) => data.set(key, value))
+          legacy.forEach((_, key) => localStorage.removeItem(key))
+        } catch {
+          // 迁移失败(如空间不足):本次继续使用 LocalStorage,旧数据原样保留
+          backend = createLocalStorageBackend(isOwnKey)
+          return finishInit(await backend.loadAll())
+        }
+      }
+    }
+    return finishInit(data)
+  },
+
+  /** 订阅落盘失败(如空间已满),返回取消订阅函数 */
+  onWriteError(listener: (message: string) => void): () => void {
+    writeErrorListeners.add(listener)
+    return () => writeErrorListeners.delete(listener)
+  },
+
+  /** 等待已排队的写入全部落盘 */
+  flush: (): Promise<void> => pending.then(() => undefined),
+
+  /** 存储占用:后端报告的总量,以及按数据类别估算的大小(JSON 字节数) */
+  async usage(): Promise<StorageUsage> {
+    const { usedBytes, quotaBytes } = await backend.estimate()
+    const sizes: Record<StorageCategory, number> = { prices: 0, transactions: 0, fxHistory: 0, other: 0 }
+    for (const [key, value] of cache) {
+      const bytes = new Blob([JSON.stringify(value) ?? '']).size
+      const category: StorageCategory =
+        key === KEYS.prices ? 'prices' : key === KEYS.fxHistory ? 'fxHistory' : recordCollectionOf(key) ? 'transactions' : 'other'
+      sizes[category] += bytes
+    }
+    const estimated = Object.values(sizes).reduce((a, b) => a + b, 0)
+    return { backend: backend.kind, usedBytes: usedBytes || estimated, quotaBytes, sizes }
+  },
+
+  loadAssets: (workspaceId?: string): Asset[] => read(scopedKey('assets', workspaceId), []),
+  saveAssets: (assets: Asset[]) => writeScoped('assets', assets),
+
+  loadTransactions: (workspaceId?: string): Transaction[] => read(scopedKey('transactions', workspaceId), []),
+  saveTransactions: (txs: Transaction[]) => writeScoped('transactions', txs),
+
+  loadPrices: (): PriceHistory => read(KEYS.prices, {}),
+  savePrices: (prices: PriceHistory) => write(KEYS.prices, prices),
+
+  loadQuoteTimes: (): QuoteTimes => read(KEYS.quoteTimes, {}),
+  saveQuoteTimes: (quoteTimes: QuoteTimes) => write(KEYS.quoteTimes, quoteTimes),
+
+  loadRefreshLog: (): RefreshLogEntry[] => read(KEYS.refreshLog, []),
+  saveRefreshLog: (log: RefreshLogEntry[]) => write(KEYS.refreshLog, log),
+
+  loadFxHistory: (): FxHistory => read(KEYS.fxHistory, {}),
+  saveFxHistory: (fxHistory: FxHistory) => write(KEYS.fxHistory, fxHistory),
+
+  loadSettings: (): Settings => {
+    const s = read<Partial<Settings>>(KEYS.settings, {})
+    return {
+      ...DEFAULT_SETTINGS,
+      ...s,
+      fxRates: { ...DEFAULT_SETTINGS.fxRates, ...(s.fxRates ?? {}) },
+      llm: { ...DEFAULT_SETTINGS.llm, ...(s.llm ?? {}) },
+    }
+  },
+  saveSettings: (settings: Settings) => write(KEYS.settings, settings),
+
+  loadStrategies: (workspaceId?: string): Strategy[] => read(scopedKey('strategies', workspaceId), []),
+  saveStrategies: (strategies: Strategy[]) => writeScoped('strategies', strategies),
+
+  loadStrategyTransactions: (workspaceId?: string): StrategyTransaction[] =>
+    read(scopedKey('strategyTransactions', workspaceId), []),
+  saveStrategyTransactions: (txs: StrategyTransaction[]) => writeScoped('strategyTransactions', txs),
+
+  loadRecurringRules: (): RecurringRule[] => read(scopedKey('recurringRules'), []),
+  saveRecurringRules: (rules: RecurringRule[]) => writeScoped('recurringRules', rules),
+
+  loadGoals: (workspaceId?: string): Goal[] => read(scopedKey('goals', workspaceId), []),
+  saveGoals: (goals: Goal[], workspaceId?: string) => writeScoped('goals', goals, workspaceId),
+
+  loadPendingTxs: (): PendingTx[] => read(scopedKey('pendingTxs'), []),
+  savePendingTxs: (pending: PendingTx[]) => writeScoped('pendingTxs', pending),
+
+  loadWorkspaces: (): Workspace[] => loadRegistry().workspaces,
+  saveWorkspaces: (workspaces: Workspace[]) => write(KEYS.workspaces, { ...loadRegistry(), workspaces }),
+
+  activeWorkspaceId: (): string => activeWorkspaceId,
+
+  /** 切换当前账本(或家庭合并视图),之后的读写都落在该账本 */
+  setActiveWorkspace: (id: string) => {
+    activeWorkspaceId = id
+    write(KEYS.workspaces, { ...loadRegistry(), activeId: id })
+  },
+
+  /** 读取某个账本的资产与策略事件流(合并视图用),不切换当前账本 */
+  loadBook: (workspace: Workspace): WorkspaceBook => ({
+    workspace,
+    assets: StorageService.loadAssets(workspace.id),
+    transactions: StorageService.loadTransactions(workspace.id),
+    strategies: StorageService.loadStrategies(workspace.id),
+    strategyTransactions: StorageService.loadStrategyTransactions(workspace.id),
+  }),
+
+  /** 删除某个账本的全部数据 */
+  clearWorkspace: (workspaceId: string) => {
+    remove(SCOPED.map((name) => scopedKey(name, workspaceId)))
+  },
+
+  loadStrategiesShowClosed: (): boolean => loadUiPrefs().strategiesShowClosed ?? false,
+
+  saveStrategiesShowClosed: (value: boolean) => {
+    patchUiPrefs({ strategiesShowClosed: value })
+  },
+
+  loadAssetsFilterType: (): string => loadUiPrefs().assetsFilterType ?? '',
+
+  saveAssetsFilterType: (value: string) => {
+    patchUiPrefs({ assetsFilterType: value })
+  },
+
+  loadAssetsFilterAsset: (): string => loadUiPrefs().assetsFilterAsset ?? '',
+
+  saveAssetsFilterAsset: (value: string) => {
+    patchUiPrefs({ assetsFilterAsset: value })
+  },
+
+  loadStrategiesFilterAsset: (): string => loadUiPrefs().strategiesFilterAsset ?? '',
+
+  saveStrategiesFilterAsset: (value: string) => {
+    patchUiPrefs({ strategiesFilterAsset: value })
+  },
+
+  loadStrategiesFilterKind: (): string => loadUiPrefs().strategiesFilterKind ?? '',
+
+  saveStrategiesFilterKind: (value: string) => {
+    patchUiPrefs({ strategiesFilterKind: value })
+  },
+
+  /** 导出当前账本的数据(连同共用的行情、汇率与设置);stripSecrets 时去掉 API Key 等密钥 */
+  exportAll({ stripSecrets: strip = false }: { stripSecrets?: boolean } = {}): string {
+    if (activeWorkspaceId === HOUSEHOLD_VIEW_ID) throw new Error('请先切换到具体账本再导出')
+    const workspace = loadRegistry().workspaces.find((w) => w.id === activeWorkspaceId)
+    return JSON.stringify(
+      {
+        app: 'PanassetLite',
+        version: SCHEMA_VERSION,
+        exportedAt: new Date().toISOString(),
+        secretsStripped: strip,
+        workspace: workspace && { name: workspace.name },
+        baseCurrency: this.loadSettings().baseCurrency,
+        assets: this.loadAssets(),
+        transactions: this.loadTransactions(),
+        prices: this.loadPrices(),
+        fxHistory: this.loadFxHistory(),
+        settings: strip ? stripSecrets(this.loadSettings()) : this.loadSettings(),
+        strategies: this.loadStrategies(),
+        strategyTransactions: this.loadStrategyTransactions(),
+        recurringRules: this.loadRecurringRules(),
+        goals: this.loadGoals(),
+        pendingTxs: this.loadPendingTxs(),
+      },
+      null,
+      2,
+    )
+  },
+
+  /** 当前账本的全部数据(导入预览与合并用) */
+  loadBookData(): BookData {
+    return {
+      assets: this.loadAssets(),
+      transactions: this.loadTransactions(),
+      strategies: this.loadStrategies(),
+      strategyTransactions: this.loadStrategyTransactions(),
+      recurringRules: this.loadRecurringRules(),
+      goals: this.loadGoals(),
+      pendingTxs: this.loadPendingTxs(),
+    }
+  },
+
+  /** 把已校验的导入文件换算到当前基准货币后,按所选方式写入当前账本,返回各段的变化 */
+  applyImport(file: ParsedImport, options: ImportOptions): Record<BookSection, SectionDiff> {
+    if (activeWorkspaceId === HOUSEHOLD_VIEW_ID) throw new Error('家庭合并视图为只读,请切换到具体账本后再导入')
+    const parsed = rebaseImport(file, this.loadSettings())
+    const { book, diff, assetIds } = planImport(this.loadBookData(), parsed.book, options.mode, uid)
+    for (const name of SCOPED) writeScoped(name, book[name])
+    // 行情库与历史汇率为各账本共用,任何方式都逐日合并,以免删掉其他账本的数据
+    if (parsed.prices) write(KEYS.prices, mergeHistory(this.loadPrices(), parsed.prices))
+    if (parsed.fxHistory) write(KEYS.fxHistory, mergeHistory(this.loadFxHistory(), parsed.fxHistory))
+    if (options.includeSettings && parsed.settings) {
+      const includeSecrets = options.includeSecrets && !parsed.secretsStripped
+      const incoming = remapSettingsAssetIds(parsed.settings, assetIds)
+      write(KEYS.settings, importSettings(this.loadSettings(), incoming, includeSecrets))
+    }
+    return diff
+  },
+
+  /** 清空全部账本与共用数据,回到单一默认账本 */
+  clearAll() {
+    for (const w of loadRegistry().workspaces) StorageService.clearWorkspace(w.id)
+    remove(Object.values(KEYS))
+    write(KEYS.schemaVersion, SCHEMA_VERSION)
+    activeWorkspaceId = DEFAULT_WORKSPACE_ID
+  },
+}
+
+export type StorageCategory = 'prices' | 'transactions' | 'fxHistory' | 'other'
+
+export const STORAGE_CATEGORY_LABEL: Record<StorageCategory, string> = {
+  prices: '行情库',
+  transactions: '流水',
+  fxHistory: '历史汇率',
+  other: '资产、策略与设置',
+}
+
+export interface StorageUsage {
+  backend: StorageBackendKind
+  usedBytes: number
+  quotaBytes?: number
+  sizes: Record<StorageCategory, number>
+}
+
+function finishInit(data: Map<string, unknown>): StorageBackendKind {
+  cache.clear()
+  persisted.clear()
+  data.forEach((value, key) => {
+    cache.set(key, value)
+    persisted.set(key, value)
+  })
+  activeWorkspaceId = loadRegistry().activeId
+  migrateStored()
+  return backend.kind
+}
+
+/**
+ * 把本地已保存的数据升级到当前架构版本并记录版本号。按账本逐个迁移,
+ * 共用数据随第一个账本一起处理;只写回有变化的键。
+ * 版本号高于当前应用(用新版打开过)时不做任何改动。
+ */
+function migrateStored() {
+  if (cache.size === 0) {
+    write(KEYS.schemaVersion, SCHEMA_VERSION)
+    return
+  }
+  const from = read(KEYS.schemaVersion, 1)
+  if (from >= SCHEMA_VERSION) return
+  const shared = { prices: KEYS.prices, fxHistory: KEYS.fxHistory, settings: KEYS.settings }
+  loadRegistry().workspaces.forEach((w, i) => {
+    const keys: Record<string, string> = Object.fromEntries(SCOPED.map((name) => [name, scopedKey(name, w.id)]))
+    if (i === 0) Object.assign(keys, shared)
+    const before: SchemaData = {}
+    for (const [field, key] of Object.entries(keys)) if (cache.has(key)) before[field] = cache.get(key)
+    const { data } = migrateData(before, from)
+    for (const [field, value] of Object.entries(data)) {
+      if (value !== before[field]) write(keys[field], value)
+    }
+  })
+  write(KEYS.schemaVersion, SCHEMA_VERSION)
+}
+
+export function uid(): string {
+  return Math.random().toString(36).slice(2, 10) + Date.now().toString(36)
+}
+
+export function today(): string {
+  const d = new Date()
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+}
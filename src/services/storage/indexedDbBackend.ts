@@ -0,0 +1,141 @@
+import type { PriceHistory } from '../../types'
+import type { StorageBackend } from './backend'
+import { PRICES_KEY, diffPrices, diffRecords, recordCollectionOf } from './backend'
+
+const DB_NAME = 'panasset'
+const DB_VERSION = 1
+const KV = 'kv'
+const PRICES = 'prices'
+const STORES = [KV, 'transactions', 'strategyTransactions', PRICES]
+
+/** 流水集合中的一条:scope 为所属集合的键(区分账本),record 为流水本身 */
+type ScopedRecord = { scope: string; record: { id: string; occurredAt?: number } }
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+function completed(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error ?? new Error('存储事务被中止'))
+  })
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION)
+    req.onupgradeneeded = () => {
+      const db = req.result
+      db.createObjectStore(KV)
+      for (const [name, owner] of [
+        ['transactions', 'assetId'],
+        ['strategyTransactions', 'strategyId'],
+      ] as const) {
+        const store = db.createObjectStore(name, { keyPath: ['scope', 'record.id'] })
+        store.createIndex(owner, ['scope', `record.${owner}`])
+        store.createIndex('occurredAt', ['scope', 'record.occurredAt'])
+      }
+      const prices = db.createObjectStore(PRICES, { keyPath: ['symbol', 'date'] })
+      prices.createIndex('symbol', 'symbol')
+    }
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+    req.onblocked = () => reject(new Error('本地数据库被其他标签页占用,请关闭其他 PanassetLite 页面后刷新'))
+  })
+}
+
+/** 某个集合键在记录表中的主键范围:[scope] 之后、[scope, []] 之前(数组键排在字符串之后) */
+function scopeRange(scope: string): IDBKeyRange {
+  return IDBKeyRange.bound([scope], [scope, []])
+}
+
+/**
+ * IndexedDB 后端:流水按条存储(按 assetId / strategyId 与发生时间建索引),
+ * 行情按「代码 + 日期」逐点存储,其余设置类数据整键存于 kv 表。
+ * 打开失败(不支持或被禁用)时抛错,由调用方回退到 LocalStorage。
+ */
+export async function createIndexedDbBackend(): Promise<StorageBackend> {
+  if (typeof indexedDB === 'undefined') throw new Error('当前浏览器不支持 IndexedDB')
+  const db = await openDb()
+  // 其他标签页升级数据库时让出连接
+  db.onversionchange = () => db.close()
+  // 尽量申请持久化,避免浏览器在空间紧张时清除数据
+  navigator.storage?.persist?.().catch(() => false)
+
+  return {
+    kind: 'indexeddb',
+
+    async loadAll() {
+      const tx = db.transaction(STORES, 'readonly')
+      const kv = tx.objectStore(KV)
+      const [keys, values, txs, strategyTxs, points] = await Promise.all([
+        request(kv.getAllKeys()),
+        request(kv.getAll()),
+        request(tx.objectStore('transactions').getAll() as IDBRequest<ScopedRecord[]>),
+        request(tx.objectStore('strategyTransactions').getAll() as IDBRequest<ScopedRecord[]>),
+        request(tx.objectStore(PRICES).getAll() as IDBRequest<Array<{ symbol: string; date: string; price: number }>>),
+      ])
+      const data = new Map<string, unknown>(keys.map((k, i) => [String(k), values[i]]))
+      for (const { scope, record } of [...txs, ...strategyTxs]) {
+        const list = (data.get(scope) as ScopedRecord['record'][] | undefined) ?? []
+        list.push(record)
+        data.set(scope, list)
+      }
+      for (const [key, list] of data) {
+        if (!recordCollectionOf(key)) continue
+        ;(list as ScopedRecord['record'][]).sort((a, b) => (a.occurredAt ?? 0) - (b.occurredAt ?? 0))
+      }
+      if (points.length) {
+        const prices: PriceHistory = {}
+        for (const { symbol, date, price } of points) (prices[symbol] ??= {})[date] = price
+        data.set(PRICES_KEY, prices)
+      }
+      return data
+    },
+
+    async write(entries, prev) {
+      const tx = db.transaction(STORES, 'readwrite')
+      for (const [key, value] of entries) {
+        const collection = recordCollectionOf(key)
+        if (collection) {
+          const store = tx.objectStore(collection)
+          const { put, remove } = diffRecords(
+            (prev(key) as ScopedRecord['record'][] | undefined) ?? [],
+            (value as ScopedRecord['record'][] | undefined) ?? [],
+          )
+          for (const record of put) store.put({ scope: key, record })
+          for (const id of remove) store.delete([key, id])
+        } else if (key === PRICES_KEY) {
+          const store = tx.objectStore(PRICES)
+          const { put, remove } = diffPrices((prev(key) as PriceHistory | undefined) ?? {}, value as PriceHistory)
+          for (const point of put) store.put(point)
+          for (const k of remove) store.delete(k)
+        } else {
+          tx.objectStore(KV).put(value, key)
+        }
+      }
+      await completed(tx)
+    },
+
+    async remove(keys) {
+      const tx = db.transaction(STORES, 'readwrite')
+      for (const key of keys) {
+        const collection = recordCollectionOf(key)
+        if (collection) tx.objectStore(collection).delete(scopeRange(key))
+        else if (key === PRICES_KEY) tx.objectStore(PRICES).clear()
+        else tx.objectStore(KV).delete(key)
+      }
+      await completed(tx)
+    },
+
+    async estimate() {
+      const est = await navigator.storage?.estimate?.()
+      return { usedBytes: est?.usage ?? 0, quotaBytes: est?.quota }
+    },
+  }
+}
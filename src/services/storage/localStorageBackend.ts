@@ -0,0 +1,46 @@
+import type { StorageBackend } from './backend'
+
+/** 多数浏览器给每个源约 5MB 的 LocalStorage */
+export const LOCAL_STORAGE_QUOTA = 5 * 1024 * 1024
+
+/** 读出 LocalStorage 中属于本应用的键(无法解析的值跳过) */
+export function readLocalStorage(isOwnKey: (key: string) => boolean): Map<string, unknown> {
+  const data = new Map<string, unknown>()
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i)
+    if (!key || !isOwnKey(key)) continue
+    try {
+      data.set(key, JSON.parse(localStorage.getItem(key) ?? 'null'))
+    } catch {
+      // 损坏的值按缺失处理
+    }
+  }
+  return data
+}
+
+/** 回退后端:整键 JSON 写入 LocalStorage,用于不支持 IndexedDB 的环境(如部分隐私模式) */
+export function createLocalStorageBackend(isOwnKey: (key: string) => boolean): StorageBackend {
+  return {
+    kind: 'localStorage',
+
+    loadAll: async () => readLocalStorage(isOwnKey),
+
+    async write(entries) {
+      for (const [key, value] of entries) localStorage.setItem(key, JSON.stringify(value))
+    },
+
+    async remove(keys) {
+      keys.forEach((k) => localStorage.removeItem(k))
+    },
+
+    async estimate() {
+      let chars = 0
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i) ?? ''
+        chars += key.length + (localStorage.getItem(key)?.length ?? 0)
+      }
+      // LocalStorage 按 UTF-16 计,每字符 2 字节
+      return { usedBytes: chars * 2, quotaBytes: LOCAL_STORAGE_QUOTA }
+    },
+  }
+}
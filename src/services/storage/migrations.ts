@@ -0,0 +1,120 @@
+import { migrateDateToOccurredAt } from '../../utils/time'
+
+/**
+ * 持久化数据的架构版本。每次改变已保存数据的结构时:版本号加一,
+ * 并在 MIGRATIONS 中登记把上一版数据升级到新版的步骤(附单元测试)。
+ *
+ * - v1:只有资产与流水,流水用 date(YYYY-MM-DD)记日期
+ * - v2:增加策略、策略流水、定投规则、目标与待确认流水
+ * - v3:流水改用 occurredAt 时间戳,并记录 updatedAt
+ * - v4:行情源配置统一放在 settings.priceProviders
+ * - v5:周期规则的 skipWeekends 改名为 skipHolidays(并按 settings.holidays 跳过节假日)
+ */
+export const SCHEMA_VERSION = 5
+
+/**
+ * 一份待升级的数据,字段同导出文件(assets、transactions、settings……)。
+ * 启动时按账本逐个组装;共用数据(行情、汇率、设置)只随第一个账本出现。
+ * 各步骤只处理存在的字段,缺失的字段原样保留。
+ */
+export type SchemaData = Record<string, unknown>
+
+export interface Migration {
+  description: string
+  migrate: (data: SchemaData) => SchemaData
+}
+
+type LegacyRule = { skipWeekends?: boolean; skipHolidays?: boolean }
+
+type LegacyTx = { date?: string; occurredAt?: number; createdAt?: number; updatedAt?: number }
+
+function withoutLegacyDate<T extends { date?: string }>(tx: T): Omit<T, 'date'> {
+  const rest = { ...tx }
+  delete rest.date
+  return rest
+}
+
+function occurredAtOf(tx: LegacyTx): number {
+  return tx.occurredAt ?? (tx.date ? migrateDateToOccurredAt(tx.date) : tx.createdAt ?? Date.now())
+}
+
+/** 对数组字段逐项变换;字段缺失或不是数组时不动 */
+function mapField<T>(data: SchemaData, field: string, fn: (item: T) => T): SchemaData {
+  const list = data[field]
+  return Array.isArray(list) ? { ...data, [field]: (list as T[]).map(fn) } : data
+}
+
+const V2_FIELDS = ['strategies', 'strategyTransactions', 'recurringRules', 'goals', 'pendingTxs']
+
+/** 架构迁移登记表:键为升级后的版本号,按版本依次执行 */
+export const MIGRATIONS: Record<number, Migration> = {
+  2: {
+    description: '补齐策略、定投规则、目标等 v2 字段',
+    migrate: (data) => {
+      const next = { ...data }
+      for (const field of V2_FIELDS) if (!Array.isArray(next[field])) next[field] = []
+      return next
+    },
+  },
+  3: {
+    description: '流水日期 date 改为 occurredAt 时间戳',
+    migrate: (data) => {
+      const txs = mapField<LegacyTx>(data, 'transactions', (tx) => {
+        const occurredAt = occurredAtOf(tx)
+        return { ...withoutLegacyDate(tx), occurredAt, updatedAt: tx.updatedAt ?? tx.createdAt ?? occurredAt }
+      })
+      return mapField<LegacyTx>(txs, 'strategyTransactions', (tx) => ({
+        ...withoutLegacyDate(tx),
+        occurredAt: occurredAtOf(tx),
+      }))
+    },
+  },
+  4: {
+    description: 'settings.finnhubKey 迁入 settings.priceProviders.finnhub.apiKey',
+    migrate: (data) => {
+      const settings = data.settings as
+        | { finnhubKey?: string; priceProviders?: Record<string, Record<string, string>> }
+        | undefined
+      if (!settings || !('finnhubKey' in settings)) return data
+      const { finnhubKey, ...rest } = settings
+      const finnhub = rest.priceProviders?.finnhub
+      if (finnhubKey && !finnhub?.apiKey) {
+        rest.priceProviders = { ...rest.priceProviders, finnhub: { ...finnhub, apiKey: finnhubKey } }
+      }
+      return { ...data, settings: rest }
+    },
+  },
+  5: {
+    description: '周期规则 skipWeekends 改名为 skipHolidays',
+    migrate: (data) =>
+      mapField<LegacyRule>(data, 'recurringRules', (rule) => {
+        if (!('skipWeekends' in rule)) return rule
+        const { skipWeekends, ...rest } = rule
+        return skipWeekends ? { ...rest, skipHolidays: true } : rest
+      }),
+  },
+}
+
+/**
+ * 把 from 版本的数据依次升级到 SCHEMA_VERSION,返回新数据与实际执行的版本号。
+ * 来自更新版本的数据无法降级,直接报错。
+ */
+export function migrateData(data: SchemaData, from: number): { data: SchemaData; applied: number[] } {
+  if (from > SCHEMA_VERSION) {
+    throw new Error(`数据来自更新版本的 PanassetLite(架构 v${from}),当前版本只支持到 v${SCHEMA_VERSION},请先升级应用`)
+  }
+  const applied: number[] = []
+  let next = data
+  for (let v = Math.max(from, 1) + 1; v <= SCHEMA_VERSION; v++) {
+    const step = MIGRATIONS[v]
+    if (!step) throw new Error(`缺少 v${v} 的数据迁移步骤`)
+    next = step.migrate(next)
+    applied.push(v)
+  }
+  return { data: next, applied }
+}
+
+/** 导出文件的架构版本;早期文件没有 version 字段,按 v1 处理 */
+export function fileSchemaVersion(data: { version?: unknown }): number {
+  return typeof data.version === 'number' && Number.isInteger(data.version) && data.version > 0 ? data.version : 1
+}
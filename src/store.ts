@@ -1,27 +1,123 @@
 import { create } from 'zustand'
-import type { Asset, PriceHistory, Settings, Strategy, StrategyTransaction, Transaction } from './types'
+import type {
+  Asset,
+  FxHistory,
+  FxRateMeta,
+  Goal,
+  PendingTx,
+  PriceHistory,
+  QuoteTimes,
+  RecurringRule,
+  RefreshLogEntry,
+  RefreshSourceResult,
+  RefreshTrigger,
+  Settings,
+  Strategy,
+  StrategyTransaction,
+  Transaction,
+  TransferDraft,
+  Workspace,
+} from './types'
+import { DEFAULT_WORKSPACE_ID, HOUSEHOLD_VIEW_ID } from './types'
 import { buildDemoData } from './demoData'
+import { buildTransferLegs, isTransferOut } from './engine/transfer'
+import { dueLoanTxs } from './engine/loan'
+import { dueOccurrences, occurrenceDraft, type RecurringDraft } from './engine/recurring'
+import { mergeBooks } from './engine/household'
+import { backfillStart, mergePriceHistory, needsEarlierBackfill } from './engine/backfill'
+import {
+  inBackoff,
+  mergeRefresh,
+  updateBackoff,
+  type BackoffState,
+  type RefreshFetched,
+  type RefreshState,
+} from './engine/refreshPolicy'
+import { rebaseFx, rebaseGoal, usedCurrencies } from './engine/fx'
+import { setDisplayCurrency } from './utils/format'
 import { StorageService, today, uid } from './services/storage'
-import { fetchCryptoPrices, fetchFxRates, fetchStockPrices } from './services/prices'
+import type { BookSection, ImportOptions, ParsedImport, SectionDiff } from './services/storage'
+import {
+  appendFxPoints,
+  assetsByProvider,
+  backfillPrices,
+  canBackfill,
+  fetchFxRates,
+  fetchQuotes,
+  type BackfillProgress,
+  type FxUpdateResult,
+  type PriceUpdateResult,
+} from './services/prices'
+import { getPriceProvider } from './services/priceProviders'
 
 interface AppState {
   assets: Asset[]
   transactions: Transaction[]
   prices: PriceHistory
+  fxHistory: FxHistory
   settings: Settings
   refreshing: boolean
+  /** 历史行情回填进度;未在回填时为 null */
+  backfill: BackfillProgress | null
+  /** 回填进行中时又请求回填的资产,当前任务结束后接着回填 */
+  backfillQueue: string[]
+  /** 后台自动回填(新建资产、补记更早的流水、排队的回填)的结果摘要;关闭后为 null */
+  backfillNotice: string | null
+  quoteTimes: QuoteTimes
+  /** 最近的刷新记录,新的在前 */
+  refreshLog: RefreshLogEntry[]
+  /** 各来源(汇率 'fx' 或行情源 id)的失败退避,仅在本次会话内有效 */
+  backoff: Record<string, BackoffState>
+  /** 最近一次写入失败的提示(如存储空间已满、只读视图下的修改);未出错时为 null */
+  storageError: string | null
   strategies: Strategy[]
   strategyTransactions: StrategyTransaction[]
-
-  addAsset: (a: Omit<Asset, 'id' | 'createdAt'>) => Asset
+  recurringRules: RecurringRule[]
+  goals: Goal[]
+  pendingTxs: PendingTx[]
+  workspaces: Workspace[]
+  /** 当前账本 id;HOUSEHOLD_VIEW_ID 为家庭合并视图(只读) */
+  workspaceId: string
+  /** 家庭合并视图:不能记账或修改资产、策略、目标与周期规则 */
+  readOnly: boolean
+
+  /** 只读视图下不写入,返回 null */
+  addAsset: (a: Omit<Asset, 'id' | 'createdAt'>) => Asset | null
   updateAsset: (id: string, patch: Partial<Asset>) => void
   deleteAsset: (id: string) => void
 
   addTransaction: (t: Omit<Transaction, 'id' | 'createdAt' | 'updatedAt'>) => void
   updateTransaction: (id: string, t: Omit<Transaction, 'id' | 'createdAt' | 'updatedAt'>) => void
+  /** 删除流水;划转流水连同另一笔一起删除 */
   deleteTransaction: (id: string) => void
-
-  addStrategy: (s: Omit<Strategy, 'id' | 'createdAt'>) => Strategy
+  /** 划转:一次写入共用 transferId 的转出、转入两笔流水 */
+  addTransfer: (t: TransferDraft) => void
+  updateTransfer: (transferId: string, t: TransferDraft) => void
+  /** 按贷款计划补记已到期的还款(及月供扣款);返回新增流水条数 */
+  recordDueLoanTxs: (assetIds: string[]) => number
+  /** 批量写入流水(如对账单导入),一次落盘;返回写入条数 */
+  importTransactions: (txs: Omit<Transaction, 'id' | 'createdAt' | 'updatedAt'>[]) => number
+
+  addRecurringRule: (r: Omit<RecurringRule, 'id' | 'createdAt'>) => void
+  updateRecurringRule: (id: string, patch: Partial<Omit<RecurringRule, 'id' | 'createdAt'>>) => void
+  deleteRecurringRule: (id: string) => void
+  /** 把各规则新到期的发生加入待确认队列;返回新增条数 */
+  materializeRecurring: () => number
+  /** 确认一次发生并记为流水;draft 为用户修改后的流水,缺省按模板 */
+  confirmOccurrence: (ruleId: string, occurredAt: number, draft?: RecurringDraft) => void
+  skipOccurrence: (ruleId: string, occurredAt: number) => void
+  /** 把一组流水草稿加入待确认队列(如再平衡建议) */
+  queuePendingTxs: (txs: PendingTx['tx'][], source: string) => void
+  /** 确认待确认流水并记入;tx 为用户修改后的流水,缺省按草稿 */
+  confirmPendingTx: (id: string, tx?: PendingTx['tx']) => void
+  discardPendingTx: (id: string) => void
+
+  addGoal: (g: Omit<Goal, 'id' | 'createdAt'>) => void
+  updateGoal: (id: string, patch: Partial<Omit<Goal, 'id' | 'createdAt'>>) => void
+  deleteGoal: (id: string) => void
+
+  /** 只读视图下不写入,返回 null */
+  addStrategy: (s: Omit<Strategy, 'id' | 'createdAt'>) => Strategy | null
   updateStrategy: (id: string, patch: Partial<Omit<Strategy, 'id' | 'createdAt'>>) => void
   deleteStrategy: (id: string) => void
 
@@ -30,41 +126,212 @@ interface AppState {
   deleteStrategyTransaction: (id: string) => void
 
   saveSettings: (patch: Partial<Settings>) => void
-  /** 仅刷新 CoinGecko 加密货币行情,写入 panasset.prices */
-  refreshCryptoPrices: () => Promise<string>
-  refreshPrices: () => Promise<string>
-  importData: (json: string) => { assets: number; transactions: number }
+  /** 更换基准货币:行情库、汇率表与各账本的目标金额一并换算 */
+  changeBaseCurrency: (currency: string) => void
+  /** 手动保存当前汇率,并记为今日的历史汇率点 */
+  saveFxRates: (fxRates: Record<string, number>) => void
+  /** 刷新用到的各币种汇率(及已有汇率表中的币种),追加今日历史汇率点 */
+  refreshFxRates: () => Promise<FxUpdateResult>
+  /** 仅刷新某个行情源的资产行情,写入 panasset.prices */
+  refreshProviderPrices: (providerId: string) => Promise<string>
+  /** 刷新汇率与全部行情源;自动触发时跳过处于退避期的来源。返回结果摘要 */
+  refreshPrices: (trigger?: RefreshTrigger) => Promise<string>
+  clearRefreshLog: () => void
+  dismissStorageError: () => void
+  dismissBackfillNotice: () => void
+  /** 写入价格点(基准货币),覆盖同日已有的点 */
+  upsertPricePoints: (symbol: string, points: Record<string, number>) => void
+  deletePricePoints: (symbol: string, dates: string[]) => void
+  /** 删除某个行情代码的全部价格点 */
+  deletePriceSymbol: (symbol: string) => void
+  /**
+   * 为资产回填从最早一笔流水至今的历史日线(只补缺失日期),返回结果摘要。
+   * 已有回填在进行时排入队列,当前任务结束后接着回填,结果写入 backfillNotice。
+   */
+  backfillPrices: (assetIds: string[]) => Promise<string>
+  /** 按所选方式导入已校验的备份文件,返回各段的变化 */
+  importData: (parsed: ParsedImport, options: ImportOptions) => Record<BookSection, SectionDiff>
   loadDemo: () => boolean
   clearAll: () => void
   reload: () => void
+
+  /** 切换账本或家庭合并视图,并补记该账本已到期的贷款还款与周期发生 */
+  switchWorkspace: (id: string) => void
+  addWorkspace: (name: string) => Workspace
+  renameWorkspace: (id: string, name: string) => void
+  /** 删除账本及其全部数据;默认账本不可删除 */
+  deleteWorkspace: (id: string) => void
+}
+
+/** 需要汇率的币种:资产与策略用到的,加上汇率表里已有的 */
+function fxCurrencies({ assets, strategies, settings }: Pick<AppState, 'assets' | 'strategies' | 'settings'>) {
+  const used = usedCurrencies(assets, strategies, settings.baseCurrency)
+  return [...new Set([...used, ...Object.keys(settings.fxRates)])]
+}
+
+const REFRESH_LOG_LIMIT = 50
+
+function toSourceResults(results: PriceUpdateResult[]): RefreshSourceResult[] {
+  return results.map(({ provider, updated, failed, error }) => ({
+    source: provider.id,
+    label: provider.label,
+    updated: updated.length,
+    failed,
+    error,
+  }))
+}
+
+/** 各来源的刷新结果摘要 */
+function refreshMessages(results: RefreshSourceResult[]): string[] {
+  const messages: string[] = []
+  for (const { label, updated, failed, error, skipped } of results) {
+    if (skipped) messages.push(`${label} 连续失败,稍后重试`)
+    if (error) messages.push(`${label} 失败:${error}`)
+    if (updated) messages.push(`${label} ${updated} 项已更新`)
+    if (failed.length) messages.push(`${label} 失败:${failed.join(', ')}`)
+  }
+  return messages
+}
+
+/** 记一次刷新:写入刷新记录(保留最近 50 条)与报价时间,并更新各来源的退避状态 */
+function recordRefresh(
+  state: Pick<AppState, 'refreshLog' | 'quoteTimes' | 'backoff'>,
+  trigger: RefreshTrigger,
+  results: RefreshSourceResult[],
+  updatedKeys: string[],
+) {
+  const now = Date.now()
+  const refreshLog = [{ id: uid(), at: now, trigger, results }, ...state.refreshLog].slice(0, REFRESH_LOG_LIMIT)
+  const quoteTimes = { ...state.quoteTimes }
+  for (const key of updatedKeys) quoteTimes[key] = now
+  StorageService.saveRefreshLog(refreshLog)
+  StorageService.saveQuoteTimes(quoteTimes)
+  return { refreshLog, quoteTimes, backoff: updateBackoff(state.backoff, results, now) }
+}
+
+/** 尚未取到任何数据的刷新结果 */
+function emptyFetch(baseCurrency: string): RefreshFetched {
+  return { baseCurrency, quotes: {}, fxRates: {}, fxMeta: {}, fxPoints: {} }
+}
+
+/** 汇率刷新结果中本次实际取到的币种 */
+function fetchedFx(r: FxUpdateResult): Pick<RefreshFetched, 'fxRates' | 'fxMeta'> {
+  const fxMeta: Record<string, FxRateMeta> = {}
+  for (const c of r.updated) if (r.fxMeta[c]) fxMeta[c] = r.fxMeta[c]
+  return { fxRates: Object.fromEntries(r.updated.map((c) => [c, r.fxRates[c]])), fxMeta }
+}
+
+function saveRefreshState({ prices, fxHistory, settings }: RefreshState) {
+  StorageService.savePrices(prices)
+  StorageService.saveFxHistory(fxHistory)
+  StorageService.saveSettings(settings)
+}
+
+/** 在后台回填(不等待),结果摘要写入 backfillNotice */
+function autoBackfill(assetIds: string[]) {
+  void useStore
+    .getState()
+    .backfillPrices(assetIds)
+    .then((backfillNotice) => useStore.setState({ backfillNotice }))
+}
+
+/** 新记入的流水早于资产已回填的范围时,往前补回填(见 needsEarlierBackfill) */
+function backfillEarlier(before: Transaction[], added: Transaction[]) {
+  const { assets, prices } = useStore.getState()
+  const ids = assets
+    .filter((a) => canBackfill(a))
+    .filter((a) => added.some((t) => t.assetId === a.id && needsEarlierBackfill(a, before, prices, t.occurredAt)))
+    .map((a) => a.id)
+  if (ids.length > 0) autoBackfill(ids)
+}
+
+const READ_ONLY_MESSAGE = '家庭合并视图为只读,请切换到具体账本后再修改'
+
+/** 只读视图下拦下写账本数据的操作并提示;返回 true 表示已拦下 */
+function blockedReadOnly(): boolean {
+  if (!useStore.getState().readOnly) return false
+  useStore.setState({ storageError: READ_ONLY_MESSAGE })
+  return true
+}
+
+/** 当前账本的数据;家庭合并视图下为各账本按持有比例合并后的资产与策略 */
+function loadWorkspaceData() {
+  const workspaceId = StorageService.activeWorkspaceId()
+  const workspaces = StorageService.loadWorkspaces()
+  const shared = {
+    workspaces,
+    workspaceId,
+    readOnly: workspaceId === HOUSEHOLD_VIEW_ID,
+    prices: StorageService.loadPrices(),
+    fxHistory: StorageService.loadFxHistory(),
+    settings: StorageService.loadSettings(),
+    quoteTimes: StorageService.loadQuoteTimes(),
+    refreshLog: StorageService.loadRefreshLog(),
+  }
+  if (workspaceId === HOUSEHOLD_VIEW_ID) {
+    return {
+      ...shared,
+      ...mergeBooks(workspaces.map((w) => StorageService.loadBook(w))),
+      recurringRules: [],
+      goals: [],
+      pendingTxs: [],
+    }
+  }
+  return {
+    ...shared,
+    assets: StorageService.loadAssets(),
+    transactions: StorageService.loadTransactions(),
+    strategies: StorageService.loadStrategies(),
+    strategyTransactions: StorageService.loadStrategyTransactions(),
+    recurringRules: StorageService.loadRecurringRules(),
+    goals: StorageService.loadGoals(),
+    pendingTxs: StorageService.loadPendingTxs(),
+  }
 }
 
 export const useStore = create<AppState>((set, get) => ({
-  assets: StorageService.loadAssets(),
-  transactions: StorageService.loadTransactions(),
-  prices: StorageService.loadPrices(),
-  settings: StorageService.loadSettings(),
+  ...loadWorkspaceData(),
   refreshing: false,
-  strategies: StorageService.loadStrategies(),
-  strategyTransactions: StorageService.loadStrategyTransactions(),
+  storageError: null,
+  backfill: null,
+  backfillQueue: [],
+  backfillNotice: null,
+  backoff: {},
 
   addAsset(a) {
+    if (blockedReadOnly()) return null
     const asset: Asset = { ...a, id: uid(), createdAt: Date.now() }
     const assets = [...get().assets, asset]
     StorageService.saveAssets(assets)
     set({ assets })
+    // 自动行情的新资产顺带回填历史日线,估值曲线不必在买入价之间插值
+    if (canBackfill(asset)) autoBackfill([asset.id])
     return asset
   },
 
   updateAsset(id, patch) {
+    if (blockedReadOnly()) return
     const assets = get().assets.map((a) => (a.id === id ? { ...a, ...patch } : a))
     StorageService.saveAssets(assets)
     set({ assets })
   },
 
   deleteAsset(id) {
-    const assets = get().assets.filter((a) => a.id !== id)
-    const transactions = get().transactions.filter((t) => t.assetId !== id)
+    if (blockedReadOnly()) return
+    // 以被删资产为结算账户/月供扣款账户的资产解除关联
+    const assets = get()
+      .assets.filter((a) => a.id !== id)
+      .map((a) => (a.settlementAssetId === id ? { ...a, settlementAssetId: undefined } : a))
+      .map((a) =>
+        a.loan?.paymentAssetId === id ? { ...a, loan: { ...a.loan, paymentAssetId: undefined } } : a,
+      )
+    // 与被删资产之间的划转,对方一笔保留为普通存取
+    const orphanTransferIds = new Set(
+      get().transactions.filter((t) => t.assetId === id && t.transferId).map((t) => t.transferId),
+    )
+    const transactions = get()
+      .transactions.filter((t) => t.assetId !== id)
+      .map((t) => (orphanTransferIds.has(t.transferId) ? { ...t, transferId: undefined } : t))
     // 级联删除该资产下的所有策略及其流水
     const deletedStrategyIds = new Set(
       get().strategies.filter((s) => s.assetId === id).map((s) => s.id),
@@ -73,22 +340,38 @@ export const useStore = create<AppState>((set, get) => ({
     const strategyTransactions = get().strategyTransactions.filter(
       (t) => !deletedStrategyIds.has(t.strategyId),
     )
+    // 以该资产或其策略为目标的周期规则一并删除
+    const recurringRules = get().recurringRules.filter(
+      (r) => r.assetId !== id && !(r.strategyId && deletedStrategyIds.has(r.strategyId)),
+    )
+    // 目标中指定的该资产移除,待确认的该资产流水丢弃
+    const goals = get().goals.map((g) =>
+      g.assetIds?.includes(id) ? { ...g, assetIds: g.assetIds.filter((x) => x !== id) } : g,
+    )
+    const pendingTxs = get().pendingTxs.filter((p) => p.tx.assetId !== id)
     StorageService.saveAssets(assets)
     StorageService.saveTransactions(transactions)
     StorageService.saveStrategies(strategies)
     StorageService.saveStrategyTransactions(strategyTransactions)
-    set({ assets, transactions, strategies, strategyTransactions })
+    StorageService.saveRecurringRules(recurringRules)
+    StorageService.saveGoals(goals)
+    StorageService.savePendingTxs(pendingTxs)
+    set({ assets, transactions, strategies, strategyTransactions, recurringRules, goals, pendingTxs })
   },
 
   addTransaction(t) {
+    if (blockedReadOnly()) return
     const now = Date.now()
     const tx: Transaction = { ...t, id: uid(), createdAt: now, updatedAt: now }
-    const transactions = [...get().transactions, tx]
+    const before = get().transactions
+    const transactions = [...before, tx]
     StorageService.saveTransactions(transactions)
     set({ transactions })
+    backfillEarlier(before, [tx])
   },
 
   updateTransaction(id, t) {
+    if (blockedReadOnly()) return
     const transactions = get().transactions.map((tx) =>
       tx.id === id
         ? { ...tx, ...t, id: tx.id, createdAt: tx.createdAt, updatedAt: Date.now() }
@@ -99,12 +382,184 @@ export const useStore = create<AppState>((set, get) => ({
   },
 
   deleteTransaction(id) {
-    const transactions = get().transactions.filter((t) => t.id !== id)
+    if (blockedReadOnly()) return
+    const transferId = get().transactions.find((t) => t.id === id)?.transferId
+    const transactions = get().transactions.filter(
+      (t) => t.id !== id && (!transferId || t.transferId !== transferId),
+    )
+    StorageService.saveTransactions(transactions)
+    set({ transactions })
+  },
+
+  addTransfer(t) {
+    if (blockedReadOnly()) return
+    const now = Date.now()
+    const legs = buildTransferLegs(t, get().assets, uid()).map(
+      (leg): Transaction => ({ ...leg, id: uid(), createdAt: now, updatedAt: now }),
+    )
+    const before = get().transactions
+    const transactions = [...before, ...legs]
+    StorageService.saveTransactions(transactions)
+    set({ transactions })
+    backfillEarlier(before, legs)
+  },
+
+  updateTransfer(transferId, t) {
+    if (blockedReadOnly()) return
+    const now = Date.now()
+    const old = get().transactions.filter((tx) => tx.transferId === transferId)
+    const oldOut = old.find(isTransferOut)
+    const oldIn = old.find((tx) => tx !== oldOut)
+    const [outLeg, inLeg] = buildTransferLegs(t, get().assets, transferId)
+    const legs: Transaction[] = [
+      { ...outLeg, id: oldOut?.id ?? uid(), createdAt: oldOut?.createdAt ?? now, updatedAt: now },
+      { ...inLeg, id: oldIn?.id ?? uid(), createdAt: oldIn?.createdAt ?? now, updatedAt: now },
+    ]
+    const transactions = [
+      ...get().transactions.filter((tx) => tx.transferId !== transferId),
+      ...legs,
+    ]
+    StorageService.saveTransactions(transactions)
+    set({ transactions })
+  },
+
+  recordDueLoanTxs(assetIds) {
+    if (blockedReadOnly()) return 0
+    const now = Date.now()
+    const { assets, transactions } = get()
+    const added = assets
+      .filter((a) => assetIds.includes(a.id))
+      .flatMap((a) => dueLoanTxs(a, assets, transactions, now))
+      .map((t): Transaction => ({ ...t, id: uid(), createdAt: now, updatedAt: now }))
+    if (added.length === 0) return 0
+    const next = [...transactions, ...added]
+    StorageService.saveTransactions(next)
+    set({ transactions: next })
+    return added.length
+  },
+
+  importTransactions(txs) {
+    if (blockedReadOnly()) return 0
+    if (txs.length === 0) return 0
+    const now = Date.now()
+    const added = txs.map((t): Transaction => ({ ...t, id: uid(), createdAt: now, updatedAt: now }))
+    const before = get().transactions
+    const transactions = [...before, ...added]
     StorageService.saveTransactions(transactions)
     set({ transactions })
+    backfillEarlier(before, added)
+    return added.length
+  },
+
+  addRecurringRule(r) {
+    if (blockedReadOnly()) return
+    const rule: RecurringRule = { ...r, id: uid(), createdAt: Date.now() }
+    const recurringRules = [...get().recurringRules, rule]
+    StorageService.saveRecurringRules(recurringRules)
+    set({ recurringRules })
+    get().materializeRecurring()
+  },
+
+  updateRecurringRule(id, patch) {
+    if (blockedReadOnly()) return
+    const recurringRules = get().recurringRules.map((r) => (r.id === id ? { ...r, ...patch } : r))
+    StorageService.saveRecurringRules(recurringRules)
+    set({ recurringRules })
+    get().materializeRecurring()
+  },
+
+  deleteRecurringRule(id) {
+    if (blockedReadOnly()) return
+    const recurringRules = get().recurringRules.filter((r) => r.id !== id)
+    StorageService.saveRecurringRules(recurringRules)
+    set({ recurringRules })
+  },
+
+  materializeRecurring() {
+    if (blockedReadOnly()) return 0
+    const now = Date.now()
+    let added = 0
+    const recurringRules = get().recurringRules.map((r) => {
+      const { occurrences, generatedUntil } = dueOccurrences(r, now, get().settings.holidays)
+      if (occurrences.length === 0) return r
+      added += occurrences.length
+      return { ...r, generatedUntil, pending: [...(r.pending ?? []), ...occurrences] }
+    })
+    if (added === 0) return 0
+    StorageService.saveRecurringRules(recurringRules)
+    set({ recurringRules })
+    return added
+  },
+
+  confirmOccurrence(ruleId, occurredAt, draft) {
+    if (blockedReadOnly()) return
+    const rule = get().recurringRules.find((r) => r.id === ruleId)
+    if (!rule) throw new Error('周期规则不存在')
+    const d = draft ?? occurrenceDraft(rule, occurredAt)
+    if (d.kind === 'strategy') {
+      get().addStrategyTransaction({ ...d.tx, recurringRuleId: ruleId })
+    } else {
+      get().addTransaction({ ...d.tx, recurringRuleId: ruleId })
+    }
+    get().skipOccurrence(ruleId, occurredAt)
+  },
+
+  skipOccurrence(ruleId, occurredAt) {
+    if (blockedReadOnly()) return
+    const recurringRules = get().recurringRules.map((r) =>
+      r.id === ruleId ? { ...r, pending: (r.pending ?? []).filter((t) => t !== occurredAt) } : r,
+    )
+    StorageService.saveRecurringRules(recurringRules)
+    set({ recurringRules })
+  },
+
+  queuePendingTxs(txs, source) {
+    if (blockedReadOnly()) return
+    const now = Date.now()
+    const pendingTxs = [...get().pendingTxs, ...txs.map((tx) => ({ id: uid(), source, tx, createdAt: now }))]
+    StorageService.savePendingTxs(pendingTxs)
+    set({ pendingTxs })
+  },
+
+  confirmPendingTx(id, tx) {
+    if (blockedReadOnly()) return
+    const pending = get().pendingTxs.find((p) => p.id === id)
+    if (!pending) return
+    get().addTransaction(tx ?? pending.tx)
+    get().discardPendingTx(id)
+  },
+
+  discardPendingTx(id) {
+    if (blockedReadOnly()) return
+    const pendingTxs = get().pendingTxs.filter((p) => p.id !== id)
+    StorageService.savePendingTxs(pendingTxs)
+    set({ pendingTxs })
+  },
+
+  addGoal(g) {
+    if (blockedReadOnly()) return
+    const goal: Goal = { ...g, id: uid(), createdAt: Date.now() }
+    const goals = [...get().goals, goal]
+    StorageService.saveGoals(goals)
+    set({ goals })
+  },
+
+  updateGoal(id, patch) {
+    if (blockedReadOnly()) return
+    const goals = get().goals.map((g) => (g.id === id ? { ...g, ...patch } : g))
+    StorageService.saveGoals(goals)
+    set({ goals })
+  },
+
+  deleteGoal(id) {
+    if (blockedReadOnly()) return
+    const goals = get().goals.filter((g) => g.id !== id)
+    StorageService.saveGoals(goals)
+    set({ goals })
   },
 
   addStrategy(s) {
+    if (blockedReadOnly()) return null
     const strategy: Strategy = { ...s, id: uid(), createdAt: Date.now() }
     const strategies = [...get().strategies, strategy]
     StorageService.saveStrategies(strategies)
@@ -113,20 +568,25 @@ export const useStore = create<AppState>((set, get) => ({
   },
 
   updateStrategy(id, patch) {
+    if (blockedReadOnly()) return
     const strategies = get().strategies.map((s) => (s.id === id ? { ...s, ...patch } : s))
     StorageService.saveStrategies(strategies)
     set({ strategies })
   },
 
   deleteStrategy(id) {
+    if (blockedReadOnly()) return
     const strategies = get().strategies.filter((s) => s.id !== id)
     const strategyTransactions = get().strategyTransactions.filter((t) => t.strategyId !== id)
+    const recurringRules = get().recurringRules.filter((r) => r.strategyId !== id)
     StorageService.saveStrategies(strategies)
     StorageService.saveStrategyTransactions(strategyTransactions)
-    set({ strategies, strategyTransactions })
+    StorageService.saveRecurringRules(recurringRules)
+    set({ strategies, strategyTransactions, recurringRules })
   },
 
   addStrategyTransaction(t) {
+    if (blockedReadOnly()) return
     const strategy = get().strategies.find((s) => s.id === t.strategyId)
     if (strategy?.archived) {
       throw new Error('策略已关闭，无法新增流水')
@@ -138,6 +598,7 @@ export const useStore = create<AppState>((set, get) => ({
   },
 
   updateStrategyTransaction(id, t) {
+    if (blockedReadOnly()) return
     const strategyTransactions = get().strategyTransactions.map((tx) =>
       tx.id === id ? { ...tx, ...t, id: tx.id, createdAt: tx.createdAt } : tx,
     )
@@ -146,6 +607,7 @@ export const useStore = create<AppState>((set, get) => ({
   },
 
   deleteStrategyTransaction(id) {
+    if (blockedReadOnly()) return
     const strategyTransactions = get().strategyTransactions.filter((t) => t.id !== id)
     StorageService.saveStrategyTransactions(strategyTransactions)
     set({ strategyTransactions })
@@ -157,85 +619,215 @@ export const useStore = create<AppState>((set, get) => ({
     set({ settings })
   },
 
-  /** 仅刷新 CoinGecko 加密货币行情;同日重复点击覆盖当天价格点 */
-  async refreshCryptoPrices() {
+  changeBaseCurrency(currency) {
+    const { settings, fxHistory: oldFxHistory, prices: oldPrices, workspaces } = get()
+    const { fxRates, fxHistory, prices, factor } = rebaseFx(settings, oldFxHistory, oldPrices, currency)
+    for (const w of workspaces) {
+      StorageService.saveGoals(StorageService.loadGoals(w.id).map((g) => rebaseGoal(g, factor)), w.id)
+    }
+    StorageService.savePrices(prices)
+    StorageService.saveFxHistory(fxHistory)
+    const fxMeta = { ...settings.fxMeta }
+    if (fxMeta[currency]) fxMeta[settings.baseCurrency] = fxMeta[currency]
+    delete fxMeta[currency]
+    StorageService.saveSettings({ ...settings, baseCurrency: currency, fxRates, fxMeta })
+    get().reload()
+  },
+
+  saveFxRates(fxRates) {
+    const fxHistory: FxHistory = JSON.parse(JSON.stringify(get().fxHistory))
+    appendFxPoints(fxHistory, fxRates)
+    const prev = get().settings
+    const now = Date.now()
+    // 改动过的汇率记为手动来源
+    const fxMeta: Record<string, FxRateMeta> = {}
+    for (const c of Object.keys(fxRates)) {
+      const kept = fxRates[c] === prev.fxRates[c] ? prev.fxMeta?.[c] : undefined
+      fxMeta[c] = kept ?? { source: 'manual', updatedAt: now }
+    }
+    const settings = { ...prev, fxRates, fxMeta }
+    StorageService.saveFxHistory(fxHistory)
+    StorageService.saveSettings(settings)
+    set({ fxHistory, settings })
+  },
+
+  async refreshFxRates() {
+    const { settings } = get()
+    const fxPoints: FxHistory = {}
+    let result: FxUpdateResult
+    try {
+      result = await fetchFxRates(settings, fxPoints, fxCurrencies(get()))
+    } catch (e) {
+      const failure = { source: 'fx', label: '汇率', updated: 0, failed: [], error: (e as Error).message }
+      set(recordRefresh(get(), 'manual', [failure], []))
+      throw e
+    }
+    const { updated, failed } = result
+    const merged = mergeRefresh(get(), {
+      ...emptyFetch(settings.baseCurrency),
+      ...fetchedFx(result),
+      fxPoints,
+      fxUpdatedAt: Date.now(),
+    })
+    saveRefreshState(merged)
+    const logged = recordRefresh(get(), 'manual', [{ source: 'fx', label: '汇率', updated: updated.length, failed }], [])
+    set({ ...merged, ...logged })
+    return result
+  },
+
+  /** 仅刷新某个行情源;同日重复点击覆盖当天价格点 */
+  async refreshProviderPrices(providerId) {
     const { assets, settings } = get()
-    const hasCrypto = assets.some(
-      (a) => !a.archived && a.priceSource === 'coingecko' && a.symbol,
-    )
-    if (!hasCrypto) return '当前没有配置 CoinGecko 自动行情的加密资产'
+    const provider = getPriceProvider(providerId)
+    if (!provider) throw new Error(`未知的行情来源:${providerId}`)
+    const hasAssets = assets.some((a) => !a.archived && a.priceSource === providerId && a.symbol)
+    if (!hasAssets) return `当前没有配置 ${provider.label} 自动行情的资产`
 
     set({ refreshing: true })
     try {
-      const prices: PriceHistory = JSON.parse(JSON.stringify(get().prices))
-      const r = await fetchCryptoPrices(assets, prices)
-      const newSettings = { ...settings, pricesUpdatedAt: Date.now() }
-      StorageService.savePrices(prices)
-      StorageService.saveSettings(newSettings)
-      set({ prices, settings: newSettings })
-
-      const messages: string[] = []
-      if (r.updated.length) messages.push(`已更新 ${r.updated.join('、')}`)
-      if (r.failed.length) messages.push(`失败:${r.failed.join('、')}`)
-      return messages.join('; ') || '没有获取到新价格'
+      const fetched = emptyFetch(settings.baseCurrency)
+      const quotes = await fetchQuotes(assets, fetched.quotes, settings, [providerId])
+      const results = toSourceResults(quotes)
+      const merged = mergeRefresh(get(), { ...fetched, pricesUpdatedAt: Date.now() })
+      saveRefreshState(merged)
+      set({ ...merged, ...recordRefresh(get(), 'manual', results, quotes.flatMap((r) => r.updated)) })
+      return refreshMessages(results).join('; ') || '没有获取到新价格'
     } finally {
       set({ refreshing: false })
     }
   },
 
-  /** 一键刷新:汇率 → 加密货币 → 美股(已配置 key 时)。返回结果摘要 */
-  async refreshPrices() {
-    const { assets, settings } = get()
+  /** 一键刷新:汇率 → 各行情源(未配置的行情源报告原因)。返回结果摘要 */
+  async refreshPrices(trigger = 'manual') {
+    const { assets, settings, backoff } = get()
+    const now = Date.now()
+    const skip = (source: string) => trigger !== 'manual' && inBackoff(backoff, source, now)
     set({ refreshing: true })
-    const messages: string[] = []
-    const prices: PriceHistory = JSON.parse(JSON.stringify(get().prices))
-    let newSettings = settings
+    const results: RefreshSourceResult[] = []
+    const updatedKeys: string[] = []
+    // 只收集本次取到的数据,结束后并入最新状态:刷新期间的回填、手动编辑与基准货币更换不被覆盖
+    const fetched = emptyFetch(settings.baseCurrency)
+    let quoteSettings = settings
 
     try {
-      try {
-        const fxRates = await fetchFxRates(settings)
-        newSettings = { ...newSettings, fxRates, fxUpdatedAt: Date.now() }
-        messages.push('汇率已更新')
-      } catch (e) {
-        messages.push(`汇率更新失败:${(e as Error).message}`)
+      const currencies = fxCurrencies(get())
+      if (currencies.length > 0) {
+        const fx: RefreshSourceResult = { source: 'fx', label: '汇率', updated: 0, failed: [] }
+        if (skip('fx')) {
+          fx.skipped = true
+        } else {
+          try {
+            const r = await fetchFxRates(settings, fetched.fxPoints, currencies)
+            Object.assign(fetched, fetchedFx(r), { fxUpdatedAt: Date.now() })
+            quoteSettings = { ...settings, fxRates: r.fxRates }
+            fx.updated = r.updated.length
+            fx.failed = r.failed
+          } catch (e) {
+            fx.error = (e as Error).message
+          }
+        }
+        results.push(fx)
       }
 
-      try {
-        const r = await fetchCryptoPrices(assets, prices)
-        if (r.updated.length) messages.push(`加密货币 ${r.updated.length} 项已更新`)
-        if (r.failed.length) messages.push(`加密货币失败:${r.failed.join(', ')}`)
-      } catch (e) {
-        messages.push(`加密货币行情失败:${(e as Error).message}`)
+      const providers = [...assetsByProvider(assets).keys()]
+      for (const p of providers.filter((p) => skip(p.id))) {
+        results.push({ source: p.id, label: p.label, updated: 0, failed: [], skipped: true })
       }
+      const active = providers.filter((p) => !skip(p.id)).map((p) => p.id)
+      const quotes = active.length > 0 ? await fetchQuotes(assets, fetched.quotes, quoteSettings, active) : []
+      results.push(...toSourceResults(quotes))
+      updatedKeys.push(...quotes.flatMap((r) => r.updated))
+
+      const merged = mergeRefresh(get(), { ...fetched, pricesUpdatedAt: Date.now() })
+      saveRefreshState(merged)
+      set({ ...merged, ...recordRefresh(get(), trigger, results, updatedKeys) })
+    } finally {
+      set({ refreshing: false })
+    }
+    return refreshMessages(results).join(';') || '没有需要自动更新的资产'
+  },
 
-      const hasStock = assets.some((a) => a.priceSource === 'finnhub' && !a.archived)
-      if (hasStock) {
-        try {
-          const r = await fetchStockPrices(assets, prices, newSettings)
-          if (r.updated.length) messages.push(`股票 ${r.updated.length} 项已更新`)
-          if (r.failed.length) messages.push(`股票失败:${r.failed.join(', ')}`)
-        } catch (e) {
-          messages.push(`股票行情失败:${(e as Error).message}`)
-        }
-      }
+  clearRefreshLog() {
+    StorageService.saveRefreshLog([])
+    set({ refreshLog: [] })
+  },
+
+  dismissStorageError() {
+    set({ storageError: null })
+  },
+
+  dismissBackfillNotice() {
+    set({ backfillNotice: null })
+  },
+
+  upsertPricePoints(symbol, points) {
+    const prices = { ...get().prices, [symbol]: { ...get().prices[symbol], ...points } }
+    StorageService.savePrices(prices)
+    set({ prices })
+  },
+
+  deletePricePoints(symbol, dates) {
+    const remaining = { ...get().prices[symbol] }
+    for (const d of dates) delete remaining[d]
+    const prices = { ...get().prices, [symbol]: remaining }
+    if (Object.keys(remaining).length === 0) delete prices[symbol]
+    StorageService.savePrices(prices)
+    set({ prices })
+  },
+
+  deletePriceSymbol(symbol) {
+    const prices = { ...get().prices }
+    delete prices[symbol]
+    const quoteTimes = { ...get().quoteTimes }
+    delete quoteTimes[symbol]
+    StorageService.savePrices(prices)
+    StorageService.saveQuoteTimes(quoteTimes)
+    set({ prices, quoteTimes })
+  },
+
+  async backfillPrices(assetIds) {
+    if (get().backfill) {
+      set({ backfillQueue: [...new Set([...get().backfillQueue, ...assetIds])] })
+      return '已有回填任务在进行,完成后接着回填'
+    }
+    const { assets, transactions, settings, fxHistory } = get()
+    const now = Date.now()
+    const tasks = assets
+      .filter((a) => assetIds.includes(a.id) && canBackfill(a))
+      .map((asset) => ({ asset, from: backfillStart(asset, transactions, now) }))
+    if (tasks.length === 0) return '所选资产的行情来源不支持历史数据'
 
-      newSettings = { ...newSettings, pricesUpdatedAt: Date.now() }
+    set({ backfill: { done: 0, total: tasks.length } })
+    try {
+      const fetched: PriceHistory = JSON.parse(JSON.stringify(get().prices))
+      const r = await backfillPrices(tasks, fetched, settings, fxHistory, (backfill) => set({ backfill }))
+      // 回填期间行情库可能被刷新,并入最新的行情库而不是整体覆盖
+      const prices: PriceHistory = JSON.parse(JSON.stringify(get().prices))
+      for (const { asset } of tasks) mergePriceHistory(prices, asset.symbol!, fetched[asset.symbol!] ?? {})
       StorageService.savePrices(prices)
-      StorageService.saveSettings(newSettings)
-      set({ prices, settings: newSettings })
+      set({ prices })
+
+      const messages = Object.entries(r.filled).map(([name, n]) => `${name} 补入 ${n} 个价格点`)
+      if (r.failed.length) messages.push(`失败:${r.failed.join('、')}`)
+      return messages.join(';') || '没有可补的价格点'
     } finally {
-      set({ refreshing: false })
+      set({ backfill: null })
+      const queued = get().backfillQueue
+      if (queued.length > 0) {
+        set({ backfillQueue: [] })
+        autoBackfill(queued)
+      }
     }
-    return messages.join(';') || '没有需要自动更新的资产'
   },
 
-  importData(json) {
-    const result = StorageService.importAll(json)
+  importData(parsed, options) {
+    const result = StorageService.applyImport(parsed, options)
     get().reload()
     return result
   },
 
   loadDemo() {
+    if (blockedReadOnly()) return false
     if (get().assets.length > 0 && !confirm('当前已有数据,加载演示数据会覆盖它们。继续?')) return false
     const demo = buildDemoData(get().settings)
     StorageService.saveAssets(demo.assets)
@@ -243,6 +835,9 @@ export const useStore = create<AppState>((set, get) => ({
     StorageService.savePrices(demo.prices)
     StorageService.saveStrategies(demo.strategies)
     StorageService.saveStrategyTransactions(demo.strategyTransactions)
+    StorageService.saveRecurringRules([])
+    StorageService.saveGoals([])
+    StorageService.savePendingTxs([])
     get().reload()
     return true
   },
@@ -253,15 +848,46 @@ export const useStore = create<AppState>((set, get) => ({
   },
 
   reload() {
-    set({
-      assets: StorageService.loadAssets(),
-      transactions: StorageService.loadTransactions(),
-      prices: StorageService.loadPrices(),
-      settings: StorageService.loadSettings(),
-      strategies: StorageService.loadStrategies(),
-      strategyTransactions: StorageService.loadStrategyTransactions(),
-    })
+    set(loadWorkspaceData())
+  },
+
+  switchWorkspace(id) {
+    if (id !== HOUSEHOLD_VIEW_ID && !get().workspaces.some((w) => w.id === id)) throw new Error('账本不存在')
+    StorageService.setActiveWorkspace(id)
+    get().reload()
+    if (id === HOUSEHOLD_VIEW_ID) return
+    const { assets, recordDueLoanTxs, materializeRecurring } = get()
+    recordDueLoanTxs(assets.filter((a) => a.loan?.autoRecord).map((a) => a.id))
+    materializeRecurring()
+  },
+
+  addWorkspace(name) {
+    const workspace: Workspace = { id: uid(), name, createdAt: Date.now() }
+    const workspaces = [...get().workspaces, workspace]
+    StorageService.saveWorkspaces(workspaces)
+    set({ workspaces })
+    return workspace
+  },
+
+  renameWorkspace(id, name) {
+    const workspaces = get().workspaces.map((w) => (w.id === id ? { ...w, name } : w))
+    StorageService.saveWorkspaces(workspaces)
+    set({ workspaces })
+  },
+
+  deleteWorkspace(id) {
+    if (id === DEFAULT_WORKSPACE_ID) throw new Error('默认账本不可删除')
+    const workspaces = get().workspaces.filter((w) => w.id !== id)
+    StorageService.clearWorkspace(id)
+    StorageService.saveWorkspaces(workspaces)
+    set({ workspaces })
+    if (get().workspaceId === id) get().switchWorkspace(DEFAULT_WORKSPACE_ID)
+    else if (get().workspaceId === HOUSEHOLD_VIEW_ID) get().reload()
   },
 }))
 
+setDisplayCurrency(useStore.getState().settings.baseCurrency)
+useStore.subscribe((s) => setDisplayCurrency(s.settings.baseCurrency))
+StorageService.onWriteError((message) => useStore.setState({ storageError: message }))
+
 export { today }
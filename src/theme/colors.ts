@@ -39,6 +39,19 @@ export const assetTypeHex = {
   other: palette.slate400,
 } as const
 
+/** 无固定配色的分类(自定义分组等)按序循环取色 */
+export const categoricalHex = [
+  palette.blue500,
+  palette.green600,
+  palette.pink400,
+  palette.violet400,
+  palette.amber500,
+  palette.orange400,
+  palette.emerald400,
+  palette.indigo600,
+  palette.slate400,
+] as const
+
 /** Tailwind 语义色 class(盈亏、状态、交互) */
 export const color = {
   pnlUp: 'text-red-600',
@@ -31,7 +31,53 @@ export function isQuantityBased(type: AssetType): boolean {
   return type === 'stock' || type === 'fund' || type === 'crypto'
 }
 
-export type PriceSource = 'manual' | 'coingecko' | 'finnhub'
+/** 行情来源:'manual' 手动估值,或已注册行情源的 id(见 services/priceProviders) */
+export type PriceSource = string
+
+/** 数量型资产的持仓成本计算方法 */
+export type CostBasisMethod = 'fifo' | 'average'
+
+export const COST_BASIS_METHOD_LABEL: Record<CostBasisMethod, string> = {
+  fifo: '先进先出(FIFO)',
+  average: '加权平均',
+}
+
+export const DEFAULT_COST_BASIS_METHOD: CostBasisMethod = 'fifo'
+
+/** 贷款还款方式 */
+export type RepaymentMethod = 'annuity' | 'linear'
+
+export const REPAYMENT_METHOD_LABEL: Record<RepaymentMethod, string> = {
+  annuity: '等额本息',
+  linear: '等额本金',
+}
+
+/** 提前还款后的处理方式 */
+export type PrepaymentMode = 'shorten' | 'lower'
+
+export const PREPAYMENT_MODE_LABEL: Record<PrepaymentMode, string> = {
+  shorten: '月供不变,缩短期限',
+  lower: '期限不变,减少月供',
+}
+
+/** 贷款条款(负债资产):据此生成还款计划并按期记账 */
+export interface LoanTerms {
+  /** 贷款本金(资产币种) */
+  principal: number
+  /** 年利率,0.039 表示 3.9% */
+  annualRate: number
+  /** 期限(月) */
+  termMonths: number
+  method: RepaymentMethod
+  /** 放款日 YYYY-MM-DD;首期在次月还款日 */
+  startDate: string
+  /** 每月还款日 1–31;当月没有该日时取月末 */
+  repaymentDay: number
+  /** 月供扣款账户(同币种金额型资产);记账时同时记一笔整笔月供的取出 */
+  paymentAssetId?: string
+  /** 打开应用时自动记入已到期的还款 */
+  autoRecord?: boolean
+}
 
 export interface Asset {
   id: string
@@ -39,11 +85,23 @@ export interface Asset {
   type: AssetType
   /** 计价货币,如 CNY / USD / HKD */
   currency: string
-  /** 行情代码:coingecko id(如 bitcoin)或股票 ticker(如 AAPL) */
+  /** 行情代码,格式由行情源决定:如 coingecko id(bitcoin)、股票 ticker(AAPL) */
   symbol?: string
   priceSource: PriceSource
+  /** 持仓成本计算方法(quantity 型);未设置时按 DEFAULT_COST_BASIS_METHOD */
+  costBasisMethod?: CostBasisMethod
+  /** 结算账户(quantity 型):买卖与现金分红自动从该现金资产扣款/入账 */
+  settlementAssetId?: string
+  /** 贷款条款(debt) */
+  loan?: LoanTerms
   /** 平台/渠道,如 支付宝、招商银行、币安 */
   platform?: string
+  /** 标签(可多个),如 退休、教育 */
+  tags?: string[]
+  /** 自定义维度:维度名 -> 取值,如 { 归属: '配偶', 地区: '香港' } */
+  dimensions?: Record<string, string>
+  /** 家庭合并视图中计入的持有比例,0.5 表示 50%;未设置为 100% */
+  ownership?: number
   note?: string
   archived?: boolean
   createdAt: number
@@ -59,6 +117,9 @@ export type TxType =
   | 'VALUATION'  // 手动估值:value = 当日总市值
   | 'BORROW'     // 负债增加:amount
   | 'REPAY'      // 还款:amount
+  | 'SPLIT'        // 拆股/合股:ratio
+  | 'BONUS_SHARES' // 送股/转增:quantity,零成本
+  | 'DIVIDEND'     // 分红:amount;红利再投资时另有 quantity
 
 export const TX_TYPE_LABEL: Record<TxType, string> = {
   BUY: '买入',
@@ -69,6 +130,16 @@ export const TX_TYPE_LABEL: Record<TxType, string> = {
   VALUATION: '估值更新',
   BORROW: '借入',
   REPAY: '还款',
+  SPLIT: '拆股/合股',
+  BONUS_SHARES: '送股/转增',
+  DIVIDEND: '分红',
+}
+
+/** 该类资产可记的流水类型 */
+export function txTypesFor(type: AssetType): TxType[] {
+  if (type === 'debt') return ['BORROW', 'REPAY', 'VALUATION']
+  if (isQuantityBased(type)) return ['BUY', 'SELL', 'DIVIDEND', 'SPLIT', 'BONUS_SHARES', 'VALUATION']
+  return ['DEPOSIT', 'WITHDRAW', 'INCOME', 'VALUATION']
 }
 
 /** 单条资产流水（用户文案「流水」；store 字段名 transactions，页面路由 id flows） */
@@ -85,24 +156,284 @@ export interface Transaction {
   amount?: number
   /** VALUATION:当日总市值(资产币种) */
   value?: number
+  /** SPLIT:拆分后份额 / 拆分前份额(1 拆 10 为 10,10 合 1 为 0.1) */
+  ratio?: number
+  /** BUY/SELL:手续费/佣金(资产币种);买入计入成本,卖出从所得中扣除 */
+  fee?: number
+  /** BUY/SELL:税费,如印花税(资产币种);口径同 fee */
+  tax?: number
   note?: string
+  /** 划转:同一次资金划转的转出(WITHDRAW)与转入(DEPOSIT/REPAY)两笔共用 */
+  transferId?: string
+  /** 按贷款计划记账生成:第几期(0 为放款) */
+  loanPeriod?: number
+  /** 按贷款计划记账生成的扣款账户月供:所属贷款资产 */
+  loanAssetId?: string
+  /** 由周期规则生成(确认后写入) */
+  recurringRuleId?: string
   createdAt: number
   /** 系统维护：最后添加或修改时间戳 */
   updatedAt: number
 }
 
+/** 划转表单数据:从一个金额型资产转出、转入另一个金额型资产或负债 */
+export interface TransferDraft {
+  fromAssetId: string
+  toAssetId: string
+  occurredAt: number
+  /** 转出金额(转出资产币种) */
+  amount: number
+  /** 转入金额(转入资产币种);同币种时等于 amount */
+  toAmount: number
+  note?: string
+}
+
+// ── 周期规则 ────────────────────────────────────────────────────────────────
+
+export type RecurrenceCadence = 'daily' | 'weekly' | 'monthly' | 'custom'
+
+export const RECURRENCE_CADENCE_LABEL: Record<RecurrenceCadence, string> = {
+  daily: '每天',
+  weekly: '每周',
+  monthly: '每月',
+  custom: '每隔 N 天',
+}
+
+/** 周期规则的流水模板;BUY 只填 amount(定投金额)时,确认时再补数量与单价 */
+export type RecurringTxTemplate = Pick<Transaction, 'type' | 'amount' | 'quantity' | 'price' | 'note'>
+
+/** 周期规则:按频率生成待确认的流水(工资、定投、房租、月供等) */
+export interface RecurringRule {
+  id: string
+  name: string
+  /** 目标资产;与 strategyId 二选一 */
+  assetId?: string
+  /** 目标策略:生成策略流水 */
+  strategyId?: string
+  template: RecurringTxTemplate
+  cadence: RecurrenceCadence
+  /** custom:间隔天数 */
+  intervalDays?: number
+  /** 首次发生日 YYYY-MM-DD;每周/每月按该日的星期/日期重复 */
+  startDate: string
+  /** 截止日 YYYY-MM-DD(含);不填则一直重复 */
+  endDate?: string
+  /** 遇周末或节假日(Settings.holidays)顺延到下一个工作日 */
+  skipHolidays?: boolean
+  paused?: boolean
+  /** 已生成到的名义发生日(含);之后到期的才会再生成 */
+  generatedUntil?: string
+  /** 待确认的发生时刻(毫秒时间戳) */
+  pending?: number[]
+  createdAt: number
+}
+
+/** 待确认的一次性流水(如再平衡建议);确认后才记入 */
+export interface PendingTx {
+  id: string
+  /** 来源说明,如「再平衡」 */
+  source: string
+  tx: Omit<Transaction, 'id' | 'createdAt' | 'updatedAt'>
+  createdAt: number
+}
+
+// ── 对账单导入 ──────────────────────────────────────────────────────────────
+
+/** 对账单中可映射到流水的字段 */
+export type StatementField = 'date' | 'type' | 'amount' | 'quantity' | 'price' | 'fee' | 'note'
+
+export const STATEMENT_FIELD_LABEL: Record<StatementField, string> = {
+  date: '日期',
+  type: '类型',
+  amount: '金额',
+  quantity: '数量',
+  price: '单价',
+  fee: '手续费',
+  note: '备注',
+}
+
+/** 日期列的写法:年月日(2024-06-28、20240628)、日月年(28/06/2024)或月日年(06/28/2024) */
+export type StatementDateFormat = 'ymd' | 'dmy' | 'mdy'
+
+export const STATEMENT_DATE_FORMAT_LABEL: Record<StatementDateFormat, string> = {
+  ymd: '年-月-日',
+  dmy: '日/月/年',
+  mdy: '月/日/年',
+}
+
+/** 流水类型的判断方式 */
+export type StatementTypeRule =
+  /** 按金额正负:正数为 positive,负数为 negative */
+  | { kind: 'sign'; positive: TxType; negative: TxType }
+  /** 按类型列的文字:包含关键词即为对应类型,均不匹配时用 fallback */
+  | { kind: 'keyword'; keywords: Array<{ keyword: string; type: TxType }>; fallback?: TxType }
+  /** 全部为同一类型 */
+  | { kind: 'fixed'; type: TxType }
+
+export const STATEMENT_TYPE_RULE_LABEL: Record<StatementTypeRule['kind'], string> = {
+  sign: '按金额正负',
+  keyword: '按类型列关键词',
+  fixed: '全部同一类型',
+}
+
+/** 一家银行/券商对账单的列映射,保存后可重复使用 */
+export interface StatementMapping {
+  id: string
+  name: string
+  /** 首行是否为表头 */
+  hasHeader: boolean
+  /** 表头之前要跳过的行数(银行导出常带几行账户信息) */
+  skipRows: number
+  /** 字段 -> 列号(从 0 起) */
+  columns: Partial<Record<StatementField, number>>
+  dateFormat: StatementDateFormat
+  typeRule: StatementTypeRule
+  /** 金额取反(如支出记为正数的账单) */
+  negateAmount?: boolean
+  createdAt: number
+}
+
+// ── 目标配置 ────────────────────────────────────────────────────────────────
+
+/** 目标配置中的一组:按类别归组,assetIds 指定的资产优先归入本组 */
+export interface AllocationBucket {
+  id: string
+  name: string
+  assetTypes: AssetType[]
+  assetIds?: string[]
+  /** 目标占比(小数,占正资产合计) */
+  target: number
+  /** 容忍带(± 小数);不填取 Settings.allocationTolerance */
+  tolerance?: number
+}
+
+/** 默认容忍带 ±5% */
+export const DEFAULT_ALLOCATION_TOLERANCE = 0.05
+
+// ── 目标 ────────────────────────────────────────────────────────────────────
+
+/** 目标统计范围:全部净资产 / 指定类别 / 指定资产;负债按负值计入 */
+export type GoalScope = 'netWorth' | 'types' | 'assets'
+
+export const GOAL_SCOPE_LABEL: Record<GoalScope, string> = {
+  netWorth: '全部净资产',
+  types: '按类别',
+  assets: '指定资产',
+}
+
+/** 目标:如「应急金 10 万(现金类)」「2035 年净资产 500 万」 */
+export interface Goal {
+  id: string
+  name: string
+  /** 目标金额(CNY) */
+  targetCNY: number
+  /** 期望达成日 YYYY-MM-DD;不填则只预测达成日期 */
+  deadline?: string
+  scope: GoalScope
+  /** scope=types:计入的资产类别 */
+  assetTypes?: AssetType[]
+  /** scope=assets:计入的资产 */
+  assetIds?: string[]
+  /** 计划每月投入(CNY);不填则按近一年的实际净投入预测 */
+  monthlyContribution?: number
+  createdAt: number
+}
+
+// ── 账本 ────────────────────────────────────────────────────────────────────
+
+/** 账本:家庭成员或共同账户各一本,资产与流水分开存储;行情、汇率与设置共用 */
+export interface Workspace {
+  id: string
+  name: string
+  createdAt: number
+}
+
+/** 默认账本沿用原有存储键,升级前的数据即属于它 */
+export const DEFAULT_WORKSPACE_ID = 'default'
+
+/** 家庭合并视图:各账本按资产持有比例汇总,只读 */
+export const HOUSEHOLD_VIEW_ID = 'household'
+
 // ── 行情与汇率 ──────────────────────────────────────────────────────────────
 
-/** 已观测的价格点:symbol -> date(YYYY-MM-DD) -> 单价(CNY) */
+/** 已观测的价格点:symbol -> date(YYYY-MM-DD) -> 单价(基准货币) */
 export type PriceHistory = Record<string, Record<string, number>>
 
+/** 已观测的汇率点:currency -> date(YYYY-MM-DD) -> 1 单位外币 = ? 基准货币 */
+export type FxHistory = Record<string, Record<string, number>>
+
+/** 汇率来源:手动填写、Frankfurter(欧洲央行)法币汇率、CoinGecko 稳定币报价 */
+export type FxSource = 'manual' | 'frankfurter' | 'coingecko'
+
+export const FX_SOURCE_LABEL: Record<FxSource, string> = {
+  manual: '手动',
+  frankfurter: '欧洲央行',
+  coingecko: 'CoinGecko',
+}
+
+/** 单个币种当前汇率的来源与更新时间 */
+export interface FxRateMeta {
+  source: FxSource
+  updatedAt: number
+}
+
+/** 行情库键 -> 最近一次成功获取报价的时刻(ms),用于显示报价时效 */
+export type QuoteTimes = Record<string, number>
+
+/** 后台自动刷新策略 */
+export interface AutoRefreshSettings {
+  enabled: boolean
+  /** 行情早于此(分钟)视为过期:打开应用时即刷新,资产表中标黄 */
+  staleMinutes: number
+  /** 页面可见时的定时刷新间隔(分钟) */
+  intervalMinutes: number
+}
+
+export const DEFAULT_AUTO_REFRESH: AutoRefreshSettings = { enabled: true, staleMinutes: 360, intervalMinutes: 60 }
+
+export type RefreshTrigger = 'manual' | 'open' | 'interval'
+
+export const REFRESH_TRIGGER_LABEL: Record<RefreshTrigger, string> = {
+  manual: '手动',
+  open: '打开应用',
+  interval: '定时',
+}
+
+/** 一次刷新中单个来源(汇率或某个行情源)的结果 */
+export interface RefreshSourceResult {
+  /** 'fx' 或行情源 id */
+  source: string
+  label: string
+  updated: number
+  failed: string[]
+  error?: string
+  /** 处于失败退避期,本次跳过 */
+  skipped?: boolean
+}
+
+export interface RefreshLogEntry {
+  id: string
+  at: number
+  trigger: RefreshTrigger
+  results: RefreshSourceResult[]
+}
+
+/** 可选的基准货币 */
+export const BASE_CURRENCIES = ['CNY', 'USD', 'HKD', 'EUR'] as const
+
 export interface Settings {
-  /** 基准货币(目前固定 CNY,展示用) */
+  /**
+   * 基准货币:汇总、图表、AI 简报与导出均以此计价。
+   * 更换时行情库、汇率表与目标金额一并换算(见 rebaseFx)。
+   */
   baseCurrency: string
-  /** 1 单位外币 = ? CNY */
+  /** 当前汇率:1 单位外币 = ? 基准货币;历史流水按 FxHistory 折算,无历史点时回落到此 */
   fxRates: Record<string, number>
+  /** 各币种汇率的来源与更新时间 */
+  fxMeta?: Record<string, FxRateMeta>
   fxUpdatedAt?: number
-  finnhubKey?: string
+  /** 各行情源的配置(API key 等):providerId -> key -> value */
+  priceProviders?: Record<string, Record<string, string>>
   /** OpenAI 兼容接口配置(可选,用于 AI 助手;默认 DeepSeek) */
   llm: { baseUrl: string; apiKey: string; model: string }
   /** NL 记一笔时是否将资产名称列表发给 LLM 以辅助匹配;关闭后仅发送用户原文 */
@@ -113,6 +444,16 @@ export interface Settings {
    */
   llmContextPrivacy?: 'summary' | 'detailed'
   pricesUpdatedAt?: number
+  /** 后台自动刷新;缺省按 DEFAULT_AUTO_REFRESH */
+  autoRefresh?: AutoRefreshSettings
+  /** 目标配置;为空时不做偏离分析 */
+  allocationBuckets?: AllocationBucket[]
+  /** 目标配置的默认容忍带(± 小数) */
+  allocationTolerance?: number
+  /** 已保存的对账单列映射 */
+  statementMappings?: StatementMapping[]
+  /** 节假日 YYYY-MM-DD(升序);周期规则开启顺延时与周末一起跳过 */
+  holidays?: string[]
 }
 
 export const DEFAULT_SETTINGS: Settings = {
@@ -124,6 +465,7 @@ export const DEFAULT_SETTINGS: Settings = {
 }
 
 // ── 引擎输出 ────────────────────────────────────────────────────────────────
+// 以 CNY 结尾的字段均为基准货币金额(Settings.baseCurrency),字段名沿用最初只支持人民币时的命名。
 
 export interface AssetSnapshot {
   asset: Asset
@@ -139,6 +481,14 @@ export interface AssetSnapshot {
   netInvestedCNY: number
   /** 累计盈亏(CNY) = 市值 + 累计流出 - 累计流入 */
   totalPnlCNY: number
+  /** 累计已付手续费与税费(CNY,quantity 型,按流水当日汇率) */
+  feesPaidCNY?: number
+  /** 持仓均价(资产币种,quantity 型);空仓时为 null */
+  avgCost?: number | null
+  /** 已实现盈亏(CNY,quantity 型):卖出所得 - 按成本法出库的成本 */
+  realizedPnlCNY?: number
+  /** 浮动盈亏(CNY,quantity 型):当前市值 - 剩余持仓成本 */
+  unrealizedPnlCNY?: number
   /** 年化收益率(XIRR),无法计算时为 null */
   xirr: number | null
   /** 最近一次估值/价格更新时刻（毫秒时间戳） */
@@ -150,7 +500,7 @@ export interface AssetSnapshot {
 /** 单资产流水账本行(由事件重放推导) */
 export interface TxLedgerRow {
   tx: Transaction
-  /** 发生额(原币种);VALUATION 为当日总市值 */
+  /** 发生额(原币种);BUY/SELL 为含手续费与税费的实付/实收,VALUATION 为当日总市值 */
   amountNative: number | null
   /** 该笔事件后的余额/持仓(原币种: 份额或金额) */
   balanceAfter: number
@@ -159,6 +509,12 @@ export interface TxLedgerRow {
   intervalGainNative?: number | null
   /** 相对上一笔的区间年化(小数);不可算时为 null */
   intervalAnnualized?: number | null
+  /** quantity 型:本笔之后的持仓均价(资产币种);空仓为 null */
+  avgCostAfter?: number | null
+  /** quantity 型 SELL / DIVIDEND:本笔已实现盈亏(CNY) */
+  realizedPnlCNY?: number | null
+  /** 结算账户上由证券流水派生的资金变动:指向来源流水(不可直接编辑) */
+  settlementOf?: Transaction
 }
 
 /** 区间收益(本周/本月/近30天/今年以来/近一年) */
@@ -182,6 +538,8 @@ export interface PortfolioSummary {
   totalPnlCNY: number
   /** 累计收益率 = totalPnlCNY / 净投入合计；净投入不足时为 null */
   totalPnlRatio: number | null
+  /** 累计已付手续费与税费(CNY) */
+  totalFeesCNY: number
   byType: { type: AssetType; valueCNY: number }[]
   snapshots: AssetSnapshot[]
   /** 净值历史(按日) */
@@ -190,6 +548,59 @@ export interface PortfolioSummary {
   periodReturns: PeriodReturn[]
 }
 
+/** 近一年的增长情况,用于目标预测 */
+export interface GoalGrowth {
+  /** 月化收益率(已剔除存取本金) */
+  monthlyRate: number
+  /** 月均净投入(CNY),含还贷等使净值变化的存取 */
+  monthlyInflowCNY: number
+}
+
+/** 某组的实际占比与目标的偏离;bucket 为 null 表示未归入任何组的资产 */
+export interface AllocationDrift {
+  bucket: AllocationBucket | null
+  valueCNY: number
+  actual: number
+  target: number
+  /** 实际 − 目标 */
+  drift: number
+  tolerance: number
+  outOfBand: boolean
+}
+
+/** 再平衡建议:单项资产的调整 */
+export interface RebalanceProposal {
+  asset: Asset
+  bucketId: string
+  /** 调整金额(CNY),正数为买入/转入 */
+  amountCNY: number
+  tx: Omit<Transaction, 'id' | 'createdAt' | 'updatedAt'>
+}
+
+export type GoalStatus = 'achieved' | 'onTrack' | 'offTrack' | 'unknown'
+
+export const GOAL_STATUS_LABEL: Record<GoalStatus, string> = {
+  achieved: '已达成',
+  onTrack: '进度正常',
+  offTrack: '进度落后',
+  unknown: '数据不足',
+}
+
+export interface GoalProgress {
+  goal: Goal
+  currentCNY: number
+  /** 完成度 0–1 */
+  ratio: number
+  growth: GoalGrowth | null
+  /** 实际用于预测的每月投入(CNY) */
+  monthlyContributionCNY: number
+  /** 预测达成时刻;已达成为当前时刻,五十年内无法达成为 null */
+  projectedAt: number | null
+  /** 按期达成所需的每月投入(CNY);无期限或已达成时为 null */
+  requiredMonthlyCNY: number | null
+  status: GoalStatus
+}
+
 // ── 策略跟踪 ────────────────────────────────────────────────────────────────
 // 策略是独立于资产流水的「收益分析透镜」，不参与净资产汇总。
 // 一个资产可以有零到多个策略，用于单独跟踪资产内部分资金的收益。
@@ -240,6 +651,8 @@ export interface StrategyTransaction {
   /** VALUATION：策略当日总市值（策略币种） */
   value?: number
   note?: string
+  /** 由周期规则生成(确认后写入) */
+  recurringRuleId?: string
   createdAt: number
 }
 
@@ -1,8 +1,22 @@
 import { isUpdateStale, pnlTextCls, staleTextCls } from '../theme/colors'
 
-/** 金额格式化:¥1,234,567 */
+const CURRENCY_SYMBOL: Record<string, string> = { CNY: '¥', USD: '$', HKD: 'HK$', EUR: '€' }
+
+let baseCurrency = 'CNY'
+
+/** 金额展示所用的基准货币;store 载入或修改设置时同步 */
+export function setDisplayCurrency(code: string) {
+  baseCurrency = code
+}
+
+/** 货币符号,缺省为当前基准货币;未收录的币种用代码 */
+export function currencySymbol(code = baseCurrency): string {
+  return CURRENCY_SYMBOL[code] ?? `${code} `
+}
+
+/** 金额格式化(基准货币):¥1,234,567 */
 export function fmtMoney(n: number, digits = 0): string {
-  return `¥${n.toLocaleString('zh-CN', {
+  return `${currencySymbol()}${n.toLocaleString('zh-CN', {
     minimumFractionDigits: digits,
     maximumFractionDigits: digits,
   })}`
@@ -44,6 +58,27 @@ export function fmtDateTime(ts: number): string {
   })
 }
 
+/** 距今时长:刚刚 / N 分钟前 / N 小时前 / N 天前 */
+export function fmtAge(ts: number, now: number): string {
+  const minutes = Math.max(0, Math.floor((now - ts) / 60_000))
+  if (minutes < 1) return '刚刚'
+  if (minutes < 60) return `${minutes} 分钟前`
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)} 小时前`
+  return `${Math.floor(minutes / (24 * 60))} 天前`
+}
+
+/** 存储大小:B / KB / MB / GB */
+export function fmtBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB']
+  let n = bytes
+  let i = 0
+  while (n >= 1024 && i < units.length - 1) {
+    n /= 1024
+    i++
+  }
+  return `${i === 0 ? n : n.toFixed(n < 10 ? 1 : 0)} ${units[i]}`
+}
+
 /** 汇率输入展示:截断至最多 4 位小数,去掉尾随零 */
 export function formatFxRate(n: number, digits = 4): string {
   return parseFloat(n.toFixed(digits)).toString()
@@ -2,6 +2,6 @@ import { defineConfig } from 'vitest/config'
 
 export default defineConfig({
   test: {
-    include: ['src/engine/__tests__/**/*.test.ts'],
+    include: ['src/**/__tests__/**/*.test.ts'],
   },
 })